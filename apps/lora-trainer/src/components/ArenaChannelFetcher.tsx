@@ -1,11 +1,14 @@
 import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { useForm, useWatch } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
 import { View, Alert } from "reshaped";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useAccount } from "wagmi";
 import { isAddressEqual, type Address } from "viem";
 import { trpc } from "@/utils/trpc";
-import { downloadBase64File } from "@/utils/downloadBase64File";
+import { authClient } from "@/lib/auth-client";
+import { downloadImageZip } from "@/utils/downloadImageZip";
+import { buildCaptions, suggestCaption } from "@/utils/captions";
 import { ADMIN_WALLET, QA_WALLETS } from "@/lib/constants";
 import ChannelUrlForm from "./ChannelUrlForm";
 import ArenaChannelResults from "./ArenaChannelResults";
@@ -13,7 +16,12 @@ import Sidebar from "./Sidebar";
 import TrainingProgress from "./TrainingProgress";
 import PaymentGate from "./PaymentGate";
 import ImageSlideshow from "./ImageSlideshow";
-import { formSchema, type FormData } from "./types";
+import {
+  formSchema,
+  getArenaImageUrl,
+  DEFAULT_TRAINER_ID,
+  type FormData,
+} from "./types";
 
 export type TrainingPhase =
   | "idle"
@@ -35,6 +43,7 @@ export default function ArenaChannelFetcher() {
 
   // Connected wallet for privilege checks
   const { address: connectedAddress } = useAccount();
+  const { data: session } = authClient.useSession();
 
   // Determine if current wallet is exempt from payment
   const isExempt = useMemo(() => {
@@ -66,8 +75,14 @@ export default function ArenaChannelFetcher() {
     defaultValues: {
       url: "",
       selectedImages: [],
+      captions: {},
+      captionTriggerWord: true,
       triggerWord: "",
+      trainer: DEFAULT_TRAINER_ID,
       trainingSteps: 1000,
+      trainerParams: {},
+      cropMode: "smart",
+      outputFormat: "jpeg",
     },
   });
 
@@ -78,74 +93,76 @@ export default function ArenaChannelFetcher() {
     { enabled: !!submittedUrl },
   );
 
-  // --- Training polling queries ---
-  const isPolling =
+  // --- Training progress stream ---
+  const isWatching =
     !!trainingRequestId &&
     trainingPhase !== "completed" &&
     trainingPhase !== "failed" &&
     trainingPhase !== "idle";
 
-  const trainingStatus = trpc.fal.getTrainingStatus.useQuery(
-    { requestId: trainingRequestId! },
+  const [trainingLogs, setTrainingLogs] = useState<{ message: string }[]>([]);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [loraWeightsUrl, setLoraWeightsUrl] = useState<string | null>(null);
+
+  // Each training starts from an empty view; the stream replays a snapshot
+  useEffect(() => {
+    setTrainingLogs([]);
+    setQueuePosition(null);
+    setLoraWeightsUrl(null);
+  }, [trainingRequestId]);
+
+  // Status, queue position and log lines pushed over SSE until the row settles
+  trpc.fal.watchTraining.useSubscription(
+    { requestId: trainingRequestId ?? "" },
     {
-      enabled: isPolling,
-      refetchInterval: isPolling ? 2000 : false,
-      refetchIntervalInBackground: true,
+      enabled: isWatching,
+      onData: (event) => {
+        if (event.type === "status") {
+          setQueuePosition(event.queuePosition);
+          if (event.status === "IN_QUEUE") setTrainingPhase("queued");
+          if (event.status === "IN_PROGRESS") setTrainingPhase("training");
+        } else if (event.type === "logs") {
+          setTrainingLogs((prev) => [
+            ...prev.slice(0, event.from),
+            ...event.lines,
+          ]);
+        } else if (event.status === "completed") {
+          setLoraWeightsUrl(event.loraWeightsUrl);
+          setTrainingPhase("completed");
+        } else {
+          setTrainingPhase("failed");
+          setTrainingError(event.errorMessage ?? `Training ${event.status}.`);
+        }
+      },
+      onError: (error) => {
+        setTrainingPhase("failed");
+        setTrainingError(error.message);
+      },
     },
   );
 
-  // Derive phase from status response
-  useEffect(() => {
-    if (!trainingStatus.data) return;
-    const s = trainingStatus.data.status;
-    if (s === "IN_QUEUE") {
-      setTrainingPhase("queued");
-    } else if (s === "IN_PROGRESS") {
-      setTrainingPhase("training");
-    } else if (s === "COMPLETED") {
-      setTrainingPhase("completed");
-    }
-  }, [trainingStatus.data]);
-
-  useEffect(() => {
-    if (trainingStatus.error) {
-      setTrainingPhase("failed");
-      setTrainingError(trainingStatus.error.message);
-    }
-  }, [trainingStatus.error]);
+  // --- Reattach to in-flight trainings after a reload ---
+  // Request IDs the user has dismissed or cancelled this session, so a row
+  // that is still `pending` server-side isn't picked up again.
+  const dismissedRequestIdsRef = useRef(new Set<string>());
 
-  const trainingResult = trpc.fal.getTrainingResult.useQuery(
-    { requestId: trainingRequestId! },
-    { enabled: trainingPhase === "completed" && !!trainingRequestId },
+  const pendingTrainings = trpc.lora.mine.useQuery(
+    { status: "pending", limit: 5 },
+    { enabled: !!session && trainingPhase === "idle" },
   );
 
-  // --- Auto-save completed LoRA to gallery ---
-  const hasSavedRef = useRef(false);
-  const completeLoraM = trpc.lora.complete.useMutation();
-
   useEffect(() => {
-    if (
-      trainingPhase === "completed" &&
-      trainingResult.data?.data &&
-      trainingRequestId &&
-      !hasSavedRef.current
-    ) {
-      const loraFile = trainingResult.data.data.diffusers_lora_file as
-        | { url?: string }
-        | undefined;
-      const configFile = trainingResult.data.data.config_file as
-        | { url?: string }
-        | undefined;
-      const loraUrl = loraFile?.url ?? configFile?.url;
-      if (loraUrl) {
-        hasSavedRef.current = true;
-        completeLoraM.mutate({
-          requestId: trainingRequestId,
-          loraWeightsUrl: loraUrl,
-        });
-      }
+    if (trainingPhase !== "idle" || !pendingTrainings.data) return;
+    const pending = pendingTrainings.data.items.find(
+      (item) => !dismissedRequestIdsRef.current.has(item.requestId),
+    );
+    if (pending) {
+      // The watchTraining subscription above takes over from here
+      setTrainingRequestId(pending.requestId);
+      setTrainingLoraId(pending.id);
+      setTrainingPhase("queued");
     }
-  }, [trainingPhase, trainingResult.data, trainingRequestId]);
+  }, [pendingTrainings.data, trainingPhase]);
 
   // --- Mutations ---
   const trainLoraMutation = trpc.fal.trainLora.useMutation({
@@ -175,10 +192,11 @@ export default function ArenaChannelFetcher() {
     },
   });
 
-  const downloadZipMutation = trpc.fal.downloadImageZip.useMutation({
-    onSuccess: (data) => {
-      downloadBase64File(data.data, data.filename, "application/zip");
-    },
+  const analyzeMutation = trpc.fal.analyzeDataset.useMutation();
+
+  // Streamed by /api/fal/image-zip into the browser's own downloads
+  const downloadZipMutation = useMutation({
+    mutationFn: downloadImageZip,
     onError: (error) => console.error("Download failed:", error),
   });
 
@@ -188,6 +206,30 @@ export default function ArenaChannelFetcher() {
     }
   };
 
+  // Captions prefilled from each block's title and description
+  const suggestedCaptions = useMemo(
+    () =>
+      Object.fromEntries(
+        (data?.images ?? []).flatMap((image) => {
+          const url = getArenaImageUrl(image);
+          return url ? [[url, suggestCaption(image)]] : [];
+        }),
+      ),
+    [data],
+  );
+
+  const captionsFor = useCallback(
+    (formData: FormData) =>
+      buildCaptions({
+        imageUrls: formData.selectedImages,
+        edited: formData.captions,
+        suggested: suggestedCaptions,
+        triggerWord: formData.triggerWord,
+        withTriggerWord: formData.captionTriggerWord,
+      }),
+    [suggestedCaptions],
+  );
+
   const handleImageSelection = (imageUrl: string, isSelected: boolean) => {
     const currentSelected = selectedImages || [];
     if (isSelected) {
@@ -202,7 +244,10 @@ export default function ArenaChannelFetcher() {
     }
   };
 
-  const handleTrainLora = useCallback(async (paymentTxHash?: string) => {
+  const handleTrainLora = useCallback(async (
+    paymentTxHash?: string,
+    paymentQuoteId?: string,
+  ) => {
     const formData = getValues();
     if (!formData.selectedImages || formData.selectedImages.length === 0) {
       alert("Please select at least one image to train the LoRA");
@@ -220,50 +265,106 @@ export default function ArenaChannelFetcher() {
     }
 
     // Reset state for new run
+    analyzeMutation.reset();
     setTrainingPhase("preparing");
     setTrainingError(null);
     setTrainingRequestId(null);
 
+    // Remember which are.na block each selected image came from
+    const arenaBlocks = (data?.images ?? []).flatMap((image) => {
+      const url = getArenaImageUrl(image);
+      return url && formData.selectedImages.includes(url)
+        ? [{ url, blockId: image.id, title: image.title ?? null }]
+        : [];
+    });
+
     try {
       await trainLoraMutation.mutateAsync({
         imageUrls: formData.selectedImages,
+        arenaBlocks,
+        captions: captionsFor(formData),
         triggerWord: formData.triggerWord,
+        trainer: formData.trainer,
         steps: formData.trainingSteps,
-        ...(paymentTxHash ? { paymentTxHash } : {}),
+        trainerParams: formData.trainerParams,
+        preprocessing: { crop: formData.cropMode, format: formData.outputFormat },
+        ...(paymentTxHash ? { paymentTxHash, paymentQuoteId } : {}),
         ...(submittedUrl ? { arenaChannelUrl: submittedUrl } : {}),
         ...(data?.channel.title ? { arenaChannelTitle: data.channel.title } : {}),
       });
     } catch {
       // error handled in onError callback
     }
-  }, [getValues, isExempt, trainLoraMutation, submittedUrl, data]);
+  }, [
+    getValues,
+    isExempt,
+    trainLoraMutation,
+    analyzeMutation,
+    submittedUrl,
+    data,
+    captionsFor,
+  ]);
+
+  // "Train LoRA" first checks the selection; the checklist then continues
+  // to payment (or straight to training for exempt wallets)
+  const handleReviewDataset = useCallback(() => {
+    const formData = getValues();
+    if (!formData.selectedImages || formData.selectedImages.length === 0) {
+      alert("Please select at least one image to train the LoRA");
+      return;
+    }
+    if (!formData.triggerWord.trim()) {
+      alert("Please enter a trigger word for the LoRA");
+      return;
+    }
+    analyzeMutation.mutate({
+      imageUrls: formData.selectedImages,
+      trainer: formData.trainer,
+    });
+  }, [getValues, analyzeMutation]);
+
+  // A report only applies to the selection and trainer it was made for
+  const trainer = useWatch({ control, name: "trainer" });
+  const datasetReport =
+    analyzeMutation.data &&
+    analyzeMutation.variables?.trainer === trainer &&
+    analyzeMutation.variables.imageUrls.join("\n") === selectedImages.join("\n")
+      ? analyzeMutation.data
+      : null;
 
   const handlePaymentComplete = useCallback(
-    (txHash: string) => {
+    (txHash: string, quoteId: string) => {
       setShowPaymentGate(false);
-      // Trigger training with the payment tx hash
-      handleTrainLora(txHash);
+      // Trigger training with the payment tx hash and the quote it paid
+      handleTrainLora(txHash, quoteId);
     },
     [handleTrainLora],
   );
 
   const handleResetTraining = useCallback(() => {
+    if (trainingRequestId) {
+      dismissedRequestIdsRef.current.add(trainingRequestId);
+    }
     // Reset training state
     setTrainingRequestId(null);
     setTrainingLoraId(null);
     setTrainingPhase("idle");
     setTrainingError(null);
-    hasSavedRef.current = false;
+    analyzeMutation.reset();
     // Reset arena / form state
     setSubmittedUrl("");
     setValue("url", "");
     setValue("selectedImages", []);
+    setValue("captions", {});
     setValue("triggerWord", "");
+    setValue("trainer", DEFAULT_TRAINER_ID);
     setValue("trainingSteps", 1000);
-  }, [setValue]);
+    setValue("trainerParams", {});
+  }, [setValue, trainingRequestId, analyzeMutation]);
 
   const handleCancelTraining = useCallback(() => {
     if (trainingRequestId) {
+      dismissedRequestIdsRef.current.add(trainingRequestId);
       cancelTrainingMutation.mutate({ requestId: trainingRequestId });
     } else {
       // No request ID yet (still in preparing phase) — just reset locally
@@ -285,6 +386,9 @@ export default function ArenaChannelFetcher() {
       await downloadZipMutation.mutateAsync({
         imageUrls: formData.selectedImages,
         triggerWord: formData.triggerWord,
+        captions: captionsFor(formData),
+        trainer: formData.trainer,
+        preprocessing: { crop: formData.cropMode, format: formData.outputFormat },
       });
     } catch (error) {
       console.error("Download error:", error);
@@ -366,10 +470,20 @@ export default function ArenaChannelFetcher() {
               <Sidebar
                 selectedImages={selectedImages}
                 control={control}
-                onTrain={handleTrainLora}
+                setValue={setValue}
+                suggestedCaptions={suggestedCaptions}
+                onRemoveImage={(url) => handleImageSelection(url, false)}
+                datasetReport={datasetReport}
+                datasetError={analyzeMutation.error?.message ?? null}
+                isExempt={isExempt}
+                onTrain={handleReviewDataset}
+                onContinueTraining={() => handleTrainLora()}
+                onDismissReport={() => analyzeMutation.reset()}
                 onDownload={handleDownloadZip}
                 downloadMutation={downloadZipMutation}
-                isSubmitting={trainLoraMutation.isPending}
+                isSubmitting={
+                  trainLoraMutation.isPending || analyzeMutation.isPending
+                }
                 isTrainingActive={isTrainingActive}
               />
             </View.Item>
@@ -379,11 +493,12 @@ export default function ArenaChannelFetcher() {
 
       <TrainingProgress
         phase={trainingPhase}
-        logs={trainingStatus.data?.logs ?? []}
-        result={trainingResult.data?.data ?? null}
+        logs={trainingLogs}
+        loraWeightsUrl={loraWeightsUrl}
         error={trainingError}
-        queuePosition={trainingStatus.data?.queuePosition ?? undefined}
+        queuePosition={queuePosition ?? undefined}
         loraId={trainingLoraId}
+        trainingSet={trainLoraMutation.data?.trainingSet ?? null}
         onReset={handleResetTraining}
         onCancel={handleCancelTraining}
         isCancelling={cancelTrainingMutation.isPending}
@@ -1,6 +1,6 @@
 import { View, Text, Link } from "reshaped";
 import ImageCard from "./ImageCard";
-import type { ArenaImage } from "./types";
+import { getArenaImageUrl, type ArenaImage } from "./types";
 
 interface ArenaChannelResultsProps {
   channel: { title: string; slug: string; url: string };
@@ -17,19 +17,11 @@ export default function ArenaChannelResults({
   selectedImages,
   onImageSelect,
 }: ArenaChannelResultsProps) {
-  const getImageUrl = (image: ArenaImage) => {
-    return (
-      image.image?.original.url ||
-      image.image?.large.url ||
-      image.image?.display.url
-    );
-  };
-
   function renderImageGrid() {
     return (
       <View direction="row" wrap gap={2}>
         {images.map((image) => {
-          const imageUrl = getImageUrl(image);
+          const imageUrl = getArenaImageUrl(image);
           if (!imageUrl) return null;
 
           const isSelected = selectedImages?.includes(imageUrl) || false;
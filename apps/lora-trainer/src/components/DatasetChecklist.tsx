@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { View, Text, Button, Card } from "reshaped";
+import type { RouterOutputs } from "@/utils/trpc";
+
+export type DatasetReport = RouterOutputs["fal"]["analyzeDataset"];
+
+const STATUS_MARK = {
+  pass: { mark: "✓", color: "positive" },
+  warn: { mark: "!", color: "warning" },
+  fail: { mark: "✕", color: "critical" },
+} as const;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface DatasetChecklistProps {
+  report: DatasetReport;
+  /** Open the payment gate (or start training for exempt wallets) */
+  onContinue: () => void;
+  onDismiss: () => void;
+  continueLabel: string;
+}
+
+/**
+ * Quality checklist for the selected images, shown after "Train LoRA" and
+ * before any payment. Warnings can be accepted; a failed check blocks.
+ */
+export default function DatasetChecklist({
+  report,
+  onContinue,
+  onDismiss,
+  continueLabel,
+}: DatasetChecklistProps) {
+  const [showImages, setShowImages] = useState(false);
+  const blocked = report.checks.some((check) => check.status === "fail");
+  const duplicateOf = new Map(
+    report.duplicates.flatMap((group, index) =>
+      group.map((url) => [url, index + 1] as const),
+    ),
+  );
+
+  return (
+    <Card padding={4}>
+      <View gap={3}>
+        <Text variant="body-2" weight="medium">
+          Dataset check
+        </Text>
+
+        {report.checks.map((check) => (
+          <View key={check.id} direction="row" gap={2} wrap={false}>
+            <Text
+              variant="body-2"
+              weight="bold"
+              color={STATUS_MARK[check.status].color}
+            >
+              {STATUS_MARK[check.status].mark}
+            </Text>
+            <View.Item grow>
+              <Text variant="body-2">{check.label}</Text>
+              <Text variant="caption-1" color="neutral-faded">
+                {check.detail}
+              </Text>
+            </View.Item>
+          </View>
+        ))}
+
+        <View direction="row" align="center" gap={2}>
+          <Text variant="caption-1" color="neutral-faded">
+            {report.images.length} image
+            {report.images.length !== 1 ? "s" : ""} checked
+          </Text>
+          <Button
+            variant="ghost"
+            size="small"
+            onClick={() => setShowImages((v) => !v)}
+          >
+            {showImages ? "Hide" : "Details"}
+          </Button>
+        </View>
+
+        {showImages && (
+          <View
+            gap={2}
+            attributes={{ style: { maxHeight: 180, overflowY: "auto" } }}
+          >
+            {report.images.map((image) => (
+              <View key={image.url} direction="row" align="center" gap={2}>
+                <img
+                  src={image.url}
+                  alt=""
+                  style={{
+                    width: 32,
+                    height: 32,
+                    objectFit: "cover",
+                    borderRadius: 4,
+                  }}
+                />
+                <View.Item grow>
+                  {image.error ? (
+                    <Text variant="caption-1" color="critical">
+                      {image.error}
+                    </Text>
+                  ) : (
+                    <Text variant="caption-1" color="neutral-faded">
+                      {image.width}×{image.height}{" "}
+                      {image.format?.toUpperCase()}
+                      {image.bytes !== null && ` (${formatBytes(image.bytes)})`}
+                      {duplicateOf.has(image.url) &&
+                        ` · duplicate group ${duplicateOf.get(image.url)}`}
+                    </Text>
+                  )}
+                </View.Item>
+              </View>
+            ))}
+          </View>
+        )}
+
+        <View direction="row" gap={2}>
+          <View.Item grow>
+            <Button
+              color="positive"
+              fullWidth
+              onClick={onContinue}
+              disabled={blocked}
+            >
+              {continueLabel}
+            </Button>
+          </View.Item>
+          <Button variant="outline" onClick={onDismiss}>
+            Back
+          </Button>
+        </View>
+      </View>
+    </Card>
+  );
+}
@@ -1,9 +1,39 @@
-import { useState, useCallback, useEffect } from "react";
-import { View, Text, Button, Modal, TextField, Alert, Loader } from "reshaped";
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  View,
+  Text,
+  Button,
+  Modal,
+  TextField,
+  Alert,
+  Loader,
+  Select,
+  Slider,
+  FormControl,
+} from "reshaped";
 import { trpc } from "@/utils/trpc";
 import { authClient } from "@/lib/auth-client";
 import { useAuthModal } from "./AuthModalProvider";
-import GeneratedImageGrid from "./GeneratedImageGrid";
+import GenerationJobRow, { type GenerationJob } from "./GenerationJobRow";
+import GenerationSettings, {
+  defaultGenerationSettings,
+  type GenerationSettingsValue,
+} from "./GenerationSettings";
+import LoraMixPicker, { type LoraMixEntry } from "./LoraMixPicker";
+import SourceImagePicker, { type PickedSource } from "./SourceImagePicker";
+import MaskEditor from "./MaskEditor";
+
+type Mode = "text" | "image" | "inpaint";
+
+const JOB_POLL_MS = 3000;
+
+function isInFlight(job: GenerationJob) {
+  return (
+    job.status === "submitting" ||
+    job.status === "queued" ||
+    job.status === "running"
+  );
+}
 
 interface GenerateModalProps {
   active: boolean;
@@ -19,10 +49,14 @@ export default function GenerateModal({
   triggerWord,
 }: GenerateModalProps) {
   const [prompt, setPrompt] = useState("");
-  const [generatedImages, setGeneratedImages] = useState<
-    { id: string; imageUrl: string; prompt: string; createdAt: string }[]
-  >([]);
-  const [nsfwWarning, setNsfwWarning] = useState(false);
+  const [settings, setSettings] = useState<GenerationSettingsValue | null>(
+    null,
+  );
+  const [showSettings, setShowSettings] = useState(false);
+  const [mix, setMix] = useState<LoraMixEntry[]>([]);
+  const [mode, setMode] = useState<Mode>("text");
+  const [source, setSource] = useState<PickedSource | null>(null);
+  const [mask, setMask] = useState<string | null>(null);
 
   const { data: session } = authClient.useSession();
   const { openAuthModal } = useAuthModal();
@@ -33,62 +67,101 @@ export default function GenerateModal({
     enabled: active && !!session,
   });
 
-  const generateMutation = trpc.generate.images.useMutation({
-    onSuccess: (data) => {
-      const now = new Date().toISOString();
-      setGeneratedImages(
-        data.images.map((img) => ({
-          id: img.id,
-          imageUrl: img.imageUrl,
-          prompt: data.prompt,
-          createdAt: now,
-        })),
-      );
-      setNsfwWarning(data.nsfwFiltered);
-      // Invalidate queries so gallery refreshes
+  const optionsQuery = trpc.generate.options.useQuery(undefined, {
+    enabled: active,
+    staleTime: Infinity,
+  });
+  const options = optionsQuery.data;
+
+  // Start from the server's defaults once they arrive
+  useEffect(() => {
+    if (options && !settings) setSettings(defaultGenerationSettings(options));
+  }, [options, settings]);
+
+  // This page's LoRA always leads the mix
+  useEffect(() => {
+    if (options && mix[0]?.loraTrainingId !== loraId) {
+      setMix([
+        {
+          loraTrainingId: loraId,
+          triggerWord,
+          scale: options.limits.loraScale.default,
+        },
+      ]);
+    }
+  }, [options, loraId, triggerWord, mix]);
+
+  // Jobs run on the server, so they are picked up again after the modal
+  // closes; keep polling while any is in flight
+  const jobsQuery = trpc.generate.jobs.useQuery(
+    { loraTrainingId: loraId },
+    {
+      enabled: !!session,
+      refetchInterval: (query) =>
+        query.state.data?.some(isInFlight) ? JOB_POLL_MS : false,
+    },
+  );
+  const jobs = jobsQuery.data ?? [];
+
+  // Refresh the gallery and allowance whenever a job settles
+  const inFlightIds = useRef(new Set<string>());
+  useEffect(() => {
+    if (!jobsQuery.data) return;
+    const next = new Set(
+      jobsQuery.data.filter(isInFlight).map((job) => job.id),
+    );
+    const settled = [...inFlightIds.current].some((id) => !next.has(id));
+    inFlightIds.current = next;
+    if (settled) {
       utils.generate.listByLora.invalidate({ loraTrainingId: loraId });
       utils.generate.remaining.invalidate();
+    }
+  }, [jobsQuery.data]);
+
+  const generateMutation = trpc.generate.images.useMutation({
+    onSuccess: () => {
+      utils.generate.jobs.invalidate({ loraTrainingId: loraId });
+      utils.generate.remaining.invalidate();
     },
   });
 
   // Reset state when modal opens
   useEffect(() => {
-    if (active) {
-      setGeneratedImages([]);
-      setNsfwWarning(false);
-      generateMutation.reset();
-    }
+    if (active) generateMutation.reset();
   }, [active]);
 
+  const generate = useCallback(() => {
+    generateMutation.reset();
+    const { seed, ...rest } = settings ?? {};
+    generateMutation.mutate({
+      prompt: prompt.trim(),
+      loras: mix.map(({ loraTrainingId, scale }) => ({ loraTrainingId, scale })),
+      ...rest,
+      seed: seed ? Number(seed) : undefined,
+      mode,
+      ...(mode !== "text" && source && { source: source.source }),
+      ...(mode === "inpaint" && mask && { mask }),
+    });
+  }, [prompt, mix, settings, mode, source, mask, generateMutation]);
+
   const handleGenerate = useCallback(() => {
     if (!session) {
       openAuthModal();
       return;
     }
     if (!prompt.trim()) return;
+    generate();
+  }, [session, prompt, generate, openAuthModal]);
 
-    setGeneratedImages([]);
-    setNsfwWarning(false);
-    generateMutation.mutate({
-      loraTrainingId: loraId,
-      prompt: prompt.trim(),
-    });
-  }, [session, prompt, loraId, generateMutation, openAuthModal]);
-
-  const handleGenerateAgain = useCallback(() => {
-    setGeneratedImages([]);
-    setNsfwWarning(false);
-    generateMutation.reset();
-    generateMutation.mutate({
-      loraTrainingId: loraId,
-      prompt: prompt.trim(),
-    });
-  }, [prompt, loraId, generateMutation]);
-
-  const isGenerating = generateMutation.isPending;
-  const hasResults = generatedImages.length > 0;
+  const isSubmitting = generateMutation.isPending;
   const remaining = remainingQuery.data?.remaining ?? null;
   const isExempt = remainingQuery.data?.isExempt ?? false;
+  const numImages = settings?.numImages ?? 4;
+  const placeholder = options?.triggerPlaceholder ?? "{trigger}";
+  const sourceMissing =
+    (mode !== "text" && !source) || (mode === "inpaint" && !mask);
+  const cannotGenerate =
+    !prompt.trim() || sourceMissing || (remaining === 0 && !isExempt);
 
   return (
     <Modal active={active} onClose={onClose} position="center" padding={6}>
@@ -96,19 +169,110 @@ export default function GenerateModal({
         <View gap={1}>
           <Text variant="title-3">Generate Images</Text>
           <Text variant="body-2" color="neutral-faded">
-            Your prompt will include: &ldquo;... in the style of {triggerWord}&rdquo;
+            Write {placeholder} where &ldquo;{triggerWord}&rdquo; should go.
+            Without it, your prompt ends with &ldquo;... in the style of{" "}
+            {triggerWord}&rdquo;.
           </Text>
         </View>
 
+        <Select
+          name="mode"
+          value={mode}
+          onChange={({ value }) => setMode(value as Mode)}
+          disabled={isSubmitting}
+        >
+          <option value="text">Text to image</option>
+          <option value="image">Image to image</option>
+          <option value="inpaint">Inpaint</option>
+        </Select>
+
+        {mode !== "text" && (
+          <View gap={3}>
+            <SourceImagePicker
+              loraId={loraId}
+              value={source}
+              onChange={setSource}
+              disabled={isSubmitting}
+            />
+            {source && mode === "inpaint" && (
+              <MaskEditor
+                imageUrl={source.previewUrl}
+                onChange={setMask}
+                disabled={isSubmitting}
+              />
+            )}
+            {source && mode === "image" && (
+              <img
+                src={source.previewUrl}
+                alt="Source"
+                style={{ width: "100%", display: "block", borderRadius: 8 }}
+              />
+            )}
+            {settings && options && (
+              <FormControl disabled={isSubmitting}>
+                <FormControl.Label>
+                  Strength: {settings.strength}
+                </FormControl.Label>
+                <Slider
+                  name="strength"
+                  value={settings.strength}
+                  min={options.limits.strength.min}
+                  max={options.limits.strength.max}
+                  step={options.limits.strength.step}
+                  onChange={({ value }) =>
+                    setSettings({ ...settings, strength: value })
+                  }
+                  disabled={isSubmitting}
+                />
+                <FormControl.Helper>
+                  Low stays close to the source image; 1 all but ignores it.
+                </FormControl.Helper>
+              </FormControl>
+            )}
+          </View>
+        )}
+
         <TextField
           name="prompt"
           value={prompt}
           onChange={({ value }) => setPrompt(value)}
           placeholder="Describe the image you want to create..."
           inputAttributes={{ maxLength: 500 }}
-          disabled={isGenerating}
+          disabled={isSubmitting}
         />
 
+        {options && settings && (
+          <View gap={3}>
+            <View>
+              <Button
+                variant="ghost"
+                size="small"
+                onClick={() => setShowSettings((shown) => !shown)}
+              >
+                {showSettings ? "Hide settings" : "Settings"}
+              </Button>
+            </View>
+            {showSettings && (
+              <View gap={4}>
+                <LoraMixPicker
+                  value={mix}
+                  onChange={setMix}
+                  maxLoras={options.maxLoras}
+                  scaleLimits={options.limits.loraScale}
+                  disabled={isSubmitting}
+                />
+                <GenerationSettings
+                  options={options}
+                  value={settings}
+                  onChange={setSettings}
+                  fromImage={mode !== "text"}
+                  disabled={isSubmitting}
+                />
+              </View>
+            )}
+          </View>
+        )}
+
         <View direction="row" align="center" gap={2}>
           {remaining !== null && !isExempt && (
             <Text variant="caption-1" color="neutral-faded">
@@ -122,25 +286,17 @@ export default function GenerateModal({
           </View.Item>
         </View>
 
-        {!hasResults && !isGenerating && (
-          <Button
-            color="primary"
-            fullWidth
-            onClick={handleGenerate}
-            disabled={!prompt.trim() || (remaining === 0 && !isExempt)}
-          >
-            {!session ? "Connect Wallet to Generate" : "Generate 4 Images"}
-          </Button>
-        )}
-
-        {isGenerating && (
-          <View align="center" padding={6} gap={3}>
-            <Loader />
-            <Text variant="body-2" color="neutral-faded">
-              Generating images... this takes about 10-15 seconds
-            </Text>
-          </View>
-        )}
+        <Button
+          color="primary"
+          fullWidth
+          onClick={handleGenerate}
+          disabled={cannotGenerate}
+          loading={isSubmitting}
+        >
+          {!session
+            ? "Connect Wallet to Generate"
+            : `Generate ${numImages} Image${numImages === 1 ? "" : "s"}`}
+        </Button>
 
         {generateMutation.error && (
           <Alert color="critical" title="Generation Failed">
@@ -148,25 +304,19 @@ export default function GenerateModal({
           </Alert>
         )}
 
-        {nsfwWarning && (
-          <Alert color="neutral">
-            Some images were filtered by the safety checker and may not appear.
-          </Alert>
-        )}
-
-        {hasResults && (
-          <View gap={3}>
-            <GeneratedImageGrid images={generatedImages} variant="modal" />
-            <Button
-              color="primary"
-              fullWidth
-              onClick={handleGenerateAgain}
-              disabled={!prompt.trim() || (remaining === 0 && !isExempt)}
-            >
-              Generate Again
-            </Button>
-          </View>
-        )}
+        {jobs.map((job) => (
+          <GenerationJobRow
+            key={job.id}
+            job={job}
+            onReuseSeed={
+              settings &&
+              job.params.seed !== null &&
+              settings.seed !== String(job.params.seed)
+                ? (seed) => setSettings({ ...settings, seed: String(seed) })
+                : undefined
+            }
+          />
+        ))}
       </View>
     </Modal>
   );
@@ -7,6 +7,11 @@ interface GeneratedImage {
   createdAt: string;
   width?: number | null;
   height?: number | null;
+  seed?: string | null;
+  steps?: number | null;
+  guidanceScale?: number | null;
+  /** The LoRA mix, in order */
+  loras?: { loraTrainingId: string; triggerWord: string; scale: number }[];
 }
 
 interface GeneratedImageGridProps {
@@ -26,6 +31,24 @@ function formatDate(iso: string): string {
   });
 }
 
+/**
+ * "Seed 42 · 28 steps · CFG 3.5 · LoRA 1.5" — or "zxq 1 + mno 0.6" for a
+ * mix — from whatever was recorded
+ */
+function formatSettings(img: GeneratedImage): string {
+  const loras = img.loras ?? [];
+  return [
+    img.seed != null && `Seed ${img.seed}`,
+    img.steps != null && `${img.steps} steps`,
+    img.guidanceScale != null && `CFG ${img.guidanceScale}`,
+    loras.length === 1 && `LoRA ${loras[0].scale}`,
+    loras.length > 1 &&
+      loras.map((lora) => `${lora.triggerWord} ${lora.scale}`).join(" + "),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
 export default function GeneratedImageGrid({
   images,
   variant = "page",
@@ -58,6 +81,11 @@ export default function GeneratedImageGrid({
                   <Text variant="caption-1" maxLines={2}>
                     {img.prompt}
                   </Text>
+                  {formatSettings(img) && (
+                    <Text variant="caption-1" color="neutral-faded">
+                      {formatSettings(img)}
+                    </Text>
+                  )}
                   <Text variant="caption-1" color="neutral-faded">
                     {formatDate(img.createdAt)}
                   </Text>
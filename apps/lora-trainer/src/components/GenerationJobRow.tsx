@@ -0,0 +1,100 @@
+import { View, Text, Button, Badge, Loader, Alert } from "reshaped";
+import type { RouterOutputs } from "@/utils/trpc";
+import GeneratedImageGrid from "./GeneratedImageGrid";
+
+export type GenerationJob = RouterOutputs["generate"]["jobs"][number];
+
+const STATUS_COLORS = {
+  submitting: "neutral",
+  queued: "neutral",
+  running: "primary",
+  completed: "positive",
+  failed: "critical",
+} as const;
+
+const IN_FLIGHT_LABELS = {
+  submitting: "Sending to FAL...",
+  queued: "Waiting in the FAL queue...",
+  running: "Generating images... this takes about 10-15 seconds",
+} as const;
+
+interface GenerationJobRowProps {
+  job: GenerationJob;
+  /** Offered once the job has a seed that differs from the current one */
+  onReuseSeed?: (seed: number) => void;
+}
+
+/** One queued generation: progress while in flight, then its images */
+export default function GenerationJobRow({
+  job,
+  onReuseSeed,
+}: GenerationJobRowProps) {
+  const seed = job.params.seed;
+
+  return (
+    <View gap={3}>
+      <View direction="row" align="center" gap={2}>
+        <View.Item grow>
+          <Text variant="body-3" maxLines={1}>
+            {job.prompt}
+          </Text>
+        </View.Item>
+        <Badge color={STATUS_COLORS[job.status]} variant="faded">
+          {job.status}
+        </Badge>
+      </View>
+
+      {(job.status === "submitting" ||
+        job.status === "queued" ||
+        job.status === "running") && (
+        <View direction="row" align="center" gap={2}>
+          <Loader size="small" />
+          <Text variant="caption-1" color="neutral-faded">
+            {IN_FLIGHT_LABELS[job.status]}
+          </Text>
+        </View>
+      )}
+
+      {job.status === "failed" && (
+        <Alert color="critical" title="Generation Failed">
+          {job.errorMessage}
+        </Alert>
+      )}
+
+      {job.status === "completed" && (
+        <>
+          <GeneratedImageGrid
+            images={job.images.map((image) => ({
+              ...image,
+              prompt: job.prompt,
+              createdAt: job.completedAt ?? job.createdAt,
+            }))}
+            variant="modal"
+          />
+          {job.nsfwFiltered && (
+            <Alert color="neutral">
+              Some images were filtered by the safety checker and may not
+              appear.
+            </Alert>
+          )}
+          {seed !== null && (
+            <View direction="row" align="center" gap={2}>
+              <Text variant="caption-1" color="neutral-faded">
+                Seed {seed}
+              </Text>
+              {onReuseSeed && (
+                <Button
+                  variant="ghost"
+                  size="small"
+                  onClick={() => onReuseSeed(seed)}
+                >
+                  Reuse seed
+                </Button>
+              )}
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+}
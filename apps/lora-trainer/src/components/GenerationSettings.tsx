@@ -0,0 +1,130 @@
+import {
+  View,
+  NumberField,
+  FormControl,
+  Select,
+  TextField,
+  Text,
+} from "reshaped";
+import type { RouterOutputs } from "@/utils/trpc";
+
+export type GenerationOptions = RouterOutputs["generate"]["options"];
+type ImageSize = GenerationOptions["imageSizes"][number]["id"];
+
+export interface GenerationSettingsValue {
+  imageSize: ImageSize;
+  steps: number;
+  guidanceScale: number;
+  numImages: number;
+  /** Image-to-image and inpainting only */
+  strength: number;
+  /** Empty for a random seed */
+  seed: string;
+}
+
+export function defaultGenerationSettings(
+  options: GenerationOptions,
+): GenerationSettingsValue {
+  return {
+    imageSize: options.imageSizes[0].id,
+    steps: options.limits.steps.default,
+    guidanceScale: options.limits.guidanceScale.default,
+    numImages: options.limits.numImages.default,
+    strength: options.limits.strength.default,
+    seed: "",
+  };
+}
+
+interface GenerationSettingsProps {
+  options: GenerationOptions;
+  value: GenerationSettingsValue;
+  onChange: (value: GenerationSettingsValue) => void;
+  /** Image modes take their size from the source */
+  fromImage?: boolean;
+  disabled?: boolean;
+}
+
+type NumericKey = "steps" | "guidanceScale" | "numImages";
+
+const NUMBER_FIELDS: { key: NumericKey; label: string }[] = [
+  { key: "steps", label: "Steps" },
+  { key: "guidanceScale", label: "Guidance" },
+  { key: "numImages", label: "Images" },
+];
+
+export default function GenerationSettings({
+  options,
+  value,
+  onChange,
+  fromImage,
+  disabled,
+}: GenerationSettingsProps) {
+  const update = (patch: Partial<GenerationSettingsValue>) =>
+    onChange({ ...value, ...patch });
+
+  return (
+    <View gap={3}>
+      {!fromImage && (
+        <FormControl disabled={disabled}>
+          <FormControl.Label>Size</FormControl.Label>
+          <Select
+            name="imageSize"
+            value={value.imageSize}
+            onChange={({ value: imageSize }) =>
+              update({ imageSize: imageSize as ImageSize })
+            }
+          >
+            {options.imageSizes.map((size) => (
+              <option key={size.id} value={size.id}>
+                {size.label} — {size.width}×{size.height}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      <View direction="row" wrap gap={3}>
+        {NUMBER_FIELDS.map(({ key, label }) => {
+          const limits = options.limits[key];
+          return (
+            <View.Item key={key} columns={4}>
+              <FormControl disabled={disabled}>
+                <FormControl.Label>{label}</FormControl.Label>
+                <NumberField
+                  name={key}
+                  value={value[key]}
+                  onChange={({ value: next }) =>
+                    update({
+                      [key]: Math.min(limits.max, Math.max(limits.min, next)),
+                    })
+                  }
+                  min={limits.min}
+                  max={limits.max}
+                  step={limits.step}
+                  increaseAriaLabel={`Increase ${label.toLowerCase()}`}
+                  decreaseAriaLabel={`Decrease ${label.toLowerCase()}`}
+                />
+              </FormControl>
+            </View.Item>
+          );
+        })}
+      </View>
+
+      <FormControl disabled={disabled}>
+        <FormControl.Label>Seed</FormControl.Label>
+        <TextField
+          name="seed"
+          value={value.seed}
+          onChange={({ value: seed }) => update({ seed: seed.replace(/\D/g, "") })}
+          placeholder="Random"
+          inputAttributes={{ inputMode: "numeric" }}
+        />
+        <FormControl.Helper>
+          <Text variant="caption-1" color="neutral-faded">
+            The same seed and settings reproduce the same batch.
+          </Text>
+        </FormControl.Helper>
+      </FormControl>
+    </View>
+  );
+}
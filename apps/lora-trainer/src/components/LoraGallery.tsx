@@ -1,15 +1,153 @@
-import { View, Text, Alert, Loader, Button } from "reshaped";
+import { useEffect, useRef, useState } from "react";
+import {
+  View,
+  Text,
+  Alert,
+  Loader,
+  Button,
+  TextField,
+  Select,
+  Checkbox,
+  Badge,
+} from "reshaped";
 import NextLink from "next/link";
+import { useRouter } from "next/router";
+import { keepPreviousData } from "@tanstack/react-query";
+import { useAccount } from "wagmi";
 import { trpc } from "@/utils/trpc";
 import LoraRow from "./LoraRow";
 
+const PAGE_SIZE = 20;
+
+/** Step-count filter presets → lora.list min/max */
+const STEP_RANGES: Record<string, { minSteps?: number; maxSteps?: number }> = {
+  any: {},
+  short: { maxSteps: 500 },
+  medium: { minSteps: 501, maxSteps: 1000 },
+  long: { minSteps: 1001 },
+};
+
 export default function LoraGallery() {
-  const { data, isLoading, error } = trpc.lora.list.useQuery();
+  const router = useRouter();
+  const { address } = useAccount();
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [stepRange, setStepRange] = useState("any");
+  const [onlyMine, setOnlyMine] = useState(false);
+
+  // Channel filter lives in the URL so filtered views can be shared
+  const channelUrl =
+    typeof router.query.channel === "string" ? router.query.channel : undefined;
+
+  // Debounce search so each keystroke doesn't start a new query
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.lora.list.useInfiniteQuery(
+    {
+      limit: PAGE_SIZE,
+      ...(search ? { search } : {}),
+      ...(channelUrl ? { arenaChannelUrl: channelUrl } : {}),
+      ...(onlyMine && address ? { walletAddress: address } : {}),
+      ...STEP_RANGES[stepRange],
+    },
+    {
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      // Keep showing the current results while a new filter loads
+      placeholderData: keepPreviousData,
+    },
+  );
+
+  // Load the next page when the sentinel below the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const setChannelFilter = (url: string | null) => {
+    const { channel: _channel, ...query } = router.query;
+    router.replace(
+      { pathname: router.pathname, query: url ? { ...query, channel: url } : query },
+      undefined,
+      { shallow: true },
+    );
+  };
+
+  const loras = data?.pages.flatMap((page) => page.items) ?? [];
+  const isFiltered =
+    !!search || !!channelUrl || onlyMine || stepRange !== "any";
+
+  const filters = (
+    <View direction="row" align="center" gap={3} wrap>
+      <View.Item grow>
+        <TextField
+          name="search"
+          value={searchInput}
+          onChange={({ value }) => setSearchInput(value)}
+          placeholder="Search trigger words and channels..."
+          inputAttributes={{ maxLength: 100 }}
+        />
+      </View.Item>
+      <Select
+        name="steps"
+        value={stepRange}
+        onChange={({ value }) => setStepRange(value)}
+      >
+        <option value="any">Any steps</option>
+        <option value="short">Up to 500 steps</option>
+        <option value="medium">501–1000 steps</option>
+        <option value="long">Over 1000 steps</option>
+      </Select>
+      {address && (
+        <Checkbox
+          name="onlyMine"
+          checked={onlyMine}
+          onChange={({ checked }) => setOnlyMine(checked)}
+        >
+          Only mine
+        </Checkbox>
+      )}
+      {channelUrl && (
+        <Badge
+          color="primary"
+          variant="faded"
+          onDismiss={() => setChannelFilter(null)}
+          dismissAriaLabel="Clear channel filter"
+        >
+          Channel: {channelUrl.split("/").pop()}
+        </Badge>
+      )}
+    </View>
+  );
 
   if (isLoading) {
     return (
-      <View align="center" justify="center" padding={10}>
-        <Loader />
+      <View gap={4}>
+        {filters}
+        <View align="center" justify="center" padding={10}>
+          <Loader />
+        </View>
       </View>
     );
   }
@@ -24,37 +162,57 @@ export default function LoraGallery() {
     );
   }
 
-  if (!data || data.length === 0) {
+  if (loras.length === 0) {
     return (
-      <View align="center" justify="center" padding={10} gap={2}>
-        <Text variant="body-1" color="neutral-faded">
-          No LoRAs trained yet.
-        </Text>
-        <NextLink href="/" passHref legacyBehavior>
-          <Button as="a" color="primary" size="small">
-            Train your first LoRA
-          </Button>
-        </NextLink>
+      <View gap={4}>
+        {filters}
+        {isFiltered ? (
+          <View align="center" justify="center" padding={10}>
+            <Text variant="body-1" color="neutral-faded">
+              No LoRAs match these filters.
+            </Text>
+          </View>
+        ) : (
+          <View align="center" justify="center" padding={10} gap={2}>
+            <Text variant="body-1" color="neutral-faded">
+              No LoRAs trained yet.
+            </Text>
+            <NextLink href="/" passHref legacyBehavior>
+              <Button as="a" color="primary" size="small">
+                Train your first LoRA
+              </Button>
+            </NextLink>
+          </View>
+        )}
       </View>
     );
   }
 
   return (
-    <View gap={2}>
-      {data.map((lora) => (
-        <LoraRow
-          key={lora.id}
-          id={lora.id}
-          triggerWord={lora.triggerWord}
-          loraWeightsUrl={lora.loraWeightsUrl}
-
-          imageUrls={lora.imageUrls}
-          steps={lora.steps}
-          createdAt={lora.createdAt}
-          arenaChannelUrl={lora.arenaChannelUrl}
-          arenaChannelTitle={lora.arenaChannelTitle}
-        />
-      ))}
+    <View gap={4}>
+      {filters}
+      <View gap={2}>
+        {loras.map((lora) => (
+          <LoraRow
+            key={lora.id}
+            id={lora.id}
+            triggerWord={lora.triggerWord}
+            loraWeightsUrl={lora.loraWeightsUrl}
+            imageUrls={lora.imageUrls}
+            steps={lora.steps}
+            createdAt={lora.createdAt}
+            arenaChannelUrl={lora.arenaChannelUrl}
+            arenaChannelTitle={lora.arenaChannelTitle}
+            onChannelSelect={setChannelFilter}
+          />
+        ))}
+      </View>
+      <div ref={sentinelRef} />
+      {isFetchingNextPage && (
+        <View align="center" padding={4}>
+          <Loader />
+        </View>
+      )}
     </View>
   );
 }
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import {
+  View,
+  Text,
+  Button,
+  TextField,
+  NumberField,
+  Loader,
+  Actionable,
+} from "reshaped";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
+
+type ScaleLimits = RouterOutputs["generate"]["options"]["limits"]["loraScale"];
+
+export interface LoraMixEntry {
+  loraTrainingId: string;
+  triggerWord: string;
+  scale: number;
+}
+
+interface LoraMixPickerProps {
+  /** The first entry is the page's own LoRA and can't be removed */
+  value: LoraMixEntry[];
+  onChange: (value: LoraMixEntry[]) => void;
+  maxLoras: number;
+  scaleLimits: ScaleLimits;
+  disabled?: boolean;
+}
+
+const RESULT_LIMIT = 5;
+
+export default function LoraMixPicker({
+  value,
+  onChange,
+  maxLoras,
+  scaleLimits,
+  disabled,
+}: LoraMixPickerProps) {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+
+  // Debounce search so each keystroke doesn't start a new query
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const canAdd = value.length < maxLoras && !disabled;
+  const resultsQuery = trpc.lora.list.useQuery(
+    { limit: RESULT_LIMIT + maxLoras, search },
+    { enabled: canAdd && search.length > 0 },
+  );
+  const selected = new Set(value.map((entry) => entry.loraTrainingId));
+  const results = (resultsQuery.data?.items ?? [])
+    .filter((lora) => !selected.has(lora.id))
+    .slice(0, RESULT_LIMIT);
+
+  const setScale = (index: number, scale: number) => {
+    const clamped = Math.min(scaleLimits.max, Math.max(scaleLimits.min, scale));
+    onChange(
+      value.map((entry, i) => (i === index ? { ...entry, scale: clamped } : entry)),
+    );
+  };
+
+  return (
+    <View gap={2}>
+      <Text variant="body-3" weight="medium">
+        LoRAs
+      </Text>
+
+      {value.map((entry, index) => (
+        <View key={entry.loraTrainingId} direction="row" align="center" gap={2}>
+          <View.Item grow>
+            <Text variant="body-3">
+              {index + 1}. {entry.triggerWord}
+            </Text>
+          </View.Item>
+          <NumberField
+            name={`scale-${entry.loraTrainingId}`}
+            value={entry.scale}
+            onChange={({ value: scale }) => setScale(index, scale)}
+            min={scaleLimits.min}
+            max={scaleLimits.max}
+            step={scaleLimits.step}
+            disabled={disabled}
+            increaseAriaLabel={`Increase ${entry.triggerWord} scale`}
+            decreaseAriaLabel={`Decrease ${entry.triggerWord} scale`}
+          />
+          {index > 0 && (
+            <Button
+              variant="ghost"
+              size="small"
+              disabled={disabled}
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              Remove
+            </Button>
+          )}
+        </View>
+      ))}
+
+      {canAdd && (
+        <View gap={1}>
+          <TextField
+            name="loraSearch"
+            value={searchInput}
+            onChange={({ value: next }) => setSearchInput(next)}
+            placeholder={`Mix in another LoRA (up to ${maxLoras})...`}
+            inputAttributes={{ maxLength: 100 }}
+          />
+          {resultsQuery.isFetching && <Loader size="small" />}
+          {results.map((lora) => (
+            <Actionable
+              key={lora.id}
+              onClick={() => {
+                onChange([
+                  ...value,
+                  {
+                    loraTrainingId: lora.id,
+                    triggerWord: lora.triggerWord,
+                    scale: scaleLimits.default,
+                  },
+                ]);
+                setSearchInput("");
+              }}
+            >
+              <View padding={1} direction="row" gap={2}>
+                <Text variant="body-3">{lora.triggerWord}</Text>
+                {lora.arenaChannelTitle && (
+                  <Text variant="body-3" color="neutral-faded">
+                    {lora.arenaChannelTitle}
+                  </Text>
+                )}
+              </View>
+            </Actionable>
+          ))}
+          {search && !resultsQuery.isFetching && results.length === 0 && (
+            <Text variant="caption-1" color="neutral-faded">
+              No matching LoRAs.
+            </Text>
+          )}
+        </View>
+      )}
+
+      {value.length > 1 && (
+        <Text variant="caption-1" color="neutral-faded">
+          Use {"{trigger1}"}, {"{trigger2}"}… to place each trigger word, or{" "}
+          {"{trigger}"} for all of them.
+        </Text>
+      )}
+    </View>
+  );
+}
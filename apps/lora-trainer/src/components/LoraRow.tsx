@@ -11,6 +11,8 @@ interface LoraRowProps {
   createdAt: string;
   arenaChannelUrl?: string | null;
   arenaChannelTitle?: string | null;
+  /** Show a link that narrows the list to this LoRA's are.na channel */
+  onChannelSelect?: (arenaChannelUrl: string) => void;
 }
 
 function formatDate(iso: string): string {
@@ -31,6 +33,7 @@ export default function LoraRow({
   createdAt,
   arenaChannelUrl,
   arenaChannelTitle,
+  onChannelSelect,
 }: LoraRowProps) {
   const [copied, setCopied] = useState(false);
   const maxThumbnails = 4;
@@ -99,6 +102,13 @@ export default function LoraRow({
               </Text>
             </Link>
           )}
+          {arenaChannelUrl && onChannelSelect && (
+            <Link onClick={() => onChannelSelect(arenaChannelUrl)}>
+              <Text variant="caption-1" color="neutral-faded">
+                More from this channel
+              </Text>
+            </Link>
+          )}
         </View>
       </View.Item>
 
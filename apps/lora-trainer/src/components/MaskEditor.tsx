@@ -0,0 +1,165 @@
+import { useEffect, useRef, useState } from "react";
+import { View, Text, Button, Slider } from "reshaped";
+
+interface MaskEditorProps {
+  imageUrl: string;
+  /** PNG data URL at the image's size — white to repaint — or null when empty */
+  onChange: (mask: string | null) => void;
+  disabled?: boolean;
+}
+
+const STROKE_COLOR = "rgba(255, 64, 64, 0.5)";
+
+/**
+ * Brush over the source image to mark what inpainting should repaint. The
+ * visible canvas shows the strokes; a hidden one of the image's natural
+ * size holds the black-and-white mask that is sent.
+ */
+export default function MaskEditor({
+  imageUrl,
+  onChange,
+  disabled,
+}: MaskEditorProps) {
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const [brush, setBrush] = useState(40);
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  // A new source starts with an empty mask
+  useEffect(() => {
+    setSize(null);
+    setHasStrokes(false);
+    onChange(null);
+  }, [imageUrl]);
+
+  const clear = () => {
+    const overlay = overlayRef.current;
+    const mask = maskRef.current;
+    if (!overlay || !mask) return;
+    overlay.getContext("2d")!.clearRect(0, 0, overlay.width, overlay.height);
+    const ctx = mask.getContext("2d")!;
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    setHasStrokes(false);
+    onChange(null);
+  };
+
+  const onImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = event.currentTarget;
+    const mask = document.createElement("canvas");
+    mask.width = width;
+    mask.height = height;
+    maskRef.current = mask;
+    setSize({ width, height });
+  };
+
+  // Size the canvases once the image's natural size is known
+  useEffect(() => {
+    if (size) clear();
+  }, [size]);
+
+  const toImagePoint = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * event.currentTarget.width,
+      y: ((event.clientY - rect.top) / rect.height) * event.currentTarget.height,
+    };
+  };
+
+  const drawTo = (point: { x: number; y: number }) => {
+    const from = lastPoint.current ?? point;
+    const overlay = overlayRef.current!;
+    // Brush size is in displayed pixels, whatever the image's resolution
+    const width =
+      brush * (overlay.width / overlay.getBoundingClientRect().width);
+    for (const [canvas, color] of [
+      [overlay, STROKE_COLOR],
+      [maskRef.current!, "#fff"],
+    ] as const) {
+      const ctx = canvas.getContext("2d")!;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = width;
+      ctx.lineCap = "round";
+      ctx.lineJoin = "round";
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+    }
+    lastPoint.current = point;
+  };
+
+  return (
+    <View gap={2}>
+      <div style={{ position: "relative", lineHeight: 0 }}>
+        <img
+          src={imageUrl}
+          alt="Source"
+          onLoad={onImageLoad}
+          style={{ width: "100%", display: "block", borderRadius: 8 }}
+        />
+        {size && (
+          <canvas
+            ref={overlayRef}
+            width={size.width}
+            height={size.height}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              cursor: disabled ? "default" : "crosshair",
+              touchAction: "none",
+            }}
+            onPointerDown={(event) => {
+              if (disabled) return;
+              event.currentTarget.setPointerCapture(event.pointerId);
+              lastPoint.current = null;
+              drawTo(toImagePoint(event));
+            }}
+            onPointerMove={(event) => {
+              if (lastPoint.current) drawTo(toImagePoint(event));
+            }}
+            onPointerUp={() => {
+              if (!lastPoint.current) return;
+              lastPoint.current = null;
+              setHasStrokes(true);
+              onChange(maskRef.current!.toDataURL("image/png"));
+            }}
+          />
+        )}
+      </div>
+      <View direction="row" align="center" gap={3}>
+        <Text variant="caption-1" color="neutral-faded">
+          Brush
+        </Text>
+        <View.Item grow>
+          <Slider
+            name="brush"
+            value={brush}
+            min={5}
+            max={120}
+            step={5}
+            onChange={({ value }) => setBrush(value)}
+            disabled={disabled}
+          />
+        </View.Item>
+        <Button
+          variant="ghost"
+          size="small"
+          onClick={clear}
+          disabled={disabled || !hasStrokes}
+        >
+          Clear
+        </Button>
+      </View>
+      <Text variant="caption-1" color="neutral-faded">
+        Paint over the part of the image to repaint.
+      </Text>
+    </View>
+  );
+}
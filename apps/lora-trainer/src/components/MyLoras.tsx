@@ -0,0 +1,73 @@
+import { View, Text, Alert, Loader, Button } from "reshaped";
+import NextLink from "next/link";
+import { trpc } from "@/utils/trpc";
+import MyTrainingRow from "./MyTrainingRow";
+
+const PAGE_SIZE = 20;
+
+export default function MyLoras() {
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    trpc.lora.mine.useInfiniteQuery(
+      { limit: PAGE_SIZE },
+      { getNextPageParam: (lastPage) => lastPage.nextCursor },
+    );
+
+  if (isLoading) {
+    return (
+      <View align="center" justify="center" padding={10}>
+        <Loader />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View padding={4}>
+        <Alert color="critical" title="Failed to load your trainings">
+          {error.message}
+        </Alert>
+      </View>
+    );
+  }
+
+  const trainings = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (trainings.length === 0) {
+    return (
+      <View align="center" justify="center" padding={10} gap={2}>
+        <Text variant="body-1" color="neutral-faded">
+          You haven&apos;t trained any LoRAs yet.
+        </Text>
+        <NextLink href="/" passHref legacyBehavior>
+          <Button as="a" color="primary" size="small">
+            Train your first LoRA
+          </Button>
+        </NextLink>
+      </View>
+    );
+  }
+
+  return (
+    <View gap={4}>
+      <Text variant="title-3" weight="bold">
+        My LoRAs
+      </Text>
+      <View gap={2}>
+        {trainings.map((training) => (
+          <MyTrainingRow key={training.id} training={training} />
+        ))}
+      </View>
+      {hasNextPage && (
+        <View align="center">
+          <Button
+            color="neutral"
+            onClick={() => fetchNextPage()}
+            loading={isFetchingNextPage}
+          >
+            Load more
+          </Button>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { View, Text, Button, Badge, Loader } from "reshaped";
+import NextLink from "next/link";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
+
+type MyTraining = RouterOutputs["lora"]["mine"]["items"][number];
+
+const STATUS_COLORS = {
+  submitting: "primary",
+  pending: "primary",
+  completed: "positive",
+  failed: "critical",
+  cancelled: "neutral",
+} as const;
+
+const REFUND_LABELS = {
+  queued: "Refund queued",
+  sent: "Refund sent",
+  confirmed: "Refunded",
+  failed: "Refund failed",
+} as const;
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function TxLink({ hash }: { hash: string }) {
+  return (
+    <a
+      href={`https://basescan.org/tx/${hash}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      style={{ color: "inherit", textDecoration: "underline" }}
+    >
+      {hash.slice(0, 10)}...{hash.slice(-8)}
+    </a>
+  );
+}
+
+/**
+ * Polls our record of a pending training until it settles — the webhook
+ * (or, without one, the server's own FAL check) writes the outcome.
+ */
+function ResumePolling({ requestId }: { requestId: string }) {
+  const utils = trpc.useUtils();
+
+  const state = trpc.fal.getTrainingState.useQuery(
+    { requestId },
+    {
+      refetchInterval: (query) =>
+        query.state.data && query.state.data.status !== "pending"
+          ? false
+          : 3000,
+    },
+  );
+
+  const status = state.data?.status;
+  useEffect(() => {
+    if (status && status !== "pending") {
+      utils.lora.mine.invalidate();
+    }
+  }, [status]);
+
+  if (state.error) {
+    return (
+      <Text variant="caption-1" color="critical">
+        {state.error.message}
+      </Text>
+    );
+  }
+
+  return (
+    <View direction="row" align="center" gap={2}>
+      <Loader size="small" />
+      <Text variant="caption-1" color="neutral-faded">
+        Waiting for training to finish...
+      </Text>
+    </View>
+  );
+}
+
+export default function MyTrainingRow({ training }: { training: MyTraining }) {
+  const [resuming, setResuming] = useState(false);
+  const { payment, refund } = training;
+
+  return (
+    <View
+      gap={3}
+      padding={4}
+      borderRadius="medium"
+      borderColor="neutral-faded"
+      backgroundColor="elevation-base"
+    >
+      <View direction="row" align="center" gap={3} wrap>
+        <View.Item grow>
+          <View gap={1}>
+            <Text variant="body-2" weight="bold">
+              {training.triggerWord}
+            </Text>
+            <Text variant="caption-1" color="neutral-faded">
+              {training.steps} steps · Started{" "}
+              {formatDateTime(training.createdAt)}
+              {training.arenaChannelTitle && ` · ${training.arenaChannelTitle}`}
+            </Text>
+          </View>
+        </View.Item>
+        <Badge color={STATUS_COLORS[training.status]} variant="faded">
+          {training.status}
+        </Badge>
+        {training.status === "completed" && (
+          <NextLink href={`/loras/${training.id}`} passHref legacyBehavior>
+            <Button as="a" color="primary" size="small">
+              Open
+            </Button>
+          </NextLink>
+        )}
+        {training.status === "pending" && !resuming && (
+          <Button
+            color="neutral"
+            size="small"
+            onClick={() => setResuming(true)}
+          >
+            Resume
+          </Button>
+        )}
+      </View>
+
+      {training.status === "pending" && resuming && (
+        <ResumePolling requestId={training.requestId} />
+      )}
+
+      {training.errorMessage && (
+        <Text variant="caption-1" color="critical">
+          {training.errorMessage}
+        </Text>
+      )}
+
+      <View gap={1}>
+        {payment ? (
+          <Text variant="caption-1" color="neutral-faded">
+            Paid {payment.amountLabel} · Tx: <TxLink hash={payment.txHash} />
+            {payment.claimedAt && ` · ${formatDateTime(payment.claimedAt)}`}
+          </Text>
+        ) : (
+          <Text variant="caption-1" color="neutral-faded">
+            No payment (exempt wallet)
+          </Text>
+        )}
+        {refund && (
+          <Text
+            variant="caption-1"
+            color={refund.status === "failed" ? "critical" : "neutral-faded"}
+          >
+            {REFUND_LABELS[refund.status]}
+            {refund.txHash && (
+              <>
+                {" "}
+                · Tx: <TxLink hash={refund.txHash} />
+              </>
+            )}
+            {refund.refundedAt
+              ? ` · ${formatDateTime(refund.refundedAt)}`
+              : refund.queuedAt && ` · queued ${formatDateTime(refund.queuedAt)}`}
+            {refund.lastError && ` · ${refund.lastError}`}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
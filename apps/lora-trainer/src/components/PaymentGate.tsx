@@ -1,4 +1,4 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import {
   View,
   Text,
@@ -9,18 +9,27 @@ import {
   Divider,
   Alert,
   Badge,
+  ToggleButtonGroup,
+  ToggleButton,
 } from "reshaped";
-import { useAccount, useSendTransaction, useSwitchChain, useWaitForTransactionReceipt } from "wagmi";
-import { formatUnits } from "viem";
+import {
+  useAccount,
+  useSendTransaction,
+  useWriteContract,
+  useSwitchChain,
+  useWaitForTransactionReceipt,
+} from "wagmi";
+import { erc20Abi, formatUnits } from "viem";
 import { trpc } from "@/utils/trpc";
 import { PAYMENT_RECIPIENT, BASE_CHAIN_ID } from "@/lib/constants";
 
 type PaymentStep = "price" | "switching" | "sending" | "confirming" | "done";
+type PaymentAsset = "ETH" | "USDC";
 
 interface PaymentGateProps {
   active: boolean;
   onClose: () => void;
-  onPaymentComplete: (txHash: string) => void;
+  onPaymentComplete: (txHash: string, quoteId: string) => void;
 }
 
 export default function PaymentGate({
@@ -30,6 +39,10 @@ export default function PaymentGate({
 }: PaymentGateProps) {
   const [step, setStep] = useState<PaymentStep>("price");
   const [error, setError] = useState<string | null>(null);
+  const [asset, setAsset] = useState<PaymentAsset>("ETH");
+  // Quote the pending transaction was sent against — the price query keeps
+  // refreshing, so pin the one we actually paid
+  const paidQuoteIdRef = useRef<string | null>(null);
 
   const { chainId } = useAccount();
   const isOnBase = chainId === BASE_CHAIN_ID;
@@ -44,12 +57,25 @@ export default function PaymentGate({
 
   const {
     sendTransaction,
-    data: txHash,
-    isPending: isSending,
-    error: sendError,
-    reset: resetSend,
+    data: ethTxHash,
+    isPending: isSendingEth,
+    error: sendEthError,
+    reset: resetSendEth,
   } = useSendTransaction();
 
+  const {
+    writeContract,
+    data: usdcTxHash,
+    isPending: isSendingUsdc,
+    error: sendUsdcError,
+    reset: resetSendUsdc,
+  } = useWriteContract();
+
+  // Only one of the two hooks is ever used per payment attempt
+  const txHash = ethTxHash ?? usdcTxHash;
+  const isSending = isSendingEth || isSendingUsdc;
+  const sendError = sendEthError ?? sendUsdcError;
+
   const {
     isLoading: isConfirming,
     isSuccess: isConfirmed,
@@ -63,9 +89,10 @@ export default function PaymentGate({
     if (active) {
       setStep("price");
       setError(null);
-      resetSend();
+      resetSendEth();
+      resetSendUsdc();
     }
-  }, [active, resetSend]);
+  }, [active, resetSendEth, resetSendUsdc]);
 
   // Track step progression
   useEffect(() => {
@@ -77,9 +104,9 @@ export default function PaymentGate({
   }, [txHash, isConfirming]);
 
   useEffect(() => {
-    if (isConfirmed && txHash && step !== "done") {
+    if (isConfirmed && txHash && paidQuoteIdRef.current && step !== "done") {
       setStep("done");
-      onPaymentComplete(txHash);
+      onPaymentComplete(txHash, paidQuoteIdRef.current);
     }
   }, [isConfirmed, txHash, onPaymentComplete, step]);
 
@@ -116,22 +143,46 @@ export default function PaymentGate({
   }, [switchChain]);
 
   const handlePay = useCallback(() => {
-    if (!ethPriceQuery.data) return;
+    const data = ethPriceQuery.data;
+    const quote = data?.quotes?.[asset];
+    if (!data || !quote) return;
 
     setError(null);
-    const requiredWei = BigInt(ethPriceQuery.data.requiredEthWei);
+    paidQuoteIdRef.current = quote.quoteId;
+
+    if (asset === "USDC") {
+      writeContract({
+        address: data.usdcAddress as `0x${string}`,
+        abi: erc20Abi,
+        functionName: "transfer",
+        args: [
+          PAYMENT_RECIPIENT as `0x${string}`,
+          BigInt(data.requiredUsdcAmount),
+        ],
+        chainId: BASE_CHAIN_ID,
+      });
+      return;
+    }
 
     sendTransaction({
       to: PAYMENT_RECIPIENT as `0x${string}`,
-      value: requiredWei,
+      value: BigInt(data.requiredEthWei),
       chainId: BASE_CHAIN_ID,
     });
-  }, [ethPriceQuery.data, sendTransaction]);
+  }, [ethPriceQuery.data, asset, sendTransaction, writeContract]);
 
   const priceData = ethPriceQuery.data;
   const requiredEthFormatted = priceData
     ? Number(formatUnits(BigInt(priceData.requiredEthWei), 18)).toFixed(6)
     : null;
+  const requiredUsdcFormatted = priceData
+    ? Number(formatUnits(BigInt(priceData.requiredUsdcAmount), 6)).toFixed(2)
+    : null;
+  const paymentInFlight = step === "sending" || step === "confirming";
+  const amountLabel =
+    asset === "USDC"
+      ? `${requiredUsdcFormatted} USDC`
+      : `${requiredEthFormatted} ETH`;
 
   return (
     <Modal active={active} onClose={onClose} position="center" padding={6}>
@@ -162,6 +213,20 @@ export default function PaymentGate({
           </Alert>
         ) : priceData ? (
           <>
+            <ToggleButtonGroup
+              value={[asset]}
+              onChange={({ value }) => {
+                if (value[0]) setAsset(value[0] as PaymentAsset);
+              }}
+            >
+              <ToggleButton value="ETH" disabled={paymentInFlight}>
+                Pay with ETH
+              </ToggleButton>
+              <ToggleButton value="USDC" disabled={paymentInFlight}>
+                Pay with USDC
+              </ToggleButton>
+            </ToggleButtonGroup>
+
             <Card padding={4}>
               <View gap={3}>
                 <View direction="row" align="center" gap={2}>
@@ -177,16 +242,18 @@ export default function PaymentGate({
 
                 <Divider />
 
-                <View direction="row" align="center" gap={2}>
-                  <Text variant="body-2" color="neutral-faded">
-                    ETH Price
-                  </Text>
-                  <View.Item grow>
-                    <Text variant="body-1" align="end">
-                      ${priceData.ethPriceUsd.toFixed(2)}
+                {asset === "ETH" && (
+                  <View direction="row" align="center" gap={2}>
+                    <Text variant="body-2" color="neutral-faded">
+                      ETH Price
                     </Text>
-                  </View.Item>
-                </View>
+                    <View.Item grow>
+                      <Text variant="body-1" align="end">
+                        ${priceData.ethPriceUsd.toFixed(2)}
+                      </Text>
+                    </View.Item>
+                  </View>
+                )}
 
                 <View direction="row" align="center" gap={2}>
                   <Text variant="body-2" color="neutral-faded">
@@ -195,7 +262,7 @@ export default function PaymentGate({
                   <View.Item grow>
                     <View direction="row" align="center" justify="end" gap={2}>
                       <Text variant="body-2" weight="bold">
-                        {requiredEthFormatted} ETH
+                        {amountLabel}
                       </Text>
                       <Badge color="neutral" size="small">
                         BASE
@@ -207,8 +274,11 @@ export default function PaymentGate({
             </Card>
 
             <Text variant="caption-1" color="neutral-faded">
-              Price updates every 30s via Uniswap V3 on BASE. You cover gas fees.
-              If training fails, your ETH will be automatically refunded.
+              {asset === "ETH"
+                ? "ETH price updates every 30s via Uniswap V3 on BASE and is locked for 5 minutes once you pay."
+                : "USDC is charged at face value on BASE."}{" "}
+              You cover gas fees. If training fails, your payment will be
+              automatically refunded in the same asset.
             </Text>
 
             {error && (
@@ -252,9 +322,9 @@ export default function PaymentGate({
                 color="positive"
                 fullWidth
                 onClick={handlePay}
-                disabled={!priceData}
+                disabled={!priceData.quotes?.[asset]}
               >
-                Pay & Train — {requiredEthFormatted} ETH
+                Pay & Train — {amountLabel}
               </Button>
             )}
           </>
@@ -1,14 +1,31 @@
-import { View, Text, Button } from "reshaped";
+import { View, Text, Button, Switch, TextArea } from "reshaped";
+import {
+  useWatch,
+  type Control,
+  type UseFormSetValue,
+} from "react-hook-form";
+import { MAX_CAPTION_LENGTH } from "@/utils/captions";
+import type { FormData } from "./types";
 
 interface SelectedImageListProps {
   selectedImages: string[];
+  control: Control<FormData>;
+  setValue: UseFormSetValue<FormData>;
+  /** Caption prefilled from each image's are.na block, keyed by image URL */
+  suggestedCaptions: Record<string, string>;
   onRemove: (imageUrl: string) => void;
 }
 
 export default function SelectedImageList({
   selectedImages,
+  control,
+  setValue,
+  suggestedCaptions,
   onRemove,
 }: SelectedImageListProps) {
+  const captions = useWatch({ control, name: "captions" });
+  const captionTriggerWord = useWatch({ control, name: "captionTriggerWord" });
+
   if (selectedImages.length === 0) {
     return (
       <Text variant="body-2" color="neutral-faded">
@@ -17,13 +34,29 @@ export default function SelectedImageList({
     );
   }
 
+  const handleCaptionChange = (imageUrl: string, caption: string) => {
+    setValue("captions", { ...captions, [imageUrl]: caption });
+  };
+
   return (
     <View gap={3}>
+      <Switch
+        name="captionTriggerWord"
+        checked={captionTriggerWord}
+        onChange={({ checked }) => setValue("captionTriggerWord", checked)}
+      >
+        Start captions with the trigger word
+      </Switch>
+      <Text variant="caption-1" color="neutral-faded">
+        Captions are zipped as a .txt file next to each image. Leave one empty
+        to let the trainer caption it with the trigger word.
+      </Text>
+
       {selectedImages.map((imageUrl, index) => (
         <View
-          key={index}
+          key={imageUrl}
           direction="row"
-          align="center"
+          align="start"
           gap={3}
           padding={2}
           borderRadius="small"
@@ -40,21 +73,31 @@ export default function SelectedImageList({
             }}
           />
           <View.Item grow>
-            <Text variant="body-2" weight="medium">
-              Image {index + 1}
-            </Text>
-            <Text variant="caption-1" color="neutral-faded" maxLines={1}>
-              {imageUrl}
-            </Text>
+            <View gap={1}>
+              <View direction="row" align="center" justify="space-between">
+                <Text variant="body-2" weight="medium">
+                  Image {index + 1}
+                </Text>
+                <Button
+                  variant="ghost"
+                  color="critical"
+                  size="small"
+                  onClick={() => onRemove(imageUrl)}
+                >
+                  Remove
+                </Button>
+              </View>
+              <TextArea
+                name={`caption-${index}`}
+                size="medium"
+                resize="auto"
+                value={captions[imageUrl] ?? suggestedCaptions[imageUrl] ?? ""}
+                onChange={({ value }) => handleCaptionChange(imageUrl, value)}
+                placeholder="No caption — the trainer uses the trigger word"
+                inputAttributes={{ maxLength: MAX_CAPTION_LENGTH, rows: 2 }}
+              />
+            </View>
           </View.Item>
-          <Button
-            variant="ghost"
-            color="critical"
-            size="small"
-            onClick={() => onRemove(imageUrl)}
-          >
-            Remove
-          </Button>
         </View>
       ))}
     </View>
@@ -1,6 +1,8 @@
-import { View, Text } from "reshaped";
-import { type Control } from "react-hook-form";
+import { View, Text, Alert } from "reshaped";
+import { type Control, type UseFormSetValue } from "react-hook-form";
 import TrainingSettings from "./TrainingSettings";
+import SelectedImageList from "./SelectedImageList";
+import DatasetChecklist, { type DatasetReport } from "./DatasetChecklist";
 import StatusAlerts from "./StatusAlerts";
 import AuthGuard from "./AuthGuard";
 import type { FormData } from "./types";
@@ -16,7 +18,16 @@ interface DownloadMutationState {
 interface SidebarProps {
   selectedImages: string[];
   control: Control<FormData>;
+  setValue: UseFormSetValue<FormData>;
+  suggestedCaptions: Record<string, string>;
+  /** Quality report for the current selection, once checked */
+  datasetReport: DatasetReport | null;
+  datasetError: string | null;
+  isExempt: boolean;
+  onRemoveImage: (imageUrl: string) => void;
   onTrain: () => void;
+  onContinueTraining: () => void;
+  onDismissReport: () => void;
   onDownload: () => void;
   downloadMutation: DownloadMutationState;
   isSubmitting: boolean;
@@ -26,7 +37,15 @@ interface SidebarProps {
 export default function Sidebar({
   selectedImages,
   control,
+  setValue,
+  suggestedCaptions,
+  datasetReport,
+  datasetError,
+  isExempt,
+  onRemoveImage,
   onTrain,
+  onContinueTraining,
+  onDismissReport,
   onDownload,
   downloadMutation,
   isSubmitting,
@@ -52,10 +71,19 @@ export default function Sidebar({
 
         <StatusAlerts downloadMutation={downloadMutation} />
 
+        <SelectedImageList
+          selectedImages={selectedImages}
+          control={control}
+          setValue={setValue}
+          suggestedCaptions={suggestedCaptions}
+          onRemove={onRemoveImage}
+        />
+
         {selectedImages?.length > 0 && (
           <AuthGuard>
             <TrainingSettings
               control={control}
+              setValue={setValue}
               onTrain={onTrain}
               onDownload={onDownload}
               isTraining={isSubmitting || isTrainingActive}
@@ -63,6 +91,20 @@ export default function Sidebar({
               hasSelection={selectedImages.length > 0}
             />
 
+            {datasetError && (
+              <Alert color="critical" title="Dataset check failed">
+                {datasetError}
+              </Alert>
+            )}
+            {datasetReport && (
+              <DatasetChecklist
+                report={datasetReport}
+                onContinue={onContinueTraining}
+                onDismiss={onDismissReport}
+                continueLabel={isExempt ? "Start training" : "Continue to payment"}
+              />
+            )}
+
             <StatusAlerts downloadMutation={downloadMutation} />
           </AuthGuard>
         )}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { View, Text, Select, Actionable, FileUpload, Alert } from "reshaped";
+import { trpc } from "@/utils/trpc";
+import { readImageAsDataUrl } from "@/utils/imageDataUrl";
+
+/** A source as generate.images takes it, plus a URL to show it with */
+export interface PickedSource {
+  source:
+    | { kind: "arena"; url: string }
+    | { kind: "generated"; generatedImageId: string }
+    | { kind: "upload"; dataUrl: string };
+  previewUrl: string;
+}
+
+interface SourceImagePickerProps {
+  loraId: string;
+  value: PickedSource | null;
+  onChange: (value: PickedSource | null) => void;
+  disabled?: boolean;
+}
+
+type Origin = "training" | "generated" | "upload";
+
+function Thumbnail({
+  url,
+  selected,
+  onClick,
+}: {
+  url: string;
+  selected: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <Actionable onClick={onClick}>
+      <img
+        src={url}
+        alt=""
+        style={{
+          width: 64,
+          height: 64,
+          objectFit: "cover",
+          borderRadius: 4,
+          display: "block",
+          outline: selected ? "3px solid var(--rs-color-border-primary)" : "none",
+          outlineOffset: 2,
+        }}
+      />
+    </Actionable>
+  );
+}
+
+/**
+ * Choose what image-to-image and inpainting start from: one of the LoRA's
+ * are.na training images, an image generated with it, or an upload.
+ */
+export default function SourceImagePicker({
+  loraId,
+  value,
+  onChange,
+  disabled,
+}: SourceImagePickerProps) {
+  const [origin, setOrigin] = useState<Origin>("training");
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Both are already loaded by the LoRA page
+  const loraQuery = trpc.lora.getById.useQuery({ id: loraId });
+  const generatedQuery = trpc.generate.listByLora.useQuery({
+    loraTrainingId: loraId,
+  });
+
+  const trainingUrls = loraQuery.data?.imageUrls ?? [];
+  const generated = generatedQuery.data ?? [];
+
+  return (
+    <View gap={2}>
+      <Select
+        name="sourceOrigin"
+        value={origin}
+        onChange={({ value: next }) => setOrigin(next as Origin)}
+        disabled={disabled}
+      >
+        <option value="training">Training image (are.na)</option>
+        <option value="generated">Generated image</option>
+        <option value="upload">Upload</option>
+      </Select>
+
+      {origin === "training" && (
+        <View direction="row" wrap gap={2}>
+          {trainingUrls.map((url) => (
+            <Thumbnail
+              key={url}
+              url={url}
+              selected={value?.source.kind === "arena" && value.source.url === url}
+              onClick={() =>
+                !disabled &&
+                onChange({ source: { kind: "arena", url }, previewUrl: url })
+              }
+            />
+          ))}
+          {trainingUrls.length === 0 && (
+            <Text variant="caption-1" color="neutral-faded">
+              No training images recorded for this LoRA.
+            </Text>
+          )}
+        </View>
+      )}
+
+      {origin === "generated" && (
+        <View direction="row" wrap gap={2}>
+          {generated.map((image) => (
+            <Thumbnail
+              key={image.id}
+              url={image.imageUrl}
+              selected={
+                value?.source.kind === "generated" &&
+                value.source.generatedImageId === image.id
+              }
+              onClick={() =>
+                !disabled &&
+                onChange({
+                  source: { kind: "generated", generatedImageId: image.id },
+                  previewUrl: image.imageUrl,
+                })
+              }
+            />
+          ))}
+          {generated.length === 0 && (
+            <Text variant="caption-1" color="neutral-faded">
+              Nothing generated with this LoRA yet.
+            </Text>
+          )}
+        </View>
+      )}
+
+      {origin === "upload" && (
+        <FileUpload
+          name="sourceUpload"
+          inline
+          disabled={disabled}
+          inputAttributes={{ accept: "image/png,image/jpeg,image/webp" }}
+          onChange={async ({ value: files }) => {
+            const file = files[0];
+            if (!file) return;
+            setUploadError(null);
+            try {
+              const dataUrl = await readImageAsDataUrl(file);
+              onChange({ source: { kind: "upload", dataUrl }, previewUrl: dataUrl });
+            } catch (error) {
+              setUploadError(
+                error instanceof Error ? error.message : "Could not read the image.",
+              );
+            }
+          }}
+        >
+          {value?.source.kind === "upload"
+            ? "Replace the uploaded image"
+            : "Drop an image or click to upload"}
+        </FileUpload>
+      )}
+      {uploadError && <Alert color="critical">{uploadError}</Alert>}
+    </View>
+  );
+}
@@ -27,11 +27,12 @@ export default function StatusAlerts({
       )}
 
       {downloadMutation.isSuccess && (
-        <Alert color="primary" title="Download Complete">
+        <Alert color="primary" title="Download Started">
           <View gap={1}>
-            <Text variant="body-2">Zip archive downloaded successfully!</Text>
+            <Text variant="body-2">Your zip archive is downloading.</Text>
             <Text variant="caption-1" color="neutral-faded">
-              Check your Downloads folder for the zip file.
+              Your browser shows its progress; the file lands in your
+              Downloads folder.
             </Text>
           </View>
         </Alert>
@@ -2,32 +2,21 @@ import { useState, useRef, useEffect } from "react";
 import { View, Text, Card, Alert, Button, Loader } from "reshaped";
 import NextLink from "next/link";
 import type { TrainingPhase } from "./ArenaChannelFetcher";
+import TrainingSetReport, { type TrainingSet } from "./TrainingSetReport";
 
 interface TrainingProgressProps {
   phase: TrainingPhase;
-  logs: { timestamp: string; message: string }[];
-  result: Record<string, unknown> | null;
+  logs: { message: string }[];
+  loraWeightsUrl: string | null;
   error: string | null;
   queuePosition?: number;
   loraId?: string | null;
+  trainingSet?: TrainingSet | null;
   onReset: () => void;
   onCancel: () => void;
   isCancelling: boolean;
 }
 
-function getLoraWeightsUrl(
-  result: Record<string, unknown> | null,
-): string | null {
-  if (!result) return null;
-  const loraFile = result.diffusers_lora_file as
-    | { url?: string }
-    | undefined;
-  if (loraFile?.url) return loraFile.url;
-  const configFile = result.config_file as { url?: string } | undefined;
-  if (configFile?.url) return configFile.url;
-  return null;
-}
-
 function phaseLabel(phase: TrainingPhase, queuePosition?: number): string {
   switch (phase) {
     case "preparing":
@@ -51,10 +40,11 @@ const isActive = (phase: TrainingPhase) =>
 export default function TrainingProgress({
   phase,
   logs,
-  result,
+  loraWeightsUrl: loraUrl,
   error,
   queuePosition,
   loraId,
+  trainingSet,
   onReset,
   onCancel,
   isCancelling,
@@ -79,7 +69,6 @@ export default function TrainingProgress({
 
   if (phase === "idle") return null;
 
-  const loraUrl = getLoraWeightsUrl(result);
   const showLogs =
     logs.length > 0 &&
     (phase === "training" || phase === "queued" || phase === "completed");
@@ -258,38 +247,11 @@ export default function TrainingProgress({
                       </View>
                     </View>
                   )}
-
-                  {!loraUrl && result && (
-                    <View gap={1}>
-                      <Text
-                        variant="caption-1"
-                        weight="medium"
-                        color="neutral-faded"
-                      >
-                        Raw Result
-                      </Text>
-                      <pre
-                        style={{
-                          fontSize: 11,
-                          background:
-                            "var(--rs-color-background-elevation-raised)",
-                          padding: 8,
-                          borderRadius: 4,
-                          overflow: "auto",
-                          maxHeight: 160,
-                          margin: 0,
-                        }}
-                      >
-                        {JSON.stringify(result, null, 2)}
-                      </pre>
-                      <Button color="neutral" size="small" onClick={onReset}>
-                        Train Another
-                      </Button>
-                    </View>
-                  )}
                 </View>
               )}
 
+              {trainingSet && <TrainingSetReport trainingSet={trainingSet} />}
+
               {/* Log output — scrolls internally */}
               {showLogs && (
                 <View gap={1}>
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { View, Text, Button } from "reshaped";
+import type { RouterOutputs } from "@/utils/trpc";
+
+export type TrainingSet = RouterOutputs["fal"]["trainLora"]["trainingSet"];
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * What was actually zipped: each image's original vs. processed size and
+ * crop box, and the images that were left out with the reason.
+ */
+export default function TrainingSetReport({
+  trainingSet,
+}: {
+  trainingSet: TrainingSet;
+}) {
+  const [open, setOpen] = useState(false);
+  const { images, rejected } = trainingSet;
+
+  return (
+    <View gap={2}>
+      <View direction="row" align="center" gap={2}>
+        <Text variant="caption-1" weight="medium" color="neutral-faded">
+          Training set: {images.length} image{images.length !== 1 ? "s" : ""}
+          {rejected.length > 0 && `, ${rejected.length} skipped`}
+        </Text>
+        <Button variant="ghost" size="small" onClick={() => setOpen((v) => !v)}>
+          {open ? "Hide" : "Details"}
+        </Button>
+      </View>
+
+      {open && (
+        <View
+          gap={2}
+          attributes={{ style: { maxHeight: 180, overflowY: "auto" } }}
+        >
+          {images.map((image) => (
+            <View key={image.url} direction="row" align="center" gap={2}>
+              <img
+                src={image.url}
+                alt=""
+                style={{
+                  width: 32,
+                  height: 32,
+                  objectFit: "cover",
+                  borderRadius: 4,
+                }}
+              />
+              <View.Item grow>
+                <Text variant="caption-1" weight="medium" maxLines={1}>
+                  {image.filename}
+                </Text>
+                {image.preprocess && (
+                  <Text variant="caption-1" color="neutral-faded">
+                    {image.preprocess.original.width}×
+                    {image.preprocess.original.height}{" "}
+                    {image.preprocess.original.format.toUpperCase()} (
+                    {formatBytes(image.preprocess.original.bytes)}) →{" "}
+                    {image.preprocess.processed.width}×
+                    {image.preprocess.processed.height}{" "}
+                    {image.preprocess.processed.format.toUpperCase()} (
+                    {formatBytes(image.preprocess.processed.bytes)})
+                    {image.preprocess.crop &&
+                      `, cropped to ${image.preprocess.crop.width}×${image.preprocess.crop.height} at ${image.preprocess.crop.left},${image.preprocess.crop.top}`}
+                  </Text>
+                )}
+              </View.Item>
+            </View>
+          ))}
+
+          {rejected.map((image) => (
+            <View key={image.url} direction="row" align="center" gap={2}>
+              <Text variant="caption-1" color="critical">
+                Skipped
+              </Text>
+              <Text variant="caption-1" color="neutral-faded" maxLines={1}>
+                {image.reason} — {image.url}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -1,9 +1,28 @@
-import { View, Card, TextField, NumberField, Button, FormControl } from "reshaped";
-import { Controller, type Control } from "react-hook-form";
+import {
+  View,
+  Card,
+  TextField,
+  NumberField,
+  Button,
+  FormControl,
+  Select,
+  Switch,
+  Text,
+} from "reshaped";
+import {
+  Controller,
+  useWatch,
+  type Control,
+  type UseFormSetValue,
+} from "react-hook-form";
+import { trpc, type RouterOutputs } from "@/utils/trpc";
 import type { FormData } from "./types";
 
+type Trainer = RouterOutputs["fal"]["trainers"][number];
+
 interface TrainingSettingsProps {
   control: Control<FormData>;
+  setValue: UseFormSetValue<FormData>;
   onTrain: () => void;
   onDownload: () => void;
   isTraining: boolean;
@@ -11,14 +30,68 @@ interface TrainingSettingsProps {
   hasSelection: boolean;
 }
 
+function TrainerParamField({
+  control,
+  trainer,
+  field: paramField,
+}: {
+  control: Control<FormData>;
+  trainer: Trainer;
+  field: Trainer["fields"][number];
+}) {
+  const fallback = trainer.defaults[paramField.key];
+
+  return (
+    <FormControl>
+      {paramField.kind === "number" && (
+        <FormControl.Label>{paramField.label}</FormControl.Label>
+      )}
+      <Controller
+        name={`trainerParams.${paramField.key}`}
+        control={control}
+        render={({ field }) =>
+          paramField.kind === "boolean" ? (
+            <Switch
+              name={field.name}
+              checked={Boolean(field.value ?? fallback)}
+              onChange={({ checked }) => field.onChange(checked)}
+            >
+              {paramField.label}
+            </Switch>
+          ) : (
+            <NumberField
+              name={field.name}
+              value={Number(field.value ?? fallback)}
+              onChange={({ value }) => field.onChange(value)}
+              min={paramField.min}
+              max={paramField.max}
+              step={paramField.step}
+              increaseAriaLabel={`Increase ${paramField.label.toLowerCase()}`}
+              decreaseAriaLabel={`Decrease ${paramField.label.toLowerCase()}`}
+            />
+          )
+        }
+      />
+      <FormControl.Helper>{paramField.description}</FormControl.Helper>
+    </FormControl>
+  );
+}
+
 export default function TrainingSettings({
   control,
+  setValue,
   onTrain,
   onDownload,
   isTraining,
   isDownloading,
   hasSelection,
 }: TrainingSettingsProps) {
+  const { data: trainers } = trpc.fal.trainers.useQuery(undefined, {
+    staleTime: Infinity,
+  });
+  const trainerId = useWatch({ control, name: "trainer" });
+  const trainer = trainers?.find((t) => t.id === trainerId);
+
   return (
     <Card padding={4}>
       <View gap={4}>
@@ -39,20 +112,55 @@ export default function TrainingSettings({
           />
         </FormControl>
 
+        <FormControl>
+          <FormControl.Label>Trainer</FormControl.Label>
+          <Controller
+            name="trainer"
+            control={control}
+            render={({ field }) => (
+              <Select
+                name="trainer"
+                value={field.value}
+                onChange={({ value }) => {
+                  field.onChange(value);
+                  // Each trainer has its own step range and settings
+                  const next = trainers?.find((t) => t.id === value);
+                  if (next) {
+                    setValue("trainingSteps", next.steps.default);
+                    setValue("trainerParams", { ...next.defaults });
+                  }
+                }}
+              >
+                {(trainers ?? []).map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.label}
+                  </option>
+                ))}
+              </Select>
+            )}
+          />
+          {trainer && (
+            <FormControl.Helper>{trainer.description}</FormControl.Helper>
+          )}
+        </FormControl>
+
         <FormControl>
           <FormControl.Label>Training Steps</FormControl.Label>
           <Controller
             name="trainingSteps"
             control={control}
-            rules={{ min: 100, max: 2000 }}
+            rules={{
+              min: trainer?.steps.min ?? 100,
+              max: trainer?.steps.max ?? 2000,
+            }}
             render={({ field }) => (
               <NumberField
                 name="trainingSteps"
                 value={field.value}
                 onChange={({ value }) => field.onChange(value)}
-                min={100}
-                max={2000}
-                step={100}
+                min={trainer?.steps.min ?? 100}
+                max={trainer?.steps.max ?? 2000}
+                step={trainer?.steps.step ?? 100}
                 increaseAriaLabel="Increase training steps"
                 decreaseAriaLabel="Decrease training steps"
               />
@@ -60,6 +168,63 @@ export default function TrainingSettings({
           />
         </FormControl>
 
+        <View direction="row" gap={3}>
+          <View.Item columns={6}>
+            <FormControl>
+              <FormControl.Label>Image Crop</FormControl.Label>
+              <Controller
+                name="cropMode"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    name="cropMode"
+                    value={field.value}
+                    onChange={({ value }) => field.onChange(value)}
+                  >
+                    <option value="smart">Smart square</option>
+                    <option value="center">Center square</option>
+                    <option value="none">Don&apos;t crop</option>
+                  </Select>
+                )}
+              />
+            </FormControl>
+          </View.Item>
+          <View.Item columns={6}>
+            <FormControl>
+              <FormControl.Label>Format</FormControl.Label>
+              <Controller
+                name="outputFormat"
+                control={control}
+                render={({ field }) => (
+                  <Select
+                    name="outputFormat"
+                    value={field.value}
+                    onChange={({ value }) => field.onChange(value)}
+                  >
+                    <option value="jpeg">JPEG</option>
+                    <option value="png">PNG</option>
+                  </Select>
+                )}
+              />
+            </FormControl>
+          </View.Item>
+        </View>
+        {trainer && (
+          <Text variant="caption-1" color="neutral-faded">
+            Images are resized to at most {trainer.resolution}px, re-encoded
+            and stripped of EXIF and other metadata before training.
+          </Text>
+        )}
+
+        {trainer?.fields.map((paramField) => (
+          <TrainerParamField
+            key={`${trainer.id}.${paramField.key}`}
+            control={control}
+            trainer={trainer}
+            field={paramField}
+          />
+        ))}
+
         <Button
           color="positive"
           fullWidth
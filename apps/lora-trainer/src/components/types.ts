@@ -11,15 +11,28 @@ export const formSchema = z.object({
       "Must be a valid Are.na channel URL (e.g. https://www.are.na/user/channel-slug)",
     ),
   selectedImages: z.array(z.string()),
+  // Captions edited by hand, keyed by image URL; others use the suggestion
+  captions: z.record(z.string()),
+  captionTriggerWord: z.boolean(),
   triggerWord: z.string(),
+  trainer: z.string(),
   trainingSteps: z.number(),
+  // Extra settings of the chosen trainer, keyed as the API's registry names them
+  trainerParams: z.record(z.union([z.number(), z.boolean()])),
+  // How images are fitted to the trainer's resolution before zipping
+  cropMode: z.enum(["center", "smart", "none"]),
+  outputFormat: z.enum(["jpeg", "png"]),
 });
 
+/** Trainer selected by default — FAL's fast FLUX LoRA trainer */
+export const DEFAULT_TRAINER_ID = "flux-lora-fast";
+
 export type FormData = z.infer<typeof formSchema>;
 
 export interface ArenaImage {
   id: number;
   title?: string;
+  description?: string | null;
   created_at: string;
   source?: { url: string };
   image?: {
@@ -30,3 +43,12 @@ export interface ArenaImage {
     original: { url: string };
   };
 }
+
+/** Best available full-size URL of an are.na image block */
+export function getArenaImageUrl(image: ArenaImage): string | undefined {
+  return (
+    image.image?.original.url ||
+    image.image?.large.url ||
+    image.image?.display.url
+  );
+}
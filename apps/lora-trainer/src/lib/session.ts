@@ -0,0 +1,61 @@
+import type { IncomingHttpHeaders, IncomingMessage } from "node:http";
+import { resolveClientIp, type Context } from "@dmbk-world/api";
+import { fromNodeHeaders } from "better-auth/node";
+import { isAddress } from "viem";
+import { auth } from "@/lib/auth";
+
+/**
+ * Extract the wallet address from a better-auth SIWE session user.
+ * The SIWE plugin with `anonymous: true` stores the address as:
+ *   1. user.walletAddress (if the plugin schema includes it)
+ *   2. user.name (anonymous SIWE sets name = full address)
+ *   3. user.email prefix (anonymous SIWE sets email = `${address}@ethereum.siwe`)
+ */
+function extractWalletAddress(user: Record<string, unknown>): string {
+  // 1. Direct walletAddress field
+  if (typeof user.walletAddress === "string" && isAddress(user.walletAddress)) {
+    return user.walletAddress;
+  }
+  // 2. Name field (anonymous SIWE sets name to the full address)
+  if (typeof user.name === "string" && isAddress(user.name)) {
+    return user.name;
+  }
+  // 3. Email prefix (anonymous SIWE sets email to `${address}@ethereum.siwe`)
+  if (typeof user.email === "string") {
+    const prefix = user.email.split("@")[0];
+    if (prefix && isAddress(prefix)) {
+      return prefix;
+    }
+  }
+  return "";
+}
+
+/** The signed-in user for an API request, as the tRPC context holds it */
+export async function getRequestSession(
+  headers: IncomingHttpHeaders,
+): Promise<Context["session"]> {
+  const session = await auth.api.getSession({
+    headers: fromNodeHeaders(headers),
+  });
+  return session
+    ? {
+        user: {
+          id: session.user.id,
+          walletAddress: extractWalletAddress(
+            session.user as Record<string, unknown>,
+          ),
+        },
+      }
+    : null;
+}
+
+/**
+ * The client's IP for rate limiting: the socket peer, or the x-forwarded-for
+ * entry added by the outermost of TRUSTED_PROXY_COUNT proxies.
+ */
+export function getClientIp(req: IncomingMessage): string | null {
+  return resolveClientIp({
+    forwardedFor: req.headers["x-forwarded-for"],
+    remoteAddress: req.socket.remoteAddress,
+  });
+}
@@ -3,7 +3,12 @@ import "reshaped/themes/lora-trainer/theme.css";
 import "@/styles/globals.css";
 import type { AppProps } from "next/app";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { httpBatchLink } from "@trpc/client";
+import {
+  httpBatchLink,
+  httpSubscriptionLink,
+  splitLink,
+  TRPCClientError,
+} from "@trpc/client";
 import { trpc } from "@/utils/trpc";
 import { useState } from "react";
 import { Reshaped, View, Button } from "reshaped";
@@ -17,13 +22,31 @@ import WalletStatus from "@/components/WalletStatus";
 export default function App({ Component, pageProps }: AppProps) {
   const router = useRouter();
   const isLoras = router.pathname.startsWith("/loras");
+  const isMe = router.pathname === "/me";
 
-  const [queryClient] = useState(() => new QueryClient());
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        defaultOptions: {
+          queries: {
+            // Retrying a rate-limited query only spends more of the limit
+            retry: (failureCount, error) =>
+              !(
+                error instanceof TRPCClientError &&
+                error.data?.code === "TOO_MANY_REQUESTS"
+              ) && failureCount < 3,
+          },
+        },
+      })
+  );
   const [trpcClient] = useState(() =>
     trpc.createClient({
       links: [
-        httpBatchLink({
-          url: "/api/trpc",
+        // Subscriptions stream over SSE; everything else is batched
+        splitLink({
+          condition: (op) => op.type === "subscription",
+          true: httpSubscriptionLink({ url: "/api/trpc" }),
+          false: httpBatchLink({ url: "/api/trpc" }),
         }),
       ],
     })
@@ -36,7 +59,14 @@ export default function App({ Component, pageProps }: AppProps) {
           <Reshaped theme="lora-trainer">
             <AuthModalProvider>
               <Component {...pageProps} />
-              <View position="fixed" insetStart={2} insetBottom={2} width={112 / 4}>
+              <View position="fixed" insetStart={2} insetBottom={2} width={112 / 4} gap={2}>
+                {!isMe && (
+                  <NextLink href="/me" passHref legacyBehavior>
+                    <Button as="a" fullWidth color="neutral">
+                      My LoRAs
+                    </Button>
+                  </NextLink>
+                )}
                 <NextLink href={isLoras ? "/" : "/loras"} passHref legacyBehavior>
                   <Button as="a" fullWidth color="primary">
                     {isLoras ? "Train" : "Gallery"}
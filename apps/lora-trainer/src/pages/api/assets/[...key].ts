@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { readLocalAsset } from "@dmbk-world/api";
+
+/**
+ * Serves assets re-hosted with STORAGE_BACKEND=fs (local dev). With the s3
+ * backend assets are served by the bucket and this route 404s.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const key = ([] as string[]).concat(req.query.key ?? []).join("/");
+  const asset = await readLocalAsset(key);
+  if (!asset) {
+    return res.status(404).json({ error: "Not found" });
+  }
+
+  // Keys never change content once written
+  res.setHeader("Content-Type", asset.contentType);
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  return res.status(200).send(asset.data);
+}
@@ -1,6 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from "next";
 import { toNodeHandler } from "better-auth/node";
+import { checkRateLimit, RateLimitError } from "@dmbk-world/api";
 import { auth } from "@/lib/auth";
+import { getClientIp } from "@/lib/session";
 
 export const config = { api: { bodyParser: false } };
 
-export default toNodeHandler(auth);
+const authHandler = toNodeHandler(auth);
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  try {
+    await checkRateLimit("auth", { ip: getClientIp(req) });
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+    return res.status(429).json({ error: error.message });
+  }
+  return authHandler(req, res);
+}
@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { checkRateLimit, RateLimitError, sendImageZip } from "@dmbk-world/api";
+import { getClientIp, getRequestSession } from "@/lib/session";
+import {
+  IMAGE_ZIP_MESSAGE_SOURCE,
+  imageZipStartedCookie,
+} from "@/utils/downloadImageZip";
+
+// Captions for 20 images fit comfortably; the zip itself is streamed out
+// and can be far larger than Next's default response warning
+export const config = {
+  api: { bodyParser: { sizeLimit: "256kb" }, responseLimit: false },
+};
+
+/**
+ * The browser's download manager only handles plain navigations, so the
+ * page posts a hidden form (fields `payload` = JSON body, `token`) into an
+ * iframe. Errors go back to the page as a postMessage; JSON clients get
+ * JSON errors.
+ */
+function readRequest(req: NextApiRequest): {
+  body: unknown;
+  token: string | null;
+} {
+  if (typeof req.body?.payload !== "string") {
+    return { body: req.body, token: null };
+  }
+  const token =
+    typeof req.body.token === "string" && /^[a-z0-9]{8,32}$/.test(req.body.token)
+      ? req.body.token
+      : null;
+  try {
+    return { body: JSON.parse(req.body.payload), token };
+  } catch {
+    return { body: null, token };
+  }
+}
+
+function sendError(
+  res: NextApiResponse,
+  status: number,
+  error: string,
+  token: string | null,
+) {
+  if (token === null) return res.status(status).json({ error });
+
+  // Escape "<" so the message can't close the script tag
+  const message = JSON.stringify({
+    source: IMAGE_ZIP_MESSAGE_SOURCE,
+    token,
+    error,
+  }).replace(/</g, "\\u003c");
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  return res
+    .status(status)
+    .send(
+      `<!doctype html><script>parent.postMessage(${message}, location.origin)</script>`,
+    );
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { body, token } = readRequest(req);
+
+  const session = await getRequestSession(req.headers);
+  if (!session?.user) {
+    return sendError(res, 401, "Sign in to download images.", token);
+  }
+
+  try {
+    await checkRateLimit("imageZip", {
+      walletAddress: session.user.walletAddress,
+      ip: getClientIp(req),
+    });
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+    res.setHeader("Retry-After", String(error.retryAfterSeconds));
+    return sendError(res, 429, error.message, token);
+  }
+
+  const failure = await sendImageZip(body, res, {
+    // Tells the waiting page the download has begun
+    onStart: () => {
+      if (token) {
+        res.setHeader(
+          "Set-Cookie",
+          `${imageZipStartedCookie(token)}=1; Path=/; Max-Age=120; SameSite=Strict`,
+        );
+      }
+    },
+  });
+  if (failure) return sendError(res, failure.status, failure.error, token);
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { receiveFalWebhook } from "@dmbk-world/api";
+
+// The signature covers the exact bytes FAL sent, so read the body ourselves
+export const config = { api: { bodyParser: false } };
+
+async function readRawBody(req: NextApiRequest): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { status, body } = await receiveFalWebhook(
+    req.headers,
+    await readRawBody(req),
+  );
+  return res.status(status).json(body);
+}
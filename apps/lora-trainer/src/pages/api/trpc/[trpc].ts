@@ -1,53 +1,28 @@
 import { createNextApiHandler } from "@trpc/server/adapters/next";
-import { appRouter } from "@dmbk-world/api";
+import { appRouter, RateLimitError } from "@dmbk-world/api";
 import type { Context } from "@dmbk-world/api";
-import { auth } from "@/lib/auth";
-import { fromNodeHeaders } from "better-auth/node";
-import { isAddress } from "viem";
+import { getClientIp, getRequestSession } from "@/lib/session";
 
-/**
- * Extract the wallet address from a better-auth SIWE session user.
- * The SIWE plugin with `anonymous: true` stores the address as:
- *   1. user.walletAddress (if the plugin schema includes it)
- *   2. user.name (anonymous SIWE sets name = full address)
- *   3. user.email prefix (anonymous SIWE sets email = `${address}@ethereum.siwe`)
- */
-function extractWalletAddress(user: Record<string, unknown>): string {
-  // 1. Direct walletAddress field
-  if (typeof user.walletAddress === "string" && isAddress(user.walletAddress)) {
-    return user.walletAddress;
-  }
-  // 2. Name field (anonymous SIWE sets name to the full address)
-  if (typeof user.name === "string" && isAddress(user.name)) {
-    return user.name;
-  }
-  // 3. Email prefix (anonymous SIWE sets email to `${address}@ethereum.siwe`)
-  if (typeof user.email === "string") {
-    const prefix = user.email.split("@")[0];
-    if (prefix && isAddress(prefix)) {
-      return prefix;
-    }
-  }
-  return "";
-}
+// Image-to-image uploads and inpainting masks arrive as data URLs
+export const config = {
+  api: { bodyParser: { sizeLimit: "12mb" } },
+};
 
 export default createNextApiHandler({
   router: appRouter,
-  createContext: async ({ req }): Promise<Context> => {
-    const session = await auth.api.getSession({
-      headers: fromNodeHeaders(req.headers),
-    });
+  createContext: async ({ req }): Promise<Context> => ({
+    session: await getRequestSession(req.headers),
+    ip: getClientIp(req),
+  }),
+  // Rate-limited responses say when to retry
+  responseMeta({ errors }) {
+    const retryAfter = errors
+      .map((error) => error.cause)
+      .filter((cause) => cause instanceof RateLimitError)
+      .map((cause) => cause.retryAfterSeconds);
+    if (retryAfter.length === 0) return {};
     return {
-      session: session
-        ? {
-            user: {
-              id: session.user.id,
-              walletAddress: extractWalletAddress(
-                session.user as Record<string, unknown>,
-              ),
-            },
-          }
-        : null,
+      headers: new Headers({ "Retry-After": String(Math.max(...retryAfter)) }),
     };
   },
 });
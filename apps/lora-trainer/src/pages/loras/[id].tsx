@@ -19,6 +19,7 @@ export default function LoraDetailPage() {
   const router = useRouter();
   const id = router.query.id as string | undefined;
   const [showGenerateModal, setShowGenerateModal] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
 
   const loraQuery = trpc.lora.getById.useQuery(
     { id: id! },
@@ -30,6 +31,11 @@ export default function LoraDetailPage() {
     { enabled: !!id },
   );
 
+  const logsQuery = trpc.lora.trainingLogs.useQuery(
+    { id: id! },
+    { enabled: !!id && showLogs },
+  );
+
   if (!id) {
     return (
       <View height="100vh" align="center" justify="center">
@@ -91,6 +97,9 @@ export default function LoraDetailPage() {
               <View gap={1}>
                 <Text variant="title-1">{lora.triggerWord}</Text>
                 <View direction="row" gap={3}>
+                  <Text variant="body-2" color="neutral-faded">
+                    {lora.trainerLabel} trainer
+                  </Text>
                   <Text variant="body-2" color="neutral-faded">
                     {lora.steps} steps
                   </Text>
@@ -144,6 +153,51 @@ export default function LoraDetailPage() {
           </View>
         </View>
 
+        {/* Training log persisted from FAL */}
+        {lora.status !== "pending" && (
+          <View gap={2}>
+            <View direction="row" align="center" gap={2}>
+              <Text variant="title-3">Training Log</Text>
+              <Button
+                variant="ghost"
+                size="small"
+                onClick={() => setShowLogs((v) => !v)}
+              >
+                {showLogs ? "Hide" : "Show"}
+              </Button>
+            </View>
+
+            {showLogs && logsQuery.isLoading && <Loader />}
+
+            {showLogs && logsQuery.data && logsQuery.data.length === 0 && (
+              <Text variant="body-2" color="neutral-faded">
+                No log output was recorded for this training.
+              </Text>
+            )}
+
+            {showLogs && logsQuery.data && logsQuery.data.length > 0 && (
+              <div
+                style={{
+                  fontFamily: "monospace",
+                  fontSize: 11,
+                  lineHeight: 1.5,
+                  background: "var(--rs-color-background-elevation-raised)",
+                  padding: 8,
+                  borderRadius: 4,
+                  maxHeight: 320,
+                  overflowY: "auto",
+                  whiteSpace: "pre-wrap",
+                  wordBreak: "break-all",
+                }}
+              >
+                {logsQuery.data.map((log, i) => (
+                  <div key={i}>{log.message}</div>
+                ))}
+              </div>
+            )}
+          </View>
+        )}
+
         {/* Generated Images Gallery */}
         <View gap={3}>
           <Text variant="title-3">Generated Images</Text>
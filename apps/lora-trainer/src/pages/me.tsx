@@ -0,0 +1,15 @@
+import { View } from "reshaped";
+import AuthGuard from "@/components/AuthGuard";
+import MyLoras from "@/components/MyLoras";
+
+export default function MePage() {
+  return (
+    <View height="100vh" direction="column" attributes={{ style: { backgroundColor: "var(--color-accent)" } }}>
+      <View padding={2} attributes={{ style: { flex: 1, overflowY: "auto" } }}>
+        <AuthGuard>
+          <MyLoras />
+        </AuthGuard>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,47 @@
+import type { ArenaImage } from "@/components/types";
+
+/** Keep in sync with MAX_CAPTION_LENGTH in the API */
+export const MAX_CAPTION_LENGTH = 1000;
+
+// are.na fills in the uploaded filename when a block has no title
+const FILENAME_TITLE = /\.(jpe?g|png|gif|webp|heic|avif)$/i;
+
+/**
+ * Starting caption for an are.na image block: its title (unless it is just
+ * the uploaded filename) followed by its description.
+ */
+export function suggestCaption(image: ArenaImage): string {
+  const title = image.title?.trim();
+  const parts = [
+    title && !FILENAME_TITLE.test(title) ? title : "",
+    image.description?.replace(/\s+/g, " ").trim() ?? "",
+  ].filter(Boolean);
+  return parts.join(". ").slice(0, MAX_CAPTION_LENGTH);
+}
+
+/**
+ * Final caption of every selected image, as sent to the API: the edited
+ * caption or the suggestion, optionally led by the trigger word. Images
+ * left without a caption are omitted and get no sidecar file.
+ */
+export function buildCaptions(params: {
+  imageUrls: string[];
+  edited: Record<string, string>;
+  suggested: Record<string, string>;
+  triggerWord: string;
+  withTriggerWord: boolean;
+}): { url: string; caption: string }[] {
+  const triggerWord = params.triggerWord.trim();
+  return params.imageUrls.flatMap((url) => {
+    let caption = (params.edited[url] ?? params.suggested[url] ?? "").trim();
+    if (!caption) return [];
+    if (
+      params.withTriggerWord &&
+      triggerWord &&
+      !caption.toLowerCase().startsWith(triggerWord.toLowerCase())
+    ) {
+      caption = `${triggerWord}, ${caption}`;
+    }
+    return [{ url, caption: caption.slice(0, MAX_CAPTION_LENGTH) }];
+  });
+}
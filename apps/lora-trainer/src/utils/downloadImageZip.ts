@@ -0,0 +1,90 @@
+/** Marks postMessages sent by the zip route's error page */
+export const IMAGE_ZIP_MESSAGE_SOURCE = "image-zip";
+
+/** Cookie the zip route sets once the archive starts streaming */
+export function imageZipStartedCookie(token: string): string {
+  return `image-zip-${token}`;
+}
+
+const ROUTE = "/api/fal/image-zip";
+const POLL_INTERVAL_MS = 500;
+// Downloading and preprocessing 20 large images can take a while
+const START_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ImageZipInput {
+  imageUrls: string[];
+  triggerWord: string;
+  captions?: { url: string; caption: string }[];
+  trainer?: string;
+  preprocessing?: { crop: "center" | "smart" | "none"; format: "jpeg" | "png" };
+}
+
+/**
+ * Ask the server for a training zip and let the browser download it
+ * natively, with its own progress UI — the archive is streamed to disk and
+ * never held in page memory. Resolves once the download has started;
+ * rejects with the server's message if the zip can't be built.
+ */
+export function downloadImageZip(input: ImageZipInput): Promise<void> {
+  const token = crypto.randomUUID().replace(/-/g, "");
+  const cookie = imageZipStartedCookie(token);
+
+  const iframe = document.createElement("iframe");
+  iframe.name = `image-zip-${token}`;
+  iframe.hidden = true;
+
+  const form = document.createElement("form");
+  form.method = "POST";
+  form.action = ROUTE;
+  form.target = iframe.name;
+  form.hidden = true;
+  for (const [name, value] of [
+    ["payload", JSON.stringify(input)],
+    ["token", token],
+  ]) {
+    const field = document.createElement("input");
+    field.type = "hidden";
+    field.name = name;
+    field.value = value;
+    form.appendChild(field);
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const startedAt = Date.now();
+
+    const cleanup = () => {
+      clearInterval(poll);
+      window.removeEventListener("message", onMessage);
+      form.remove();
+      // Give the browser a moment to hand the response to its downloads
+      setTimeout(() => iframe.remove(), 1000);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (
+        event.origin !== window.location.origin ||
+        event.data?.source !== IMAGE_ZIP_MESSAGE_SOURCE ||
+        event.data.token !== token
+      ) {
+        return;
+      }
+      cleanup();
+      reject(new Error(String(event.data.error)));
+    };
+
+    const poll = setInterval(() => {
+      if (document.cookie.split("; ").some((c) => c.startsWith(`${cookie}=`))) {
+        document.cookie = `${cookie}=; Path=/; Max-Age=0`;
+        cleanup();
+        resolve();
+      } else if (Date.now() - startedAt > START_TIMEOUT_MS) {
+        cleanup();
+        reject(new Error("The download did not start. Please try again."));
+      }
+    }, POLL_INTERVAL_MS);
+
+    window.addEventListener("message", onMessage);
+    document.body.append(iframe, form);
+    form.submit();
+  });
+}
@@ -0,0 +1,19 @@
+/**
+ * Read an image file into a JPEG data URL no larger than `maxEdge` on its
+ * longest side, so phone photos fit under the upload limit.
+ */
+export async function readImageAsDataUrl(
+  file: File,
+  maxEdge = 1536,
+): Promise<string> {
+  const bitmap = await createImageBitmap(file).catch(() => {
+    throw new Error("That file isn't an image this browser can read.");
+  });
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL("image/jpeg", 0.9);
+}
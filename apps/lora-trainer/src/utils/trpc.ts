@@ -1,4 +1,7 @@
 import { createTRPCReact } from '@trpc/react-query';
+import type { inferRouterOutputs } from '@trpc/server';
 import type { AppRouter } from '@dmbk-world/api';
 
-export const trpc = createTRPCReact<AppRouter>();
\ No newline at end of file
+export const trpc = createTRPCReact<AppRouter>();
+
+export type RouterOutputs = inferRouterOutputs<AppRouter>;
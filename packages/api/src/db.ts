@@ -1,6 +1,7 @@
-import { Kysely, sql } from "kysely";
+import { Kysely, Migrator, type MigrationResult } from "kysely";
 import { LibsqlDialect } from "@libsql/kysely-libsql";
 import { config } from "dotenv";
+import { migrations } from "./migrations";
 
 // Load env the same way env.ts does
 config({ path: "../../.env.local" });
@@ -8,17 +9,59 @@ config({ path: ".env.local" });
 config();
 config({ path: "../../apps/lora-trainer/.env" });
 
+/**
+ * A training is "submitting" from just before it is sent to FAL until the
+ * queue hands back its request ID, then "pending" until FAL settles it.
+ */
+export type LoraTrainingStatus =
+  | "submitting"
+  | "pending"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
 export interface LoraTrainingsTable {
   id: string;
-  request_id: string;
+  request_id: string; // FAL queue request ID — the row's own id until submitted
   wallet_address: string;
   trigger_word: string;
   steps: number;
-  image_urls: string; // JSON-encoded string[]
-  lora_weights_url: string | null;
+  trainer: string; // trainer registry ID, see features/trainers.ts
+  trainer_params: string | null; // JSON of the trainer's extra parameters
+  lora_weights_url: string | null; // our copy once re-hosted, else FAL's
+  lora_weights_original_url: string | null; // FAL's URL, set when re-hosted
+  lora_weights_byte_size: number | null;
+  lora_weights_content_hash: string | null; // SHA-256 hex of the copy
+  lora_weights_hosted_at: string | null;
   arena_channel_url: string | null;
   arena_channel_title: string | null;
-  status: "pending" | "completed" | "failed";
+  status: LoraTrainingStatus;
+  error_message: string | null;
+  created_at: string;
+}
+
+export interface LoraTrainingImagesTable {
+  id: string;
+  lora_training_id: string;
+  position: number; // 0-based order within the training set
+  image_url: string;
+  arena_block_id: number | null;
+  title: string | null;
+  caption: string | null; // text of the image's .txt sidecar in the zip
+  width: number | null;
+  height: number | null;
+  byte_size: number | null;
+  content_hash: string | null; // SHA-256 hex of the downloaded bytes
+  created_at: string;
+}
+
+export interface LoraTrainingLogsTable {
+  id: string;
+  lora_training_id: string;
+  position: number; // 0-based line number within the training's log
+  level: string | null; // FAL log level (INFO, STDERR, ...)
+  message: string;
+  logged_at: string | null; // timestamp reported by FAL
   created_at: string;
 }
 
@@ -27,20 +70,141 @@ export interface GeneratedImagesTable {
   lora_training_id: string;
   wallet_address: string;
   prompt: string;
+  /** Our copy once re-hosted, otherwise FAL's URL */
   image_url: string;
   image_width: number | null;
   image_height: number | null;
   seed: string | null;
+  /** Prompt as sent to FAL, trigger word included */
+  full_prompt: string | null;
+  image_size: string | null;
+  num_inference_steps: number | null;
+  guidance_scale: number | null;
+  /** Scale of `lora_training_id`; the full mix is in generated_image_loras */
+  lora_scale: number | null;
+  /** Size of the batch the image came from — part of reproducing it */
+  num_images: number | null;
+  /** "text", "image" (image-to-image) or "inpaint" */
+  mode: string;
+  /** Where the source image came from: "arena", "generated" or "upload" */
+  source_kind: string | null;
+  /** Source as FAL fetched it; uploads are kept in FAL storage */
+  source_image_url: string | null;
+  source_generated_image_id: string | null;
+  mask_url: string | null;
+  strength: number | null;
+  /** The queued generation the image came from; null for older images */
+  generation_job_id: string | null;
+  /** FAL's URL, set when the image is re-hosted */
+  original_image_url: string | null;
+  byte_size: number | null;
+  content_hash: string | null; // SHA-256 hex of the copy
+  hosted_at: string | null;
   created_at: string;
 }
 
-interface Database {
+/** One LoRA of the mix a generated image was made with */
+export interface GeneratedImageLorasTable {
+  generated_image_id: string;
+  /** Order in the request; 0 is the image's `lora_training_id` */
+  position: number;
+  lora_training_id: string;
+  scale: number;
+}
+
+/**
+ * A job is "submitting" from just before it is sent to FAL until the queue
+ * hands back its request ID.
+ */
+export type GenerationJobStatus =
+  | "submitting"
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed";
+
+export interface GenerationJobsTable {
+  id: string;
+  request_id: string; // FAL queue request ID, unique — the job's own id until submitted
+  wallet_address: string;
+  lora_training_id: string; // first LoRA of the mix — whose page the job is on
+  endpoint: string; // FAL endpoint the request was submitted to
+  status: GenerationJobStatus;
+  params: string; // JSON of the GenerationRecord images are saved with
+  num_images: number; // requested — counts against the daily limit in flight
+  nsfw_filtered: number; // 1 if the safety checker dropped any image
+  error_message: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export type PaymentAsset = "ETH" | "USDC";
+
+export interface PaymentsTable {
+  id: string;
+  tx_hash: string; // lowercase, unique — one training per on-chain payment
+  payer_address: string;
+  asset: PaymentAsset;
+  value_wei: string; // bigint as decimal string, in the asset's base units
+  eth_price_usd: number;
+  lora_training_id: string | null;
+  refund_tx_hash: string | null;
+  claimed_at: string | null;
+  refunded_at: string | null;
+  created_at: string;
+}
+
+export type RefundStatus = "queued" | "sent" | "confirmed" | "failed";
+
+export interface RefundsTable {
+  id: string;
+  payment_id: string; // unique — at most one refund per payment
+  recipient_address: string;
+  asset: PaymentAsset;
+  amount: string; // bigint as decimal string, in the asset's base units
+  reason: string;
+  status: RefundStatus;
+  nonce: number | null; // payment wallet nonce, fixed once first signed
+  tx_hash: string | null; // latest broadcast, or the mined one once confirmed
+  tx_hashes: string; // JSON-encoded string[] — every broadcast for this nonce
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  confirmed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RateLimitBucketsTable {
+  key: string; // `${rule}:${"wallet" | "ip"}:${id}`
+  tokens: number;
+  updated_at: number; // epoch ms of the last refill
+  expires_at: number; // epoch ms when the bucket is full again and can go
+}
+
+export interface ImageCacheObjectsTable {
+  key: string; // `blobs/<sha256>` or `urls/<sha256 of the URL>`
+  data: Uint8Array;
+  size: number;
+  stored_at: number; // epoch ms
+}
+
+export interface Database {
   lora_trainings: LoraTrainingsTable;
+  lora_training_images: LoraTrainingImagesTable;
+  lora_training_logs: LoraTrainingLogsTable;
   generated_images: GeneratedImagesTable;
+  generated_image_loras: GeneratedImageLorasTable;
+  generation_jobs: GenerationJobsTable;
+  payments: PaymentsTable;
+  refunds: RefundsTable;
+  rate_limit_buckets: RateLimitBucketsTable;
+  image_cache_objects: ImageCacheObjectsTable;
 }
 
 let _db: Kysely<Database> | null = null;
-let _initialized = false;
 
 export function getDb(): Kysely<Database> {
   if (!_db) {
@@ -60,56 +224,24 @@ export function getDb(): Kysely<Database> {
   return _db;
 }
 
-export async function ensureLoraTable(): Promise<void> {
-  if (_initialized) return;
-  const db = getDb();
-  await sql`
-    CREATE TABLE IF NOT EXISTS lora_trainings (
-      id TEXT PRIMARY KEY,
-      request_id TEXT UNIQUE NOT NULL,
-      wallet_address TEXT NOT NULL,
-      trigger_word TEXT NOT NULL,
-      steps INTEGER NOT NULL,
-      image_urls TEXT NOT NULL,
-      lora_weights_url TEXT,
-      arena_channel_url TEXT,
-      arena_channel_title TEXT,
-      status TEXT NOT NULL DEFAULT 'pending',
-      created_at TEXT NOT NULL
-    )
-  `.execute(db);
-  // Add columns for existing tables (no-op if they already exist)
-  await sql`ALTER TABLE lora_trainings ADD COLUMN arena_channel_url TEXT`.execute(db).catch(() => {});
-  await sql`ALTER TABLE lora_trainings ADD COLUMN arena_channel_title TEXT`.execute(db).catch(() => {});
-  await sql`CREATE INDEX IF NOT EXISTS idx_lora_trainings_created_at ON lora_trainings(created_at)`.execute(
-    db,
-  );
-  await sql`CREATE INDEX IF NOT EXISTS idx_lora_trainings_status ON lora_trainings(status)`.execute(
-    db,
-  );
-  _initialized = true;
+/**
+ * Migrator over the static migration set in ./migrations, tracking applied
+ * versions in `schema_migrations`.
+ */
+export function getMigrator(): Migrator {
+  return new Migrator({
+    db: getDb(),
+    provider: { getMigrations: async () => migrations },
+    migrationTableName: "schema_migrations",
+    migrationLockTableName: "schema_migrations_lock",
+  });
 }
 
-let _genImagesInitialized = false;
-
-export async function ensureGeneratedImagesTable(): Promise<void> {
-  if (_genImagesInitialized) return;
-  const db = getDb();
-  await sql`
-    CREATE TABLE IF NOT EXISTS generated_images (
-      id TEXT PRIMARY KEY,
-      lora_training_id TEXT NOT NULL,
-      wallet_address TEXT NOT NULL,
-      prompt TEXT NOT NULL,
-      image_url TEXT NOT NULL,
-      image_width INTEGER,
-      image_height INTEGER,
-      seed TEXT,
-      created_at TEXT NOT NULL
-    )
-  `.execute(db);
-  await sql`CREATE INDEX IF NOT EXISTS idx_gen_images_lora ON generated_images(lora_training_id)`.execute(db);
-  await sql`CREATE INDEX IF NOT EXISTS idx_gen_images_wallet ON generated_images(wallet_address)`.execute(db);
-  await sql`CREATE INDEX IF NOT EXISTS idx_gen_images_created ON generated_images(created_at)`.execute(db);
-  _genImagesInitialized = true;
+/**
+ * Apply every pending migration. Throws if any migration fails.
+ */
+export async function migrateToLatest(): Promise<MigrationResult[]> {
+  const { error, results = [] } = await getMigrator().migrateToLatest();
+  if (error) throw error;
+  return results;
 }
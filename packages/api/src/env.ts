@@ -14,11 +14,30 @@ config({ path: "../../apps/lora-trainer/.env" });
 // so that routes that don't need them can still work.
 const envSchema = z.object({
   FAL_AI_API_KEY: z.string().optional(),
+  FAL_WEBHOOK_URL: z.string().optional(),
+  FAL_WEBHOOK_TRUSTED_KEYS: z.string().optional(),
   TRAINING_PRICE_USD: z.string().optional(),
   ADMIN_WALLET: z.string().optional(),
   PAYMENT_WALLET_PRIVATE_KEY: z.string().optional(),
   PAYMENT_RECIPIENT: z.string().optional(),
   QA_WALLETS: z.string().optional(),
+  QUOTE_SIGNING_SECRET: z.string().optional(),
+  BETTER_AUTH_SECRET: z.string().optional(),
+  IMAGE_CACHE_DIR: z.string().optional(),
+  IMAGE_CACHE_MAX_MB: z.string().optional(),
+  IMAGE_CACHE_TTL_HOURS: z.string().optional(),
+  IMAGE_CACHE_STORE: z.string().optional(),
+  RATE_LIMIT_STORE: z.string().optional(),
+  TRUSTED_PROXY_COUNT: z.string().optional(),
+  VERCEL: z.string().optional(),
+  STORAGE_BACKEND: z.string().optional(),
+  STORAGE_DIR: z.string().optional(),
+  STORAGE_PUBLIC_URL: z.string().optional(),
+  S3_ENDPOINT: z.string().optional(),
+  S3_REGION: z.string().optional(),
+  S3_BUCKET: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
 });
 
 // Parse environment variables (will not throw since all keys are optional)
@@ -28,11 +47,30 @@ export const env = envResult.success
   ? envResult.data
   : {
       FAL_AI_API_KEY: undefined,
+      FAL_WEBHOOK_URL: undefined,
+      FAL_WEBHOOK_TRUSTED_KEYS: undefined,
       TRAINING_PRICE_USD: undefined,
       ADMIN_WALLET: undefined,
       PAYMENT_WALLET_PRIVATE_KEY: undefined,
       PAYMENT_RECIPIENT: undefined,
       QA_WALLETS: undefined,
+      QUOTE_SIGNING_SECRET: undefined,
+      BETTER_AUTH_SECRET: undefined,
+      IMAGE_CACHE_DIR: undefined,
+      IMAGE_CACHE_MAX_MB: undefined,
+      IMAGE_CACHE_TTL_HOURS: undefined,
+      IMAGE_CACHE_STORE: undefined,
+      RATE_LIMIT_STORE: undefined,
+      TRUSTED_PROXY_COUNT: undefined,
+      VERCEL: undefined,
+      STORAGE_BACKEND: undefined,
+      STORAGE_DIR: undefined,
+      STORAGE_PUBLIC_URL: undefined,
+      S3_ENDPOINT: undefined,
+      S3_REGION: undefined,
+      S3_BUCKET: undefined,
+      S3_ACCESS_KEY_ID: undefined,
+      S3_SECRET_ACCESS_KEY: undefined,
     };
 
 /**
@@ -49,6 +87,28 @@ export function requireFalApiKey(): string {
   return key;
 }
 
+/**
+ * Public URL of our FAL webhook route (e.g. https://example.com/api/fal/webhook).
+ * When unset, trainings and generations are submitted without a webhook and
+ * their state is pulled from the FAL queue instead.
+ */
+export function getFalWebhookUrl(): string | undefined {
+  return env.FAL_WEBHOOK_URL || undefined;
+}
+
+/**
+ * Extra Ed25519 public keys (base64url, comma-separated) accepted on FAL
+ * webhooks alongside FAL's published keys — for the local fake sender.
+ */
+export function getFalWebhookTrustedKeys(): string[] {
+  const raw = env.FAL_WEBHOOK_TRUSTED_KEYS;
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
 /**
  * Get the training price in USD. Defaults to 4 if not set.
  */
@@ -105,3 +165,120 @@ export function getQaWallets(): string[] {
     .map((s) => s.trim())
     .filter(Boolean);
 }
+
+/**
+ * Secret used to sign payment quotes. Kept apart from the auth secret so a
+ * leak of one cannot forge the other.
+ */
+export function requireQuoteSigningSecret(): string {
+  const secret = env.QUOTE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error(
+      "QUOTE_SIGNING_SECRET is not configured. Set it in .env to enable payments.",
+    );
+  }
+  return secret;
+}
+
+/**
+ * Image download cache settings. The cache is off unless IMAGE_CACHE_STORE
+ * is "libsql", IMAGE_CACHE_DIR or IMAGE_CACHE_MAX_MB is set. Images are
+ * then kept in the app database (shared by every instance), on disk under
+ * the directory, or otherwise in memory. A size of 0 turns the cache off.
+ * Defaults once enabled: 256 MB, 24 hours.
+ */
+export function getImageCacheConfig(): {
+  store: "memory" | "fs" | "libsql";
+  dir: string | undefined;
+  maxBytes: number;
+  ttlMs: number;
+} {
+  const dir = env.IMAGE_CACHE_DIR || undefined;
+  const shared = env.IMAGE_CACHE_STORE === "libsql";
+  const maxMb = Number(env.IMAGE_CACHE_MAX_MB ?? (dir || shared ? 256 : 0));
+  const ttlHours = Number(env.IMAGE_CACHE_TTL_HOURS ?? 24);
+  return {
+    store: shared ? "libsql" : dir ? "fs" : "memory",
+    dir,
+    maxBytes: (Number.isFinite(maxMb) && maxMb >= 0 ? maxMb : 256) * 1024 * 1024,
+    ttlMs:
+      Number.isFinite(ttlHours) && ttlHours > 0
+        ? ttlHours * 60 * 60 * 1000
+        : 24 * 60 * 60 * 1000,
+  };
+}
+
+/**
+ * Where rate-limit buckets live: "memory" (default, per process) or
+ * "libsql" (shared by every instance through the app database).
+ */
+export function getRateLimitStoreKind(): "memory" | "libsql" {
+  return env.RATE_LIMIT_STORE === "libsql" ? "libsql" : "memory";
+}
+
+/**
+ * How many proxies in front of the app append to x-forwarded-for (1 on
+ * Vercel). With the default of 0 the header is ignored, since any client
+ * can send one.
+ */
+export function getTrustedProxyCount(): number {
+  const count = Number(env.TRUSTED_PROXY_COUNT);
+  return Number.isInteger(count) && count > 0 ? count : 0;
+}
+
+/** Whether the app is deployed on Vercel, which sets VERCEL=1 */
+export function isVercel(): boolean {
+  return !!env.VERCEL;
+}
+
+export type AssetStorageConfig =
+  | { backend: "fs"; dir: string; publicUrl: string }
+  | {
+      backend: "s3";
+      endpoint: string;
+      region: string;
+      bucket: string;
+      accessKeyId: string;
+      secretAccessKey: string;
+      publicUrl: string;
+    };
+
+/**
+ * Where generated images and LoRA weights are re-hosted: "s3" (any
+ * S3-compatible bucket) or "fs" (a local directory, for dev). Null when
+ * STORAGE_BACKEND is unset — assets then stay on FAL's CDN.
+ */
+export function getAssetStorageConfig(): AssetStorageConfig | null {
+  const backend = env.STORAGE_BACKEND;
+  if (!backend) return null;
+
+  const publicUrl = env.STORAGE_PUBLIC_URL?.replace(/\/+$/, "");
+  if (!publicUrl) {
+    throw new Error(
+      "STORAGE_PUBLIC_URL is not configured. Set it to the base URL stored assets are served from.",
+    );
+  }
+
+  if (backend === "fs") {
+    return { backend, dir: env.STORAGE_DIR || ".storage", publicUrl };
+  }
+  if (backend === "s3") {
+    const { S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+      env;
+    if (!S3_ENDPOINT || !S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        "S3 storage is not configured. Set S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY.",
+      );
+    }
+    return {
+      backend,
+      endpoint: S3_ENDPOINT.replace(/\/+$/, ""),
+      region: env.S3_REGION || "us-east-1",
+      bucket: S3_BUCKET,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      publicUrl,
+    };
+  }
+  throw new Error(`STORAGE_BACKEND must be "fs" or "s3", not "${backend}".`);
+}
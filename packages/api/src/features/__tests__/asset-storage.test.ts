@@ -0,0 +1,455 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+
+vi.hoisted(() => {
+  // Shared cache: a plain :memory: database is lost with the connection a
+  // transaction takes over
+  process.env.TURSO_DATABASE_URL = "file::memory:?cache=shared";
+});
+
+import crypto from "node:crypto";
+import dns from "node:dns";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { getDb, migrateToLatest } from "../../db";
+import {
+  backfillGeneratedImages,
+  createFsAssetStore,
+  createS3AssetStore,
+  MAX_HOSTED_IMAGE_BYTES,
+  rehostGeneratedImage,
+  rehostLoraWeights,
+  setAssetStore,
+  type AssetFile,
+  type AssetStore,
+} from "../asset-storage";
+import {
+  createGenerationJob,
+  markGenerationJobSubmitted,
+  describeGenerationJobs,
+  getGenerationJob,
+  settleGenerationJob,
+} from "../generation-jobs";
+import { createPendingLora, loraRouter } from "../lora";
+
+// --- Test Helpers ---
+
+const ALICE = "0x0000000000000000000000000000000000000001";
+const HOSTED = "https://assets.example.com";
+
+function sha256(data: Buffer | string) {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/** An AssetStore that keeps what it is given */
+function memoryAssetStore() {
+  const objects = new Map<string, { data: Buffer; contentType: string }>();
+  const put = vi.fn<AssetStore["put"]>(async (key, file, contentType) => {
+    objects.set(key, { data: await fs.readFile(file.path), contentType });
+    return `${HOSTED}/${key}`;
+  });
+  return { put, objects };
+}
+
+/** `data` written to a temp file, as a download leaves it */
+async function assetFile(data: Buffer): Promise<AssetFile> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "download-"));
+  const file = path.join(dir, "asset.tmp");
+  await fs.writeFile(file, data);
+  return { path: file, byteSize: data.length, contentHash: sha256(data) };
+}
+
+/** Temp files left behind by downloads */
+async function leftoverDownloads(): Promise<string[]> {
+  return (await fs.readdir(os.tmpdir())).filter((name) =>
+    name.startsWith("asset-"),
+  );
+}
+
+/** Serve fixed bytes per URL from `fetch`; anything else is a 404 */
+function serve(files: Record<string, { data: Buffer; type: string }>) {
+  const fetchMock = vi.fn(async (input: string | URL | Request) => {
+    const file = files[String(input)];
+    return file
+      ? new Response(new Uint8Array(file.data), {
+          headers: { "content-type": file.type },
+        })
+      : new Response("Not found", { status: 404 });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+let counter = 0;
+
+async function insertImage(imageUrl: string) {
+  const id = `img-${++counter}`;
+  await getDb()
+    .insertInto("generated_images")
+    .values({
+      id,
+      lora_training_id: "lora-1",
+      wallet_address: ALICE,
+      prompt: "a cat",
+      image_url: imageUrl,
+      mode: "text",
+      created_at: new Date().toISOString(),
+    })
+    .execute();
+  return id;
+}
+
+async function getImage(id: string) {
+  return getDb()
+    .selectFrom("generated_images")
+    .select([
+      "image_url",
+      "original_image_url",
+      "byte_size",
+      "content_hash",
+      "hosted_at",
+    ])
+    .where("id", "=", id)
+    .executeTakeFirstOrThrow();
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+beforeEach(() => {
+  // fal.media resolves to a public address without touching the network
+  vi.spyOn(dns.promises, "lookup").mockResolvedValue({
+    address: "104.18.0.1",
+    family: 4,
+  } as never);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setAssetStore(undefined);
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("asset stores", () => {
+  it("writes files under a directory and serves them from the public URL", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "assets-"));
+    const store = createFsAssetStore(dir, "http://localhost:3000/api/assets");
+
+    const url = await store.put(
+      "generated/a.png",
+      await assetFile(Buffer.from("png")),
+      "image/png",
+    );
+
+    expect(url).toBe("http://localhost:3000/api/assets/generated/a.png");
+    expect(await fs.readFile(path.join(dir, "generated/a.png"), "utf8")).toBe(
+      "png",
+    );
+    expect(await fs.readdir(path.join(dir, "generated"))).toEqual(["a.png"]);
+  });
+
+  it("streams a PUT to an S3 bucket with a SigV4 signature over the payload", async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const store = createS3AssetStore({
+      backend: "s3",
+      endpoint: "https://s3.example.com",
+      region: "auto",
+      bucket: "lora-assets",
+      accessKeyId: "AKIDEXAMPLE",
+      secretAccessKey: "secret",
+      publicUrl: HOSTED,
+    });
+    const data = Buffer.from("safetensors bytes");
+
+    const url = await store.put(
+      "loras/x.safetensors",
+      await assetFile(data),
+      "application/octet-stream",
+    );
+
+    expect(url).toBe(`${HOSTED}/loras/x.safetensors`);
+    const [target, init] = fetchMock.mock.calls[0] as unknown as [
+      URL,
+      RequestInit & { headers: Record<string, string> },
+    ];
+    expect(String(target)).toBe(
+      "https://s3.example.com/lora-assets/loras/x.safetensors",
+    );
+    expect(init.method).toBe("PUT");
+    expect(init.body).toBeInstanceOf(ReadableStream);
+    expect(Buffer.from(await new Response(init.body).arrayBuffer())).toEqual(
+      data,
+    );
+    expect(init.headers["content-length"]).toBe(String(data.length));
+    expect(init.headers["x-amz-content-sha256"]).toBe(sha256(data));
+    expect(init.headers["x-amz-date"]).toMatch(/^\d{8}T\d{6}Z$/);
+    expect(init.headers.authorization).toMatch(
+      new RegExp(
+        "^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/\\d{8}/auto/s3/aws4_request, " +
+          "SignedHeaders=content-length;content-type;host;" +
+          "x-amz-content-sha256;x-amz-date, " +
+          "Signature=[0-9a-f]{64}$",
+      ),
+    );
+  });
+
+  it("fails when the bucket refuses the write", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("AccessDenied", { status: 403 })),
+    );
+    const store = createS3AssetStore({
+      backend: "s3",
+      endpoint: "https://s3.example.com",
+      region: "us-east-1",
+      bucket: "b",
+      accessKeyId: "a",
+      secretAccessKey: "s",
+      publicUrl: HOSTED,
+    });
+
+    await expect(
+      store.put(
+        "generated/a.jpg",
+        await assetFile(Buffer.from("x")),
+        "image/jpeg",
+      ),
+    ).rejects.toThrow("HTTP 403 AccessDenied");
+  });
+});
+
+describe("rehostGeneratedImage", () => {
+  it("copies the image and records the original URL, size and checksum", async () => {
+    const png = Buffer.from("fake png bytes");
+    serve({ "https://fal.media/a.png": { data: png, type: "image/png" } });
+    const assets = memoryAssetStore();
+    setAssetStore(assets);
+    const id = await insertImage("https://fal.media/a.png");
+
+    expect(await rehostGeneratedImage(id)).toEqual({
+      url: `${HOSTED}/generated/${id}.png`,
+      byteSize: png.length,
+      contentHash: sha256(png),
+    });
+    expect(assets.objects.get(`generated/${id}.png`)).toEqual({
+      data: png,
+      contentType: "image/png",
+    });
+    expect(await getImage(id)).toMatchObject({
+      image_url: `${HOSTED}/generated/${id}.png`,
+      original_image_url: "https://fal.media/a.png",
+      byte_size: png.length,
+      content_hash: sha256(png),
+      hosted_at: expect.any(String),
+    });
+
+    // Already hosted — nothing to do
+    expect(await rehostGeneratedImage(id)).toBeNull();
+    expect(assets.put).toHaveBeenCalledOnce();
+    expect(await leftoverDownloads()).toEqual([]);
+  });
+
+  it("only downloads from FAL's CDN, without following redirects", async () => {
+    const fetchMock = serve({
+      "https://fal.media/b.jpg": { data: Buffer.from("jpeg"), type: "image/jpeg" },
+    });
+    setAssetStore(memoryAssetStore());
+    const internal = await insertImage("http://169.254.169.254/latest/meta-data");
+    const elsewhere = await insertImage("https://evil.example.com/a.jpg");
+    const fal = await insertImage("https://fal.media/b.jpg");
+
+    await expect(rehostGeneratedImage(internal)).rejects.toThrow(
+      "Only HTTPS URLs are allowed",
+    );
+    await expect(rehostGeneratedImage(elsewhere)).rejects.toThrow(
+      'Domain "evil.example.com" is not in the allowed list for FAL assets',
+    );
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await rehostGeneratedImage(fal);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://fal.media/b.jpg",
+      expect.objectContaining({ redirect: "error" }),
+    );
+  });
+
+  it("stops reading a body that runs past the size limit", async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        sent += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+    });
+    // No content-length — the limit has to be enforced while streaming
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(body, { headers: { "content-type": "image/png" } })),
+    );
+    const assets = memoryAssetStore();
+    setAssetStore(assets);
+    const id = await insertImage("https://fal.media/huge.png");
+
+    await expect(rehostGeneratedImage(id)).rejects.toThrow(
+      `is larger than ${MAX_HOSTED_IMAGE_BYTES} bytes`,
+    );
+    expect(sent).toBeLessThan(MAX_HOSTED_IMAGE_BYTES + 4 * chunk.byteLength);
+    expect(assets.put).not.toHaveBeenCalled();
+    expect(await leftoverDownloads()).toEqual([]);
+    expect((await getImage(id)).hosted_at).toBeNull();
+  });
+
+  it("leaves the row alone when re-hosting is off", async () => {
+    setAssetStore(null);
+    const fetchMock = serve({});
+    const id = await insertImage("https://fal.media/off.jpg");
+
+    expect(await rehostGeneratedImage(id)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect((await getImage(id)).image_url).toBe("https://fal.media/off.jpg");
+  });
+});
+
+describe("rehostLoraWeights", () => {
+  it("copies a completed LoRA's weights and serves the copy", async () => {
+    const weights = crypto.randomBytes(2048);
+    serve({
+      "https://fal.media/w.safetensors": {
+        data: weights,
+        type: "application/octet-stream",
+      },
+    });
+    setAssetStore(memoryAssetStore());
+    const { id } = await createPendingLora({
+      requestId: `req-${++counter}`,
+      walletAddress: ALICE,
+      triggerWord: "zxq",
+      steps: 1000,
+      images: [{ url: "https://x.are.na/1.jpg" }],
+    });
+    await getDb()
+      .updateTable("lora_trainings")
+      .set({
+        status: "completed",
+        lora_weights_url: "https://fal.media/w.safetensors",
+      })
+      .where("id", "=", id)
+      .execute();
+
+    await rehostLoraWeights(id);
+
+    const lora = await loraRouter.createCaller({ session: null }).getById({ id });
+    expect(lora.loraWeightsUrl).toBe(`${HOSTED}/loras/${id}.safetensors`);
+    expect(
+      await getDb()
+        .selectFrom("lora_trainings")
+        .select([
+          "lora_weights_original_url",
+          "lora_weights_byte_size",
+          "lora_weights_content_hash",
+        ])
+        .where("id", "=", id)
+        .executeTakeFirstOrThrow(),
+    ).toEqual({
+      lora_weights_original_url: "https://fal.media/w.safetensors",
+      lora_weights_byte_size: 2048,
+      lora_weights_content_hash: sha256(weights),
+    });
+  });
+});
+
+describe("backfillGeneratedImages", () => {
+  it("hosts what it can and skips rows whose download fails", async () => {
+    // Earlier tests' rows are hosted or off-limits; start from a clean table
+    await getDb().deleteFrom("generated_images").execute();
+    serve({
+      "https://fal.media/ok.jpg": { data: Buffer.from("ok"), type: "image/jpeg" },
+    });
+    const assets = memoryAssetStore();
+    setAssetStore(assets);
+    const ok = await insertImage("https://fal.media/ok.jpg");
+    const gone = await insertImage("https://fal.media/expired.jpg");
+
+    expect(await backfillGeneratedImages({ dryRun: true })).toEqual({
+      checked: 2,
+      hosted: 0,
+      failed: 0,
+    });
+    expect(assets.put).not.toHaveBeenCalled();
+
+    expect(await backfillGeneratedImages()).toEqual({
+      checked: 2,
+      hosted: 1,
+      failed: 1,
+    });
+    expect((await getImage(ok)).original_image_url).toBe(
+      "https://fal.media/ok.jpg",
+    );
+    expect((await getImage(gone)).hosted_at).toBeNull();
+  });
+});
+
+describe("generation jobs with storage", () => {
+  it("leaves a finished job's images on FAL for the backfill to copy", async () => {
+    const fetchMock = serve({
+      "https://fal.media/job.jpg": {
+        data: Buffer.from("jpeg"),
+        type: "image/jpeg",
+      },
+    });
+    const assets = memoryAssetStore();
+    setAssetStore(assets);
+    const { id: jobId } = await createGenerationJob({
+      walletAddress: ALICE,
+      endpoint: "fal-ai/flux-lora",
+      record: {
+        prompt: "a cat",
+        fullPrompt: "a cat in the style of zxq",
+        settings: {
+          prompt: "a cat",
+          imageSize: "square_hd",
+          steps: 28,
+          guidanceScale: 3.5,
+          numImages: 1,
+          mode: "text",
+          strength: 0.85,
+        },
+        loras: [{ loraTrainingId: "lora-1", triggerWord: "zxq", scale: 1 }],
+        source: null,
+        maskUrl: null,
+      },
+    });
+
+    const job = await markGenerationJobSubmitted(jobId, `gen-${++counter}`);
+
+    await settleGenerationJob(job, {
+      status: "completed",
+      result: { images: [{ url: "https://fal.media/job.jpg" }], seed: 1 },
+    });
+
+    // Settling never downloads — FAL's URL is shown until the copy lands
+    expect(fetchMock).not.toHaveBeenCalled();
+    const shownImages = async () =>
+      (
+        await describeGenerationJobs([(await getGenerationJob(job.id))!])
+      )[0].images;
+    const [image] = await shownImages();
+    expect(image.imageUrl).toBe("https://fal.media/job.jpg");
+    expect((await getImage(image.id)).hosted_at).toBeNull();
+
+    await backfillGeneratedImages();
+
+    expect(await shownImages()).toEqual([
+      expect.objectContaining({
+        imageUrl: `${HOSTED}/generated/${image.id}.jpg`,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import {
+  analyzeDataset,
+  perceptualHash,
+  hammingDistance,
+  DUPLICATE_DISTANCE,
+  type DatasetInput,
+} from "../dataset-analysis";
+
+// --- Test Helpers ---
+
+/** Deterministic noise so every seed is a distinct picture */
+function noise(width: number, height: number, seed: number) {
+  const pixels = Buffer.alloc(width * height * 3);
+  let state = seed;
+  for (let i = 0; i < pixels.length; i++) {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = state >> 23;
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } });
+}
+
+function image(url: string, data: Buffer): DatasetInput {
+  return { url, ok: true, data };
+}
+
+function check(
+  report: Awaited<ReturnType<typeof analyzeDataset>>,
+  id: string,
+) {
+  return report.checks.find((c) => c.id === id);
+}
+
+// --- Tests ---
+
+describe("perceptualHash", () => {
+  it("matches a resized re-encode and tells distinct images apart", async () => {
+    const original = await noise(16, 16, 1).resize(512, 512).png().toBuffer();
+    const resized = await sharp(original).resize(600, 600).jpeg().toBuffer();
+    const other = await noise(16, 16, 2).resize(512, 512).png().toBuffer();
+
+    const hash = await perceptualHash(original);
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(
+      hammingDistance(hash, await perceptualHash(resized)),
+    ).toBeLessThanOrEqual(DUPLICATE_DISTANCE);
+    expect(hammingDistance(hash, await perceptualHash(other))).toBeGreaterThan(
+      DUPLICATE_DISTANCE,
+    );
+  });
+});
+
+describe("analyzeDataset", () => {
+  it("passes every check for a clean selection", async () => {
+    const inputs = await Promise.all(
+      [1, 2, 3, 4].map(async (seed) =>
+        image(
+          `https://images.are.na/${seed}.png`,
+          await noise(64, 64, seed).resize(1024, 1024).png().toBuffer(),
+        ),
+      ),
+    );
+
+    const report = await analyzeDataset(inputs, 1024);
+
+    expect(report.checks.map((c) => c.status)).toEqual([
+      "pass",
+      "pass",
+      "pass",
+      "pass",
+      "pass",
+    ]);
+    expect(report.images[0]).toMatchObject({
+      url: "https://images.are.na/1.png",
+      error: null,
+      width: 1024,
+      height: 1024,
+      format: "png",
+      aspectRatio: 1,
+    });
+    expect(report.duplicates).toEqual([]);
+  });
+
+  it("reports failed downloads, small images, duplicates and aspect spread", async () => {
+    const photo = await noise(64, 32, 7).resize(1200, 600).png().toBuffer();
+    const inputs: DatasetInput[] = [
+      image("https://images.are.na/a.png", photo),
+      image(
+        "https://images.are.na/a-copy.jpg",
+        await sharp(photo).resize(800, 400).jpeg().toBuffer(),
+      ),
+      image(
+        "https://images.are.na/tall.png",
+        await noise(32, 64, 8).resize(300, 600).png().toBuffer(),
+      ),
+      image("https://images.are.na/junk.png", Buffer.from("not an image")),
+      { url: "https://images.are.na/404.png", ok: false, error: "HTTP 404" },
+    ];
+
+    const report = await analyzeDataset(inputs, 1024);
+
+    expect(report.duplicates).toEqual([
+      ["https://images.are.na/a.png", "https://images.are.na/a-copy.jpg"],
+    ]);
+    expect(report.images[3]).toMatchObject({
+      error: "File is corrupt or not an image",
+      width: null,
+    });
+    expect(report.images[4]).toMatchObject({ error: "HTTP 404", bytes: null });
+    expect(report.aspectRatios).toEqual({
+      min: 0.5,
+      max: 2,
+      portrait: 1,
+      square: 0,
+      landscape: 2,
+    });
+
+    expect(check(report, "images")).toMatchObject({ status: "warn" });
+    expect(check(report, "count")).toMatchObject({
+      status: "warn",
+      detail: "3 images will be trained on.",
+    });
+    expect(check(report, "resolution")).toMatchObject({ status: "warn" });
+    expect(check(report, "duplicates")).toMatchObject({ status: "warn" });
+    expect(check(report, "aspect")).toMatchObject({ status: "warn" });
+  });
+
+  it("fails when nothing can be trained on", async () => {
+    const report = await analyzeDataset(
+      [{ url: "https://images.are.na/x.png", ok: false, error: "HTTP 500" }],
+      1024,
+    );
+
+    expect(check(report, "images")?.status).toBe("fail");
+    expect(check(report, "count")?.status).toBe("fail");
+    expect(report.aspectRatios).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const falQueue = vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+  process.env.FAL_AI_API_KEY = "test-key";
+  process.env.ADMIN_WALLET = "0x00000000000000000000000000000000000ad000";
+  return { status: vi.fn(), result: vi.fn(), cancel: vi.fn() };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal: { config: vi.fn(), queue: falQueue } };
+});
+
+vi.mock("../refunds", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../refunds")>();
+  // Leave queued refunds queued — broadcasting is covered in refunds.test
+  return { ...actual, processRefund: (id: string) => actual.getRefund(id) };
+});
+
+import crypto from "node:crypto";
+import { parseEther } from "viem";
+import { getDb, migrateToLatest } from "../../db";
+import { createPendingLora } from "../lora";
+import { falRouter } from "../fal";
+import { listRefunds } from "../refunds";
+
+// --- Test Helpers ---
+
+const OWNER = "0x0000000000000000000000000000000000000001";
+const STRANGER = "0x0000000000000000000000000000000000000002";
+const ADMIN = "0x00000000000000000000000000000000000Ad000";
+
+function callerFor(walletAddress: string) {
+  return falRouter.createCaller({
+    session: { user: { id: walletAddress, walletAddress } },
+  });
+}
+
+let counter = 0;
+
+async function insertPaidTraining() {
+  const requestId = `req-${++counter}`;
+  const { id } = await createPendingLora({
+    requestId,
+    walletAddress: OWNER,
+    triggerWord: "test",
+    steps: 1000,
+    images: [{ url: "https://d2w9rnfcy7mm78.cloudfront.net/1/original_test.jpg" }],
+  });
+  await getDb()
+    .insertInto("payments")
+    .values({
+      id: crypto.randomBytes(16).toString("hex"),
+      tx_hash: `0x${crypto.randomBytes(32).toString("hex")}`,
+      payer_address: OWNER,
+      asset: "ETH",
+      value_wei: parseEther("0.002").toString(),
+      eth_price_usd: 2000,
+      lora_training_id: id,
+      refund_tx_hash: null,
+      claimed_at: new Date().toISOString(),
+      refunded_at: null,
+      created_at: new Date().toISOString(),
+    })
+    .execute();
+  return { id, requestId };
+}
+
+async function getRow(id: string) {
+  return getDb()
+    .selectFrom("lora_trainings")
+    .select(["status", "error_message"])
+    .where("id", "=", id)
+    .executeTakeFirstOrThrow();
+}
+
+async function refundCount(): Promise<number> {
+  return (await listRefunds({ limit: 100 })).length;
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("FAL queue ownership", () => {
+  beforeEach(() => {
+    for (const fn of Object.values(falQueue)) fn.mockReset();
+    falQueue.status.mockResolvedValue({ status: "IN_QUEUE", queue_position: 3 });
+    falQueue.result.mockResolvedValue({ data: {}, requestId: "r" });
+    falQueue.cancel.mockResolvedValue(undefined);
+  });
+
+  it("lets the owner and the admin read status and results", async () => {
+    const { requestId } = await insertPaidTraining();
+
+    await expect(
+      callerFor(OWNER).getTrainingStatus({ requestId }),
+    ).resolves.toMatchObject({ status: "IN_QUEUE", queuePosition: 3 });
+    await expect(
+      callerFor(ADMIN).getTrainingResult({ requestId }),
+    ).resolves.toMatchObject({ requestId: "r" });
+  });
+
+  it("rejects other wallets and unknown request IDs before calling FAL", async () => {
+    const { requestId } = await insertPaidTraining();
+    const stranger = callerFor(STRANGER);
+
+    await expect(stranger.getTrainingStatus({ requestId })).rejects.toThrow(
+      "not the owner",
+    );
+    await expect(stranger.getTrainingResult({ requestId })).rejects.toThrow(
+      "not the owner",
+    );
+    await expect(stranger.cancelTraining({ requestId })).rejects.toThrow(
+      "not the owner",
+    );
+    await expect(
+      callerFor(OWNER).getTrainingStatus({ requestId: "unknown" }),
+    ).rejects.toThrow("No training record");
+    expect(falQueue.status).not.toHaveBeenCalled();
+    expect(falQueue.cancel).not.toHaveBeenCalled();
+  });
+
+  it("records a queued cancellation and refunds it", async () => {
+    const { id, requestId } = await insertPaidTraining();
+    const refundsBefore = await refundCount();
+
+    const result = await callerFor(OWNER).cancelTraining({ requestId });
+
+    expect(result).toMatchObject({ success: true, refundStatus: "queued" });
+    expect(falQueue.cancel).toHaveBeenCalledOnce();
+    expect(await getRow(id)).toEqual({
+      status: "cancelled",
+      error_message: "Cancelled by owner before training started",
+    });
+    expect(await refundCount()).toBe(refundsBefore + 1);
+
+    // Cancelling again is a no-op
+    await callerFor(OWNER).cancelTraining({ requestId });
+    expect(falQueue.cancel).toHaveBeenCalledOnce();
+  });
+
+  it("keeps the payment when training had already started", async () => {
+    const { id, requestId } = await insertPaidTraining();
+    falQueue.status.mockResolvedValue({ status: "IN_PROGRESS" });
+    const refundsBefore = await refundCount();
+
+    const result = await callerFor(ADMIN).cancelTraining({ requestId });
+
+    expect(result.refundStatus).toBeNull();
+    expect((await getRow(id)).status).toBe("cancelled");
+    expect(await refundCount()).toBe(refundsBefore);
+  });
+
+  it("marks the row cancelled before FAL reports the cancellation", async () => {
+    const { id, requestId } = await insertPaidTraining();
+    let statusAtCancel: string | undefined;
+    falQueue.cancel.mockImplementation(async () => {
+      statusAtCancel = (await getRow(id)).status;
+    });
+
+    await callerFor(OWNER).cancelTraining({ requestId });
+
+    expect(statusAtCancel).toBe("cancelled");
+  });
+
+  it("puts the row back to pending when FAL refuses the cancel", async () => {
+    const { id, requestId } = await insertPaidTraining();
+    falQueue.cancel.mockRejectedValue(new Error("Request already running"));
+    const refundsBefore = await refundCount();
+
+    await expect(
+      callerFor(OWNER).cancelTraining({ requestId }),
+    ).rejects.toThrow("Failed to cancel training");
+    expect(await getRow(id)).toEqual({ status: "pending", error_message: null });
+    expect(await refundCount()).toBe(refundsBefore);
+  });
+
+  it("refuses to cancel a finished training", async () => {
+    const { id, requestId } = await insertPaidTraining();
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+
+    await expect(
+      callerFor(OWNER).cancelTraining({ requestId }),
+    ).rejects.toThrow("already finished");
+    expect(falQueue.cancel).not.toHaveBeenCalled();
+    expect((await getRow(id)).status).toBe("pending");
+  });
+});
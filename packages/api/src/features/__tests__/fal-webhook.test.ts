@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const falQueue = vi.hoisted(() => {
+  // Shared cache: a plain :memory: database is lost with the connection a
+  // transaction takes over
+  process.env.TURSO_DATABASE_URL = "file::memory:?cache=shared";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return { status: vi.fn(), result: vi.fn() };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal: { config: vi.fn(), queue: falQueue } };
+});
+
+import crypto from "node:crypto";
+import { parseEther } from "viem";
+import { getDb, migrateToLatest } from "../../db";
+import { createPendingLora } from "../lora";
+import { receiveFalWebhook } from "../fal-webhook";
+import {
+  createGenerationJob,
+  markGenerationJobSubmitted,
+} from "../generation-jobs";
+import { getTrainingLogs } from "../training-logs";
+import { listRefunds } from "../refunds";
+
+// --- Test Helpers ---
+
+const signingKey = crypto.generateKeyPairSync("ed25519");
+
+function signedRequest(
+  body: Record<string, unknown>,
+  opts: { timestamp?: number; tamper?: boolean } = {},
+) {
+  const raw = Buffer.from(JSON.stringify(body));
+  const requestId = String(body.request_id);
+  const timestamp = String(opts.timestamp ?? Math.floor(Date.now() / 1000));
+  const message = [
+    requestId,
+    "user-1",
+    timestamp,
+    crypto.createHash("sha256").update(raw).digest("hex"),
+  ].join("\n");
+  const signature = crypto.sign(null, Buffer.from(message), signingKey.privateKey);
+
+  return {
+    headers: {
+      "x-fal-webhook-request-id": requestId,
+      "x-fal-webhook-user-id": "user-1",
+      "x-fal-webhook-timestamp": timestamp,
+      "x-fal-webhook-signature": signature.toString("hex"),
+    },
+    raw: opts.tamper
+      ? Buffer.from(JSON.stringify({ ...body, status: "OK" }) + " ")
+      : raw,
+  };
+}
+
+let counter = 0;
+
+async function insertPending(opts: { paid?: boolean } = {}) {
+  const requestId = `req-${++counter}`;
+  const { id } = await createPendingLora({
+    requestId,
+    walletAddress: "0x0000000000000000000000000000000000000001",
+    triggerWord: "test",
+    steps: 1000,
+    images: [{ url: "https://d2w9rnfcy7mm78.cloudfront.net/1/original_test.jpg" }],
+  });
+  if (opts.paid) {
+    await getDb()
+      .insertInto("payments")
+      .values({
+        id: crypto.randomBytes(16).toString("hex"),
+        tx_hash: `0x${crypto.randomBytes(32).toString("hex")}`,
+        payer_address: "0x0000000000000000000000000000000000000001",
+        asset: "ETH",
+        value_wei: parseEther("0.002").toString(),
+        eth_price_usd: 2000,
+        lora_training_id: id,
+        refund_tx_hash: null,
+        claimed_at: new Date().toISOString(),
+        refunded_at: null,
+        created_at: new Date().toISOString(),
+      })
+      .execute();
+  }
+  return { id, requestId };
+}
+
+async function insertGenerationJob() {
+  const requestId = `gen-${++counter}`;
+  const { id } = await createGenerationJob({
+    walletAddress: "0x0000000000000000000000000000000000000001",
+    endpoint: "fal-ai/flux-lora",
+    record: {
+      prompt: "a cat",
+      fullPrompt: "a cat in the style of test",
+      settings: {
+        prompt: "a cat",
+        imageSize: "square_hd",
+        steps: 28,
+        guidanceScale: 3.5,
+        numImages: 1,
+        mode: "text",
+        strength: 0.85,
+      },
+      loras: [{ loraTrainingId: "lora-1", triggerWord: "test", scale: 1 }],
+      source: null,
+      maskUrl: null,
+    },
+  });
+  await markGenerationJobSubmitted(id, requestId);
+  return { id, requestId };
+}
+
+async function getRow(id: string) {
+  return getDb()
+    .selectFrom("lora_trainings")
+    .select(["status", "lora_weights_url", "error_message"])
+    .where("id", "=", id)
+    .executeTakeFirstOrThrow();
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+
+  const { x } = signingKey.publicKey.export({ format: "jwk" });
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify({ keys: [{ x }] }))),
+  );
+});
+
+describe("FAL webhook", () => {
+  beforeEach(() => {
+    falQueue.status.mockReset();
+    falQueue.status.mockResolvedValue({
+      status: "COMPLETED",
+      logs: [
+        { message: "step 1", level: "INFO", timestamp: "2025-01-01T00:00:00Z" },
+        { message: "step 2", level: "INFO", timestamp: "2025-01-01T00:00:01Z" },
+      ],
+    });
+  });
+
+  it("completes the training and stores its final logs", async () => {
+    const { id, requestId } = await insertPending();
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "OK",
+      payload: { diffusers_lora_file: { url: "https://fal.media/lora.safetensors" } },
+    });
+
+    const response = await receiveFalWebhook(headers, raw);
+
+    expect(response).toEqual({
+      status: 200,
+      body: { ok: true, loraId: id, applied: true },
+    });
+    expect(await getRow(id)).toMatchObject({
+      status: "completed",
+      lora_weights_url: "https://fal.media/lora.safetensors",
+    });
+    expect((await getTrainingLogs(id)).map((log) => log.message)).toEqual([
+      "step 1",
+      "step 2",
+    ]);
+
+    // Redelivery is acknowledged without rewriting the row
+    const again = await receiveFalWebhook(headers, raw);
+    expect(again.body).toMatchObject({ applied: false });
+  });
+
+  it("fails a paid training and queues its refund", async () => {
+    const { id, requestId } = await insertPending({ paid: true });
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "ERROR",
+      error: "CUDA out of memory",
+      payload: null,
+    });
+
+    await receiveFalWebhook(headers, raw);
+
+    expect(await getRow(id)).toMatchObject({
+      status: "failed",
+      error_message: "CUDA out of memory",
+    });
+    const refunds = await listRefunds({ limit: 10 });
+    expect(refunds.map((refund) => refund.reason)).toContain(
+      "Training failed on FAL: CUDA out of memory",
+    );
+  });
+
+  it("leaves a training its owner cancelled as cancelled, unrefunded", async () => {
+    const { id, requestId } = await insertPending({ paid: true });
+    await getDb()
+      .updateTable("lora_trainings")
+      .set({ status: "cancelled", error_message: "Cancelled by owner" })
+      .where("id", "=", id)
+      .execute();
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "ERROR",
+      error: "Request was cancelled by the user",
+    });
+
+    const response = await receiveFalWebhook(headers, raw);
+
+    expect(response.body).toMatchObject({ applied: false });
+    expect((await getRow(id)).status).toBe("cancelled");
+    const refunds = await listRefunds({ limit: 10 });
+    expect(refunds.map((refund) => refund.reason)).not.toContain(
+      "Training failed on FAL: Request was cancelled by the user",
+    );
+  });
+
+  it("does not read a cancellation into a pending row's error text", async () => {
+    const { id, requestId } = await insertPending();
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "ERROR",
+      error: "Request was cancelled by the user",
+    });
+
+    await receiveFalWebhook(headers, raw);
+
+    expect((await getRow(id)).status).toBe("failed");
+  });
+
+  it("rejects tampered bodies and stale timestamps", async () => {
+    const { id, requestId } = await insertPending();
+    const body = { request_id: requestId, status: "ERROR", error: "boom" };
+
+    const tampered = signedRequest(body, { tamper: true });
+    expect(await receiveFalWebhook(tampered.headers, tampered.raw)).toMatchObject({
+      status: 401,
+    });
+
+    const stale = signedRequest(body, {
+      timestamp: Math.floor(Date.now() / 1000) - 3600,
+    });
+    expect(await receiveFalWebhook(stale.headers, stale.raw)).toMatchObject({
+      status: 401,
+    });
+
+    const { raw } = signedRequest(body);
+    expect(await receiveFalWebhook({}, raw)).toMatchObject({ status: 401 });
+    expect((await getRow(id)).status).toBe("pending");
+  });
+
+  it("asks FAL to retry a webhook that arrives before its row", async () => {
+    const { headers, raw } = signedRequest({
+      request_id: "req-early",
+      status: "OK",
+      payload: {
+        diffusers_lora_file: { url: "https://fal.media/early.safetensors" },
+      },
+    });
+
+    expect(await receiveFalWebhook(headers, raw)).toEqual({
+      status: 404,
+      body: { error: "Unknown request" },
+    });
+
+    // fal.queue.submit returned and the row was written; FAL redelivers
+    const { id } = await createPendingLora({
+      requestId: "req-early",
+      walletAddress: "0x0000000000000000000000000000000000000001",
+      triggerWord: "zxq",
+      steps: 1000,
+      images: [{ url: "https://x.are.na/1.jpg" }],
+    });
+    expect(await receiveFalWebhook(headers, raw)).toMatchObject({
+      status: 200,
+      body: { ok: true, loraId: id, applied: true },
+    });
+  });
+
+  it("saves a generation's images once, however often it is delivered", async () => {
+    const { id, requestId } = await insertGenerationJob();
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "OK",
+      payload: { images: [{ url: "https://fal.media/cat.jpg" }], seed: 9 },
+    });
+
+    expect(await receiveFalWebhook(headers, raw)).toEqual({
+      status: 200,
+      body: { ok: true, loraId: null, generationJobId: id, applied: true },
+    });
+    expect(await receiveFalWebhook(headers, raw)).toMatchObject({
+      body: { applied: false },
+    });
+
+    const images = await getDb()
+      .selectFrom("generated_images")
+      .select(["image_url", "seed", "full_prompt"])
+      .where("generation_job_id", "=", id)
+      .execute();
+    expect(images).toEqual([
+      {
+        image_url: "https://fal.media/cat.jpg",
+        seed: "9",
+        full_prompt: "a cat in the style of test",
+      },
+    ]);
+    // Generations have no logs to fetch
+    expect(falQueue.status).not.toHaveBeenCalled();
+  });
+
+  it("fails a generation FAL reports as an error", async () => {
+    const { id, requestId } = await insertGenerationJob();
+    const { headers, raw } = signedRequest({
+      request_id: requestId,
+      status: "ERROR",
+      error: "Invalid LoRA file",
+    });
+
+    await receiveFalWebhook(headers, raw);
+    expect(
+      await getDb()
+        .selectFrom("generation_jobs")
+        .select(["status", "error_message"])
+        .where("id", "=", id)
+        .executeTakeFirstOrThrow(),
+    ).toEqual({ status: "failed", error_message: "Invalid LoRA file" });
+  });
+});
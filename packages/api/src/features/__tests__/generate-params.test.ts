@@ -0,0 +1,675 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const { falQueue, falUpload } = vi.hoisted(() => {
+  // Shared cache: a plain :memory: database is lost with the connection a
+  // transaction takes over
+  process.env.TURSO_DATABASE_URL = "file::memory:?cache=shared";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return {
+    falQueue: { submit: vi.fn(), status: vi.fn(), result: vi.fn() },
+    falUpload: vi.fn(),
+  };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return {
+    ...actual,
+    fal: {
+      config: vi.fn(),
+      queue: falQueue,
+      storage: { upload: falUpload },
+    },
+  };
+});
+
+import sharp from "sharp";
+import { ApiError } from "@fal-ai/client";
+import { sql } from "kysely";
+import { getDb, migrateToLatest } from "../../db";
+import { createMemoryRateLimitStore, setRateLimitStore } from "../../rate-limit";
+import { createPendingLora } from "../lora";
+import { generateRouter } from "../generate";
+import {
+  createGenerationJob,
+  reconcileGenerationJobs,
+  SUBMIT_TIMEOUT_MS,
+} from "../generation-jobs";
+import { generationParamsSchema, renderPrompt } from "../generation-params";
+
+// --- Test Helpers ---
+
+const ALICE = "0x0000000000000000000000000000000000000001";
+const BOB = "0x0000000000000000000000000000000000000002";
+
+function weightsUrl(triggerWord: string) {
+  return `https://v3.fal.media/files/${triggerWord}.safetensors`;
+}
+
+function callerFor(walletAddress: string) {
+  return generateRouter.createCaller({
+    session: { user: { id: walletAddress, walletAddress } },
+  });
+}
+
+let counter = 0;
+
+async function insertLora(
+  triggerWord: string,
+  status: "pending" | "completed" = "completed",
+) {
+  const { id } = await createPendingLora({
+    requestId: `req-${++counter}`,
+    walletAddress: ALICE,
+    triggerWord,
+    steps: 1000,
+    images: [{ url: `https://x.are.na/${counter}.jpg` }],
+  });
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({
+      status,
+      lora_weights_url: status === "completed" ? weightsUrl(triggerWord) : null,
+    })
+    .where("id", "=", id)
+    .execute();
+  return id;
+}
+
+type ImagesInput = Parameters<ReturnType<typeof callerFor>["images"]>[0];
+
+/** Queue a generation and have FAL finish it with `data` */
+async function generate(
+  input: ImagesInput,
+  data: Record<string, unknown>,
+  walletAddress = ALICE,
+) {
+  falQueue.submit.mockResolvedValueOnce({ request_id: `gen-${++counter}` });
+  const job = await callerFor(walletAddress).images(input);
+  falQueue.status.mockResolvedValueOnce({ status: "COMPLETED" });
+  falQueue.result.mockResolvedValueOnce({ data });
+  return callerFor(walletAddress).job({ jobId: job.id });
+}
+
+/** Endpoint and input of the nth request submitted to FAL */
+function submitted(n = 0) {
+  const [endpoint, { input }] = falQueue.submit.mock.calls[n];
+  return { endpoint, input };
+}
+
+async function pngDataUrl(color: string) {
+  const png = await sharp({
+    create: { width: 64, height: 64, channels: 3, background: color },
+  })
+    .png()
+    .toBuffer();
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+beforeEach(() => {
+  falQueue.submit.mockReset();
+  falQueue.status.mockReset();
+  falQueue.result.mockReset();
+  falUpload.mockReset();
+  // Every test starts with a full generate.images burst allowance
+  setRateLimitStore(createMemoryRateLimitStore());
+});
+
+describe("renderPrompt", () => {
+  it("puts the trigger word wherever the template marks it", () => {
+    expect(
+      renderPrompt("{trigger} portrait of a cat, {trigger} colors", ["zxq"]),
+    ).toBe("zxq portrait of a cat, zxq colors");
+  });
+
+  it("falls back to the style suffix without a placeholder", () => {
+    expect(renderPrompt("a cat", ["zxq"])).toBe("a cat in the style of zxq");
+    expect(renderPrompt("a cat", ["zxq", "mno"])).toBe(
+      "a cat in the style of zxq and mno",
+    );
+  });
+
+  it("places each LoRA's trigger word by number", () => {
+    expect(
+      renderPrompt("{trigger2} cat on a {trigger1} sofa", ["zxq", "mno"]),
+    ).toBe("mno cat on a zxq sofa");
+    expect(renderPrompt("a cat, {trigger}", ["zxq", "mno"])).toBe(
+      "a cat, zxq, mno",
+    );
+  });
+});
+
+describe("generationParamsSchema", () => {
+  it("fills in the original fixed settings", () => {
+    expect(
+      generationParamsSchema.parse({
+        prompt: " a cat ",
+        loras: [{ loraTrainingId: "a" }],
+      }),
+    ).toEqual({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: "a", scale: 1.5 }],
+      imageSize: "square_hd",
+      steps: 28,
+      guidanceScale: 3.5,
+      numImages: 4,
+      mode: "text",
+      strength: 0.85,
+    });
+  });
+
+  it.each([
+    { steps: 0 },
+    { steps: 51 },
+    { steps: 10.5 },
+    { guidanceScale: 25 },
+    { loras: [{ loraTrainingId: "a", scale: -1 }] },
+    { loras: [] },
+    { loras: ["a", "b", "c", "d"].map((id) => ({ loraTrainingId: id })) },
+    { loras: [{ loraTrainingId: "a" }, { loraTrainingId: "a" }] },
+    { numImages: 5 },
+    { seed: -1 },
+    { seed: 2 ** 32 },
+    { imageSize: "poster" },
+    { mode: "image" },
+    { mode: "inpaint", source: { kind: "generated", generatedImageId: "a" } },
+    {
+      mode: "image",
+      source: { kind: "upload", dataUrl: "data:text/html;base64,PGI+" },
+    },
+    {
+      mode: "image",
+      source: { kind: "arena", url: "https://x.are.na/a.jpg" },
+      strength: 0,
+    },
+  ])("rejects %o", (settings) => {
+    expect(
+      generationParamsSchema.safeParse({
+        prompt: "a cat",
+        loras: [{ loraTrainingId: "a" }],
+        ...settings,
+      }).success,
+    ).toBe(false);
+  });
+});
+
+describe("generate.images", () => {
+  it("sends the chosen settings to FAL and saves them per image", async () => {
+    const loraId = await insertLora("zxq");
+
+    const result = await generate(
+      {
+        prompt: "a {trigger} landscape at dusk",
+        loras: [{ loraTrainingId: loraId, scale: 0.8 }],
+        imageSize: "landscape_16_9",
+        steps: 40,
+        guidanceScale: 5,
+        numImages: 2,
+        seed: 1234,
+      },
+      {
+        images: [
+          { url: "https://fal.media/a.jpg", width: 1024, height: 576 },
+          { url: "https://fal.media/b.jpg", width: 1024, height: 576 },
+        ],
+        seed: 1234,
+      },
+    );
+
+    expect(falQueue.submit).toHaveBeenCalledWith("fal-ai/flux-lora", {
+      input: expect.objectContaining({
+        prompt: "a zxq landscape at dusk",
+        loras: [{ path: weightsUrl("zxq"), scale: 0.8 }],
+        image_size: "landscape_16_9",
+        num_inference_steps: 40,
+        guidance_scale: 5,
+        num_images: 2,
+        seed: 1234,
+      }),
+    });
+    expect(result.status).toBe("completed");
+    expect(result.fullPrompt).toBe("a zxq landscape at dusk");
+    expect(result.params.seed).toBe(1234);
+    expect(result.images).toHaveLength(2);
+
+    const listed = await callerFor(ALICE).listByLora({ loraTrainingId: loraId });
+    expect(listed).toHaveLength(2);
+    for (const image of listed) {
+      expect(image).toMatchObject({
+        prompt: "a {trigger} landscape at dusk",
+        fullPrompt: "a zxq landscape at dusk",
+        imageSize: "landscape_16_9",
+        steps: 40,
+        guidanceScale: 5,
+        numImages: 2,
+        seed: "1234",
+        loras: [{ loraTrainingId: loraId, triggerWord: "zxq", scale: 0.8 }],
+      });
+    }
+  });
+
+  it("omits the seed when none is given and records the one FAL chose", async () => {
+    const loraId = await insertLora("zxq");
+
+    const result = await generate(
+      { prompt: "a cat", loras: [{ loraTrainingId: loraId }] },
+      { images: [{ url: "https://fal.media/c.jpg" }], seed: 98765 },
+    );
+
+    const { input } = submitted();
+    expect(input).not.toHaveProperty("seed");
+    expect(input.prompt).toBe("a cat in the style of zxq");
+    expect(result.params.seed).toBe(98765);
+    expect(result.images[0].seed).toBe("98765");
+  });
+
+  it("mixes LoRAs and lists the results under each of them", async () => {
+    const styleId = await insertLora("mno");
+    const subjectId = await insertLora("pqr");
+
+    const result = await generate(
+      {
+        prompt: "{trigger2} in a {trigger1} room",
+        loras: [
+          { loraTrainingId: styleId, scale: 1 },
+          { loraTrainingId: subjectId, scale: 0.6 },
+        ],
+      },
+      { images: [{ url: "https://fal.media/mix.jpg" }], seed: 7 },
+    );
+
+    const { input } = submitted();
+    expect(input.prompt).toBe("pqr in a mno room");
+    expect(input.loras).toEqual([
+      { path: weightsUrl("mno"), scale: 1 },
+      { path: weightsUrl("pqr"), scale: 0.6 },
+    ]);
+
+    const mix = [
+      { loraTrainingId: styleId, triggerWord: "mno", scale: 1 },
+      { loraTrainingId: subjectId, triggerWord: "pqr", scale: 0.6 },
+    ];
+    expect(result.loras).toEqual(mix);
+    for (const loraTrainingId of [styleId, subjectId]) {
+      const listed = await callerFor(ALICE).listByLora({ loraTrainingId });
+      expect(listed).toEqual([
+        expect.objectContaining({ id: result.images[0].id, loras: mix }),
+      ]);
+    }
+  });
+
+  it("refuses a mix with a LoRA that has not finished training", async () => {
+    const readyId = await insertLora("stu");
+    const pendingId = await insertLora("vwx", "pending");
+
+    await expect(
+      callerFor(ALICE).images({
+        prompt: "a cat",
+        loras: [{ loraTrainingId: readyId }, { loraTrainingId: pendingId }],
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(
+      callerFor(ALICE).images({
+        prompt: "a cat",
+        loras: [{ loraTrainingId: readyId }, { loraTrainingId: "missing" }],
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(falQueue.submit).not.toHaveBeenCalled();
+  });
+});
+
+describe("generate.images from a source image", () => {
+  it("runs image-to-image from an earlier generation and records it", async () => {
+    const loraId = await insertLora("img");
+    const first = await generate(
+      { prompt: "a cat", loras: [{ loraTrainingId: loraId }], numImages: 1 },
+      { images: [{ url: "https://fal.media/first.jpg" }], seed: 1 },
+    );
+    const sourceId = first.images[0].id;
+
+    const second = await generate(
+      {
+        prompt: "a cat at night",
+        loras: [{ loraTrainingId: loraId }],
+        mode: "image",
+        source: { kind: "generated", generatedImageId: sourceId },
+        strength: 0.6,
+      },
+      { images: [{ url: "https://fal.media/second.jpg" }], seed: 2 },
+    );
+
+    const { endpoint, input } = submitted(1);
+    expect(endpoint).toBe("fal-ai/flux-lora/image-to-image");
+    expect(input).toMatchObject({
+      image_url: "https://fal.media/first.jpg",
+      strength: 0.6,
+    });
+    expect(input).not.toHaveProperty("image_size");
+    expect(input).not.toHaveProperty("mask_url");
+
+    const listed = await callerFor(ALICE).listByLora({ loraTrainingId: loraId });
+    expect(listed.find((image) => image.id === second.images[0].id)).toMatchObject({
+      mode: "image",
+      strength: 0.6,
+      imageSize: null,
+      source: {
+        kind: "generated",
+        imageUrl: "https://fal.media/first.jpg",
+        generatedImageId: sourceId,
+      },
+      maskUrl: null,
+    });
+    expect(listed.find((image) => image.id === sourceId)).toMatchObject({
+      mode: "text",
+      source: null,
+      strength: null,
+    });
+  });
+
+  it("inpaints an upload, storing the source and mask in FAL storage", async () => {
+    const loraId = await insertLora("paint");
+    falUpload
+      .mockResolvedValueOnce("https://fal.media/files/source.png")
+      .mockResolvedValueOnce("https://fal.media/files/mask.png");
+
+    const result = await generate(
+      {
+        prompt: "a {trigger} hat",
+        loras: [{ loraTrainingId: loraId }],
+        mode: "inpaint",
+        source: { kind: "upload", dataUrl: await pngDataUrl("#336699") },
+        mask: await pngDataUrl("#ffffff"),
+      },
+      { images: [{ url: "https://fal.media/inpainted.jpg" }], seed: 3 },
+    );
+
+    expect(falUpload).toHaveBeenCalledTimes(2);
+    const { endpoint, input } = submitted();
+    expect(endpoint).toBe("fal-ai/flux-lora/inpainting");
+    expect(input).toMatchObject({
+      prompt: "a paint hat",
+      image_url: "https://fal.media/files/source.png",
+      mask_url: "https://fal.media/files/mask.png",
+      strength: 0.85,
+    });
+    expect(result.params).toMatchObject({
+      mode: "inpaint",
+      source: { kind: "upload", imageUrl: "https://fal.media/files/source.png" },
+      maskUrl: "https://fal.media/files/mask.png",
+    });
+    expect(result.params).not.toHaveProperty("mask");
+  });
+
+  it("rejects sources it can't use before calling FAL", async () => {
+    const loraId = await insertLora("bad");
+    const base = {
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+      mode: "image" as const,
+    };
+
+    await expect(
+      callerFor(ALICE).images({
+        ...base,
+        source: { kind: "arena", url: "https://evil.example.com/cat.jpg" },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(
+      callerFor(ALICE).images({
+        ...base,
+        source: { kind: "generated", generatedImageId: "missing" },
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(
+      callerFor(ALICE).images({
+        ...base,
+        source: {
+          kind: "upload",
+          dataUrl: `data:image/png;base64,${Buffer.from("junk").toString("base64")}`,
+        },
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(falUpload).not.toHaveBeenCalled();
+    expect(falQueue.submit).not.toHaveBeenCalled();
+  });
+});
+
+describe("generation jobs", () => {
+  it("stays in flight until FAL finishes, counting against the daily limit", async () => {
+    const loraId = await insertLora("queue");
+    const before = await callerFor(BOB).remaining();
+
+    falQueue.submit.mockResolvedValueOnce({ request_id: "gen-queued" });
+    const job = await callerFor(BOB).images({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+    });
+    expect(job).toMatchObject({ status: "queued", images: [] });
+    expect((await callerFor(BOB).remaining()).remaining).toBe(
+      before.remaining - 1,
+    );
+
+    falQueue.status.mockResolvedValueOnce({
+      status: "IN_QUEUE",
+      queue_position: 2,
+    });
+    expect(await callerFor(BOB).job({ jobId: job.id })).toMatchObject({
+      status: "queued",
+    });
+    falQueue.status.mockResolvedValueOnce({ status: "IN_PROGRESS" });
+    expect(await callerFor(BOB).jobs({ loraTrainingId: loraId })).toEqual([
+      expect.objectContaining({ id: job.id, status: "running" }),
+    ]);
+    expect(
+      await callerFor(BOB).listByLora({ loraTrainingId: loraId }),
+    ).toEqual([]);
+
+    falQueue.status.mockResolvedValueOnce({ status: "COMPLETED" });
+    falQueue.result.mockResolvedValueOnce({
+      data: {
+        images: [{ url: "https://fal.media/q.jpg" }],
+        seed: 5,
+        has_nsfw_concepts: [false, true],
+      },
+    });
+    const done = await callerFor(BOB).job({ jobId: job.id });
+    expect(done).toMatchObject({
+      status: "completed",
+      nsfwFiltered: true,
+      images: [{ imageUrl: "https://fal.media/q.jpg", seed: "5" }],
+    });
+    expect(done.completedAt).not.toBeNull();
+    expect(
+      await callerFor(BOB).listByLora({ loraTrainingId: loraId }),
+    ).toHaveLength(1);
+
+    // Settled jobs are not checked again
+    await callerFor(BOB).job({ jobId: job.id });
+    expect(falQueue.status).toHaveBeenCalledTimes(3);
+  });
+
+  it("records a failed request and gives the batch back", async () => {
+    const loraId = await insertLora("fails");
+    const before = await callerFor(BOB).remaining();
+
+    falQueue.submit.mockResolvedValueOnce({ request_id: "gen-failing" });
+    const job = await callerFor(BOB).images({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+    });
+    falQueue.status.mockResolvedValueOnce({ status: "COMPLETED" });
+    falQueue.result.mockRejectedValueOnce(
+      new ApiError({
+        message: "Unprocessable",
+        status: 422,
+        body: { detail: "Prompt was rejected" },
+      }),
+    );
+
+    expect(await callerFor(BOB).job({ jobId: job.id })).toMatchObject({
+      status: "failed",
+      errorMessage: "Prompt was rejected",
+      images: [],
+    });
+    expect(await callerFor(BOB).remaining()).toEqual(before);
+  });
+
+  it("leaves the job in flight when FAL can't be reached", async () => {
+    const loraId = await insertLora("flaky");
+    falQueue.submit.mockResolvedValueOnce({ request_id: "gen-flaky" });
+    const job = await callerFor(BOB).images({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+    });
+    falQueue.status.mockRejectedValueOnce(new Error("ECONNRESET"));
+
+    expect(await callerFor(BOB).job({ jobId: job.id })).toMatchObject({
+      status: "queued",
+    });
+  });
+
+  it("records the job before submitting it to FAL", async () => {
+    const loraId = await insertLora("early");
+    let atSubmit: unknown[] = [];
+    falQueue.submit.mockImplementationOnce(async () => {
+      atSubmit = await getDb()
+        .selectFrom("generation_jobs")
+        .select(["status", "lora_training_id"])
+        .where("lora_training_id", "=", loraId)
+        .execute();
+      return { request_id: "gen-early" };
+    });
+
+    const job = await callerFor(BOB).images({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+    });
+
+    expect(atSubmit).toEqual([
+      { status: "submitting", lora_training_id: loraId },
+    ]);
+    expect(job.status).toBe("queued");
+    const row = await getDb()
+      .selectFrom("generation_jobs")
+      .select("request_id")
+      .where("id", "=", job.id)
+      .executeTakeFirstOrThrow();
+    expect(row.request_id).toBe("gen-early");
+  });
+
+  it("fails the job when FAL refuses the submission", async () => {
+    const loraId = await insertLora("refused");
+    const before = await callerFor(BOB).remaining();
+    falQueue.submit.mockRejectedValueOnce(new Error("queue full"));
+
+    await expect(
+      callerFor(BOB).images({
+        prompt: "a cat",
+        loras: [{ loraTrainingId: loraId }],
+      }),
+    ).rejects.toThrow("Image generation failed: queue full");
+    expect(await callerFor(BOB).jobs({ loraTrainingId: loraId })).toEqual([
+      expect.objectContaining({ status: "failed", errorMessage: "queue full" }),
+    ]);
+    expect(await callerFor(BOB).remaining()).toEqual(before);
+  });
+
+  it("saves nothing and keeps the job in flight if its images can't be written", async () => {
+    const loraId = await insertLora("atomic");
+    falQueue.submit.mockResolvedValueOnce({ request_id: "gen-atomic" });
+    const job = await callerFor(BOB).images({
+      prompt: "a cat",
+      loras: [{ loraTrainingId: loraId }],
+    });
+    const finish = () => {
+      falQueue.status.mockResolvedValueOnce({ status: "COMPLETED" });
+      falQueue.result.mockResolvedValueOnce({
+        data: { images: [{ url: "https://fal.media/atomic.jpg" }], seed: 1 },
+      });
+    };
+
+    // The second insert of the settle fails
+    await sql`alter table generated_image_loras rename to gil_moved`.execute(
+      getDb(),
+    );
+    finish();
+    const attempt = await callerFor(BOB)
+      .job({ jobId: job.id })
+      .finally(() =>
+        sql`alter table gil_moved rename to generated_image_loras`.execute(
+          getDb(),
+        ),
+      );
+    expect(attempt).toMatchObject({ status: "queued", images: [] });
+    expect(
+      await callerFor(BOB).listByLora({ loraTrainingId: loraId }),
+    ).toEqual([]);
+
+    finish();
+    expect(await callerFor(BOB).job({ jobId: job.id })).toMatchObject({
+      status: "completed",
+      images: [{ imageUrl: "https://fal.media/atomic.jpg" }],
+    });
+  });
+
+  it("fails a job the reconciler finds stuck submitting", async () => {
+    // As if the server died between recording the job and submitting it
+    const loraId = await insertLora("stuck");
+    const { id } = await createGenerationJob({
+      walletAddress: BOB,
+      endpoint: "fal-ai/flux-lora",
+      record: {
+        prompt: "a cat",
+        fullPrompt: "a cat, stuck",
+        settings: generationParamsSchema.parse({
+          prompt: "a cat",
+          loras: [{ loraTrainingId: loraId }],
+        }),
+        loras: [{ loraTrainingId: loraId, triggerWord: "stuck", scale: 1 }],
+        source: null,
+        maskUrl: null,
+      },
+    });
+    await getDb()
+      .updateTable("generation_jobs")
+      .set({
+        created_at: new Date(
+          Date.now() - SUBMIT_TIMEOUT_MS - 1000,
+        ).toISOString(),
+      })
+      .where("id", "=", id)
+      .execute();
+
+    await reconcileGenerationJobs();
+
+    expect(await callerFor(BOB).job({ jobId: id })).toMatchObject({
+      status: "failed",
+      errorMessage: "Submission to FAL did not complete",
+    });
+  });
+
+  it("only shows a job to the wallet that started it", async () => {
+    const loraId = await insertLora("private");
+    const job = await generate(
+      { prompt: "a cat", loras: [{ loraTrainingId: loraId }] },
+      { images: [{ url: "https://fal.media/mine.jpg" }] },
+    );
+
+    await expect(callerFor(BOB).job({ jobId: job.id })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(
+      callerFor(BOB).job({ jobId: "missing" }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(await callerFor(BOB).jobs({ loraTrainingId: loraId })).toEqual([]);
+    expect(await callerFor(ALICE).jobs({ loraTrainingId: loraId })).toEqual([
+      expect.objectContaining({ id: job.id, status: "completed" }),
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { migrateToLatest } from "../../db";
+import { env, getImageCacheConfig } from "../../env";
+import {
+  cachedDownload,
+  configureImageCache,
+  createFsStore,
+  createLibsqlStore,
+  createMemoryStore,
+  getImageCacheStats,
+  type ImageCacheStore,
+} from "../image-cache";
+
+// --- Test Helpers ---
+
+const HOUR = 60 * 60 * 1000;
+
+function bytes(size: number, fill: number): Buffer {
+  return Buffer.alloc(size, fill);
+}
+
+/** A download function that serves fixed bytes per URL and counts calls */
+function fakeDownload(images: Record<string, Buffer>) {
+  return vi.fn(async (url: string) => ({
+    filename: url.split("/").pop()!,
+    data: images[url],
+  }));
+}
+
+function useCache(store: ImageCacheStore, maxBytes = 1024 * 1024) {
+  configureImageCache({ store, maxBytes, ttlMs: HOUR });
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("cachedDownload", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("serves a repeated URL from the cache and counts hits and misses", async () => {
+    useCache(createMemoryStore());
+    const download = fakeDownload({ "https://x.test/a.jpg": bytes(100, 1) });
+
+    const first = await cachedDownload("https://x.test/a.jpg", download);
+    const second = await cachedDownload("https://x.test/a.jpg", download);
+
+    expect(download).toHaveBeenCalledOnce();
+    expect(second).toEqual(first);
+    expect(getImageCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+    expect(console.log).toHaveBeenCalledWith(
+      "[image-cache] hit https://x.test/a.jpg (1 hits, 1 misses)",
+    );
+  });
+
+  it("stores identical bytes behind two URLs once", async () => {
+    const store = createMemoryStore();
+    useCache(store);
+    const same = bytes(100, 7);
+    const download = fakeDownload({
+      "https://x.test/a.jpg": same,
+      "https://y.test/b.jpg": same,
+    });
+
+    await cachedDownload("https://x.test/a.jpg", download);
+    await cachedDownload("https://y.test/b.jpg", download);
+
+    const keys = (await store.list()).map((object) => object.key);
+    expect(keys.filter((key) => key.startsWith("blobs/"))).toHaveLength(1);
+    expect(keys.filter((key) => key.startsWith("urls/"))).toHaveLength(2);
+  });
+
+  it("re-downloads after the TTL", async () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    useCache(createMemoryStore());
+    const download = fakeDownload({ "https://x.test/a.jpg": bytes(100, 1) });
+
+    await cachedDownload("https://x.test/a.jpg", download);
+    vi.setSystemTime(new Date("2026-01-01T01:00:01Z"));
+    await cachedDownload("https://x.test/a.jpg", download);
+
+    expect(download).toHaveBeenCalledTimes(2);
+  });
+
+  it("evicts the oldest images once over the size limit", async () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    useCache(createMemoryStore(), 2500);
+    const download = fakeDownload({
+      "https://x.test/1.jpg": bytes(1000, 1),
+      "https://x.test/2.jpg": bytes(1000, 2),
+      "https://x.test/3.jpg": bytes(1000, 3),
+    });
+
+    for (const n of [1, 2, 3]) {
+      vi.advanceTimersByTime(1000);
+      await cachedDownload(`https://x.test/${n}.jpg`, download);
+    }
+    await cachedDownload("https://x.test/3.jpg", download);
+    await cachedDownload("https://x.test/1.jpg", download);
+
+    // 3 was still cached; 1 had been evicted and was fetched again
+    expect(download).toHaveBeenCalledTimes(4);
+    expect(getImageCacheStats().evictions).toBeGreaterThan(0);
+    expect(getImageCacheStats().bytes).toBeLessThanOrEqual(2500);
+  });
+
+  it("shares one download between concurrent requests", async () => {
+    useCache(createMemoryStore());
+    const download = fakeDownload({ "https://x.test/a.jpg": bytes(100, 1) });
+
+    await Promise.all([
+      cachedDownload("https://x.test/a.jpg", download),
+      cachedDownload("https://x.test/a.jpg", download),
+    ]);
+
+    expect(download).toHaveBeenCalledOnce();
+  });
+
+  it("is off with a size limit of 0", async () => {
+    useCache(createMemoryStore(), 0);
+    const download = fakeDownload({ "https://x.test/a.jpg": bytes(100, 1) });
+
+    await cachedDownload("https://x.test/a.jpg", download);
+    await cachedDownload("https://x.test/a.jpg", download);
+
+    expect(download).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps entries on disk across cache instances", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "image-cache-"));
+    try {
+      const download = fakeDownload({ "https://x.test/a.jpg": bytes(2048, 9) });
+      useCache(createFsStore(dir));
+      await cachedDownload("https://x.test/a.jpg", download);
+
+      // A fresh cache over the same directory, as after a restart
+      useCache(createFsStore(dir));
+      const image = await cachedDownload("https://x.test/a.jpg", download);
+
+      expect(download).toHaveBeenCalledOnce();
+      expect(image).toEqual({ filename: "a.jpg", data: bytes(2048, 9) });
+      expect(getImageCacheStats().hits).toBe(1);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("libsql store", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("shares entries between instances through the database", async () => {
+    const download = fakeDownload({ "https://x.test/db.jpg": bytes(300, 4) });
+    useCache(createLibsqlStore());
+    await cachedDownload("https://x.test/db.jpg", download);
+
+    // Another instance with its own cache state
+    useCache(createLibsqlStore());
+    const image = await cachedDownload("https://x.test/db.jpg", download);
+
+    expect(download).toHaveBeenCalledOnce();
+    expect(image).toEqual({ filename: "db.jpg", data: bytes(300, 4) });
+    expect(getImageCacheStats().hits).toBe(1);
+  });
+
+  it("counts other instances' objects before evicting", async () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z"), toFake: ["Date"] });
+    const store = createLibsqlStore();
+    for (const { key } of await store.list()) await store.delete(key);
+    const download = fakeDownload({
+      "https://x.test/first.jpg": bytes(300, 1),
+      "https://x.test/second.jpg": bytes(300, 2),
+    });
+    useCache(createLibsqlStore(), 1000);
+    await cachedDownload("https://x.test/first.jpg", download);
+
+    // Another instance stores an image this one never listed
+    vi.advanceTimersByTime(1000);
+    await createLibsqlStore().put("blobs/other", bytes(500, 3));
+    vi.advanceTimersByTime(1000);
+    await cachedDownload("https://x.test/second.jpg", download);
+
+    const keys = (await store.list()).map((object) => object.key);
+    expect(keys).toContain("blobs/other");
+    expect(keys.filter((key) => key.startsWith("blobs/"))).toHaveLength(2);
+    expect(getImageCacheStats().evictions).toBeGreaterThan(0);
+  });
+});
+
+describe("getImageCacheConfig", () => {
+  afterEach(() => {
+    env.IMAGE_CACHE_DIR = undefined;
+    env.IMAGE_CACHE_MAX_MB = undefined;
+    env.IMAGE_CACHE_STORE = undefined;
+  });
+
+  it("leaves the cache off unless it is configured", () => {
+    expect(getImageCacheConfig()).toMatchObject({
+      store: "memory",
+      dir: undefined,
+      maxBytes: 0,
+    });
+  });
+
+  it("defaults to 256 MB on disk once a directory is set", () => {
+    env.IMAGE_CACHE_DIR = ".cache/images";
+    expect(getImageCacheConfig()).toMatchObject({
+      store: "fs",
+      dir: ".cache/images",
+      maxBytes: 256 * 1024 * 1024,
+    });
+  });
+
+  it("keeps images in memory when only a size is set", () => {
+    env.IMAGE_CACHE_MAX_MB = "64";
+    expect(getImageCacheConfig()).toMatchObject({
+      store: "memory",
+      dir: undefined,
+      maxBytes: 64 * 1024 * 1024,
+    });
+  });
+
+  it("defaults to 256 MB in the database with the libsql store", () => {
+    env.IMAGE_CACHE_STORE = "libsql";
+    expect(getImageCacheConfig()).toMatchObject({
+      store: "libsql",
+      maxBytes: 256 * 1024 * 1024,
+    });
+  });
+});
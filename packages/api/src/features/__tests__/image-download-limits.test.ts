@@ -1,9 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.hoisted(() => {
+  // Every test here must reach fetch — the cache has its own tests
+  process.env.IMAGE_CACHE_MAX_MB = "0";
+});
+
 import dns from "node:dns";
 import { Readable } from "node:stream";
 import {
   downloadImage,
   downloadWithConcurrency,
+  downloadAllSettled,
   createImageZip,
   MAX_IMAGE_SIZE,
   DOWNLOAD_TIMEOUT_MS,
@@ -362,6 +369,27 @@ describe("downloadWithConcurrency", () => {
     expect(results[5]).toBeNull();
   });
 
+  it("keeps the reason for each failed download", async () => {
+    let callIndex = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => {
+        if (callIndex++ === 1) {
+          return new Response("gone", { status: 404, statusText: "Not Found" });
+        }
+        return new Response(new Blob([makeImageBuffer(2048)]), {
+          status: 200,
+          headers: { "content-type": "image/jpeg" },
+        });
+      }) as unknown as typeof globalThis.fetch,
+    );
+
+    const results = await downloadAllSettled(validUrls(2), 1);
+
+    expect(results[0].ok).toBe(true);
+    expect(results[1]).toEqual({ ok: false, error: "HTTP 404: Not Found" });
+  });
+
   it("handles fewer URLs than the concurrency limit", async () => {
     vi.stubGlobal("fetch", mockFetchResponse(2048));
 
@@ -454,6 +482,36 @@ describe("createImageZip", () => {
     expect(zipString).toContain("3_original_test.jpg");
   });
 
+  it("writes captions as .txt sidecars next to their images", async () => {
+    vi.stubGlobal("fetch", mockFetchResponse(2048));
+
+    const urls = validUrls(2);
+    const { buffer, images } = await createImageZip(urls, {
+      captions: { [urls[1]]: "  tw, a red chair in a field  " },
+    });
+
+    // Stored (uncompressed) entries keep names and text readable
+    const zipString = buffer.toString("binary");
+    expect(zipString).toContain("2_original_test.txt");
+    expect(zipString).toContain("tw, a red chair in a field");
+    expect(zipString).not.toContain("1_original_test.txt");
+    expect(images.map((image) => image.caption)).toEqual([
+      null,
+      "tw, a red chair in a field",
+    ]);
+  });
+
+  it("reports images that preprocessing cannot decode", async () => {
+    vi.stubGlobal("fetch", mockFetchResponse(2048));
+
+    // The mock bytes only look like a JPEG header
+    await expect(
+      createImageZip(validUrls(2), {
+        preprocess: { resolution: 512, crop: "center", format: "jpeg" },
+      }),
+    ).rejects.toThrow("None of the images could be used");
+  });
+
   it("produces a valid zip with a single image", async () => {
     vi.stubGlobal("fetch", mockFetchResponse(2048));
 
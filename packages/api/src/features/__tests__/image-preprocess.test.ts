@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import {
+  preprocessImage,
+  ImagePreprocessError,
+  MIN_IMAGE_EDGE,
+  type PreprocessOptions,
+} from "../image-preprocess";
+
+// --- Test Helpers ---
+
+const options: PreprocessOptions = {
+  resolution: 512,
+  crop: "center",
+  format: "jpeg",
+};
+
+function solid(width: number, height: number, background = "#336699") {
+  return sharp({ create: { width, height, channels: 3, background } });
+}
+
+// --- Tests ---
+
+describe("preprocessImage", () => {
+  it("center-crops to a square at the target resolution", async () => {
+    const input = await solid(1200, 800).png().toBuffer();
+
+    const { data, report } = await preprocessImage(input, options);
+
+    const output = await sharp(data).metadata();
+    expect(output).toMatchObject({ format: "jpeg", width: 512, height: 512 });
+    expect(report).toEqual({
+      original: { width: 1200, height: 800, bytes: input.length, format: "png" },
+      processed: { width: 512, height: 512, bytes: data.length, format: "jpeg" },
+      crop: { left: 200, top: 0, width: 800, height: 800 },
+    });
+  });
+
+  it("never upscales and keeps the aspect ratio without cropping", async () => {
+    const input = await solid(400, 300).jpeg().toBuffer();
+
+    const { report } = await preprocessImage(input, {
+      ...options,
+      crop: "none",
+      format: "png",
+    });
+
+    expect(report.processed).toMatchObject({
+      width: 400,
+      height: 300,
+      format: "png",
+    });
+    expect(report.crop).toBeNull();
+  });
+
+  it("applies EXIF orientation and strips metadata", async () => {
+    const input = await solid(600, 400)
+      .jpeg()
+      .withMetadata({
+        orientation: 6,
+        exif: { IFD0: { Copyright: "someone" } },
+      })
+      .toBuffer();
+
+    const { data, report } = await preprocessImage(input, {
+      ...options,
+      crop: "none",
+    });
+
+    // Orientation 6 is a 90° turn — the trained image is portrait
+    expect(report.original).toMatchObject({ width: 400, height: 600 });
+    const output = await sharp(data).metadata();
+    expect(output).toMatchObject({ width: 341, height: 512 });
+    expect(output.exif).toBeUndefined();
+    expect(output.orientation).toBeUndefined();
+  });
+
+  it("smart-crops inside the original image", async () => {
+    const input = await solid(1000, 500).png().toBuffer();
+
+    const { report } = await preprocessImage(input, {
+      ...options,
+      crop: "smart",
+    });
+
+    expect(report.crop).toMatchObject({ width: 500, height: 500, top: 0 });
+    expect(report.crop!.left).toBeGreaterThanOrEqual(0);
+    expect(report.crop!.left).toBeLessThanOrEqual(500);
+  });
+
+  it("rejects animated, tiny and corrupt images", async () => {
+    const singleFrame = await solid(300, 300).gif().toBuffer();
+    const frames = [
+      await solid(300, 300).png().toBuffer(),
+      await solid(300, 300, "#993366").png().toBuffer(),
+    ];
+    const twoFrames = await sharp(frames, { join: { animated: true } })
+      .gif()
+      .toBuffer();
+
+    await expect(preprocessImage(twoFrames, options)).rejects.toThrow(
+      "Animated images are not supported",
+    );
+    const tiny = await solid(MIN_IMAGE_EDGE - 1, 800).png().toBuffer();
+    await expect(preprocessImage(tiny, options)).rejects.toThrow(
+      ImagePreprocessError,
+    );
+    await expect(
+      preprocessImage(Buffer.from("definitely not an image"), options),
+    ).rejects.toThrow("File is corrupt or not an image");
+    // A single-frame GIF is fine
+    await expect(preprocessImage(singleFrame, options)).resolves.toBeTruthy();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+
+vi.hoisted(() => {
+  process.env.IMAGE_CACHE_MAX_MB = "0";
+});
+
+import dns from "node:dns";
+import { PassThrough } from "node:stream";
+import sharp from "sharp";
+import {
+  sendImageZip,
+  contentDisposition,
+  imageZipFilename,
+} from "../image-zip-download";
+
+// --- Test Helpers ---
+
+const URL_1 = "https://d2w9rnfcy7mm78.cloudfront.net/1/photo.png";
+const URL_2 = "https://d2w9rnfcy7mm78.cloudfront.net/2/photo.png";
+
+let photo: Buffer;
+
+/** An HTTP-response stand-in that records headers and streamed bytes */
+function fakeResponse() {
+  const stream = new PassThrough();
+  const chunks: Buffer[] = [];
+  stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const headers: Record<string, string> = {};
+  return Object.assign(stream, {
+    headers,
+    body: () => Buffer.concat(chunks),
+    setHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+    },
+  });
+}
+
+function stubFetch(body: () => Buffer | null) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => {
+      const data = body();
+      return data
+        ? new Response(new Blob([data]), {
+            status: 200,
+            headers: { "content-type": "image/png" },
+          })
+        : new Response("gone", { status: 404, statusText: "Not Found" });
+    }) as unknown as typeof globalThis.fetch,
+  );
+}
+
+// --- Tests ---
+
+describe("sendImageZip", () => {
+  beforeAll(async () => {
+    photo = await sharp({
+      create: { width: 600, height: 400, channels: 3, background: "#336699" },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(() => {
+    vi.spyOn(dns.promises, "lookup").mockResolvedValue({
+      address: "52.84.123.45",
+      family: 4,
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("streams a zip with download headers once images are ready", async () => {
+    stubFetch(() => photo);
+    const response = fakeResponse();
+    const onStart = vi.fn(() => {
+      // Headers are still settable when the stream starts
+      expect(response.body().length).toBe(0);
+    });
+
+    const failure = await sendImageZip(
+      {
+        imageUrls: [URL_1, URL_2],
+        triggerWord: "tw",
+        captions: [{ url: URL_2, caption: "tw, a blue square" }],
+      },
+      response,
+      { onStart },
+    );
+
+    expect(failure).toBeNull();
+    expect(onStart).toHaveBeenCalledOnce();
+    expect(response.headers["content-type"]).toBe("application/zip");
+    expect(response.headers["content-disposition"]).toMatch(
+      /^attachment; filename="lora-training-tw-.*\.zip"/,
+    );
+    const zip = response.body();
+    expect(zip.subarray(0, 2).toString()).toBe("PK");
+    expect(zip.toString("binary")).toContain("1_photo.jpg");
+    expect(zip.toString("binary")).toContain("2_photo.txt");
+  });
+
+  it("writes the first image before the last one has downloaded", async () => {
+    let release!: () => void;
+    const slow = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        if (url === URL_2) await slow;
+        return new Response(new Blob([photo]), {
+          status: 200,
+          headers: { "content-type": "image/png" },
+        });
+      }) as unknown as typeof globalThis.fetch,
+    );
+    const response = fakeResponse();
+
+    const sent = sendImageZip(
+      { imageUrls: [URL_1, URL_2], triggerWord: "tw" },
+      response,
+    );
+    await vi.waitFor(() => {
+      expect(response.body().toString("binary")).toContain("1_photo.jpg");
+    });
+    expect(response.body().toString("binary")).not.toContain("2_photo.jpg");
+
+    release();
+    expect(await sent).toBeNull();
+    expect(response.body().toString("binary")).toContain("2_photo.jpg");
+  });
+
+  it("rejects invalid input before touching the network", async () => {
+    const fetchSpy = vi.fn();
+    vi.stubGlobal("fetch", fetchSpy);
+
+    const failure = await sendImageZip(
+      { imageUrls: ["http://example.com/a.png"], triggerWord: "tw" },
+      fakeResponse(),
+    );
+
+    expect(failure).toEqual({
+      status: 400,
+      error: "Only HTTPS image URLs are allowed",
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it("returns an error instead of an empty zip when nothing downloads", async () => {
+    stubFetch(() => null);
+    const response = fakeResponse();
+    const onStart = vi.fn();
+
+    const failure = await sendImageZip(
+      { imageUrls: [URL_1], triggerWord: "tw" },
+      response,
+      { onStart },
+    );
+
+    expect(failure).toEqual({
+      status: 422,
+      error: "Failed to create zip archive: Failed to download any images",
+    });
+    expect(onStart).not.toHaveBeenCalled();
+    expect(response.headers).toEqual({});
+  });
+});
+
+describe("contentDisposition", () => {
+  it("keeps a safe ASCII fallback next to the UTF-8 name", () => {
+    const filename = imageZipFilename(
+      'café "mood"',
+      new Date("2026-01-02T03:04:05.678Z"),
+    );
+
+    expect(filename).toBe('lora-training-café "mood"-2026-01-02T03-04-05-678Z.zip');
+    expect(contentDisposition(filename)).toBe(
+      'attachment; filename="lora-training-caf_ _mood_-2026-01-02T03-04-05-678Z.zip"; ' +
+        "filename*=UTF-8''lora-training-caf%C3%A9%20%22mood%22-2026-01-02T03-04-05-678Z.zip",
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import { getDb, migrateToLatest } from "../../db";
+import { createPendingLora, loraRouter } from "../lora";
+import { readImageDimensions } from "../image-info";
+
+// --- Test Helpers ---
+
+const caller = loraRouter.createCaller({ session: null });
+
+let counter = 0;
+
+async function insertCompleted(
+  images: Parameters<typeof createPendingLora>[0]["images"],
+) {
+  const { id } = await createPendingLora({
+    requestId: `req-${++counter}`,
+    walletAddress: "0x0000000000000000000000000000000000000001",
+    triggerWord: "test",
+    steps: 1000,
+    images,
+  });
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({ status: "completed" })
+    .where("id", "=", id)
+    .execute();
+  return id;
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("lora training images", () => {
+  it("returns training images in order with their metadata", async () => {
+    const id = await insertCompleted([
+      {
+        url: "https://x.are.na/b.jpg",
+        arenaBlockId: 2,
+        title: "B",
+        caption: "tw, a chair",
+        width: 640,
+        height: 480,
+      },
+      { url: "https://x.are.na/a.jpg" },
+    ]);
+
+    const lora = await caller.getById({ id });
+
+    expect(lora.imageUrls).toEqual([
+      "https://x.are.na/b.jpg",
+      "https://x.are.na/a.jpg",
+    ]);
+    expect(lora.images[0]).toEqual({
+      url: "https://x.are.na/b.jpg",
+      arenaBlockId: 2,
+      title: "B",
+      caption: "tw, a chair",
+      width: 640,
+      height: 480,
+    });
+  });
+
+  it("finds LoRAs that used an image by URL or content hash", async () => {
+    const byUrl = await insertCompleted([
+      { url: "https://x.are.na/shared.jpg", contentHash: "h1" },
+    ]);
+    const byHash = await insertCompleted([
+      { url: "https://x.are.na/reupload.jpg", contentHash: "h1" },
+    ]);
+    await insertCompleted([{ url: "https://x.are.na/other.jpg", contentHash: "h2" }]);
+
+    const loras = await caller.usingImage({
+      imageUrl: "https://x.are.na/shared.jpg",
+    });
+
+    expect(loras.map((l) => l.id).sort()).toEqual([byUrl, byHash].sort());
+  });
+});
+
+describe("readImageDimensions", () => {
+  it("reads PNG and GIF headers", () => {
+    const png = Buffer.alloc(24);
+    png.writeUInt32BE(0x89504e47, 0);
+    png.writeUInt32BE(800, 16);
+    png.writeUInt32BE(600, 20);
+    expect(readImageDimensions(png)).toEqual({ width: 800, height: 600 });
+
+    const gif = Buffer.from("GIF89a\x20\x03\x58\x02", "latin1");
+    expect(readImageDimensions(gif)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("walks JPEG segments to the frame header", () => {
+    const jpeg = Buffer.from([
+      0xff, 0xd8, // SOI
+      0xff, 0xe0, 0x00, 0x04, 0x00, 0x00, // APP0, 2 bytes of payload
+      0xff, 0xc0, 0x00, 0x11, 0x08, 0x02, 0x58, 0x03, 0x20, 0x03, // SOF0 600x800
+    ]);
+    expect(readImageDimensions(jpeg)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("returns null for unknown data", () => {
+    expect(readImageDimensions(Buffer.from("hello world"))).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import { getDb, migrateToLatest } from "../../db";
+import { createPendingLora, loraRouter } from "../lora";
+
+// --- Test Helpers ---
+
+const caller = loraRouter.createCaller({ session: null });
+
+const ALICE = "0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa";
+const BOB = "0x000000000000000000000000000000000000b0b0";
+
+let counter = 0;
+
+async function insertLora(opts: {
+  triggerWord: string;
+  createdAt: string;
+  walletAddress?: string;
+  steps?: number;
+  channelUrl?: string;
+  channelTitle?: string;
+  status?: "completed" | "pending";
+}) {
+  const { id } = await createPendingLora({
+    requestId: `req-${++counter}`,
+    walletAddress: opts.walletAddress ?? ALICE,
+    triggerWord: opts.triggerWord,
+    steps: opts.steps ?? 1000,
+    images: [{ url: `https://x.are.na/${counter}.jpg` }],
+    arenaChannelUrl: opts.channelUrl,
+    arenaChannelTitle: opts.channelTitle,
+  });
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({ status: opts.status ?? "completed", created_at: opts.createdAt })
+    .where("id", "=", id)
+    .execute();
+  return id;
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+
+  await insertLora({ triggerWord: "cat", createdAt: "2025-01-05", steps: 500 });
+  await insertLora({
+    triggerWord: "dog",
+    createdAt: "2025-01-04",
+    walletAddress: BOB,
+    channelUrl: "https://www.are.na/u/dogs",
+    channelTitle: "Good 100% Dogs",
+  });
+  // Same timestamp — the id breaks the tie
+  await insertLora({ triggerWord: "bird", createdAt: "2025-01-03" });
+  await insertLora({ triggerWord: "fish", createdAt: "2025-01-03", steps: 2000 });
+  await insertLora({ triggerWord: "frog", createdAt: "2025-01-02" });
+  await insertLora({ triggerWord: "wip", createdAt: "2025-01-06", status: "pending" });
+});
+
+describe("lora.list", () => {
+  it("pages through completed LoRAs newest first without gaps or repeats", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: Awaited<ReturnType<typeof caller.list>> = await caller.list({
+        limit: 2,
+        cursor,
+      });
+      expect(page.items.length).toBeLessThanOrEqual(2);
+      seen.push(...page.items.map((item) => item.triggerWord));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toHaveLength(5);
+    expect(seen.slice(0, 2)).toEqual(["cat", "dog"]);
+    expect(seen.at(-1)).toBe("frog");
+    expect(new Set(seen).size).toBe(5);
+    expect(seen).not.toContain("wip");
+  });
+
+  it("filters by wallet address case-insensitively", async () => {
+    const page = await caller.list({ walletAddress: BOB.toUpperCase() });
+    expect(page.items.map((item) => item.triggerWord)).toEqual(["dog"]);
+  });
+
+  it("filters by channel and step range", async () => {
+    const byChannel = await caller.list({
+      arenaChannelUrl: "https://www.are.na/u/dogs",
+    });
+    expect(byChannel.items.map((item) => item.triggerWord)).toEqual(["dog"]);
+
+    const bySteps = await caller.list({ minSteps: 1500 });
+    expect(bySteps.items.map((item) => item.triggerWord)).toEqual(["fish"]);
+  });
+
+  it("searches trigger words and channel titles, treating wildcards literally", async () => {
+    const byWord = await caller.list({ search: "FRO" });
+    expect(byWord.items.map((item) => item.triggerWord)).toEqual(["frog"]);
+
+    const byTitle = await caller.list({ search: "100%" });
+    expect(byTitle.items.map((item) => item.triggerWord)).toEqual(["dog"]);
+
+    const wildcard = await caller.list({ search: "_" });
+    expect(wildcard.items).toEqual([]);
+  });
+
+  it("rejects a malformed cursor", async () => {
+    await expect(caller.list({ cursor: "nope" })).rejects.toThrow(
+      "Invalid cursor",
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import crypto from "node:crypto";
+import { parseEther } from "viem";
+import { getDb, migrateToLatest, type LoraTrainingStatus } from "../../db";
+import { createPendingLora, loraRouter } from "../lora";
+
+// --- Test Helpers ---
+
+const ALICE = "0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa";
+const BOB = "0x000000000000000000000000000000000000b0b0";
+
+function callerFor(walletAddress: string) {
+  return loraRouter.createCaller({
+    session: { user: { id: walletAddress, walletAddress } },
+  });
+}
+
+let counter = 0;
+
+async function insertLora(opts: {
+  walletAddress: string;
+  status: LoraTrainingStatus;
+  createdAt: string;
+}) {
+  const { id } = await createPendingLora({
+    requestId: `req-${++counter}`,
+    walletAddress: opts.walletAddress,
+    triggerWord: `tw${counter}`,
+    steps: 1000,
+    images: [{ url: `https://x.are.na/${counter}.jpg` }],
+  });
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({ status: opts.status, created_at: opts.createdAt })
+    .where("id", "=", id)
+    .execute();
+  return id;
+}
+
+async function insertPayment(loraId: string) {
+  const id = crypto.randomBytes(16).toString("hex");
+  const txHash = `0x${crypto.randomBytes(32).toString("hex")}`;
+  await getDb()
+    .insertInto("payments")
+    .values({
+      id,
+      tx_hash: txHash,
+      payer_address: ALICE,
+      asset: "ETH",
+      value_wei: parseEther("0.002").toString(),
+      eth_price_usd: 2000,
+      lora_training_id: loraId,
+      refund_tx_hash: null,
+      claimed_at: "2025-01-01T00:00:00.000Z",
+      refunded_at: null,
+      created_at: "2025-01-01T00:00:00.000Z",
+    })
+    .execute();
+  return { id, txHash };
+}
+
+// --- Tests ---
+
+let failedId: string;
+let paidId: string;
+
+beforeAll(async () => {
+  await migrateToLatest();
+
+  await insertLora({ walletAddress: ALICE, status: "pending", createdAt: "2025-01-04" });
+  failedId = await insertLora({
+    walletAddress: ALICE,
+    status: "failed",
+    createdAt: "2025-01-03",
+  });
+  paidId = await insertLora({
+    walletAddress: ALICE.toLowerCase(),
+    status: "completed",
+    createdAt: "2025-01-02",
+  });
+  await insertLora({ walletAddress: BOB, status: "completed", createdAt: "2025-01-05" });
+
+  await insertPayment(paidId);
+  const failedPayment = await insertPayment(failedId);
+  await getDb()
+    .insertInto("refunds")
+    .values({
+      id: "refund-1",
+      payment_id: failedPayment.id,
+      recipient_address: ALICE,
+      asset: "ETH",
+      amount: parseEther("0.002").toString(),
+      reason: "failed",
+      status: "sent",
+      nonce: 1,
+      tx_hash: "0xrefund",
+      tx_hashes: JSON.stringify(["0xrefund"]),
+      max_fee_per_gas: null,
+      max_priority_fee_per_gas: null,
+      attempts: 1,
+      last_error: null,
+      sent_at: "2025-01-03T00:00:00.000Z",
+      confirmed_at: null,
+      created_at: "2025-01-03T00:00:00.000Z",
+      updated_at: "2025-01-03T00:00:00.000Z",
+    })
+    .execute();
+});
+
+describe("lora.mine", () => {
+  it("lists every status for the session wallet only", async () => {
+    const page = await callerFor(ALICE).mine();
+
+    expect(page.items.map((item) => item.status)).toEqual([
+      "pending",
+      "failed",
+      "completed",
+    ]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("includes the payment and refund behind each run", async () => {
+    const { items } = await callerFor(ALICE).mine();
+    const byId = new Map(items.map((item) => [item.id, item]));
+
+    expect(byId.get(paidId)?.payment).toMatchObject({
+      asset: "ETH",
+      amountLabel: "0.002 ETH",
+    });
+    expect(byId.get(paidId)?.refund).toBeNull();
+    expect(byId.get(failedId)?.refund).toMatchObject({
+      status: "sent",
+      txHash: "0xrefund",
+    });
+    expect(items[0].payment).toBeNull();
+  });
+
+  it("filters by status", async () => {
+    const page = await callerFor(ALICE).mine({ status: "pending" });
+
+    expect(page.items.map((item) => item.status)).toEqual(["pending"]);
+  });
+
+  it("pages with a cursor", async () => {
+    const caller = callerFor(ALICE);
+    const first = await caller.mine({ limit: 2 });
+    const second = await caller.mine({ limit: 2, cursor: first.nextCursor });
+
+    expect(first.items).toHaveLength(2);
+    expect(second.items.map((item) => item.id)).toEqual([paidId]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("requires a session", async () => {
+    await expect(
+      loraRouter.createCaller({ session: null }).mine(),
+    ).rejects.toThrow("UNAUTHORIZED");
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import { sql } from "kysely";
+import { getDb, getMigrator, migrateToLatest } from "../../db";
+import { migrations } from "../../migrations";
+
+// --- Test Helpers ---
+
+async function tableNames(): Promise<string[]> {
+  const tables = await getDb().introspection.getTables();
+  return tables.map((t) => t.name).sort();
+}
+
+// --- Tests ---
+
+describe("migrations", () => {
+  it("adopts a database bootstrapped by the old ensure*Table functions", async () => {
+    // lora_trainings as ensureLoraTable left it, error_message included
+    await sql`
+      CREATE TABLE lora_trainings (
+        id TEXT PRIMARY KEY,
+        request_id TEXT UNIQUE NOT NULL,
+        wallet_address TEXT NOT NULL,
+        trigger_word TEXT NOT NULL,
+        steps INTEGER NOT NULL,
+        image_urls TEXT NOT NULL,
+        lora_weights_url TEXT,
+        arena_channel_url TEXT,
+        arena_channel_title TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        error_message TEXT,
+        created_at TEXT NOT NULL
+      )
+    `.execute(getDb());
+    await sql`
+      INSERT INTO lora_trainings
+        (id, request_id, wallet_address, trigger_word, steps, image_urls, status, created_at)
+      VALUES
+        ('a', 'req-a', '0x1', 'tw', 1000, '["https://x.are.na/1.jpg","https://x.are.na/2.jpg"]', 'completed', '2025-01-01'),
+        ('b', 'req-b', '0x1', 'tw', 1000, 'not json', 'completed', '2025-01-01')
+    `.execute(getDb());
+
+    const results = await migrateToLatest();
+
+    expect(results.map((r) => r.status)).toEqual(
+      Object.keys(migrations).map(() => "Success"),
+    );
+    expect(await tableNames()).toEqual(
+      expect.arrayContaining([
+        "generated_images",
+        "lora_trainings",
+        "payments",
+        "refunds",
+        "schema_migrations",
+      ]),
+    );
+    // image_urls JSON is moved into lora_training_images, in order
+    const images = await getDb()
+      .selectFrom("lora_training_images")
+      .select(["lora_training_id", "position", "image_url"])
+      .orderBy("position")
+      .execute();
+    expect(images).toEqual([
+      { lora_training_id: "a", position: 0, image_url: "https://x.are.na/1.jpg" },
+      { lora_training_id: "a", position: 1, image_url: "https://x.are.na/2.jpg" },
+    ]);
+  });
+
+  it("records every applied migration and is a no-op when up to date", async () => {
+    await migrateToLatest();
+
+    const applied = await getMigrator().getMigrations();
+    expect(applied.every((m) => m.executedAt)).toBe(true);
+    expect(await migrateToLatest()).toEqual([]);
+  });
+
+  it("reverts the latest migration", async () => {
+    await migrateToLatest();
+    const names = Object.keys(migrations);
+
+    const { error, results } = await getMigrator().migrateDown();
+
+    expect(error).toBeUndefined();
+    expect(results?.[0]).toMatchObject({
+      migrationName: names[names.length - 1],
+      direction: "Down",
+      status: "Success",
+    });
+    await migrateToLatest();
+  });
+});
@@ -0,0 +1,324 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const chain = vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+  process.env.PAYMENT_RECIPIENT = "0x00000000000000000000000000000000000000aa";
+  process.env.QUOTE_SIGNING_SECRET = "test-secret";
+  return {
+    getTransaction: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+    getBlock: vi.fn(),
+  };
+});
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return { ...actual, createPublicClient: () => chain };
+});
+
+import {
+  parseEther,
+  erc20Abi,
+  encodeEventTopics,
+  encodeAbiParameters,
+  type Hex,
+} from "viem";
+import {
+  verifyPaymentTx,
+  claimPayment,
+  linkPaymentToTraining,
+  listPayments,
+  createPaymentQuote,
+  verifyPaymentQuote,
+  QUOTE_TTL_MS,
+  USDC_BASE,
+  type PaymentQuote,
+} from "../payment";
+import { migrateToLatest } from "../../db";
+import { env } from "../../env";
+
+// --- Test Helpers ---
+
+const PAYER = "0x0000000000000000000000000000000000000001";
+const OTHER = "0x0000000000000000000000000000000000000002";
+const RECIPIENT = "0x00000000000000000000000000000000000000AA";
+
+let counter = 0;
+
+function nextTxHash(): Hex {
+  return `0x${(++counter).toString(16).padStart(64, "0")}` as Hex;
+}
+
+function makeQuote(overrides?: Partial<PaymentQuote>): PaymentQuote {
+  return {
+    walletAddress: PAYER,
+    asset: "ETH",
+    trainingPriceUsd: 4,
+    ethPriceUsd: 2000,
+    requiredAmount: parseEther("0.002"),
+    expiresAt: Date.now() + QUOTE_TTL_MS,
+    ...overrides,
+  };
+}
+
+/** Encode an ERC-20 Transfer log as it appears in a receipt */
+function transferLog(token: string, from: string, to: string, value: bigint) {
+  return {
+    address: token,
+    topics: encodeEventTopics({
+      abi: erc20Abi,
+      eventName: "Transfer",
+      args: { from: from as Hex, to: to as Hex },
+    }),
+    data: encodeAbiParameters([{ type: "uint256" }], [value]),
+    blockNumber: 1n,
+    logIndex: 0,
+    transactionIndex: 0,
+    transactionHash: `0x${"0".repeat(64)}`,
+    blockHash: `0x${"0".repeat(64)}`,
+    removed: false,
+  };
+}
+
+function mockTransfer(
+  value: bigint,
+  opts?: {
+    from?: string;
+    status?: string;
+    minedAt?: number;
+    logs?: ReturnType<typeof transferLog>[];
+  },
+) {
+  chain.getTransaction.mockResolvedValue({
+    from: opts?.from ?? PAYER,
+    to: RECIPIENT,
+    value,
+  });
+  chain.getTransactionReceipt.mockResolvedValue({
+    status: opts?.status ?? "success",
+    blockNumber: 1n,
+    logs: opts?.logs ?? [],
+  });
+  chain.getBlock.mockResolvedValue({
+    timestamp: BigInt(Math.floor((opts?.minedAt ?? Date.now()) / 1000)),
+  });
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("payment quotes", () => {
+  it("round-trips a quote for the wallet it was issued to", () => {
+    const { quoteId, expiresAt } = createPaymentQuote({
+      walletAddress: PAYER,
+      asset: "USDC",
+      trainingPriceUsd: 4,
+      ethPriceUsd: 2000,
+      requiredAmount: 4_000_000n,
+    });
+
+    expect(verifyPaymentQuote(quoteId, PAYER)).toEqual({
+      walletAddress: PAYER,
+      asset: "USDC",
+      trainingPriceUsd: 4,
+      ethPriceUsd: 2000,
+      requiredAmount: 4_000_000n,
+      expiresAt,
+    });
+  });
+
+  it("rejects a quote presented by a different wallet", () => {
+    const { quoteId } = createPaymentQuote(makeQuote());
+
+    expect(() => verifyPaymentQuote(quoteId, OTHER)).toThrow(
+      "different wallet",
+    );
+  });
+
+  it("rejects a quote whose payload was tampered with", () => {
+    const { quoteId } = createPaymentQuote(makeQuote());
+    const [payload, signature] = quoteId.split(".");
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString());
+    data.r = "1";
+    const forged = `${Buffer.from(JSON.stringify(data)).toString("base64url")}.${signature}`;
+
+    expect(() => verifyPaymentQuote(forged, PAYER)).toThrow("signature");
+  });
+
+  it("refuses to sign with the auth secret when no quote secret is set", () => {
+    env.QUOTE_SIGNING_SECRET = undefined;
+    env.BETTER_AUTH_SECRET = "auth-secret";
+    try {
+      expect(() => createPaymentQuote(makeQuote())).toThrow(
+        "QUOTE_SIGNING_SECRET is not configured",
+      );
+    } finally {
+      env.QUOTE_SIGNING_SECRET = "test-secret";
+      env.BETTER_AUTH_SECRET = undefined;
+    }
+  });
+});
+
+describe("payments ledger", () => {
+  beforeEach(() => {
+    chain.getTransaction.mockReset();
+    chain.getTransactionReceipt.mockReset();
+    chain.getBlock.mockReset();
+  });
+
+  it("records a verified payment with the quoted price", async () => {
+    const txHash = nextTxHash();
+    mockTransfer(parseEther("0.002"));
+
+    const result = await verifyPaymentTx(txHash, makeQuote());
+
+    expect(result).toEqual({ value: parseEther("0.002"), from: PAYER });
+    const [row] = await listPayments(1);
+    expect(row).toMatchObject({
+      tx_hash: txHash,
+      payer_address: PAYER,
+      value_wei: parseEther("0.002").toString(),
+      eth_price_usd: 2000,
+      claimed_at: null,
+    });
+  });
+
+  it("rejects a payment sent by a wallet other than the quoted one", async () => {
+    mockTransfer(parseEther("0.002"), { from: OTHER });
+
+    await expect(verifyPaymentTx(nextTxHash(), makeQuote())).rejects.toThrow(
+      "sender mismatch",
+    );
+  });
+
+  it("requires the full quoted amount", async () => {
+    mockTransfer(parseEther("0.002") - 1n);
+
+    await expect(verifyPaymentTx(nextTxHash(), makeQuote())).rejects.toThrow(
+      "Insufficient payment",
+    );
+  });
+
+  it("rejects a payment mined after the quote expired", async () => {
+    const quote = makeQuote({ expiresAt: Date.now() - 60_000 });
+    mockTransfer(parseEther("0.002"));
+
+    await expect(verifyPaymentTx(nextTxHash(), quote)).rejects.toThrow(
+      "expired",
+    );
+  });
+
+  it("accepts a payment mined before expiry even if verified later", async () => {
+    const expiresAt = Date.now() - 60_000;
+    mockTransfer(parseEther("0.002"), { minedAt: expiresAt - 10_000 });
+
+    await expect(
+      verifyPaymentTx(nextTxHash(), makeQuote({ expiresAt })),
+    ).resolves.toMatchObject({ from: PAYER });
+  });
+
+  it("rejects a claimed hash on replay", async () => {
+    const txHash = nextTxHash();
+    mockTransfer(parseEther("0.002"));
+    await verifyPaymentTx(txHash, makeQuote());
+    await claimPayment(txHash);
+
+    await expect(verifyPaymentTx(txHash, makeQuote())).rejects.toThrow(
+      "already been used",
+    );
+    await expect(claimPayment(txHash)).rejects.toThrow("already been used");
+  });
+
+  it("treats hashes case-insensitively", async () => {
+    const txHash = `0x${"ab".repeat(32)}` as Hex;
+    mockTransfer(parseEther("0.002"));
+    await verifyPaymentTx(`0x${"AB".repeat(32)}` as Hex, makeQuote());
+
+    await claimPayment(txHash);
+    await expect(claimPayment(txHash)).rejects.toThrow("already been used");
+  });
+
+  it("links a claimed payment to its training", async () => {
+    const txHash = nextTxHash();
+    mockTransfer(parseEther("0.002"));
+    await verifyPaymentTx(txHash, makeQuote());
+    await claimPayment(txHash);
+
+    await linkPaymentToTraining(txHash, "lora-1");
+
+    const rows = await listPayments(100);
+    expect(rows.find((r) => r.tx_hash === txHash)?.lora_training_id).toBe(
+      "lora-1",
+    );
+  });
+
+  it("refuses to link a payment that was never claimed", async () => {
+    const txHash = nextTxHash();
+    mockTransfer(parseEther("0.002"));
+    await verifyPaymentTx(txHash, makeQuote());
+
+    await expect(linkPaymentToTraining(txHash, "lora-1")).rejects.toThrow(
+      "No claimed payment",
+    );
+  });
+
+  it("does not record failed transactions", async () => {
+    const reverted = nextTxHash();
+    mockTransfer(parseEther("0.002"), { status: "reverted" });
+    await expect(verifyPaymentTx(reverted, makeQuote())).rejects.toThrow(
+      "failed on-chain",
+    );
+
+    const hashes = (await listPayments(100)).map((r) => r.tx_hash);
+    expect(hashes).not.toContain(reverted);
+  });
+
+  describe("USDC", () => {
+    const usdcQuote = () =>
+      makeQuote({ asset: "USDC", requiredAmount: 4_000_000n });
+
+    it("verifies a USDC Transfer log to the recipient", async () => {
+      const txHash = nextTxHash();
+      mockTransfer(0n, {
+        logs: [transferLog(USDC_BASE, PAYER, RECIPIENT, 4_000_000n)],
+      });
+
+      await expect(verifyPaymentTx(txHash, usdcQuote())).resolves.toEqual({
+        value: 4_000_000n,
+        from: PAYER,
+      });
+      const rows = await listPayments(100);
+      expect(rows.find((r) => r.tx_hash === txHash)).toMatchObject({
+        asset: "USDC",
+        value_wei: "4000000",
+      });
+    });
+
+    it("ignores transfers of other tokens or from other wallets", async () => {
+      const fakeToken = "0x00000000000000000000000000000000000000bb";
+      mockTransfer(0n, {
+        logs: [
+          transferLog(fakeToken, PAYER, RECIPIENT, 4_000_000n),
+          transferLog(USDC_BASE, OTHER, RECIPIENT, 4_000_000n),
+        ],
+      });
+
+      await expect(
+        verifyPaymentTx(nextTxHash(), usdcQuote()),
+      ).rejects.toThrow("No USDC transfer");
+    });
+
+    it("requires the full quoted USD amount", async () => {
+      mockTransfer(0n, {
+        logs: [transferLog(USDC_BASE, PAYER, RECIPIENT, 3_999_999n)],
+      });
+
+      await expect(
+        verifyPaymentTx(nextTxHash(), usdcQuote()),
+      ).rejects.toThrow("Insufficient payment");
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  afterEach,
+  beforeAll,
+  beforeEach,
+} from "vitest";
+
+vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+});
+
+import { TRPCError } from "@trpc/server";
+import { migrateToLatest } from "../../db";
+import { env } from "../../env";
+import {
+  checkRateLimit,
+  createLibsqlRateLimitStore,
+  createMemoryRateLimitStore,
+  RateLimitError,
+  resolveClientIp,
+  setRateLimitStore,
+  type RateLimitStore,
+} from "../../rate-limit";
+import { publicProcedure, rateLimit, router } from "../../trpc";
+
+// --- Test Helpers ---
+
+const ALICE = "0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa";
+const MINUTE = 60 * 1000;
+const RULE = { limit: 3, windowMs: MINUTE };
+const T0 = 1_700_000_000_000;
+
+async function spend(store: RateLimitStore, key: string, times: number, now = T0) {
+  const results = [];
+  for (let i = 0; i < times; i++) {
+    results.push(await store.consume(key, RULE, now));
+  }
+  return results;
+}
+
+const testRouter = router({
+  price: publicProcedure
+    .use(rateLimit("payment.getEthPrice"))
+    .query(() => "ok"),
+});
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+beforeEach(() => {
+  setRateLimitStore(createMemoryRateLimitStore());
+});
+
+describe.each([
+  ["memory", createMemoryRateLimitStore],
+  ["libsql", createLibsqlRateLimitStore],
+])("%s rate limit store", (kind, createStore) => {
+  it("allows up to the limit, then reports when a token is back", async () => {
+    const store = createStore();
+    const key = `${kind}:burst`;
+
+    const results = await spend(store, key, 4);
+    expect(results.slice(0, 3)).toEqual([
+      { allowed: true },
+      { allowed: true },
+      { allowed: true },
+    ]);
+    // One token refills every windowMs / limit
+    expect(results[3]).toEqual({ allowed: false, retryAfterMs: MINUTE / 3 });
+  });
+
+  it("refills continuously over the window", async () => {
+    const store = createStore();
+    const key = `${kind}:refill`;
+    await spend(store, key, 3);
+
+    expect(await store.consume(key, RULE, T0 + MINUTE / 3)).toEqual({
+      allowed: true,
+    });
+    expect(await store.consume(key, RULE, T0 + MINUTE / 3)).toMatchObject({
+      allowed: false,
+    });
+    // Never refills past the limit
+    expect(await spend(store, key, 4, T0 + 10 * MINUTE)).toEqual([
+      { allowed: true },
+      { allowed: true },
+      { allowed: true },
+      expect.objectContaining({ allowed: false }),
+    ]);
+  });
+
+  it("peeks without taking a token", async () => {
+    const store = createStore();
+    const key = `${kind}:peek`;
+
+    expect(await store.peek(key, RULE, T0)).toEqual({ allowed: true });
+    await spend(store, key, 2);
+    expect(await store.peek(key, RULE, T0)).toEqual({ allowed: true });
+    expect(await store.peek(key, RULE, T0)).toEqual({ allowed: true });
+    await spend(store, key, 1);
+    expect(await store.peek(key, RULE, T0)).toEqual({
+      allowed: false,
+      retryAfterMs: MINUTE / 3,
+    });
+  });
+
+  it("keeps buckets apart by key", async () => {
+    const store = createStore();
+    await spend(store, `${kind}:a`, 3);
+
+    expect(await store.consume(`${kind}:b`, RULE, T0)).toEqual({
+      allowed: true,
+    });
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("limits the wallet across IPs, case-insensitively", async () => {
+    for (let i = 0; i < 5; i++) {
+      await checkRateLimit(
+        "generate.images",
+        { walletAddress: ALICE, ip: `10.0.0.${i}` },
+        T0,
+      );
+    }
+
+    const error = await checkRateLimit(
+      "generate.images",
+      { walletAddress: ALICE.toLowerCase(), ip: "10.0.0.99" },
+      T0,
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterSeconds).toBe(12);
+    expect(error.message).toBe("Too many requests. Try again in 12 seconds.");
+  });
+
+  it("limits anonymous requests by IP", async () => {
+    for (let i = 0; i < 60; i++) {
+      await checkRateLimit("auth", { ip: "10.0.0.1" }, T0);
+    }
+    await expect(
+      checkRateLimit("auth", { ip: "10.0.0.1" }, T0),
+    ).rejects.toBeInstanceOf(RateLimitError);
+    await expect(
+      checkRateLimit("auth", { ip: "10.0.0.2" }, T0),
+    ).resolves.toBeUndefined();
+  });
+
+  it("takes nothing from the wallet when the IP is limited", async () => {
+    const BOB = "0x000000000000000000000000000000000000b0b0";
+    for (let i = 0; i < 20; i++) {
+      await checkRateLimit("fal.analyzeDataset", { ip: "10.1.0.1" }, T0);
+    }
+    for (let i = 0; i < 15; i++) {
+      await expect(
+        checkRateLimit(
+          "fal.analyzeDataset",
+          { walletAddress: BOB, ip: "10.1.0.1" },
+          T0,
+        ),
+      ).rejects.toBeInstanceOf(RateLimitError);
+    }
+
+    // Bob's full wallet allowance is still there from another network
+    for (let i = 0; i < 10; i++) {
+      await checkRateLimit(
+        "fal.analyzeDataset",
+        { walletAddress: BOB, ip: "10.1.0.2" },
+        T0,
+      );
+    }
+  });
+
+  it("does not limit requests with no wallet or IP", async () => {
+    for (let i = 0; i < 100; i++) {
+      await checkRateLimit("auth", {}, T0);
+    }
+  });
+});
+
+describe("resolveClientIp", () => {
+  afterEach(() => {
+    env.TRUSTED_PROXY_COUNT = undefined;
+    env.VERCEL = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it("ignores x-forwarded-for unless proxies are trusted", () => {
+    expect(
+      resolveClientIp({ forwardedFor: "6.6.6.6", remoteAddress: "10.0.0.1" }),
+    ).toBe("10.0.0.1");
+  });
+
+  it("counts trusted proxies from the right, past spoofed entries", () => {
+    env.TRUSTED_PROXY_COUNT = "2";
+    // client → proxy 1 (adds 1.2.3.4) → proxy 2 (adds 10.0.0.5) → app
+    const forwardedFor = "6.6.6.6, 7.7.7.7, 1.2.3.4, 10.0.0.5";
+
+    expect(resolveClientIp({ forwardedFor, remoteAddress: "10.0.0.9" })).toBe(
+      "1.2.3.4",
+    );
+    expect(
+      resolveClientIp({ forwardedFor: ["6.6.6.6", "1.2.3.4, 10.0.0.5"] }),
+    ).toBe("1.2.3.4");
+  });
+
+  it("warns once when running on Vercel without trusted proxies", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    env.VERCEL = "1";
+
+    resolveClientIp({ forwardedFor: "1.2.3.4", remoteAddress: "10.0.0.1" });
+    resolveClientIp({ forwardedFor: "5.6.7.8", remoteAddress: "10.0.0.1" });
+
+    expect(warn).toHaveBeenCalledOnce();
+    expect(warn.mock.calls[0][0]).toContain("TRUSTED_PROXY_COUNT=1");
+  });
+
+  it("falls back to the socket peer without a header", () => {
+    env.TRUSTED_PROXY_COUNT = "1";
+    expect(resolveClientIp({ remoteAddress: "10.0.0.1" })).toBe("10.0.0.1");
+    expect(resolveClientIp({})).toBeNull();
+  });
+});
+
+describe("rateLimit middleware", () => {
+  it("fails with TOO_MANY_REQUESTS and the retry delay", async () => {
+    const caller = testRouter.createCaller({
+      session: { user: { id: ALICE, walletAddress: ALICE } },
+      ip: "10.0.0.1",
+    });
+    for (let i = 0; i < 20; i++) {
+      await expect(caller.price()).resolves.toBe("ok");
+    }
+
+    const error = await caller.price().catch((e) => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe("TOO_MANY_REQUESTS");
+    expect(error.cause).toBeInstanceOf(RateLimitError);
+    expect(error.cause.retryAfterSeconds).toBeGreaterThan(0);
+  });
+
+  it("formats the retry delay into the error data", async () => {
+    const caller = testRouter.createCaller({ session: null, ip: "10.0.0.2" });
+    for (let i = 0; i < 20; i++) await caller.price();
+    const error = await caller.price().catch((e) => e);
+
+    const shape = testRouter._def._config.errorFormatter({
+      shape: {
+        message: error.message,
+        code: -32029,
+        data: { code: error.code, httpStatus: 429 },
+      },
+      error,
+      type: "query",
+      path: "price",
+      input: undefined,
+      ctx: undefined,
+    });
+    expect(shape.data.retryAfterSeconds).toBe(error.cause.retryAfterSeconds);
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const falQueue = vi.hoisted(() => {
+  // Shared cache: a plain :memory: database is lost with the connection a
+  // transaction takes over
+  process.env.TURSO_DATABASE_URL = "file::memory:?cache=shared";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return { status: vi.fn(), result: vi.fn() };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal: { config: vi.fn(), queue: falQueue } };
+});
+
+import { ApiError } from "@fal-ai/client";
+import { getDb, migrateToLatest } from "../../db";
+import { createPendingLora, createSubmittingLora } from "../lora";
+import { reconcilePendingTrainings, fetchTrainingOutcome } from "../reconcile";
+import { listRefunds } from "../refunds";
+
+// --- Test Helpers ---
+
+let counter = 0;
+
+async function insertPending(): Promise<{ id: string; requestId: string }> {
+  const requestId = `req-${++counter}`;
+  const { id } = await createPendingLora({
+    requestId,
+    walletAddress: "0x0000000000000000000000000000000000000001",
+    triggerWord: "test",
+    steps: 1000,
+    images: [{ url: "https://d2w9rnfcy7mm78.cloudfront.net/1/original_test.jpg" }],
+  });
+  return { id, requestId };
+}
+
+async function getRow(id: string) {
+  return getDb()
+    .selectFrom("lora_trainings")
+    .select(["status", "lora_weights_url", "error_message"])
+    .where("id", "=", id)
+    .executeTakeFirstOrThrow();
+}
+
+function apiError(status: number, detail: string) {
+  return new ApiError({ message: detail, status, body: { detail } });
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("fetchTrainingOutcome", () => {
+  beforeEach(() => {
+    falQueue.status.mockReset();
+    falQueue.result.mockReset();
+  });
+
+  it("reports pending while the request is queued or running", async () => {
+    falQueue.status.mockResolvedValueOnce({ status: "IN_QUEUE" });
+    await expect(fetchTrainingOutcome("r")).resolves.toEqual({
+      status: "pending",
+    });
+
+    falQueue.status.mockResolvedValueOnce({ status: "IN_PROGRESS" });
+    await expect(fetchTrainingOutcome("r")).resolves.toEqual({
+      status: "pending",
+    });
+    expect(falQueue.result).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the config file URL when no diffusers file exists", async () => {
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+    falQueue.result.mockResolvedValue({
+      data: { config_file: { url: "https://fal.media/config.json" } },
+    });
+
+    await expect(fetchTrainingOutcome("r")).resolves.toEqual({
+      status: "completed",
+      loraWeightsUrl: "https://fal.media/config.json",
+    });
+  });
+
+  it("reports a request FAL does not know as unknown, not failed", async () => {
+    falQueue.status.mockRejectedValue(apiError(404, "Not found"));
+
+    await expect(fetchTrainingOutcome("r")).resolves.toEqual({
+      status: "unknown",
+      error: "Request not found on FAL",
+    });
+  });
+
+  it("fails a request whose error mentions a cancellation", async () => {
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+    falQueue.result.mockRejectedValue(apiError(400, "Request was cancelled"));
+
+    await expect(fetchTrainingOutcome("r")).resolves.toEqual({
+      status: "failed",
+      error: "Request was cancelled",
+    });
+  });
+
+  it("rethrows transient FAL errors", async () => {
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+    falQueue.result.mockRejectedValue(apiError(503, "Service unavailable"));
+
+    await expect(fetchTrainingOutcome("r")).rejects.toThrow(
+      "Service unavailable",
+    );
+  });
+});
+
+describe("reconcilePendingTrainings", () => {
+  beforeEach(async () => {
+    falQueue.status.mockReset();
+    falQueue.result.mockReset();
+    // Start each test with no pending rows left over
+    await insertPending();
+    await getDb()
+      .updateTable("lora_trainings")
+      .set({ status: "completed" })
+      .where("status", "=", "pending")
+      .execute();
+  });
+
+  it("writes completed and failed outcomes", async () => {
+    const done = await insertPending();
+    const broken = await insertPending();
+    const missing = await insertPending();
+    const running = await insertPending();
+
+    falQueue.status.mockImplementation(async (_endpoint, { requestId }) => {
+      if (requestId === missing.requestId) throw apiError(404, "Not found");
+      return {
+        status: requestId === running.requestId ? "IN_PROGRESS" : "COMPLETED",
+      };
+    });
+    falQueue.result.mockImplementation(async (_endpoint, { requestId }) => {
+      if (requestId === done.requestId) {
+        return {
+          data: { diffusers_lora_file: { url: "https://fal.media/lora.bin" } },
+        };
+      }
+      throw apiError(422, "Training crashed");
+    });
+
+    const summary = await reconcilePendingTrainings();
+
+    expect(summary).toMatchObject({
+      checked: 4,
+      completed: 1,
+      failed: 1,
+      pending: 1,
+      unknown: 1,
+      errors: 0,
+    });
+    expect(await getRow(done.id)).toEqual({
+      status: "completed",
+      lora_weights_url: "https://fal.media/lora.bin",
+      error_message: null,
+    });
+    expect(await getRow(broken.id)).toMatchObject({
+      status: "failed",
+      error_message: "Training crashed",
+    });
+    expect(await getRow(missing.id)).toMatchObject({ status: "pending" });
+    expect(await getRow(running.id)).toMatchObject({ status: "pending" });
+  });
+
+  it("queues no refund for a request FAL does not know", async () => {
+    const row = await insertPending();
+    falQueue.status.mockRejectedValue(apiError(404, "Not found"));
+
+    const summary = await reconcilePendingTrainings();
+
+    expect(summary).toMatchObject({ unknown: 1, refundsQueued: 0 });
+    expect(summary.results).toContainEqual({
+      id: row.id,
+      requestId: row.requestId,
+      status: "unknown",
+      error: "Request not found on FAL",
+    });
+    expect(await getRow(row.id)).toMatchObject({ status: "pending" });
+  });
+
+  it("leaves rows pending when FAL cannot be reached", async () => {
+    const row = await insertPending();
+    falQueue.status.mockRejectedValue(new Error("fetch failed"));
+
+    const summary = await reconcilePendingTrainings();
+
+    expect(summary.errors).toBe(1);
+    expect(await getRow(row.id)).toMatchObject({ status: "pending" });
+  });
+
+  it("queues a refund when a paid training failed on FAL", async () => {
+    const row = await insertPending();
+    await getDb()
+      .insertInto("payments")
+      .values({
+        id: `pay-${row.id}`,
+        tx_hash: `0x${row.id.padStart(64, "0")}`,
+        payer_address: "0x0000000000000000000000000000000000000001",
+        asset: "ETH",
+        value_wei: "1000",
+        eth_price_usd: 2000,
+        lora_training_id: row.id,
+        refund_tx_hash: null,
+        claimed_at: new Date().toISOString(),
+        refunded_at: null,
+        created_at: new Date().toISOString(),
+      })
+      .execute();
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+    falQueue.result.mockRejectedValue(apiError(422, "Training crashed"));
+
+    const summary = await reconcilePendingTrainings();
+
+    expect(summary.refundsQueued).toBe(1);
+    const [refund] = await listRefunds({ limit: 1 });
+    expect(refund).toMatchObject({
+      payment_id: `pay-${row.id}`,
+      status: "queued",
+      reason: "Training failed on FAL: Training crashed",
+    });
+  });
+
+  it("fails and refunds a training stuck submitting", async () => {
+    const { id } = await createSubmittingLora({
+      walletAddress: "0x0000000000000000000000000000000000000001",
+      triggerWord: "test",
+      steps: 1000,
+      images: [],
+    });
+    await getDb()
+      .updateTable("lora_trainings")
+      .set({ created_at: new Date(Date.now() - 60 * 60 * 1000).toISOString() })
+      .where("id", "=", id)
+      .execute();
+    await getDb()
+      .insertInto("payments")
+      .values({
+        id: `pay-${id}`,
+        tx_hash: `0x${id.padStart(64, "0")}`,
+        payer_address: "0x0000000000000000000000000000000000000001",
+        asset: "ETH",
+        value_wei: "1000",
+        eth_price_usd: 2000,
+        lora_training_id: id,
+        refund_tx_hash: null,
+        claimed_at: new Date().toISOString(),
+        refunded_at: null,
+        created_at: new Date().toISOString(),
+      })
+      .execute();
+    const recent = await createSubmittingLora({
+      walletAddress: "0x0000000000000000000000000000000000000001",
+      triggerWord: "test",
+      steps: 1000,
+      images: [],
+    });
+
+    const summary = await reconcilePendingTrainings();
+
+    expect(summary).toMatchObject({ failed: 1, refundsQueued: 1 });
+    expect(falQueue.status).not.toHaveBeenCalled();
+    expect(await getRow(id)).toMatchObject({
+      status: "failed",
+      error_message: "Submission to FAL did not complete",
+    });
+    expect(await getRow(recent.id)).toMatchObject({ status: "submitting" });
+  });
+
+  it("does not write anything in dry-run mode", async () => {
+    const row = await insertPending();
+    falQueue.status.mockResolvedValue({ status: "COMPLETED" });
+    falQueue.result.mockRejectedValue(apiError(422, "Training crashed"));
+
+    const summary = await reconcilePendingTrainings({ dryRun: true });
+
+    expect(summary.failed).toBe(1);
+    expect(await getRow(row.id)).toMatchObject({ status: "pending" });
+  });
+});
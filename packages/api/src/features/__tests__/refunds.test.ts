@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const chain = vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+  // Well-known local dev key (anvil / hardhat account #0)
+  process.env.PAYMENT_WALLET_PRIVATE_KEY =
+    "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcab7fd5a5e8e2ff80";
+  return {
+    getTransactionCount: vi.fn(),
+    estimateFeesPerGas: vi.fn(),
+    estimateGas: vi.fn(),
+    sendRawTransaction: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+  };
+});
+
+vi.mock("viem", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("viem")>();
+  return { ...actual, createPublicClient: () => chain };
+});
+
+import {
+  parseTransaction,
+  parseEther,
+  TransactionReceiptNotFoundError,
+} from "viem";
+import crypto from "node:crypto";
+import { getDb, migrateToLatest } from "../../db";
+import {
+  enqueueRefund,
+  enqueueRefundForTraining,
+  processRefund,
+  redriveRefund,
+  getRefund,
+} from "../refunds";
+
+// --- Test Helpers ---
+
+const PAYER = "0x0000000000000000000000000000000000000001";
+
+async function insertPayment(opts?: { asset?: "ETH" | "USDC"; loraId?: string }) {
+  const txHash = `0x${crypto.randomBytes(32).toString("hex")}`;
+  await getDb()
+    .insertInto("payments")
+    .values({
+      id: crypto.randomBytes(16).toString("hex"),
+      tx_hash: txHash,
+      payer_address: PAYER,
+      asset: opts?.asset ?? "ETH",
+      value_wei: opts?.asset === "USDC" ? "4000000" : parseEther("0.002").toString(),
+      eth_price_usd: 2000,
+      lora_training_id: opts?.loraId ?? null,
+      refund_tx_hash: null,
+      claimed_at: new Date().toISOString(),
+      refunded_at: null,
+      created_at: new Date().toISOString(),
+    })
+    .execute();
+  return txHash;
+}
+
+function broadcastTxs() {
+  return chain.sendRawTransaction.mock.calls.map(([{ serializedTransaction }]) =>
+    parseTransaction(serializedTransaction),
+  );
+}
+
+function notMined() {
+  return new TransactionReceiptNotFoundError({ hash: "0x" });
+}
+
+async function makeStuck(id: string) {
+  await getDb()
+    .updateTable("refunds")
+    .set({ sent_at: new Date(Date.now() - 60 * 60 * 1000).toISOString() })
+    .where("id", "=", id)
+    .execute();
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("refund queue", () => {
+  beforeEach(() => {
+    for (const fn of Object.values(chain)) fn.mockReset();
+    chain.getTransactionCount.mockResolvedValue(7);
+    chain.estimateFeesPerGas.mockResolvedValue({
+      maxFeePerGas: 1000n,
+      maxPriorityFeePerGas: 100n,
+    });
+    chain.estimateGas.mockResolvedValue(60_000n);
+    chain.sendRawTransaction.mockResolvedValue("0x");
+    chain.getTransactionReceipt.mockRejectedValue(notMined());
+  });
+
+  it("queues one refund per payment", async () => {
+    const txHash = await insertPayment();
+
+    const first = await enqueueRefund(txHash, "test");
+    const second = await enqueueRefund(txHash, "test again");
+
+    expect(second.id).toBe(first.id);
+    expect(first).toMatchObject({
+      status: "queued",
+      recipient_address: PAYER,
+      amount: parseEther("0.002").toString(),
+    });
+  });
+
+  it("signs an ETH refund at the next nonce and records the hash", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+
+    const sent = await processRefund(refund.id);
+
+    expect(sent).toMatchObject({ status: "sent", nonce: 7, attempts: 1 });
+    const [tx] = broadcastTxs();
+    expect(tx).toMatchObject({
+      to: PAYER,
+      value: parseEther("0.002"),
+      nonce: 7,
+      maxFeePerGas: 1000n,
+    });
+    expect(JSON.parse(sent.tx_hashes)).toEqual([sent.tx_hash]);
+  });
+
+  it("refunds USDC with an ERC-20 transfer", async () => {
+    const refund = await enqueueRefund(
+      await insertPayment({ asset: "USDC" }),
+      "test",
+    );
+
+    await processRefund(refund.id);
+
+    const [tx] = broadcastTxs();
+    expect(tx.to?.toLowerCase()).toBe(
+      "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913",
+    );
+    expect(tx.value ?? 0n).toBe(0n);
+    expect(tx.data?.startsWith("0xa9059cbb")).toBe(true); // transfer(address,uint256)
+  });
+
+  it("does not reuse a nonce reserved by an in-flight refund", async () => {
+    const a = await enqueueRefund(await insertPayment(), "a");
+    const b = await enqueueRefund(await insertPayment(), "b");
+    // The first broadcast has not reached the node's pending count yet
+    chain.getTransactionCount.mockResolvedValue(100);
+    await processRefund(a.id);
+    await processRefund(b.id);
+
+    expect(broadcastTxs().map((tx) => tx.nonce)).toEqual([100, 101]);
+  });
+
+  it("bumps fees at the same nonce when stuck, and confirms a replacement", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.getTransactionCount.mockResolvedValue(200);
+    const sent = await processRefund(refund.id);
+    chain.getTransactionCount.mockResolvedValue(200); // still not mined
+    await makeStuck(refund.id);
+
+    const bumped = await processRefund(refund.id);
+
+    const [, replacement] = broadcastTxs();
+    expect(replacement.nonce).toBe(200);
+    expect(replacement.maxFeePerGas).toBe(1250n);
+    expect(replacement.maxPriorityFeePerGas).toBe(125n);
+    expect(JSON.parse(bumped.tx_hashes)).toHaveLength(2);
+
+    // The original mines after all
+    chain.getTransactionReceipt.mockImplementation(async ({ hash }) => {
+      if (hash === sent.tx_hash) return { status: "success" };
+      throw notMined();
+    });
+    const confirmed = await processRefund(refund.id);
+
+    expect(confirmed).toMatchObject({
+      status: "confirmed",
+      tx_hash: sent.tx_hash,
+    });
+    const payment = await getDb()
+      .selectFrom("payments")
+      .select("refund_tx_hash")
+      .where("id", "=", refund.payment_id)
+      .executeTakeFirstOrThrow();
+    expect(payment.refund_tx_hash).toBe(sent.tx_hash);
+  });
+
+  it("keeps a refund queued while broadcasting fails, then gives up", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.estimateFeesPerGas.mockRejectedValue(new Error("rpc down"));
+
+    let result = await processRefund(refund.id);
+    expect(result).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      last_error: "rpc down",
+    });
+
+    for (let i = 0; i < 4; i++) result = await processRefund(refund.id);
+    expect(result.status).toBe("failed");
+  });
+
+  it("marks a reverted refund failed and re-drives it with a fresh nonce", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.getTransactionCount.mockResolvedValue(300);
+    await processRefund(refund.id);
+    chain.getTransactionReceipt.mockResolvedValue({ status: "reverted" });
+
+    const failed = await processRefund(refund.id);
+    expect(failed.status).toBe("failed");
+
+    chain.getTransactionReceipt.mockRejectedValue(notMined());
+    chain.getTransactionCount.mockResolvedValue(301);
+    const redriven = await redriveRefund(refund.id);
+
+    expect(redriven).toMatchObject({ status: "sent", nonce: 301, attempts: 1 });
+    expect(JSON.parse(redriven.tx_hashes)).toHaveLength(1);
+  });
+
+  it("keeps a refund sent when its receipts cannot be checked", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.getTransactionCount.mockResolvedValue(400);
+    await processRefund(refund.id);
+    // The refund mined, but the RPC is failing
+    chain.getTransactionCount.mockResolvedValue(401);
+    chain.getTransactionReceipt.mockRejectedValue(new Error("rate limited"));
+
+    await expect(processRefund(refund.id)).rejects.toThrow("rate limited");
+    expect((await getRefund(refund.id))?.status).toBe("sent");
+  });
+
+  it("confirms instead of re-sending a failed refund whose transaction mined", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.getTransactionCount.mockResolvedValue(500);
+    const sent = await processRefund(refund.id);
+    await getDb()
+      .updateTable("refunds")
+      .set({
+        status: "failed",
+        last_error: "Nonce 500 was used by another transaction",
+      })
+      .where("id", "=", refund.id)
+      .execute();
+    chain.getTransactionReceipt.mockResolvedValue({ status: "success" });
+
+    const redriven = await redriveRefund(refund.id);
+
+    expect(redriven).toMatchObject({
+      status: "confirmed",
+      tx_hash: sent.tx_hash,
+    });
+    expect(chain.sendRawTransaction).toHaveBeenCalledOnce();
+  });
+
+  it("does not re-drive a failed refund while its receipts cannot be checked", async () => {
+    const refund = await enqueueRefund(await insertPayment(), "test");
+    chain.getTransactionCount.mockResolvedValue(600);
+    await processRefund(refund.id);
+    await getDb()
+      .updateTable("refunds")
+      .set({ status: "failed" })
+      .where("id", "=", refund.id)
+      .execute();
+    chain.getTransactionReceipt.mockRejectedValue(new Error("timeout"));
+
+    await expect(redriveRefund(refund.id)).rejects.toThrow("timeout");
+    expect(await getRefund(refund.id)).toMatchObject({
+      status: "failed",
+      nonce: 600,
+    });
+    expect(chain.sendRawTransaction).toHaveBeenCalledOnce();
+  });
+
+  it("queues refunds by training id only for paid runs", async () => {
+    await insertPayment({ loraId: "lora-paid" });
+
+    const refund = await enqueueRefundForTraining("lora-paid", "failed");
+    expect(refund && (await getRefund(refund.id))?.status).toBe("queued");
+    expect(await enqueueRefundForTraining("lora-exempt", "failed")).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+
+const fal = vi.hoisted(() => {
+  // Shared cache: a plain :memory: database is lost with the connection a
+  // transaction takes over
+  process.env.TURSO_DATABASE_URL = "file::memory:?cache=shared";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return {
+    config: () => {},
+    queue: { submit: vi.fn() },
+    storage: { upload: vi.fn() },
+  };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal };
+});
+
+vi.mock("../payment", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../payment")>();
+  // The ledger row is written by the test; quote and chain checks pass
+  return {
+    ...actual,
+    verifyPaymentQuote: () => ({}),
+    verifyPaymentTx: async () => ({ value: 1000n, from: OWNER }),
+  };
+});
+
+vi.mock("../refunds", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("../refunds")>();
+  // Leave queued refunds queued — broadcasting is covered in refunds.test
+  return { ...actual, processRefund: (id: string) => actual.getRefund(id) };
+});
+
+import crypto from "node:crypto";
+import dns from "node:dns";
+import sharp from "sharp";
+import { sql } from "kysely";
+import { getDb, migrateToLatest } from "../../db";
+import { falRouter } from "../fal";
+import { listRefunds } from "../refunds";
+
+// --- Test Helpers ---
+
+const OWNER = "0x0000000000000000000000000000000000000001";
+const IMAGE_URL = "https://d2w9rnfcy7mm78.cloudfront.net/1/photo.png";
+
+let photo: Buffer;
+
+function callerFor(walletAddress: string) {
+  return falRouter.createCaller({
+    session: { user: { id: walletAddress, walletAddress } },
+  });
+}
+
+/** An unclaimed ledger entry, as verifyPaymentTx leaves it */
+async function insertPayment(): Promise<string> {
+  const txHash = `0x${crypto.randomBytes(32).toString("hex")}`;
+  await getDb()
+    .insertInto("payments")
+    .values({
+      id: crypto.randomBytes(16).toString("hex"),
+      tx_hash: txHash,
+      payer_address: OWNER,
+      asset: "ETH",
+      value_wei: "1000",
+      eth_price_usd: 2000,
+      lora_training_id: null,
+      refund_tx_hash: null,
+      claimed_at: null,
+      refunded_at: null,
+      created_at: new Date().toISOString(),
+    })
+    .execute();
+  return txHash;
+}
+
+async function train(paymentTxHash: string) {
+  return callerFor(OWNER).trainLora({
+    imageUrls: [IMAGE_URL],
+    triggerWord: "test",
+    paymentTxHash,
+    paymentQuoteId: "quote",
+  });
+}
+
+async function getTrainingFor(paymentTxHash: string) {
+  return getDb()
+    .selectFrom("payments")
+    .innerJoin("lora_trainings", "lora_trainings.id", "payments.lora_training_id")
+    .select([
+      "lora_trainings.id",
+      "lora_trainings.request_id",
+      "lora_trainings.status",
+      "lora_trainings.error_message",
+    ])
+    .where("payments.tx_hash", "=", paymentTxHash)
+    .executeTakeFirst();
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+  photo = await sharp({
+    create: { width: 600, height: 400, channels: 3, background: "#336699" },
+  })
+    .png()
+    .toBuffer();
+});
+
+describe("trainLora submission", () => {
+  beforeEach(() => {
+    fal.queue.submit.mockReset();
+    fal.storage.upload.mockReset();
+    fal.storage.upload.mockResolvedValue("https://v3.fal.media/files/zip.zip");
+    vi.spyOn(dns.promises, "lookup").mockResolvedValue({
+      address: "52.84.123.45",
+      family: 4,
+    });
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(new Blob([photo]), {
+            status: 200,
+            headers: { "content-type": "image/png" },
+          }),
+      ),
+    );
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("records the paid training before submitting it to FAL", async () => {
+    const txHash = await insertPayment();
+    let atSubmit: Awaited<ReturnType<typeof getTrainingFor>>;
+    fal.queue.submit.mockImplementation(async () => {
+      atSubmit = await getTrainingFor(txHash);
+      return { request_id: "fal-req-1" };
+    });
+
+    const result = await train(txHash);
+
+    expect(atSubmit!).toMatchObject({ status: "submitting" });
+    expect(await getTrainingFor(txHash)).toEqual({
+      id: result.loraId,
+      request_id: "fal-req-1",
+      status: "pending",
+      error_message: null,
+    });
+  });
+
+  it("writes no row and submits nothing when the payment cannot be linked", async () => {
+    const txHash = await insertPayment();
+    const db = getDb();
+    const { count: before } = await db
+      .selectFrom("lora_trainings")
+      .select((eb) => eb.fn.countAll<number>().as("count"))
+      .executeTakeFirstOrThrow();
+    await sql`CREATE TRIGGER no_link BEFORE UPDATE OF lora_training_id ON payments
+      BEGIN SELECT RAISE(ABORT, 'link failed'); END`.execute(db);
+
+    try {
+      await expect(train(txHash)).rejects.toThrow("link failed");
+    } finally {
+      await sql`DROP TRIGGER no_link`.execute(db);
+    }
+
+    const { count: after } = await db
+      .selectFrom("lora_trainings")
+      .select((eb) => eb.fn.countAll<number>().as("count"))
+      .executeTakeFirstOrThrow();
+    expect(after).toBe(before);
+    expect(fal.queue.submit).not.toHaveBeenCalled();
+    const refunds = await listRefunds({ limit: 10 });
+    expect(refunds).toContainEqual(
+      expect.objectContaining({
+        reason: expect.stringContaining("link failed"),
+      }),
+    );
+  });
+
+  it("fails the row and refunds the payment when FAL rejects the submit", async () => {
+    const txHash = await insertPayment();
+    fal.queue.submit.mockRejectedValue(new Error("Service unavailable"));
+
+    await expect(train(txHash)).rejects.toThrow("Service unavailable");
+
+    expect(await getTrainingFor(txHash)).toMatchObject({
+      status: "failed",
+      error_message: "Training submission failed: Service unavailable",
+    });
+    const refunds = await listRefunds({ limit: 10 });
+    expect(refunds.map((refund) => refund.reason)).toContain(
+      "Training submission failed: Service unavailable",
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from "vitest";
+
+const falQueue = vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return { status: vi.fn(), result: vi.fn(), submit: vi.fn() };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal: { config: vi.fn(), queue: falQueue } };
+});
+
+import { migrateToLatest } from "../../db";
+import { createPendingLora, loraRouter } from "../lora";
+import { falRouter } from "../fal";
+import {
+  DEFAULT_TRAINER_ID,
+  describeTrainers,
+  getTrainer,
+  resolveTrainerSettings,
+} from "../trainers";
+
+// --- Test Helpers ---
+
+const OWNER = "0x0000000000000000000000000000000000000001";
+
+function callerFor(walletAddress: string) {
+  return falRouter.createCaller({
+    session: { user: { id: walletAddress, walletAddress } },
+  });
+}
+
+const trainInput = {
+  imageUrls: ["https://d2w9rnfcy7mm78.cloudfront.net/1/original_test.jpg"],
+  triggerWord: "test",
+};
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("trainer registry", () => {
+  it("fills in each trainer's defaults", () => {
+    const portrait = getTrainer("flux-lora-portrait");
+
+    expect(resolveTrainerSettings(portrait, {})).toEqual({
+      steps: 2500,
+      params: {
+        learningRate: 0.00009,
+        multiresolution: true,
+        subjectCrop: true,
+        createMasks: false,
+      },
+    });
+    expect(
+      describeTrainers().find((t) => t.id === DEFAULT_TRAINER_ID)?.defaults,
+    ).toEqual({ isStyle: false, createMasks: true });
+  });
+
+  it("rejects out-of-range steps and parameters of another trainer", () => {
+    const fast = getTrainer("flux-lora-fast");
+
+    expect(() => resolveTrainerSettings(fast, { steps: 2500 })).toThrow();
+    expect(() =>
+      resolveTrainerSettings(fast, { params: { learningRate: 0.0001 } }),
+    ).toThrow();
+  });
+
+  it("maps settings onto the FAL input of its endpoint", () => {
+    const fast = getTrainer("flux-lora-fast");
+    const portrait = getTrainer("flux-lora-portrait");
+
+    expect(
+      fast.buildInput({
+        imagesDataUrl: "https://fal.media/set.zip",
+        triggerWord: "tw",
+        steps: 500,
+        params: { isStyle: true, createMasks: true },
+      }),
+    ).toEqual({
+      images_data_url: "https://fal.media/set.zip",
+      trigger_word: "tw",
+      steps: 500,
+      is_style: true,
+      create_masks: false,
+    });
+    expect(
+      portrait.buildInput({
+        imagesDataUrl: "https://fal.media/set.zip",
+        triggerWord: "tw",
+        steps: 2500,
+        params: resolveTrainerSettings(portrait, {}).params,
+      }),
+    ).toMatchObject({ trigger_phrase: "tw", learning_rate: 0.00009 });
+  });
+});
+
+describe("trainLora trainer settings", () => {
+  beforeEach(() => {
+    falQueue.submit.mockReset();
+  });
+
+  it("rejects an unknown trainer before asking for payment", async () => {
+    await expect(
+      callerFor(OWNER).trainLora({ ...trainInput, trainer: "sdxl" }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(falQueue.submit).not.toHaveBeenCalled();
+  });
+
+  it("rejects steps outside the chosen trainer's range", async () => {
+    await expect(
+      callerFor(OWNER).trainLora({
+        ...trainInput,
+        trainer: "flux-lora-portrait",
+        steps: 500,
+      }),
+    ).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+      message: expect.stringContaining("Portrait"),
+    });
+  });
+});
+
+describe("stored trainer", () => {
+  beforeEach(() => {
+    falQueue.status.mockReset();
+    falQueue.result.mockReset();
+  });
+
+  it("is returned by lora.getById and used for FAL queue calls", async () => {
+    const { id } = await createPendingLora({
+      requestId: "req-portrait",
+      walletAddress: OWNER,
+      triggerWord: "test",
+      steps: 2500,
+      trainer: "flux-lora-portrait",
+      trainerParams: { learningRate: 0.0002 },
+      images: [],
+    });
+
+    const lora = await loraRouter.createCaller({ session: null }).getById({ id });
+    expect(lora).toMatchObject({
+      trainer: "flux-lora-portrait",
+      trainerLabel: "Portrait",
+      trainerParams: { learningRate: 0.0002 },
+    });
+
+    falQueue.status.mockResolvedValue({ status: "IN_PROGRESS", logs: [] });
+    await callerFor(OWNER).getTrainingStatus({ requestId: "req-portrait" });
+    expect(falQueue.status).toHaveBeenCalledWith(
+      "fal-ai/flux-lora-portrait-trainer",
+      expect.objectContaining({ requestId: "req-portrait" }),
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from "vitest";
+
+const falQueue = vi.hoisted(() => {
+  process.env.TURSO_DATABASE_URL = ":memory:";
+  process.env.FAL_AI_API_KEY = "test-key";
+  return { status: vi.fn(), result: vi.fn() };
+});
+
+vi.mock("@fal-ai/client", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@fal-ai/client")>();
+  return { ...actual, fal: { config: vi.fn(), queue: falQueue } };
+});
+
+import { getDb, migrateToLatest } from "../../db";
+import { env } from "../../env";
+import { createPendingLora } from "../lora";
+import { replaceTrainingLogs, getTrainingLogs } from "../training-logs";
+import { DEFAULT_TRAINER_ID } from "../trainers";
+import {
+  watchTraining,
+  activeWatcherCount,
+  WATCH_INTERVAL_MS,
+  WEBHOOK_WATCH_INTERVAL_MS,
+  type TrainingEvent,
+} from "../training-watcher";
+
+// --- Test Helpers ---
+
+let counter = 0;
+
+async function insertPending() {
+  const requestId = `req-${++counter}`;
+  const { id } = await createPendingLora({
+    requestId,
+    walletAddress: "0x0000000000000000000000000000000000000001",
+    triggerWord: "test",
+    steps: 1000,
+    images: [{ url: "https://d2w9rnfcy7mm78.cloudfront.net/1/original_test.jpg" }],
+  });
+  return { requestId, loraTrainingId: id, trainer: DEFAULT_TRAINER_ID };
+}
+
+function log(message: string) {
+  return { message, level: "INFO", timestamp: "2025-01-01T00:00:00Z" };
+}
+
+/** Drain a subscription in the background, collecting its events */
+function collect(stream: AsyncGenerator<TrainingEvent>) {
+  const events: TrainingEvent[] = [];
+  const done = (async () => {
+    for await (const event of stream) events.push(event);
+  })();
+  return { events, done };
+}
+
+async function tick() {
+  await vi.advanceTimersByTimeAsync(WATCH_INTERVAL_MS);
+}
+
+// --- Tests ---
+
+beforeAll(async () => {
+  await migrateToLatest();
+});
+
+describe("training watcher", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    falQueue.status.mockReset();
+    falQueue.result.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one FAL poll between subscribers and streams new log lines", async () => {
+    const training = await insertPending();
+    const controller = new AbortController();
+    const a = collect(watchTraining(training, controller.signal));
+    const b = collect(watchTraining(training, controller.signal));
+
+    falQueue.status.mockResolvedValueOnce({
+      status: "IN_QUEUE",
+      queue_position: 2,
+    });
+    await tick();
+    falQueue.status.mockResolvedValueOnce({
+      status: "IN_PROGRESS",
+      logs: [log("one"), log("two")],
+    });
+    await tick();
+    falQueue.status.mockResolvedValueOnce({
+      status: "IN_PROGRESS",
+      logs: [log("one"), log("two"), log("three")],
+    });
+    await tick();
+
+    expect(falQueue.status).toHaveBeenCalledTimes(3);
+    expect(activeWatcherCount()).toBe(1);
+    for (const { events } of [a, b]) {
+      expect(events).toEqual([
+        { type: "logs", from: 0, lines: [] },
+        { type: "status", status: "IN_QUEUE", queuePosition: 2 },
+        { type: "status", status: "IN_PROGRESS", queuePosition: null },
+        { type: "logs", from: 0, lines: [log("one"), log("two")] },
+        { type: "logs", from: 2, lines: [log("three")] },
+      ]);
+    }
+    expect(
+      (await getTrainingLogs(training.loraTrainingId)).map((l) => l.message),
+    ).toEqual(["one", "two", "three"]);
+
+    controller.abort();
+    await Promise.all([a.done, b.done]);
+    expect(activeWatcherCount()).toBe(0);
+  });
+
+  it("settles the row when FAL completes and ends the stream", async () => {
+    const training = await insertPending();
+    const { events, done } = collect(watchTraining(training));
+
+    falQueue.status.mockResolvedValue({ status: "COMPLETED", logs: [] });
+    falQueue.result.mockResolvedValue({
+      data: { diffusers_lora_file: { url: "https://fal.media/lora.safetensors" } },
+    });
+    await tick();
+    await done;
+
+    expect(events.at(-1)).toEqual({
+      type: "settled",
+      status: "completed",
+      loraWeightsUrl: "https://fal.media/lora.safetensors",
+      errorMessage: null,
+    });
+    const row = await getDb()
+      .selectFrom("lora_trainings")
+      .select("status")
+      .where("id", "=", training.loraTrainingId)
+      .executeTakeFirstOrThrow();
+    expect(row.status).toBe("completed");
+    expect(activeWatcherCount()).toBe(0);
+  });
+
+  it("polls slowly for logs and leaves the outcome to the webhook when one is set", async () => {
+    env.FAL_WEBHOOK_URL = "https://example.com/api/fal/webhook";
+    try {
+      const training = await insertPending();
+      const { events, done } = collect(watchTraining(training));
+      falQueue.status.mockResolvedValue({
+        status: "COMPLETED",
+        logs: [log("done")],
+      });
+
+      await tick();
+      expect(falQueue.status).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(
+        WEBHOOK_WATCH_INTERVAL_MS - WATCH_INTERVAL_MS,
+      );
+      expect(falQueue.status).toHaveBeenCalledOnce();
+      expect(falQueue.result).not.toHaveBeenCalled();
+      expect(events.at(-1)).toEqual({
+        type: "logs",
+        from: 0,
+        lines: [log("done")],
+      });
+
+      // The webhook settles the row; the next poll picks it up
+      await getDb()
+        .updateTable("lora_trainings")
+        .set({
+          status: "completed",
+          lora_weights_url: "https://fal.media/hook.safetensors",
+        })
+        .where("id", "=", training.loraTrainingId)
+        .execute();
+      await vi.advanceTimersByTimeAsync(WEBHOOK_WATCH_INTERVAL_MS);
+      await done;
+
+      expect(events.at(-1)).toEqual({
+        type: "settled",
+        status: "completed",
+        loraWeightsUrl: "https://fal.media/hook.safetensors",
+        errorMessage: null,
+      });
+      expect(falQueue.result).not.toHaveBeenCalled();
+      expect(activeWatcherCount()).toBe(0);
+    } finally {
+      env.FAL_WEBHOOK_URL = undefined;
+    }
+  });
+
+  it("replays stored logs for an already settled training without polling", async () => {
+    const training = await insertPending();
+    await getDb()
+      .updateTable("lora_trainings")
+      .set({ status: "failed", error_message: "boom" })
+      .where("id", "=", training.loraTrainingId)
+      .execute();
+    await replaceTrainingLogs(training.loraTrainingId, [log("last words")]);
+
+    const events: TrainingEvent[] = [];
+    for await (const event of watchTraining(training)) events.push(event);
+
+    expect(events).toEqual([
+      {
+        type: "logs",
+        from: 0,
+        lines: [{ message: "last words", level: "INFO", timestamp: "2025-01-01T00:00:00Z" }],
+      },
+      { type: "settled", status: "failed", loraWeightsUrl: null, errorMessage: "boom" },
+    ]);
+    expect(falQueue.status).not.toHaveBeenCalled();
+  });
+});
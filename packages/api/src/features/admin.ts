@@ -0,0 +1,145 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { adminProcedure, router } from "../trpc";
+import { reconcilePendingTrainings } from "./reconcile";
+import { reconcileGenerationJobs } from "./generation-jobs";
+import { listPayments } from "./payment";
+import {
+  listRefunds,
+  getRefund,
+  processRefunds,
+  redriveRefund,
+  type RefundRecord,
+} from "./refunds";
+
+function serializeRefund(row: RefundRecord) {
+  return {
+    id: row.id,
+    paymentId: row.payment_id,
+    recipientAddress: row.recipient_address,
+    asset: row.asset,
+    amount: row.amount,
+    reason: row.reason,
+    status: row.status,
+    nonce: row.nonce,
+    txHash: row.tx_hash,
+    txHashes: JSON.parse(row.tx_hashes) as string[],
+    attempts: row.attempts,
+    lastError: row.last_error,
+    sentAt: row.sent_at,
+    confirmedAt: row.confirmed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const adminRouter = router({
+  /**
+   * Check every pending training against the FAL queue and record
+   * completed / failed outcomes server-side. Requests FAL has no record of
+   * are left pending and reported as unknown.
+   */
+  reconcileTrainings: adminProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(200).default(50),
+          dryRun: z.boolean().default(false),
+        })
+        .default({}),
+    )
+    .mutation(async ({ input }) => {
+      return reconcilePendingTrainings(input);
+    }),
+
+  /**
+   * Settle in-flight generation jobs FAL has finished, saving their images.
+   */
+  reconcileGenerations: adminProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(200).default(50),
+          dryRun: z.boolean().default(false),
+        })
+        .default({}),
+    )
+    .mutation(async ({ input }) => {
+      return reconcileGenerationJobs(input);
+    }),
+
+  /**
+   * Payments ledger, newest first — every wei received and refunded.
+   */
+  listPayments: adminProcedure
+    .input(
+      z
+        .object({ limit: z.number().int().min(1).max(500).default(100) })
+        .default({}),
+    )
+    .query(async ({ input }) => {
+      const rows = await listPayments(input.limit);
+      return rows.map((row) => ({
+        id: row.id,
+        txHash: row.tx_hash,
+        payerAddress: row.payer_address,
+        asset: row.asset,
+        value: row.value_wei,
+        ethPriceUsd: row.eth_price_usd,
+        loraTrainingId: row.lora_training_id,
+        refundTxHash: row.refund_tx_hash,
+        claimedAt: row.claimed_at,
+        refundedAt: row.refunded_at,
+        createdAt: row.created_at,
+      }));
+    }),
+
+  /**
+   * Refund queue, newest first. Filter by status to find stuck refunds.
+   */
+  listRefunds: adminProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(500).default(100),
+          status: z.enum(["queued", "sent", "confirmed", "failed"]).optional(),
+        })
+        .default({}),
+    )
+    .query(async ({ input }) => {
+      const rows = await listRefunds(input);
+      return rows.map(serializeRefund);
+    }),
+
+  /**
+   * Advance every queued / sent refund: send, confirm or bump fees.
+   */
+  processRefunds: adminProcedure
+    .input(
+      z
+        .object({ limit: z.number().int().min(1).max(200).default(50) })
+        .default({}),
+    )
+    .mutation(async ({ input }) => {
+      return processRefunds(input);
+    }),
+
+  /**
+   * Retry a single refund — requeues a failed one, bumps fees on a sent one.
+   */
+  redriveRefund: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      const refund = await getRefund(input.id);
+      if (!refund) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Refund not found" });
+      }
+      if (refund.status === "confirmed") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Refund is already confirmed",
+        });
+      }
+      return serializeRefund(await redriveRefund(input.id));
+    }),
+});
@@ -1,6 +1,6 @@
 /// <reference path="../types/arena.d.ts" />
 import { z } from "zod";
-import { publicProcedure, router } from "../trpc";
+import { publicProcedure, rateLimit, router } from "../trpc";
 import Arena from "are.na";
 
 const arena = new Arena();
@@ -12,6 +12,7 @@ const urlSchema = z.string().regex(/^https:\/\/www\.are\.na\/[^\/]+\/[^\/]+$/, {
 
 export const arenaRouter = router({
   getChannelImages: publicProcedure
+    .use(rateLimit("arena.getChannelImages"))
     .input(z.object({ url: urlSchema }))
     .query(async ({ input }) => {
       try {
@@ -30,6 +31,7 @@ export const arenaRouter = router({
           .map((block) => ({
             id: block.id,
             title: block.title,
+            description: block.description ?? null,
             image: block.image,
             source: block.source,
             created_at: block.created_at,
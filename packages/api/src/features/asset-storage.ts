@@ -0,0 +1,480 @@
+import crypto from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { getDb } from "../db";
+import { getAssetStorageConfig, type AssetStorageConfig } from "../env";
+import { validateFalAssetUrl } from "./fal";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A downloaded file, spooled to disk and hashed on the way */
+export interface AssetFile {
+  path: string;
+  byteSize: number;
+  contentHash: string;
+}
+
+/** Where re-hosted assets are written and served from */
+export interface AssetStore {
+  /** Copy `file` to `key` and return the public URL it is served from */
+  put(key: string, file: AssetFile, contentType: string): Promise<string>;
+}
+
+/** A copied asset, as recorded next to its original URL */
+export interface HostedAsset {
+  url: string;
+  byteSize: number;
+  contentHash: string;
+}
+
+export interface BackfillSummary {
+  checked: number;
+  hosted: number;
+  failed: number;
+}
+
+// ─── Limits ──────────────────────────────────────────────────────────────────
+
+export const MAX_HOSTED_IMAGE_BYTES = 25 * 1024 * 1024; // 25 MB
+export const MAX_HOSTED_WEIGHTS_BYTES = 1024 * 1024 * 1024; // 1 GB
+
+const IMAGE_DOWNLOAD_TIMEOUT_MS = 60_000;
+const WEIGHTS_DOWNLOAD_TIMEOUT_MS = 10 * 60_000;
+
+/** Keys are generated here, but the fs route serves whatever it is asked */
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*(\/[a-z0-9][a-z0-9._-]*)+$/i;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  safetensors: "application/octet-stream",
+};
+
+function sha256(data: string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────────────
+
+/** Files under a local directory, served by the app's /api/assets route */
+export function createFsAssetStore(
+  dir: string,
+  publicUrl: string,
+): AssetStore {
+  return {
+    async put(key, file) {
+      const target = path.join(dir, key);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      // Copy then rename, so readers never see a partial file
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await fs.copyFile(file.path, temp);
+      await fs.rename(temp, target);
+      return `${publicUrl}/${key}`;
+    },
+  };
+}
+
+/**
+ * Objects in an S3-compatible bucket (AWS, R2, MinIO...), written with a
+ * path-style PUT signed with AWS Signature Version 4. The body is streamed
+ * from disk with its length declared, since S3 refuses chunked uploads.
+ */
+export function createS3AssetStore(
+  config: Extract<AssetStorageConfig, { backend: "s3" }>,
+): AssetStore {
+  return {
+    async put(key, file, contentType) {
+      const url = new URL(`${config.endpoint}/${config.bucket}/${key}`);
+      const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+      const dateStamp = amzDate.slice(0, 8);
+      const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+      const payloadHash = file.contentHash;
+
+      const headers: Record<string, string> = {
+        "content-length": String(file.byteSize),
+        "content-type": contentType,
+        host: url.host,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": amzDate,
+      };
+      const names = Object.keys(headers).sort();
+      const signedHeaders = names.join(";");
+      const canonicalRequest = [
+        "PUT",
+        url.pathname,
+        "",
+        ...names.map((name) => `${name}:${headers[name]}`),
+        "",
+        signedHeaders,
+        payloadHash,
+      ].join("\n");
+      const stringToSign = [
+        "AWS4-HMAC-SHA256",
+        amzDate,
+        scope,
+        sha256(canonicalRequest),
+      ].join("\n");
+
+      let signingKey = hmac(`AWS4${config.secretAccessKey}`, dateStamp);
+      for (const part of [config.region, "s3", "aws4_request"]) {
+        signingKey = hmac(signingKey, part);
+      }
+      const signature = hmac(signingKey, stringToSign).toString("hex");
+
+      const { host: _host, ...sent } = headers;
+      const response = await fetch(url, {
+        method: "PUT",
+        headers: {
+          ...sent,
+          authorization:
+            `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        },
+        body: Readable.toWeb(createReadStream(file.path)) as ReadableStream,
+        duplex: "half",
+      } as RequestInit);
+      if (!response.ok) {
+        const detail = (await response.text()).slice(0, 200);
+        throw new Error(
+          `S3 PUT ${key} failed: HTTP ${response.status} ${detail}`,
+        );
+      }
+      return `${config.publicUrl}/${key}`;
+    },
+  };
+}
+
+let store: AssetStore | null | undefined;
+
+/** Swap the asset store, e.g. in tests. Null turns re-hosting off. */
+export function setAssetStore(next: AssetStore | null | undefined): void {
+  store = next;
+}
+
+/** The configured store, or null when re-hosting is off */
+export function getAssetStore(): AssetStore | null {
+  if (store === undefined) {
+    const config = getAssetStorageConfig();
+    store = !config
+      ? null
+      : config.backend === "s3"
+        ? createS3AssetStore(config)
+        : createFsAssetStore(config.dir, config.publicUrl);
+  }
+  return store;
+}
+
+/**
+ * Read an asset written by the fs backend, for the route that serves them.
+ * Null when the backend is not fs or there is no such file.
+ */
+export async function readLocalAsset(
+  key: string,
+): Promise<{ data: Buffer; contentType: string } | null> {
+  const config = getAssetStorageConfig();
+  if (config?.backend !== "fs") return null;
+  if (!KEY_PATTERN.test(key) || key.includes("..")) return null;
+  try {
+    const data = await fs.readFile(path.join(config.dir, key));
+    const extension = key.slice(key.lastIndexOf(".") + 1);
+    return {
+      data,
+      contentType: CONTENT_TYPES[extension] ?? "application/octet-stream",
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// ─── Copying ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fetch a FAL-hosted file into a temp file, hashing it as it streams. A
+ * body over `maxBytes` is cut off as soon as it passes the limit. The
+ * caller removes the file with `discard`.
+ */
+async function download(
+  url: string,
+  maxBytes: number,
+  timeoutMs: number,
+): Promise<AssetFile & { contentType: string }> {
+  await validateFalAssetUrl(url);
+
+  const response = await fetch(url, {
+    redirect: "error", // A redirect could point anywhere the allowlist doesn't
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+  }
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) {
+    throw new Error(`${url} is larger than ${maxBytes} bytes`);
+  }
+
+  const hash = crypto.createHash("sha256");
+  let byteSize = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      byteSize += chunk.length;
+      if (byteSize > maxBytes) {
+        callback(new Error(`${url} is larger than ${maxBytes} bytes`));
+        return;
+      }
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+
+  const file = path.join(
+    os.tmpdir(),
+    `asset-${crypto.randomBytes(8).toString("hex")}.tmp`,
+  );
+  try {
+    await pipeline(
+      response.body
+        ? Readable.fromWeb(response.body as WebReadableStream<Uint8Array>)
+        : Readable.from([]),
+      meter,
+      createWriteStream(file),
+    );
+  } catch (error) {
+    await discard(file);
+    throw error;
+  }
+
+  return {
+    path: file,
+    byteSize,
+    contentHash: hash.digest("hex"),
+    contentType: (response.headers.get("content-type") ?? "")
+      .split(";")[0]
+      .trim(),
+  };
+}
+
+async function discard(file: string): Promise<void> {
+  await fs.rm(file, { force: true });
+}
+
+/**
+ * Copy a generated image to our storage and point its row at the copy.
+ * Returns null when re-hosting is off or the image is already hosted.
+ */
+export async function rehostGeneratedImage(
+  id: string,
+): Promise<HostedAsset | null> {
+  const assets = getAssetStore();
+  if (!assets) return null;
+
+  const db = getDb();
+  const image = await db
+    .selectFrom("generated_images")
+    .select(["id", "image_url"])
+    .where("id", "=", id)
+    .where("hosted_at", "is", null)
+    .executeTakeFirst();
+  if (!image) return null;
+
+  const file = await download(
+    image.image_url,
+    MAX_HOSTED_IMAGE_BYTES,
+    IMAGE_DOWNLOAD_TIMEOUT_MS,
+  );
+  let hosted: HostedAsset;
+  try {
+    // FAL serves JPEGs unless asked otherwise
+    const type =
+      file.contentType in IMAGE_EXTENSIONS ? file.contentType : "image/jpeg";
+    hosted = {
+      url: await assets.put(
+        `generated/${image.id}.${IMAGE_EXTENSIONS[type]}`,
+        file,
+        type,
+      ),
+      byteSize: file.byteSize,
+      contentHash: file.contentHash,
+    };
+  } finally {
+    await discard(file.path);
+  }
+
+  await db
+    .updateTable("generated_images")
+    .set({
+      image_url: hosted.url,
+      original_image_url: image.image_url,
+      byte_size: hosted.byteSize,
+      content_hash: hosted.contentHash,
+      hosted_at: new Date().toISOString(),
+    })
+    .where("id", "=", image.id)
+    .where("hosted_at", "is", null)
+    .execute();
+  console.log(`[assets] Hosted image ${image.id} (${hosted.byteSize} bytes)`);
+  return hosted;
+}
+
+/**
+ * Copy a completed LoRA's safetensors file to our storage and point the
+ * training at the copy. Returns null when re-hosting is off, the LoRA has
+ * no weights yet or they are already hosted.
+ */
+export async function rehostLoraWeights(
+  id: string,
+): Promise<HostedAsset | null> {
+  const assets = getAssetStore();
+  if (!assets) return null;
+
+  const db = getDb();
+  const lora = await db
+    .selectFrom("lora_trainings")
+    .select(["id", "lora_weights_url"])
+    .where("id", "=", id)
+    .where("status", "=", "completed")
+    .where("lora_weights_hosted_at", "is", null)
+    .executeTakeFirst();
+  if (!lora?.lora_weights_url) return null;
+
+  const file = await download(
+    lora.lora_weights_url,
+    MAX_HOSTED_WEIGHTS_BYTES,
+    WEIGHTS_DOWNLOAD_TIMEOUT_MS,
+  );
+  let hosted: HostedAsset;
+  try {
+    hosted = {
+      url: await assets.put(
+        `loras/${lora.id}.safetensors`,
+        file,
+        CONTENT_TYPES.safetensors,
+      ),
+      byteSize: file.byteSize,
+      contentHash: file.contentHash,
+    };
+  } finally {
+    await discard(file.path);
+  }
+
+  await db
+    .updateTable("lora_trainings")
+    .set({
+      lora_weights_url: hosted.url,
+      lora_weights_original_url: lora.lora_weights_url,
+      lora_weights_byte_size: hosted.byteSize,
+      lora_weights_content_hash: hosted.contentHash,
+      lora_weights_hosted_at: new Date().toISOString(),
+    })
+    .where("id", "=", lora.id)
+    .where("lora_weights_hosted_at", "is", null)
+    .execute();
+  console.log(`[assets] Hosted LoRA ${lora.id} (${hosted.byteSize} bytes)`);
+  return hosted;
+}
+
+// ─── Backfill ────────────────────────────────────────────────────────────────
+
+const BACKFILL_PAGE_SIZE = 50;
+
+/**
+ * Walk every row whose ids `nextPage` yields and copy it with `rehost`.
+ * Failures are logged and skipped so one expired URL can't stall the run.
+ */
+async function backfill(
+  label: string,
+  nextPage: (afterId: string) => Promise<string[]>,
+  rehost: (id: string) => Promise<HostedAsset | null>,
+  options: { limit?: number; dryRun?: boolean },
+): Promise<BackfillSummary> {
+  const { limit = Infinity, dryRun = false } = options;
+  const summary: BackfillSummary = { checked: 0, hosted: 0, failed: 0 };
+
+  let afterId = "";
+  while (summary.checked < limit) {
+    const ids = await nextPage(afterId);
+    if (ids.length === 0) break;
+    afterId = ids[ids.length - 1];
+
+    // Sequential on purpose — weights files are large
+    for (const id of ids.slice(0, limit - summary.checked)) {
+      summary.checked++;
+      if (dryRun) continue;
+      try {
+        if (await rehost(id)) summary.hosted++;
+      } catch (error) {
+        summary.failed++;
+        console.error(`[assets] Failed to host ${label} ${id}:`, error);
+      }
+    }
+  }
+  return summary;
+}
+
+/**
+ * Copy generated images that still point at FAL's CDN. A null `hosted_at`
+ * is what marks an image as waiting for its copy.
+ */
+export async function backfillGeneratedImages(
+  options: { limit?: number; dryRun?: boolean } = {},
+): Promise<BackfillSummary> {
+  return backfill(
+    "image",
+    async (afterId) =>
+      (
+        await getDb()
+          .selectFrom("generated_images")
+          .select("id")
+          .where("hosted_at", "is", null)
+          .where("id", ">", afterId)
+          .orderBy("id")
+          .limit(BACKFILL_PAGE_SIZE)
+          .execute()
+      ).map((row) => row.id),
+    rehostGeneratedImage,
+    options,
+  );
+}
+
+/**
+ * Copy completed LoRAs' weights that still point at FAL's CDN, i.e. those
+ * with no `lora_weights_hosted_at` yet.
+ */
+export async function backfillLoraWeights(
+  options: { limit?: number; dryRun?: boolean } = {},
+): Promise<BackfillSummary> {
+  return backfill(
+    "LoRA",
+    async (afterId) =>
+      (
+        await getDb()
+          .selectFrom("lora_trainings")
+          .select("id")
+          .where("status", "=", "completed")
+          .where("lora_weights_url", "is not", null)
+          .where("lora_weights_hosted_at", "is", null)
+          .where("id", ">", afterId)
+          .orderBy("id")
+          .limit(BACKFILL_PAGE_SIZE)
+          .execute()
+      ).map((row) => row.id),
+    rehostLoraWeights,
+    options,
+  );
+}
@@ -0,0 +1,278 @@
+import sharp from "sharp";
+import {
+  inspectImage,
+  ImagePreprocessError,
+  MIN_IMAGE_EDGE,
+} from "./image-preprocess";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One selected image as the analysis saw it */
+export interface AnalyzedImage {
+  url: string;
+  /** Why the image can't be used (download or decode failure), or null */
+  error: string | null;
+  width: number | null;
+  height: number | null;
+  format: string | null;
+  bytes: number | null;
+  /** Width ÷ height, after EXIF rotation */
+  aspectRatio: number | null;
+  /** 64-bit difference hash as 16 hex digits */
+  hash: string | null;
+}
+
+export type CheckStatus = "pass" | "warn" | "fail";
+
+/** One line of the checklist shown before payment */
+export interface DatasetCheck {
+  id: "images" | "count" | "resolution" | "duplicates" | "aspect";
+  status: CheckStatus;
+  label: string;
+  detail: string;
+}
+
+export interface DatasetReport {
+  images: AnalyzedImage[];
+  /** Groups of near-identical images, as URLs in selection order */
+  duplicates: string[][];
+  aspectRatios: {
+    min: number;
+    max: number;
+    portrait: number;
+    square: number;
+    landscape: number;
+  } | null;
+  checks: DatasetCheck[];
+}
+
+/** A download as produced by `downloadAllSettled` */
+export type DatasetInput =
+  | { url: string; ok: true; data: Buffer }
+  | { url: string; ok: false; error: string };
+
+// ─── Perceptual Hash ─────────────────────────────────────────────────────────
+
+const HASH_SIZE = 8;
+
+/** Hashes at most this many bits apart are treated as the same picture */
+export const DUPLICATE_DISTANCE = 8;
+
+/**
+ * Difference hash: shrink to 9×8 greyscale and record whether each pixel is
+ * brighter than its right neighbour. Survives resizing and re-encoding.
+ */
+export async function perceptualHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .grayscale()
+    .resize(HASH_SIZE + 1, HASH_SIZE, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < HASH_SIZE; row++) {
+    for (let col = 0; col < HASH_SIZE; col++) {
+      const offset = row * (HASH_SIZE + 1) + col;
+      hash = (hash << 1n) | (pixels[offset] > pixels[offset + 1] ? 1n : 0n);
+    }
+  }
+  return hash.toString(16).padStart(HASH_SIZE * 2, "0");
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+/** Group images whose hashes are within DUPLICATE_DISTANCE of each other */
+function findDuplicates(images: AnalyzedImage[]): string[][] {
+  const hashed = images.filter((image) => image.hash !== null);
+  const parent = hashed.map((_, index) => index);
+  const root = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = root(parent[index]));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      if (hammingDistance(hashed[i].hash!, hashed[j].hash!) <= DUPLICATE_DISTANCE) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  hashed.forEach((image, index) => {
+    const group = groups.get(root(index)) ?? [];
+    group.push(image.url);
+    groups.set(root(index), group);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// ─── Analysis ────────────────────────────────────────────────────────────────
+
+/** Below this many usable images FAL trainers tend to overfit */
+export const RECOMMENDED_MIN_IMAGES = 4;
+
+/** Widest ÷ narrowest aspect ratio before square crops lose a lot */
+const MAX_ASPECT_SPREAD = 2;
+
+async function analyzeImage(input: DatasetInput): Promise<AnalyzedImage> {
+  const empty = {
+    width: null,
+    height: null,
+    format: null,
+    bytes: null,
+    aspectRatio: null,
+    hash: null,
+  };
+  if (!input.ok) return { url: input.url, error: input.error, ...empty };
+
+  try {
+    const { width, height, format } = await inspectImage(input.data);
+    return {
+      url: input.url,
+      error: null,
+      width,
+      height,
+      format,
+      bytes: input.data.length,
+      aspectRatio: width / height,
+      hash: await perceptualHash(input.data),
+    };
+  } catch (error) {
+    if (!(error instanceof ImagePreprocessError)) throw error;
+    return {
+      url: input.url,
+      error: error.message,
+      ...empty,
+      bytes: input.data.length,
+    };
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function buildChecks(
+  images: AnalyzedImage[],
+  duplicates: string[][],
+  aspectRatios: DatasetReport["aspectRatios"],
+  resolution: number,
+): DatasetCheck[] {
+  const usable = images.filter((image) => image.error === null);
+  const failed = images.length - usable.length;
+  const tiny = usable.filter(
+    (image) => Math.min(image.width!, image.height!) < MIN_IMAGE_EDGE,
+  ).length;
+  const small = usable.filter((image) => {
+    const edge = Math.min(image.width!, image.height!);
+    return edge >= MIN_IMAGE_EDGE && edge < resolution;
+  }).length;
+  const trainable = usable.length - tiny;
+
+  return [
+    {
+      id: "images",
+      status: failed === 0 ? "pass" : trainable > 0 ? "warn" : "fail",
+      label: "Every image downloads and decodes",
+      detail:
+        failed === 0
+          ? `All ${plural(images.length, "image")} can be read.`
+          : `${plural(failed, "image")} could not be downloaded or read and will be skipped.`,
+    },
+    {
+      id: "count",
+      status:
+        trainable === 0
+          ? "fail"
+          : trainable < RECOMMENDED_MIN_IMAGES
+            ? "warn"
+            : "pass",
+      label: `At least ${RECOMMENDED_MIN_IMAGES} usable images`,
+      detail: `${plural(trainable, "image")} will be trained on.`,
+    },
+    {
+      id: "resolution",
+      status: tiny + small === 0 ? "pass" : "warn",
+      label: `Images are at least ${resolution}px`,
+      detail:
+        tiny + small === 0
+          ? `Every image is at least ${resolution}px on its shorter edge.`
+          : [
+              tiny > 0 &&
+                `${plural(tiny, "image")} under ${MIN_IMAGE_EDGE}px will be skipped.`,
+              small > 0 &&
+                `${plural(small, "image")} under ${resolution}px will train at a lower resolution.`,
+            ]
+              .filter(Boolean)
+              .join(" "),
+    },
+    {
+      id: "duplicates",
+      status: duplicates.length === 0 ? "pass" : "warn",
+      label: "No near-duplicates",
+      detail:
+        duplicates.length === 0
+          ? "No two images look alike."
+          : `${plural(duplicates.length, "group")} of near-identical images; duplicates make the LoRA overfit to them.`,
+    },
+    {
+      id: "aspect",
+      status:
+        !aspectRatios || aspectRatios.max / aspectRatios.min <= MAX_ASPECT_SPREAD
+          ? "pass"
+          : "warn",
+      label: "Similar aspect ratios",
+      detail: aspectRatios
+        ? `${aspectRatios.portrait} portrait, ${aspectRatios.square} square, ${aspectRatios.landscape} landscape (${aspectRatios.min.toFixed(2)}–${aspectRatios.max.toFixed(2)}).`
+        : "No readable images.",
+    },
+  ];
+}
+
+/**
+ * Check a selection of downloaded images before anyone pays for training:
+ * readability, dimensions, near-duplicates and aspect-ratio spread against
+ * the trainer's `resolution`.
+ */
+export async function analyzeDataset(
+  inputs: DatasetInput[],
+  resolution: number,
+): Promise<DatasetReport> {
+  // Sequential — sharp already spreads each image across its thread pool
+  const images: AnalyzedImage[] = [];
+  for (const input of inputs) {
+    images.push(await analyzeImage(input));
+  }
+
+  const duplicates = findDuplicates(images);
+
+  const ratios = images.flatMap((image) =>
+    image.aspectRatio === null ? [] : [image.aspectRatio],
+  );
+  const aspectRatios =
+    ratios.length === 0
+      ? null
+      : {
+          min: Math.min(...ratios),
+          max: Math.max(...ratios),
+          // Within 10% of square counts as square
+          portrait: ratios.filter((ratio) => ratio < 0.9).length,
+          square: ratios.filter((ratio) => ratio >= 0.9 && ratio <= 1.1).length,
+          landscape: ratios.filter((ratio) => ratio > 1.1).length,
+        };
+
+  return {
+    images,
+    duplicates,
+    aspectRatios,
+    checks: buildChecks(images, duplicates, aspectRatios, resolution),
+  };
+}
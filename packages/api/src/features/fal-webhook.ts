@@ -0,0 +1,257 @@
+import crypto from "node:crypto";
+import { fal } from "@fal-ai/client";
+import { z } from "zod";
+import { getDb } from "../db";
+import { getFalWebhookTrustedKeys } from "../env";
+import { ensureFalConfigured, extractLoraWeightsUrl } from "./fal";
+import {
+  settleGenerationJob,
+  type GenerationJob,
+  type GenerationResult,
+} from "./generation-jobs";
+import { settleTraining, type TrainingOutcome } from "./reconcile";
+import { replaceTrainingLogs } from "./training-logs";
+import { trainerEndpoint } from "./trainers";
+
+// ─── Signature verification ──────────────────────────────────────────────────
+
+/** FAL's published webhook signing keys */
+export const FAL_JWKS_URL = "https://rest.alpha.fal.ai/.well-known/jwks.json";
+
+const JWKS_CACHE_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/** Reject webhooks whose timestamp is further than this from our clock */
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+let jwksCache: { keys: string[]; fetchedAt: number } | null = null;
+
+async function fetchFalPublicKeys(): Promise<string[]> {
+  if (jwksCache && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_MS) {
+    return jwksCache.keys;
+  }
+  const response = await fetch(FAL_JWKS_URL, {
+    signal: AbortSignal.timeout(10_000),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch FAL JWKS: HTTP ${response.status}`);
+  }
+  const { keys } = (await response.json()) as { keys?: { x?: string }[] };
+  const x = (keys ?? []).flatMap((key) => (key.x ? [key.x] : []));
+  jwksCache = { keys: x, fetchedAt: Date.now() };
+  return x;
+}
+
+function ed25519Key(x: string): crypto.KeyObject {
+  return crypto.createPublicKey({
+    key: { kty: "OKP", crv: "Ed25519", x },
+    format: "jwk",
+  });
+}
+
+function headerValue(
+  headers: Record<string, string | string[] | undefined>,
+  name: string,
+): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Check a webhook's X-Fal-Webhook-* headers against the raw request body.
+ *
+ * FAL signs `request id \n user id \n timestamp \n sha256(body)` with
+ * Ed25519. Keys come from FAL's JWKS plus any FAL_WEBHOOK_TRUSTED_KEYS.
+ */
+export async function verifyFalWebhookSignature(
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: Buffer,
+): Promise<boolean> {
+  const requestId = headerValue(headers, "x-fal-webhook-request-id");
+  const userId = headerValue(headers, "x-fal-webhook-user-id");
+  const timestamp = headerValue(headers, "x-fal-webhook-timestamp");
+  const signature = headerValue(headers, "x-fal-webhook-signature");
+  if (!requestId || !userId || !timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp);
+  if (
+    !Number.isFinite(sentAt) ||
+    Math.abs(Date.now() / 1000 - sentAt) > TIMESTAMP_TOLERANCE_SECONDS
+  ) {
+    return false;
+  }
+
+  const message = Buffer.from(
+    [
+      requestId,
+      userId,
+      timestamp,
+      crypto.createHash("sha256").update(rawBody).digest("hex"),
+    ].join("\n"),
+  );
+  const signatureBytes = Buffer.from(signature, "hex");
+
+  const trusted = getFalWebhookTrustedKeys();
+  const keys = [...trusted];
+  try {
+    keys.push(...(await fetchFalPublicKeys()));
+  } catch (error) {
+    // Locally trusted keys still work while FAL's JWKS is unreachable
+    if (trusted.length === 0) throw error;
+    console.error("[fal-webhook] JWKS fetch failed:", error);
+  }
+
+  return keys.some((x) => {
+    try {
+      return crypto.verify(null, message, ed25519Key(x), signatureBytes);
+    } catch {
+      return false;
+    }
+  });
+}
+
+// ─── Handling ────────────────────────────────────────────────────────────────
+
+const webhookPayloadSchema = z.object({
+  request_id: z.string().min(1),
+  status: z.enum(["OK", "ERROR"]),
+  payload: z.record(z.unknown()).nullish(),
+  error: z.string().nullish(),
+});
+
+export type FalWebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+/** The row a webhook settled, and whether this delivery settled it */
+export interface FalWebhookResult {
+  loraId: string | null;
+  generationJobId?: string;
+  applied: boolean;
+}
+
+/**
+ * Map a webhook body to a terminal training outcome. A cancellation also
+ * arrives as an ERROR, but `cancelTraining` has already moved its row out
+ * of pending, so it is never settled as a failure.
+ */
+export function outcomeFromWebhook(body: FalWebhookPayload): TrainingOutcome {
+  if (body.status === "ERROR") {
+    return { status: "failed", error: body.error || "Training failed on FAL" };
+  }
+  const loraWeightsUrl = extractLoraWeightsUrl(body.payload);
+  return loraWeightsUrl
+    ? { status: "completed", loraWeightsUrl }
+    : {
+        status: "failed",
+        error: "Training finished without a LoRA weights file",
+      };
+}
+
+/** Settle a generation job from its webhook, saving the images it made */
+async function handleGenerationWebhook(
+  body: FalWebhookPayload,
+  job: GenerationJob,
+): Promise<boolean> {
+  const applied = await settleGenerationJob(
+    job,
+    body.status === "ERROR"
+      ? { status: "failed", error: body.error || "Generation failed on FAL" }
+      : {
+          status: "completed",
+          result: (body.payload ?? {}) as GenerationResult,
+        },
+  );
+  console.log(
+    `[fal-webhook] ${body.request_id} (generation: ${job.id}) → ${body.status}${applied ? "" : " (already settled)"}`,
+  );
+  return applied;
+}
+
+/**
+ * Settle the lora_trainings row or generation job a webhook refers to;
+ * trainings also get their final logs. Returns null for a request ID we
+ * have no row for (yet — rows get their request ID once `fal.queue.submit`
+ * returns, so a fast webhook can beat it).
+ */
+export async function handleFalWebhook(
+  body: FalWebhookPayload,
+): Promise<FalWebhookResult | null> {
+  const training = await getDb()
+    .selectFrom("lora_trainings")
+    .select(["id", "trainer"])
+    .where("request_id", "=", body.request_id)
+    .executeTakeFirst();
+
+  if (!training) {
+    const job = await getDb()
+      .selectFrom("generation_jobs")
+      .selectAll()
+      .where("request_id", "=", body.request_id)
+      .executeTakeFirst();
+    if (job) {
+      const applied = await handleGenerationWebhook(body, job);
+      return { loraId: null, generationJobId: job.id, applied };
+    }
+    console.log(`[fal-webhook] No row yet for request ${body.request_id}`);
+    return null;
+  }
+
+  const outcome = outcomeFromWebhook(body);
+  const { applied } = await settleTraining(training.id, outcome);
+  console.log(
+    `[fal-webhook] ${body.request_id} (id: ${training.id}) → ${outcome.status}${applied ? "" : " (already settled)"}`,
+  );
+
+  // The webhook body carries no logs — fetch the final copy once
+  try {
+    ensureFalConfigured();
+    const status = await fal.queue.status(trainerEndpoint(training.trainer), {
+      requestId: body.request_id,
+      logs: true,
+    });
+    if ("logs" in status && Array.isArray(status.logs)) {
+      await replaceTrainingLogs(training.id, status.logs);
+    }
+  } catch (error) {
+    console.error(`[fal-webhook] Failed to store logs for ${training.id}:`, error);
+  }
+
+  return { loraId: training.id, applied };
+}
+
+/**
+ * Framework-agnostic entry point for the webhook route: verify, parse and
+ * handle a delivery. Non-2xx statuses make FAL retry.
+ */
+export async function receiveFalWebhook(
+  headers: Record<string, string | string[] | undefined>,
+  rawBody: Buffer,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  let verified: boolean;
+  try {
+    verified = await verifyFalWebhookSignature(headers, rawBody);
+  } catch (error) {
+    console.error("[fal-webhook] Signature check failed:", error);
+    return { status: 503, body: { error: "Unable to verify signature" } };
+  }
+  if (!verified) {
+    return { status: 401, body: { error: "Invalid signature" } };
+  }
+
+  let parsed: FalWebhookPayload;
+  try {
+    parsed = webhookPayloadSchema.parse(JSON.parse(rawBody.toString("utf8")));
+  } catch {
+    return { status: 400, body: { error: "Invalid payload" } };
+  }
+
+  try {
+    const result = await handleFalWebhook(parsed);
+    if (!result) {
+      // Not acknowledged, so FAL redelivers once the row has been written
+      return { status: 404, body: { error: "Unknown request" } };
+    }
+    return { status: 200, body: { ok: true, ...result } };
+  } catch (error) {
+    console.error("[fal-webhook] Failed to handle webhook:", error);
+    return { status: 500, body: { error: "Failed to handle webhook" } };
+  }
+}
@@ -1,7 +1,14 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { protectedProcedure, router } from "../trpc";
-import { requireFalApiKey, getTrainingPriceUsd, getAdminWallet } from "../env";
+import {
+  publicProcedure,
+  protectedProcedure,
+  rateLimit,
+  router,
+  isAdminWallet,
+} from "../trpc";
+import { requireFalApiKey, getAdminWallet, getFalWebhookUrl } from "../env";
+import { getDb } from "../db";
 import { fal } from "@fal-ai/client";
 import archiver from "archiver";
 import { PassThrough } from "node:stream";
@@ -11,18 +18,59 @@ import type { Hex } from "viem";
 import {
   isPaymentExempt,
   verifyPaymentTx,
-  getEthPriceFromUniswap,
-  calculateRequiredEthWei,
-  sendRefund,
+  verifyPaymentQuote,
+  claimPayment,
 } from "./payment";
-import { createPendingLora } from "./lora";
+import {
+  enqueueRefund,
+  enqueueRefundForTraining,
+  processRefund,
+  type RefundRecord,
+} from "./refunds";
+import {
+  createSubmittingLora,
+  failLoraSubmit,
+  markLoraSubmitted,
+} from "./lora";
+import { getImageInfo, type ImageInfo } from "./image-info";
+import { cachedDownload } from "./image-cache";
+import {
+  preprocessImage,
+  ImagePreprocessError,
+  type PreprocessOptions,
+  type PreprocessReport,
+} from "./image-preprocess";
+import { analyzeDataset } from "./dataset-analysis";
+import { fetchTrainingOutcome, settleTraining } from "./reconcile";
+import { watchTraining } from "./training-watcher";
+import {
+  DEFAULT_TRAINER_ID,
+  describeTrainers,
+  findTrainer,
+  resolveTrainerSettings,
+  trainerEndpoint,
+} from "./trainers";
 
 // Configure fal client lazily — credentials are validated per-request
-function ensureFalConfigured() {
+export function ensureFalConfigured() {
   const key = requireFalApiKey();
   fal.config({ credentials: key });
 }
 
+/**
+ * Pull the LoRA weights URL out of a training result payload.
+ * Prefers the diffusers file and falls back to the config file.
+ */
+export function extractLoraWeightsUrl(
+  data: Record<string, unknown> | null | undefined,
+): string | null {
+  if (!data) return null;
+  const loraFile = data.diffusers_lora_file as { url?: string } | undefined;
+  if (loraFile?.url) return loraFile.url;
+  const configFile = data.config_file as { url?: string } | undefined;
+  return configFile?.url ?? null;
+}
+
 // --- SSRF Protection ---
 
 export const ALLOWED_IMAGE_DOMAINS: readonly string[] = [
@@ -30,6 +78,11 @@ export const ALLOWED_IMAGE_DOMAINS: readonly string[] = [
   ".are.na", // all are.na subdomains
 ] as const;
 
+/** Where FAL serves generated images and trained weights from */
+export const FAL_ASSET_DOMAINS: readonly string[] = [
+  ".fal.media", // fal.media, v2.fal.media, v3.fal.media, ...
+] as const;
+
 export function isPrivateIP(ip: string): boolean {
   if (net.isIPv4(ip)) {
     const parts = ip.split(".").map(Number);
@@ -64,7 +117,15 @@ export function isPrivateIP(ip: string): boolean {
   return true;
 }
 
-export async function validateImageUrl(url: string): Promise<void> {
+/**
+ * Reject anything but a public HTTPS URL on one of `domains`. `purpose`
+ * names the download in the error message.
+ */
+async function validateDownloadUrl(
+  url: string,
+  domains: readonly string[],
+  purpose: string,
+): Promise<void> {
   let parsed: URL;
   try {
     parsed = new URL(url);
@@ -82,7 +143,7 @@ export async function validateImageUrl(url: string): Promise<void> {
 
   const hostname = parsed.hostname.toLowerCase();
 
-  const isAllowed = ALLOWED_IMAGE_DOMAINS.some((domain) => {
+  const isAllowed = domains.some((domain) => {
     if (domain.startsWith(".")) {
       return hostname === domain.slice(1) || hostname.endsWith(domain);
     }
@@ -91,7 +152,7 @@ export async function validateImageUrl(url: string): Promise<void> {
 
   if (!isAllowed) {
     throw new Error(
-      `Domain "${hostname}" is not in the allowed list for image downloads`,
+      `Domain "${hostname}" is not in the allowed list for ${purpose}`,
     );
   }
 
@@ -107,6 +168,15 @@ export async function validateImageUrl(url: string): Promise<void> {
   }
 }
 
+export async function validateImageUrl(url: string): Promise<void> {
+  await validateDownloadUrl(url, ALLOWED_IMAGE_DOMAINS, "image downloads");
+}
+
+/** Only files FAL produced are copied to our storage */
+export async function validateFalAssetUrl(url: string): Promise<void> {
+  await validateDownloadUrl(url, FAL_ASSET_DOMAINS, "FAL assets");
+}
+
 // --- Resource Limits ---
 export const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5 MB
 export const DOWNLOAD_TIMEOUT_MS = 30_000; // 30 seconds
@@ -198,158 +268,446 @@ export async function downloadImage(url: string): Promise<DownloadResult> {
   }
 }
 
-// Download images with limited concurrency using a worker pool pattern
-export async function downloadWithConcurrency(
+/** One URL's download, or why it failed */
+export type DownloadOutcome =
+  | { ok: true; image: DownloadResult }
+  | { ok: false; error: string };
+
+// Download images with limited concurrency using a worker pool pattern,
+// handing each outcome to `onSettled` as soon as it is in. A worker takes
+// its next URL only once `onSettled` returns, so at most `concurrency`
+// images are held at once. Images seen recently are served from the cache.
+async function forEachDownload(
   urls: string[],
   concurrency: number,
-): Promise<(DownloadResult | null)[]> {
-  const results: (DownloadResult | null)[] = new Array(urls.length).fill(null);
+  onSettled: (index: number, outcome: DownloadOutcome) => Promise<void>,
+): Promise<void> {
   let nextIndex = 0;
 
   async function worker() {
     while (nextIndex < urls.length) {
       const index = nextIndex++;
+      let outcome: DownloadOutcome;
       try {
-        results[index] = await downloadImage(urls[index]);
+        outcome = {
+          ok: true,
+          image: await cachedDownload(urls[index], downloadImage),
+        };
       } catch (error) {
         console.error(
           `Failed to download image ${index + 1}/${urls.length}: ${error}`,
         );
-        results[index] = null;
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        outcome = {
+          ok: false,
+          // downloadImage prefixes the URL, which callers already have
+          error: message.replace(
+            `Failed to download image from ${urls[index]}: `,
+            "",
+          ),
+        };
       }
+      await onSettled(index, outcome);
     }
   }
 
   await Promise.all(
     Array.from({ length: Math.min(concurrency, urls.length) }, () => worker()),
   );
+}
+
+// Download every image with limited concurrency. Results are in URL order;
+// failures keep their reason.
+export async function downloadAllSettled(
+  urls: string[],
+  concurrency: number,
+): Promise<DownloadOutcome[]> {
+  const results: DownloadOutcome[] = new Array(urls.length);
+  await forEachDownload(urls, concurrency, async (index, outcome) => {
+    results[index] = outcome;
+  });
   return results;
 }
 
-// Helper function to create zip file from image URLs
-// Returns { buffer, imageCount } so callers know how many images succeeded
-export async function createImageZip(
+// Same as downloadAllSettled, with failed downloads as null
+export async function downloadWithConcurrency(
+  urls: string[],
+  concurrency: number,
+): Promise<(DownloadResult | null)[]> {
+  const outcomes = await downloadAllSettled(urls, concurrency);
+  return outcomes.map((outcome) => (outcome.ok ? outcome.image : null));
+}
+
+/** Longest caption accepted for one training image */
+export const MAX_CAPTION_LENGTH = 1000;
+
+/** `3_photo.jpg` → `3_photo.txt`, the sidecar name FAL trainers look for */
+export function captionFilename(imageFilename: string): string {
+  return `${imageFilename.replace(/\.[^.]+$/, "")}.txt`;
+}
+
+/** One image as it went into a zip, in zip order */
+export interface ZippedImage {
+  url: string;
+  filename: string;
+  caption: string | null;
+  /** Size, hash and dimensions of the downloaded (original) bytes */
+  info: ImageInfo;
+  /** What preprocessing changed, when it ran */
+  preprocess: PreprocessReport | null;
+}
+
+/** Options shared by every way of building a training zip */
+export interface ImageZipOptions {
+  /** Caption per image URL, written as a matching .txt sidecar */
+  captions?: Record<string, string>;
+  /** Re-encode every image for training first */
+  preprocess?: PreprocessOptions;
+}
+
+/** What went into a zip, in zip order, and what was left out */
+interface ZipSummary {
+  imageCount: number;
+  images: ZippedImage[];
+  rejected: { url: string; reason: string }[];
+}
+
+/**
+ * Download (and optionally preprocess) every image and append each one to
+ * a zip piped into `output` as soon as it is ready, so the archive is never
+ * held in memory. Caption sidecars are written at the end. Nothing is
+ * written — and `onStart` is not called — until the first image is ready,
+ * so a request where no image can be used fails before any bytes are sent.
+ * Uses 'store' since images are already compressed.
+ */
+async function streamZipImages(
   imageUrls: string[],
-): Promise<{ buffer: Buffer; imageCount: number }> {
+  options: ImageZipOptions,
+  output: NodeJS.WritableStream,
+  onStart?: () => void,
+): Promise<ZipSummary> {
+  const { captions = {}, preprocess } = options;
   console.log(`Starting to create zip from ${imageUrls.length} image URLs`);
 
-  // Download with concurrency limit
-  const downloadResults = await downloadWithConcurrency(
+  const images: { index: number; image: ZippedImage }[] = [];
+  const rejected: { url: string; index: number; reason: string }[] = [];
+  let downloaded = 0;
+
+  let archive = null as archiver.Archiver | null;
+  let done = Promise.resolve();
+
+  function start(): archiver.Archiver {
+    const zip = archiver("zip", { store: true });
+    let finished = false;
+    done = new Promise<void>((resolve, reject) => {
+      zip.on("error", reject);
+      output.on("error", reject);
+      output.on("finish", () => {
+        finished = true;
+        resolve();
+      });
+      // e.g. the browser cancelled the download
+      output.on("close", () => {
+        if (finished) return;
+        zip.abort();
+        reject(new Error("Output closed before the zip was complete"));
+      });
+    });
+    // Awaited once the zip is finalized; until then it only cuts appends short
+    done.catch(() => {});
+    onStart?.();
+    zip.pipe(output);
+    return zip;
+  }
+
+  // Entries are appended one at a time, each once archiver has taken the
+  // previous one, so a slow reader holds back the downloads too
+  let appending = Promise.resolve();
+  function append(data: Buffer, name: string): Promise<void> {
+    appending = appending.then(async () => {
+      archive ??= start();
+      const written = new Promise<void>((resolve) =>
+        archive!.once("entry", () => resolve()),
+      );
+      archive.append(data, { name });
+      await Promise.race([written, done]);
+    });
+    return appending;
+  }
+
+  await forEachDownload(
     imageUrls,
     DOWNLOAD_CONCURRENCY,
-  );
-  const validImages = downloadResults.filter(
-    (result): result is DownloadResult => result !== null,
-  );
+    async (index, outcome) => {
+      const url = imageUrls[index];
+      if (!outcome.ok) {
+        rejected.push({
+          url,
+          index,
+          reason: `Download failed: ${outcome.error}`,
+        });
+        return;
+      }
+      downloaded++;
+
+      const image = outcome.image;
+      const info = getImageInfo(image.data);
+      let data = image.data;
+      let filename = image.filename;
+      let report: PreprocessReport | null = null;
+      if (preprocess) {
+        try {
+          const processed = await preprocessImage(image.data, preprocess);
+          const extension = preprocess.format === "png" ? ".png" : ".jpg";
+          data = processed.data;
+          filename = filename.replace(/\.[^.]+$/, extension);
+          report = processed.report;
+        } catch (error) {
+          if (!(error instanceof ImagePreprocessError)) throw error;
+          console.log(`Skipping ${url}: ${error.message}`);
+          rejected.push({ url, index, reason: error.message });
+          return;
+        }
+      }
+
+      // Numbered by input position, so names don't depend on which download
+      // finished first; a left-out image leaves a gap
+      const zipped: ZippedImage = {
+        url,
+        filename: `${index + 1}_${filename}`,
+        caption: captions[url]?.trim() || null,
+        info,
+        preprocess: report,
+      };
+      images.push({ index, image: zipped });
+      console.log(
+        `Adding image ${zipped.filename} to zip (${data.length} bytes)`,
+      );
+      await append(data, zipped.filename);
+    },
+  ).catch((error) => {
+    archive?.abort();
+    throw error;
+  });
 
   console.log(
-    `Successfully downloaded ${validImages.length} out of ${imageUrls.length} images`,
+    `Successfully downloaded ${downloaded} out of ${imageUrls.length} images`,
   );
+  images.sort((a, b) => a.index - b.index);
+  rejected.sort((a, b) => a.index - b.index);
+  const zipped = images.map(({ image }) => image);
+  const reasons = rejected.map(({ url, reason }) => ({ url, reason }));
 
-  if (validImages.length === 0) {
-    throw new Error("Failed to download any images");
+  if (!archive) {
+    throw new Error(
+      downloaded === 0
+        ? "Failed to download any images"
+        : `None of the images could be used: ${reasons.map((r) => r.reason).join("; ")}`,
+    );
   }
 
-  // Create archive — use 'store' since images are already compressed
-  const archive = archiver("zip", { store: true });
-  const chunks: Buffer[] = [];
+  for (const image of zipped) {
+    if (image.caption) {
+      await append(Buffer.from(image.caption), captionFilename(image.filename));
+    }
+  }
+  await archive.finalize();
+  await done;
 
+  return { imageCount: zipped.length, images: zipped, rejected: reasons };
+}
+
+// Helper function to create zip file from image URLs
+// Returns { buffer, imageCount } so callers know how many images succeeded,
+// plus each zipped image and each URL that was left out, with the reason.
+export async function createImageZip(
+  imageUrls: string[],
+  options: ImageZipOptions = {},
+): Promise<ZipSummary & { buffer: Buffer }> {
+  const chunks: Buffer[] = [];
   const output = new PassThrough();
   output.on("data", (chunk: Buffer) => chunks.push(chunk));
-  archive.pipe(output);
-
-  for (const [index, image] of validImages.entries()) {
-    const uniqueFilename = `${index + 1}_${image.filename}`;
-    console.log(
-      `Adding image ${uniqueFilename} to zip (${image.data.length} bytes)`,
-    );
-    archive.append(image.data, { name: uniqueFilename });
-  }
-
-  await archive.finalize();
+  const zip = await streamZipImages(imageUrls, options, output);
 
   const zipBuffer = Buffer.concat(chunks);
   console.log(`Zip buffer generated: ${zipBuffer.length} bytes`);
 
-  return { buffer: zipBuffer, imageCount: validImages.length };
+  return { buffer: zipBuffer, ...zip };
 }
 
-export const falRouter = router({
-  downloadImageZip: protectedProcedure
-    .input(
-      z.object({
-        imageUrls: z
-          .array(
-            z
-              .string()
-              .url()
-              .refine((url) => url.startsWith("https://"), {
-                message: "Only HTTPS image URLs are allowed",
-              }),
-          )
-          .min(1)
-          .max(20),
-        triggerWord: z.string().min(1).max(50),
+/**
+ * Stream a zip of the images straight into `output` (e.g. an HTTP
+ * response), appending each image as soon as it is downloaded and
+ * preprocessed. `onStart` runs just before the first byte.
+ */
+export async function writeImageZip(
+  imageUrls: string[],
+  options: ImageZipOptions,
+  output: NodeJS.WritableStream,
+  onStart?: () => void,
+): Promise<ZipSummary> {
+  return streamZipImages(imageUrls, options, output, onStart);
+}
+
+/** Selected training images — 1 to 20 HTTPS URLs */
+export const imageUrlsSchema = z
+  .array(
+    z
+      .string()
+      .url()
+      .refine((url) => url.startsWith("https://"), {
+        message: "Only HTTPS image URLs are allowed",
       }),
-    )
-    .mutation(async ({ input }) => {
-      try {
-        console.log(
-          `Creating downloadable zip file from ${input.imageUrls.length} images...`,
-        );
+  )
+  .min(1)
+  .max(20);
+
+/** Per-image captions sent with a zip or training request */
+export const imageCaptionsSchema = z
+  .array(
+    z.object({
+      url: z.string(),
+      caption: z.string().max(MAX_CAPTION_LENGTH),
+    }),
+  )
+  .max(20)
+  .optional();
+
+export function captionsByUrl(
+  captions: z.infer<typeof imageCaptionsSchema>,
+): Record<string, string> {
+  return Object.fromEntries(
+    (captions ?? []).map(({ url, caption }) => [url, caption]),
+  );
+}
 
-        // Create zip file from images
-        const { buffer: zipBuffer, imageCount } = await createImageZip(
-          input.imageUrls,
-        );
+/** How training images are preprocessed before zipping */
+export const preprocessingSchema = z
+  .object({
+    crop: z.enum(["center", "smart", "none"]).default("smart"),
+    format: z.enum(["jpeg", "png"]).default("jpeg"),
+  })
+  .default({});
+
+/** What the client is told about the zipped training set */
+function describeTrainingSet(zip: {
+  images: ZippedImage[];
+  rejected: { url: string; reason: string }[];
+}) {
+  return {
+    images: zip.images.map(({ url, filename, caption, preprocess }) => ({
+      url,
+      filename,
+      caption,
+      preprocess,
+    })),
+    rejected: zip.rejected,
+  };
+}
 
-        console.log(`Zip file created (${zipBuffer.length} bytes)`);
+/**
+ * Resolve a FAL request ID to its lora_trainings row and check that the
+ * session wallet started it. The admin wallet may act on any training.
+ */
+async function requireOwnedTraining(requestId: string, walletAddress: string) {
+  const training = await getDb()
+    .selectFrom("lora_trainings")
+    .select(["id", "wallet_address", "status", "trainer"])
+    .where("request_id", "=", requestId)
+    .executeTakeFirst();
+
+  if (!training) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "No training record found for this request ID.",
+    });
+  }
 
-        // Convert buffer to base64 for transport
-        const base64Zip = zipBuffer.toString("base64");
+  if (
+    training.wallet_address.toLowerCase() !== walletAddress.toLowerCase() &&
+    !isAdminWallet(walletAddress)
+  ) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You are not the owner of this training record.",
+    });
+  }
 
-        // Generate filename with trigger word and timestamp
-        const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-        const filename = `lora-training-${input.triggerWord}-${timestamp}.zip`;
+  return training;
+}
 
-        return {
-          filename,
-          data: base64Zip,
-          size: zipBuffer.length,
-          imageCount,
-        };
-      } catch (error) {
-        console.error("Zip download error:", error);
-        throw new Error(
-          `Failed to create zip archive: ${
-            error instanceof Error ? error.message : "Unknown error"
-          }`,
-        );
+export const falRouter = router({
+  /** Supported trainers with the settings each one accepts */
+  trainers: publicProcedure.query(() => describeTrainers()),
+
+  /**
+   * Quality report for a selection before paying: what downloads, sizes,
+   * formats, near-duplicates and aspect ratios, as a checklist.
+   */
+  analyzeDataset: protectedProcedure
+    .use(rateLimit("fal.analyzeDataset"))
+    .input(
+      z.object({
+        imageUrls: imageUrlsSchema,
+        trainer: z.string().default(DEFAULT_TRAINER_ID),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const trainer = findTrainer(input.trainer);
+      if (!trainer) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown trainer "${input.trainer}".`,
+        });
       }
+
+      const downloads = await downloadAllSettled(
+        input.imageUrls,
+        DOWNLOAD_CONCURRENCY,
+      );
+      return analyzeDataset(
+        downloads.map((outcome, index) =>
+          outcome.ok
+            ? { url: input.imageUrls[index], ok: true, data: outcome.image.data }
+            : { url: input.imageUrls[index], ok: false, error: outcome.error },
+        ),
+        trainer.resolution,
+      );
     }),
 
   trainLora: protectedProcedure
+    .use(rateLimit("fal.trainLora"))
     .input(
       z.object({
-        imageUrls: z
-          .array(
-            z
-              .string()
-              .url()
-              .refine((url) => url.startsWith("https://"), {
-                message: "Only HTTPS image URLs are allowed",
-              }),
-          )
-          .min(1)
-          .max(20),
+        imageUrls: imageUrlsSchema,
         triggerWord: z.string().min(1).max(50),
-        steps: z.number().min(100).max(2000).default(1000),
+        captions: imageCaptionsSchema,
+        preprocessing: preprocessingSchema,
+        trainer: z.string().default(DEFAULT_TRAINER_ID),
+        // Range and defaults depend on the trainer — checked below
+        steps: z.number().int().optional(),
+        trainerParams: z
+          .record(z.union([z.number(), z.boolean()]))
+          .optional(),
         arenaChannelUrl: z.string().url().optional(),
         arenaChannelTitle: z.string().max(200).optional(),
+        // are.na block each image URL came from, if any
+        arenaBlocks: z
+          .array(
+            z.object({
+              url: z.string(),
+              blockId: z.number().int().positive(),
+              title: z.string().max(500).nullish(),
+            }),
+          )
+          .max(20)
+          .optional(),
         paymentTxHash: z
           .string()
           .regex(/^0x[0-9a-fA-F]{64}$/)
           .optional(),
+        paymentQuoteId: z.string().min(1).max(1000).optional(),
       }),
     )
     .mutation(async ({ input, ctx }) => {
@@ -360,11 +718,35 @@ export const falRouter = router({
       const exempt = isPaymentExempt(walletAddress);
       console.log(`[trainLora] isPaymentExempt: ${exempt}`);
 
+      // Reject bad settings before any payment is claimed
+      const trainer = findTrainer(input.trainer);
+      if (!trainer) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Unknown trainer "${input.trainer}".`,
+        });
+      }
+      let settings: { steps: number; params: Record<string, unknown> };
+      try {
+        settings = resolveTrainerSettings(trainer, {
+          steps: input.steps,
+          params: input.trainerParams,
+        });
+      } catch (error) {
+        const issue = error instanceof z.ZodError ? error.issues[0] : null;
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: issue
+            ? `Invalid ${trainer.label} trainer setting${issue.path.length ? ` "${issue.path.join(".")}"` : " steps"}: ${issue.message}`
+            : "Invalid trainer settings.",
+        });
+      }
+
       // ── Payment verification ──────────────────────────────────────
       let paymentValue: bigint | null = null;
 
       if (!exempt) {
-        if (!input.paymentTxHash) {
+        if (!input.paymentTxHash || !input.paymentQuoteId) {
           throw new TRPCError({
             code: "FORBIDDEN",
             message:
@@ -373,17 +755,13 @@ export const falRouter = router({
         }
 
         try {
-          const trainingPriceUsd = getTrainingPriceUsd();
-          const ethPriceUsd = await getEthPriceFromUniswap();
-          const requiredEthWei = calculateRequiredEthWei(
-            ethPriceUsd,
-            trainingPriceUsd,
-          );
-
+          const quote = verifyPaymentQuote(input.paymentQuoteId, walletAddress);
           const verification = await verifyPaymentTx(
             input.paymentTxHash as Hex,
-            requiredEthWei,
+            quote,
           );
+          // Spend the ledger entry before doing any work — a replayed hash fails here
+          await claimPayment(input.paymentTxHash as Hex);
           paymentValue = verification.value;
 
           console.log(
@@ -404,6 +782,8 @@ export const falRouter = router({
       }
 
       // ── Training execution ────────────────────────────────────────
+      let loraId: string | null = null;
+      let requestId: string | null = null;
       try {
         ensureFalConfigured();
 
@@ -412,7 +792,11 @@ export const falRouter = router({
         );
 
         // Create zip file from images
-        const { buffer: zipBuffer } = await createImageZip(input.imageUrls);
+        const zip = await createImageZip(input.imageUrls, {
+          captions: captionsByUrl(input.captions),
+          preprocess: { resolution: trainer.resolution, ...input.preprocessing },
+        });
+        const { buffer: zipBuffer, images } = zip;
 
         console.log(
           `Zip file created (${zipBuffer.length} bytes), uploading to FAL storage...`,
@@ -424,92 +808,208 @@ export const falRouter = router({
         });
         const zipUrl = await fal.storage.upload(zipBlob);
 
-        console.log(`Zip uploaded to: ${zipUrl}, submitting to queue...`);
+        console.log(`Zip uploaded to: ${zipUrl}, recording training...`);
+
+        // Record the training and its payment before FAL has it, so a
+        // submitted job always has a row for the webhook, reconciler and
+        // refunds to settle
+        const lora = await createSubmittingLora({
+          walletAddress,
+          triggerWord: input.triggerWord,
+          steps: settings.steps,
+          trainer: trainer.id,
+          trainerParams: settings.params,
+          images: images.map(({ url, caption, info }) => {
+            const block = input.arenaBlocks?.find((b) => b.url === url);
+            return {
+              url,
+              caption,
+              arenaBlockId: block?.blockId ?? null,
+              title: block?.title ?? null,
+              ...info,
+            };
+          }),
+          arenaChannelUrl: input.arenaChannelUrl,
+          arenaChannelTitle: input.arenaChannelTitle,
+          paymentTxHash:
+            input.paymentTxHash && paymentValue ? input.paymentTxHash : undefined,
+        });
+        loraId = lora.id;
+
+        // Submit to queue instead of blocking with subscribe. With a
+        // webhook configured FAL reports the outcome to /api/fal/webhook.
+        const webhookUrl = getFalWebhookUrl();
+        const { request_id } = await fal.queue.submit(trainer.endpoint, {
+          input: trainer.buildInput({
+            imagesDataUrl: zipUrl,
+            triggerWord: input.triggerWord,
+            steps: settings.steps,
+            params: settings.params,
+          }),
+          ...(webhookUrl && { webhookUrl }),
+        });
+        requestId = request_id;
 
-        // Submit to queue instead of blocking with subscribe
-        const { request_id } = await fal.queue.submit(
-          "fal-ai/flux-lora-fast-training",
-          {
-            input: {
-              images_data_url: zipUrl,
-              trigger_word: input.triggerWord,
-              steps: input.steps,
-            },
-          },
+        console.log(
+          `Training submitted to ${trainer.endpoint} queue: ${request_id} (id: ${loraId})`,
         );
 
-        console.log(`Training submitted to queue: ${request_id}`);
-
-        // Persist a pending record so the training is not lost if the client disconnects
-        let loraId: string | null = null;
-        try {
-          const result = await createPendingLora({
-            requestId: request_id,
-            walletAddress,
-            triggerWord: input.triggerWord,
-            steps: input.steps,
-            imageUrls: input.imageUrls,
-            arenaChannelUrl: input.arenaChannelUrl,
-            arenaChannelTitle: input.arenaChannelTitle,
-          });
-          loraId = result.id;
-          console.log(`Pending lora record created for ${request_id} (id: ${loraId})`);
-        } catch (dbError) {
-          // Log but don't fail the training — the client can still complete it
-          console.error("Failed to create pending lora record:", dbError);
-        }
+        await markLoraSubmitted(loraId, request_id);
 
         return {
           requestId: request_id,
           zipUrl,
           loraId,
+          trainingSet: describeTrainingSet(zip),
           refundTxHash: null as string | null,
         };
       } catch (error) {
         console.error("LoRA training error:", error);
 
+        if (loraId && requestId) {
+          // FAL has the job — failing to record its request ID is no reason
+          // to refund it
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: `Training was submitted (request ${requestId}) but could not be recorded. Please contact support.`,
+          });
+        }
+
         // ── Auto-refund on FAL failure ────────────────────────────────
-        let refundTxHash: string | null = null;
+        const trainingMsg =
+          error instanceof Error ? error.message : "Unknown error";
+
+        if (loraId) {
+          try {
+            await failLoraSubmit(
+              loraId,
+              `Training submission failed: ${trainingMsg}`,
+            );
+          } catch (dbError) {
+            // The reconciler fails it once it has been submitting too long
+            console.error(`Failed to mark training ${loraId} failed:`, dbError);
+          }
+        }
+
+        let refund: RefundRecord | null = null;
         if (!exempt && paymentValue && input.paymentTxHash) {
           try {
             console.log(
-              `FAL failed — initiating refund of ${paymentValue} wei to ${walletAddress}`,
+              `FAL failed — queueing refund of payment ${input.paymentTxHash}`,
+            );
+            refund = await enqueueRefund(
+              input.paymentTxHash,
+              `Training submission failed: ${trainingMsg}`,
             );
-            refundTxHash = await sendRefund(walletAddress, paymentValue);
-            console.log(`Refund sent: ${refundTxHash}`);
+            // First attempt inline; the refund queue retries if this one fails
+            refund = await processRefund(refund.id);
           } catch (refundError) {
-            console.error("Refund failed:", refundError);
-            // Include refund failure info in the error message
-            const refundMsg =
-              refundError instanceof Error
-                ? refundError.message
-                : "Unknown refund error";
-            throw new TRPCError({
-              code: "INTERNAL_SERVER_ERROR",
-              message: `Training failed and refund also failed: ${refundMsg}. Original payment tx: ${input.paymentTxHash}. Please contact support.`,
-            });
+            console.error("Failed to queue refund:", refundError);
+            if (!refund) {
+              const refundMsg =
+                refundError instanceof Error
+                  ? refundError.message
+                  : "Unknown refund error";
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: `Training failed and the refund could not be queued: ${refundMsg}. Original payment tx: ${input.paymentTxHash}. Please contact support.`,
+              });
+            }
           }
         }
 
-        const trainingMsg =
-          error instanceof Error ? error.message : "Unknown error";
+        let refundMsg = "";
+        if (refund?.status === "sent" && refund.tx_hash && !refund.last_error) {
+          refundMsg = ` Your payment is being refunded (tx: ${refund.tx_hash}).`;
+        } else if (refund) {
+          refundMsg =
+            " A refund of your payment has been queued and will be retried automatically.";
+        }
+
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
-          message: refundTxHash
-            ? `Training failed. Your ETH has been refunded (tx: ${refundTxHash}). Error: ${trainingMsg}`
+          message: refund
+            ? `Training failed.${refundMsg} Error: ${trainingMsg}`
             : `LoRA training failed: ${trainingMsg}`,
         });
       }
     }),
 
+  /**
+   * Our own record of a training. The webhook keeps it current; without
+   * one configured, a pending row is checked against the FAL queue here
+   * and settled the same way the reconciler would.
+   */
+  getTrainingState: protectedProcedure
+    .input(z.object({ requestId: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const training = await requireOwnedTraining(
+        input.requestId,
+        ctx.session.user.walletAddress,
+      );
+
+      if (training.status === "pending" && !getFalWebhookUrl()) {
+        try {
+          ensureFalConfigured();
+          const outcome = await fetchTrainingOutcome(
+            input.requestId,
+            training.trainer,
+          );
+          await settleTraining(training.id, outcome);
+        } catch (error) {
+          // Transient — the row stays pending and the next poll retries
+          console.error("Training state check error:", error);
+        }
+      }
+
+      const row = await getDb()
+        .selectFrom("lora_trainings")
+        .select(["id", "status", "error_message", "lora_weights_url"])
+        .where("id", "=", training.id)
+        .executeTakeFirstOrThrow();
+
+      return {
+        loraId: row.id,
+        status: row.status,
+        errorMessage: row.error_message,
+        loraWeightsUrl: row.lora_weights_url,
+      };
+    }),
+
+  /**
+   * Live status, queue position and log lines for a training, ending with
+   * the settled row. Served over SSE; reconnecting replays a snapshot.
+   */
+  watchTraining: protectedProcedure
+    .input(z.object({ requestId: z.string() }))
+    .subscription(async function* ({ input, ctx, signal }) {
+      const training = await requireOwnedTraining(
+        input.requestId,
+        ctx.session.user.walletAddress,
+      );
+      yield* watchTraining(
+        {
+          requestId: input.requestId,
+          loraTrainingId: training.id,
+          trainer: training.trainer,
+        },
+        signal,
+      );
+    }),
+
   getTrainingStatus: protectedProcedure
     .input(z.object({ requestId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      const training = await requireOwnedTraining(
+        input.requestId,
+        ctx.session.user.walletAddress,
+      );
+
       try {
         ensureFalConfigured();
 
         const status = await fal.queue.status(
-          "fal-ai/flux-lora-fast-training",
+          trainerEndpoint(training.trainer),
           {
             requestId: input.requestId,
             logs: true,
@@ -537,20 +1037,91 @@ export const falRouter = router({
       }
     }),
 
+  /**
+   * Cancel a pending training and record it as `cancelled`.
+   *
+   * Refund policy: a run cancelled while still waiting in the FAL queue has
+   * used no compute and its payment is refunded in full. Once training has
+   * started the payment is kept.
+   */
   cancelTraining: protectedProcedure
     .input(z.object({ requestId: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
+      const training = await requireOwnedTraining(
+        input.requestId,
+        ctx.session.user.walletAddress,
+      );
+
+      if (training.status === "cancelled") {
+        return { success: true, refundStatus: null, refundTxHash: null };
+      }
+      if (training.status !== "pending") {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Training has already ${training.status}.`,
+        });
+      }
+
+      const endpoint = trainerEndpoint(training.trainer);
+      let startedTraining: boolean;
       try {
         ensureFalConfigured();
 
-        await fal.queue.cancel("fal-ai/flux-lora-fast-training", {
+        const status = await fal.queue.status(endpoint, {
           requestId: input.requestId,
+          logs: false,
         });
+        if (status.status === "COMPLETED") {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Training has already finished.",
+          });
+        }
+        startedTraining = status.status !== "IN_QUEUE";
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        console.error("Cancel training error:", error);
+        throw new Error(
+          `Failed to cancel training: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`,
+        );
+      }
 
-        console.log(`Training cancelled: ${input.requestId}`);
+      // Record the cancellation before asking FAL, so the ERROR it reports
+      // for the request finds the row no longer pending and is not settled
+      // (and refunded) as a failure. Only a pending row is updated, so a
+      // settle that won the race is never overwritten.
+      const updated = await getDb()
+        .updateTable("lora_trainings")
+        .set({
+          status: "cancelled",
+          error_message: startedTraining
+            ? "Cancelled by owner during training"
+            : "Cancelled by owner before training started",
+        })
+        .where("id", "=", training.id)
+        .where("status", "=", "pending")
+        .executeTakeFirst();
+      if (Number(updated.numUpdatedRows) === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Training has already finished.",
+        });
+      }
 
-        return { success: true };
+      try {
+        await fal.queue.cancel(endpoint, {
+          requestId: input.requestId,
+        });
       } catch (error) {
+        // Still running on FAL — back to pending for the webhook or reconciler
+        await getDb()
+          .updateTable("lora_trainings")
+          .set({ status: "pending", error_message: null })
+          .where("id", "=", training.id)
+          .where("status", "=", "cancelled")
+          .execute();
         console.error("Cancel training error:", error);
         throw new Error(
           `Failed to cancel training: ${
@@ -558,16 +1129,48 @@ export const falRouter = router({
           }`,
         );
       }
+
+      console.log(
+        `Training cancelled: ${input.requestId} (id: ${training.id}, started: ${startedTraining})`,
+      );
+
+      let refund: RefundRecord | null = null;
+      if (!startedTraining) {
+        try {
+          refund = await enqueueRefundForTraining(
+            training.id,
+            "Training cancelled before it started",
+          );
+          // First attempt inline; the refund queue retries if this one fails
+          if (refund) refund = await processRefund(refund.id);
+        } catch (refundError) {
+          console.error(
+            `Failed to refund cancelled training ${training.id}:`,
+            refundError,
+          );
+        }
+      }
+
+      return {
+        success: true,
+        refundStatus: refund?.status ?? null,
+        refundTxHash: refund?.tx_hash ?? null,
+      };
     }),
 
   getTrainingResult: protectedProcedure
     .input(z.object({ requestId: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      const training = await requireOwnedTraining(
+        input.requestId,
+        ctx.session.user.walletAddress,
+      );
+
       try {
         ensureFalConfigured();
 
         const result = await fal.queue.result(
-          "fal-ai/flux-lora-fast-training",
+          trainerEndpoint(training.trainer),
           {
             requestId: input.requestId,
           },
@@ -1,179 +1,308 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { publicProcedure, protectedProcedure, router } from "../trpc";
-import { getDb, ensureLoraTable, ensureGeneratedImagesTable } from "../db";
-import { requireFalApiKey } from "../env";
+import {
+  publicProcedure,
+  protectedProcedure,
+  isAdminWallet,
+  rateLimit,
+  router,
+} from "../trpc";
+import { getDb } from "../db";
+import { getFalWebhookUrl, requireFalApiKey } from "../env";
 import { fal } from "@fal-ai/client";
 import { isPaymentExempt } from "./payment";
-import crypto from "node:crypto";
-
-function generateId(): string {
-  return crypto.randomBytes(16).toString("hex");
-}
-
+import {
+  buildGenerationRequest,
+  describeGenerationOptions,
+  GENERATION_LIMITS,
+  generationParamsSchema,
+  type GenerationParams,
+  renderPrompt,
+} from "./generation-params";
+import {
+  ACTIVE_JOB_STATUSES,
+  createGenerationJob,
+  describeGenerationJobs,
+  failGenerationSubmit,
+  getGenerationJob,
+  IN_FLIGHT_JOB_STATUSES,
+  markGenerationJobSubmitted,
+  refreshGenerationJob,
+} from "./generation-jobs";
+import {
+  resolveGenerationSource,
+  uploadImageDataUrl,
+} from "./generation-source";
 function ensureFalConfigured() {
   const key = requireFalApiKey();
   fal.config({ credentials: key });
 }
 
+/**
+ * The requested LoRAs in order, with trigger words and weights. Throws if
+ * any is missing or has not finished training.
+ */
+async function loadCompositionLoras(loras: GenerationParams["loras"]) {
+  const rows = await getDb()
+    .selectFrom("lora_trainings")
+    .select(["id", "trigger_word", "lora_weights_url", "status"])
+    .where("id", "in", loras.map((lora) => lora.loraTrainingId))
+    .execute();
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  return loras.map(({ loraTrainingId, scale }) => {
+    const lora = byId.get(loraTrainingId);
+    if (!lora) {
+      throw new TRPCError({
+        code: "NOT_FOUND",
+        message: "LoRA not found.",
+      });
+    }
+    if (lora.status !== "completed" || !lora.lora_weights_url) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `LoRA "${lora.trigger_word}" is not ready for generation. Training must be completed first.`,
+      });
+    }
+    return {
+      id: lora.id,
+      triggerWord: lora.trigger_word,
+      weightsUrl: lora.lora_weights_url,
+      scale,
+    };
+  });
+}
+
+/** The LoRA mix behind each image, in request order */
+async function getImageLoras(imageIds: string[]) {
+  const byImage = new Map<
+    string,
+    { loraTrainingId: string; triggerWord: string; scale: number }[]
+  >();
+  if (imageIds.length === 0) return byImage;
+
+  const rows = await getDb()
+    .selectFrom("generated_image_loras")
+    .innerJoin(
+      "lora_trainings",
+      "lora_trainings.id",
+      "generated_image_loras.lora_training_id",
+    )
+    .select([
+      "generated_image_loras.generated_image_id",
+      "generated_image_loras.lora_training_id",
+      "generated_image_loras.scale",
+      "lora_trainings.trigger_word",
+    ])
+    .where("generated_image_loras.generated_image_id", "in", imageIds)
+    .orderBy("generated_image_loras.position")
+    .execute();
+
+  for (const row of rows) {
+    const loras = byImage.get(row.generated_image_id) ?? [];
+    loras.push({
+      loraTrainingId: row.lora_training_id,
+      triggerWord: row.trigger_word,
+      scale: row.scale,
+    });
+    byImage.set(row.generated_image_id, loras);
+  }
+  return byImage;
+}
+
 const RATE_LIMIT_BATCHES = 8;
-const IMAGES_PER_BATCH = 4;
+const IMAGES_PER_BATCH = GENERATION_LIMITS.numImages.max;
 const RATE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000; // 24 hours
+const JOB_LIST_LIMIT = 10;
+
+function windowStart(): string {
+  return new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+}
+
+/**
+ * Batches used in the rate limit window. Images still being generated
+ * count too, so a burst of queued jobs can't get past the limit.
+ */
+async function countRecentBatches(walletAddress: string): Promise<number> {
+  const db = getDb();
+  const since = windowStart();
+
+  const images = await db
+    .selectFrom("generated_images")
+    .select(db.fn.countAll().as("count"))
+    .where("wallet_address", "=", walletAddress)
+    .where("created_at", ">", since)
+    .executeTakeFirst();
+  const inFlight = await db
+    .selectFrom("generation_jobs")
+    .select(db.fn.sum("num_images").as("count"))
+    .where("wallet_address", "=", walletAddress)
+    .where("status", "in", IN_FLIGHT_JOB_STATUSES)
+    .where("created_at", ">", since)
+    .executeTakeFirst();
+
+  const imageCount = Number(images?.count ?? 0) + Number(inFlight?.count ?? 0);
+  return Math.ceil(imageCount / IMAGES_PER_BATCH);
+}
+
+async function requireOwnedJob(jobId: string, walletAddress: string) {
+  const job = await getGenerationJob(jobId);
+  if (!job) {
+    throw new TRPCError({
+      code: "NOT_FOUND",
+      message: "Generation not found.",
+    });
+  }
+  if (
+    job.wallet_address.toLowerCase() !== walletAddress.toLowerCase() &&
+    !isAdminWallet(walletAddress)
+  ) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: "You are not the owner of this generation.",
+    });
+  }
+  return job;
+}
 
 export const generateRouter = router({
+  /** Sizes, bounds and defaults for the generate form */
+  options: publicProcedure.query(() => describeGenerationOptions()),
+
   images: protectedProcedure
-    .input(
-      z.object({
-        loraTrainingId: z.string().min(1),
-        prompt: z.string().min(1).max(500),
-      }),
-    )
-    .mutation(async ({ input, ctx }) => {
+    .use(rateLimit("generate.images"))
+    .input(generationParamsSchema)
+    .mutation(async ({ input: params, ctx }) => {
       const walletAddress = ctx.session.user.walletAddress;
+      const loras = await loadCompositionLoras(params.loras);
 
-      // Look up the LoRA training record
-      await ensureLoraTable();
-      const db = getDb();
-      const lora = await db
-        .selectFrom("lora_trainings")
-        .select(["id", "trigger_word", "lora_weights_url", "status"])
-        .where("id", "=", input.loraTrainingId)
-        .executeTakeFirst();
-
-      if (!lora) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "LoRA not found.",
-        });
-      }
-
-      if (lora.status !== "completed" || !lora.lora_weights_url) {
+      // Check rate limit (admin/QA exempt)
+      if (
+        !isPaymentExempt(walletAddress) &&
+        (await countRecentBatches(walletAddress)) >= RATE_LIMIT_BATCHES
+      ) {
         throw new TRPCError({
-          code: "BAD_REQUEST",
-          message: "This LoRA is not ready for generation. Training must be completed first.",
+          code: "FORBIDDEN",
+          message: `Rate limit reached. You can generate up to ${RATE_LIMIT_BATCHES} batches per 24 hours. Try again later.`,
         });
       }
 
-      // Check rate limit (admin/QA exempt)
-      await ensureGeneratedImagesTable();
-      const exempt = isPaymentExempt(walletAddress);
-
-      if (!exempt) {
-        const windowStart = new Date(
-          Date.now() - RATE_LIMIT_WINDOW_MS,
-        ).toISOString();
-
-        const countResult = await db
-          .selectFrom("generated_images")
-          .select(db.fn.countAll().as("count"))
-          .where("wallet_address", "=", walletAddress)
-          .where("created_at", ">", windowStart)
-          .executeTakeFirst();
-
-        const imageCount = Number(countResult?.count ?? 0);
-        const batchCount = Math.ceil(imageCount / IMAGES_PER_BATCH);
-
-        if (batchCount >= RATE_LIMIT_BATCHES) {
-          throw new TRPCError({
-            code: "FORBIDDEN",
-            message: `Rate limit reached. You can generate up to ${RATE_LIMIT_BATCHES} batches per 24 hours. Try again later.`,
-          });
-        }
-      }
-
-      // Build full prompt with trigger word
-      const fullPrompt = `${input.prompt} in the style of ${lora.trigger_word}`;
+      const fullPrompt = renderPrompt(
+        params.prompt,
+        loras.map((lora) => lora.triggerWord),
+      );
 
-      // Call fal.ai
+      // Image modes start from a source image (and mask) FAL can fetch
       ensureFalConfigured();
-
-      let result: {
-        images: { url: string; width?: number; height?: number; content_type?: string }[];
-        seed?: number;
-        has_nsfw_concepts?: boolean[];
-      };
-
+      const source = params.source
+        ? await resolveGenerationSource(params.source)
+        : null;
+      const maskUrl =
+        params.mode === "inpaint" && params.mask
+          ? await uploadImageDataUrl(params.mask, "mask")
+          : null;
+      const request = buildGenerationRequest(
+        params,
+        fullPrompt,
+        loras.map((lora) => ({ path: lora.weightsUrl, scale: lora.scale })),
+        { sourceUrl: source?.imageUrl ?? null, maskUrl },
+      );
+
+      // Record the job before submitting: it holds its share of the daily
+      // limit from the start, and a webhook can only race the request ID
+      const { source: _source, mask: _mask, loras: _loras, ...settings } =
+        params;
+      const pending = await createGenerationJob({
+        walletAddress,
+        endpoint: request.endpoint,
+        record: {
+          prompt: params.prompt,
+          fullPrompt,
+          settings,
+          loras: loras.map(({ id, triggerWord, scale }) => ({
+            loraTrainingId: id,
+            triggerWord,
+            scale,
+          })),
+          source,
+          maskUrl,
+        },
+      });
+
+      // Queue the request rather than wait on it; the webhook, the job
+      // queries or the reconciler save its images once FAL is done
+      let requestId: string;
       try {
-        const response = await fal.subscribe("fal-ai/flux-lora", {
-          input: {
-            prompt: fullPrompt,
-            loras: [{ path: lora.lora_weights_url, scale: 1.5 }],
-            image_size: "square_hd",
-            num_inference_steps: 28,
-            guidance_scale: 3.5,
-            num_images: IMAGES_PER_BATCH,
-            enable_safety_checker: true,
-            output_format: "jpeg",
-          },
+        const webhookUrl = getFalWebhookUrl();
+        const submitted = await fal.queue.submit(request.endpoint, {
+          input: request.input,
+          ...(webhookUrl && { webhookUrl }),
         });
-        result = response.data as typeof result;
+        requestId = submitted.request_id;
       } catch (error) {
         const msg = error instanceof Error ? error.message : "Unknown error";
         console.error("Image generation error:", error);
+        await failGenerationSubmit(pending.id, msg);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
           message: `Image generation failed: ${msg}`,
         });
       }
 
-      if (!result.images || result.images.length === 0) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "No images were generated. The safety checker may have filtered all results.",
-        });
-      }
+      const job = await markGenerationJobSubmitted(pending.id, requestId);
+      console.log(`Generation submitted to ${request.endpoint}: ${requestId}`);
 
-      // Save generated images to DB
-      const now = new Date().toISOString();
-      const savedImages: {
-        id: string;
-        imageUrl: string;
-        width: number | null;
-        height: number | null;
-        seed: string | null;
-      }[] = [];
-
-      for (const image of result.images) {
-        const id = generateId();
-        await db
-          .insertInto("generated_images")
-          .values({
-            id,
-            lora_training_id: input.loraTrainingId,
-            wallet_address: walletAddress,
-            prompt: input.prompt,
-            image_url: image.url,
-            image_width: image.width ?? null,
-            image_height: image.height ?? null,
-            seed: result.seed != null ? String(result.seed) : null,
-            created_at: now,
-          })
-          .execute();
+      const [described] = await describeGenerationJobs([job]);
+      return described;
+    }),
 
-        savedImages.push({
-          id,
-          imageUrl: image.url,
-          width: image.width ?? null,
-          height: image.height ?? null,
-          seed: result.seed != null ? String(result.seed) : null,
-        });
-      }
+  /** A generation job of the caller's, checked against FAL if in flight */
+  job: protectedProcedure
+    .input(z.object({ jobId: z.string().min(1) }))
+    .query(async ({ input, ctx }) => {
+      const job = await requireOwnedJob(
+        input.jobId,
+        ctx.session.user.walletAddress,
+      );
+      await refreshGenerationJob(job);
+      const [described] = await describeGenerationJobs([
+        (await getGenerationJob(job.id))!,
+      ]);
+      return described;
+    }),
+
+  /**
+   * The caller's generations on a LoRA from the last 24 hours, newest
+   * first — what the generate modal shows, whether or not it stayed open.
+   */
+  jobs: protectedProcedure
+    .input(z.object({ loraTrainingId: z.string().min(1) }))
+    .query(async ({ input, ctx }) => {
+      const listJobs = () =>
+        getDb()
+          .selectFrom("generation_jobs")
+          .selectAll()
+          .where("wallet_address", "=", ctx.session.user.walletAddress)
+          .where("lora_training_id", "=", input.loraTrainingId)
+          .where("created_at", ">", windowStart())
+          .orderBy("created_at", "desc")
+          .limit(JOB_LIST_LIMIT)
+          .execute();
 
-      const nsfwFiltered =
-        result.has_nsfw_concepts?.some(Boolean) === true;
+      const jobs = await listJobs();
+      const inFlight = jobs.filter((job) =>
+        ACTIVE_JOB_STATUSES.includes(job.status),
+      );
+      if (inFlight.length === 0) return describeGenerationJobs(jobs);
 
-      return {
-        images: savedImages,
-        prompt: input.prompt,
-        nsfwFiltered,
-        totalGenerated: result.images.length,
-      };
+      for (const job of inFlight) await refreshGenerationJob(job);
+      return describeGenerationJobs(await listJobs());
     }),
 
+  /** Images made with a LoRA, on its own or mixed with others */
   listByLora: publicProcedure
     .input(z.object({ loraTrainingId: z.string().min(1) }))
     .query(async ({ input }) => {
-      await ensureGeneratedImagesTable();
       const db = getDb();
 
       const rows = await db
@@ -186,12 +315,32 @@ export const generateRouter = router({
           "image_width",
           "image_height",
           "seed",
+          "full_prompt",
+          "image_size",
+          "num_inference_steps",
+          "guidance_scale",
+          "num_images",
+          "mode",
+          "source_kind",
+          "source_image_url",
+          "source_generated_image_id",
+          "mask_url",
+          "strength",
           "created_at",
         ])
-        .where("lora_training_id", "=", input.loraTrainingId)
+        .where(
+          "id",
+          "in",
+          db
+            .selectFrom("generated_image_loras")
+            .select("generated_image_id")
+            .where("lora_training_id", "=", input.loraTrainingId),
+        )
         .orderBy("created_at", "desc")
         .execute();
 
+      const lorasByImage = await getImageLoras(rows.map((row) => row.id));
+
       return rows.map((row) => ({
         id: row.id,
         walletAddress: row.wallet_address,
@@ -200,6 +349,23 @@ export const generateRouter = router({
         width: row.image_width,
         height: row.image_height,
         seed: row.seed,
+        fullPrompt: row.full_prompt,
+        imageSize: row.image_size,
+        steps: row.num_inference_steps,
+        guidanceScale: row.guidance_scale,
+        numImages: row.num_images,
+        loras: lorasByImage.get(row.id) ?? [],
+        mode: row.mode,
+        strength: row.strength,
+        source:
+          row.source_kind && row.source_image_url
+            ? {
+                kind: row.source_kind,
+                imageUrl: row.source_image_url,
+                generatedImageId: row.source_generated_image_id,
+              }
+            : null,
+        maskUrl: row.mask_url,
         createdAt: row.created_at,
       }));
     }),
@@ -212,22 +378,7 @@ export const generateRouter = router({
       return { remaining: RATE_LIMIT_BATCHES, limit: RATE_LIMIT_BATCHES, isExempt: true };
     }
 
-    await ensureGeneratedImagesTable();
-    const db = getDb();
-
-    const windowStart = new Date(
-      Date.now() - RATE_LIMIT_WINDOW_MS,
-    ).toISOString();
-
-    const countResult = await db
-      .selectFrom("generated_images")
-      .select(db.fn.countAll().as("count"))
-      .where("wallet_address", "=", walletAddress)
-      .where("created_at", ">", windowStart)
-      .executeTakeFirst();
-
-    const imageCount = Number(countResult?.count ?? 0);
-    const batchCount = Math.ceil(imageCount / IMAGES_PER_BATCH);
+    const batchCount = await countRecentBatches(walletAddress);
     const remaining = Math.max(0, RATE_LIMIT_BATCHES - batchCount);
 
     return { remaining, limit: RATE_LIMIT_BATCHES, isExempt: false };
@@ -0,0 +1,440 @@
+import crypto from "node:crypto";
+import { fal, ApiError } from "@fal-ai/client";
+import type { Kysely } from "kysely";
+import {
+  getDb,
+  type Database,
+  type GenerationJobStatus,
+  type GenerationJobsTable,
+} from "../db";
+import { getFalWebhookUrl } from "../env";
+import { ensureFalConfigured } from "./fal";
+import type { GenerationParams } from "./generation-params";
+import type { ResolvedSource } from "./generation-source";
+import { errorMessage } from "./reconcile";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type GenerationJob = GenerationJobsTable;
+
+/** Everything a job's images are saved with, fixed when it is submitted */
+export interface GenerationRecord {
+  prompt: string;
+  /** Prompt as sent to FAL, trigger words included */
+  fullPrompt: string;
+  settings: Omit<GenerationParams, "loras" | "source" | "mask">;
+  loras: { loraTrainingId: string; triggerWord: string; scale: number }[];
+  /** Uploads are recorded as their FAL storage URLs */
+  source: ResolvedSource | null;
+  maskUrl: string | null;
+}
+
+/** What the flux-lora endpoints return */
+export interface GenerationResult {
+  images?: {
+    url: string;
+    width?: number;
+    height?: number;
+    content_type?: string;
+  }[];
+  seed?: number;
+  has_nsfw_concepts?: boolean[];
+}
+
+export type GenerationOutcome =
+  | { status: "queued" }
+  | { status: "running" }
+  | { status: "completed"; result: GenerationResult }
+  | { status: "failed"; error: string };
+
+export interface GenerationReconcileSummary {
+  checked: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  errors: number;
+}
+
+/** Jobs FAL has not finished with yet */
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ["queued", "running"];
+
+/** Jobs that have not settled, including ones still being submitted */
+export const IN_FLIGHT_JOB_STATUSES: GenerationJobStatus[] = [
+  "submitting",
+  ...ACTIVE_JOB_STATUSES,
+];
+
+/** A job still "submitting" after this long never got its request ID */
+export const SUBMIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const NO_IMAGES_ERROR =
+  "No images were generated. The safety checker may have filtered all results.";
+
+function generateId(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+// ─── Jobs ────────────────────────────────────────────────────────────────────
+
+/**
+ * Record a generation before it is submitted, so its images count against
+ * the daily limit from the start. `markGenerationJobSubmitted` fills in the
+ * request ID once FAL has it.
+ */
+export async function createGenerationJob(params: {
+  walletAddress: string;
+  endpoint: string;
+  record: GenerationRecord;
+}): Promise<GenerationJob> {
+  const id = generateId();
+  const job: GenerationJob = {
+    id,
+    request_id: id,
+    wallet_address: params.walletAddress,
+    lora_training_id: params.record.loras[0].loraTrainingId,
+    endpoint: params.endpoint,
+    status: "submitting",
+    params: JSON.stringify(params.record),
+    num_images: params.record.settings.numImages,
+    nsfw_filtered: 0,
+    error_message: null,
+    created_at: new Date().toISOString(),
+    completed_at: null,
+  };
+  await getDb().insertInto("generation_jobs").values(job).execute();
+  return job;
+}
+
+/** Attach the FAL request ID to a submitted job and queue it */
+export async function markGenerationJobSubmitted(
+  id: string,
+  requestId: string,
+): Promise<GenerationJob> {
+  return getDb()
+    .updateTable("generation_jobs")
+    .set({ request_id: requestId, status: "queued" })
+    .where("id", "=", id)
+    .where("status", "=", "submitting")
+    .returningAll()
+    .executeTakeFirstOrThrow();
+}
+
+/** Fail a job whose submission to FAL did not go through */
+export async function failGenerationSubmit(
+  id: string,
+  error: string,
+): Promise<void> {
+  await getDb()
+    .updateTable("generation_jobs")
+    .set({
+      status: "failed",
+      error_message: error,
+      completed_at: new Date().toISOString(),
+    })
+    .where("id", "=", id)
+    .where("status", "=", "submitting")
+    .execute();
+}
+
+export async function getGenerationJob(
+  id: string,
+): Promise<GenerationJob | undefined> {
+  return getDb()
+    .selectFrom("generation_jobs")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+}
+
+/**
+ * Ask FAL where a generation request stands. Throws on transient failures
+ * (network, 5xx) so the job stays in flight and is checked again later.
+ */
+export async function fetchGenerationOutcome(
+  requestId: string,
+  endpoint: string,
+): Promise<GenerationOutcome> {
+  let status;
+  try {
+    status = await fal.queue.status(endpoint, { requestId, logs: false });
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      return { status: "failed", error: "Request not found on FAL" };
+    }
+    throw error;
+  }
+
+  if (status.status === "IN_QUEUE") return { status: "queued" };
+  if (status.status === "IN_PROGRESS") return { status: "running" };
+
+  try {
+    const result = await fal.queue.result(endpoint, { requestId });
+    return { status: "completed", result: result.data as GenerationResult };
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status >= 500) {
+      throw error;
+    }
+    return { status: "failed", error: errorMessage(error) };
+  }
+}
+
+async function saveGeneratedImages(
+  db: Kysely<Database>,
+  job: GenerationJob,
+  images: NonNullable<GenerationResult["images"]>,
+  seed: number | undefined,
+  createdAt: string,
+): Promise<void> {
+  const record = JSON.parse(job.params) as GenerationRecord;
+  const { settings, loras, source } = record;
+
+  for (const image of images) {
+    const id = generateId();
+    await db
+      .insertInto("generated_images")
+      .values({
+        id,
+        lora_training_id: loras[0].loraTrainingId,
+        wallet_address: job.wallet_address,
+        prompt: record.prompt,
+        image_url: image.url,
+        image_width: image.width ?? null,
+        image_height: image.height ?? null,
+        seed: seed != null ? String(seed) : null,
+        full_prompt: record.fullPrompt,
+        image_size: settings.mode === "text" ? settings.imageSize : null,
+        num_inference_steps: settings.steps,
+        guidance_scale: settings.guidanceScale,
+        lora_scale: loras[0].scale,
+        num_images: settings.numImages,
+        mode: settings.mode,
+        source_kind: source?.kind ?? null,
+        source_image_url: source?.imageUrl ?? null,
+        source_generated_image_id: source?.generatedImageId ?? null,
+        mask_url: record.maskUrl,
+        strength: settings.mode === "text" ? null : settings.strength,
+        generation_job_id: job.id,
+        created_at: createdAt,
+      })
+      .execute();
+    await db
+      .insertInto("generated_image_loras")
+      .values(
+        loras.map((lora, position) => ({
+          generated_image_id: id,
+          position,
+          lora_training_id: lora.loraTrainingId,
+          scale: lora.scale,
+        })),
+      )
+      .execute();
+  }
+}
+
+/**
+ * Apply an outcome to an in-flight job. A finished one is claimed and its
+ * images saved in one transaction, so a webhook and a poll arriving
+ * together save them once and a failed insert leaves the job to retry.
+ * Returns whether the job was settled by this call.
+ */
+export async function settleGenerationJob(
+  job: GenerationJob,
+  outcome: GenerationOutcome,
+): Promise<boolean> {
+  const db = getDb();
+
+  if (outcome.status === "queued") return false;
+  if (outcome.status === "running") {
+    await db
+      .updateTable("generation_jobs")
+      .set({ status: "running" })
+      .where("id", "=", job.id)
+      .where("status", "=", "queued")
+      .execute();
+    return false;
+  }
+
+  const result = outcome.status === "completed" ? outcome.result : {};
+  const images = result.images ?? [];
+  const error =
+    outcome.status === "failed"
+      ? outcome.error
+      : images.length === 0
+        ? NO_IMAGES_ERROR
+        : null;
+  const now = new Date().toISOString();
+
+  // Images keep FAL's URLs until the rehost backfill copies them
+  return db.transaction().execute(async (trx) => {
+    const claimed = await trx
+      .updateTable("generation_jobs")
+      .set({
+        status: error ? "failed" : "completed",
+        error_message: error,
+        nsfw_filtered: result.has_nsfw_concepts?.some(Boolean) ? 1 : 0,
+        completed_at: now,
+      })
+      .where("id", "=", job.id)
+      .where("status", "in", ACTIVE_JOB_STATUSES)
+      .executeTakeFirst();
+    if (Number(claimed.numUpdatedRows) === 0) return false;
+    if (!error) await saveGeneratedImages(trx, job, images, result.seed, now);
+    return true;
+  });
+}
+
+/**
+ * Bring an in-flight job up to date from the FAL queue. With a webhook
+ * configured FAL reports the outcome itself, so this does nothing.
+ */
+export async function refreshGenerationJob(job: GenerationJob): Promise<void> {
+  if (!ACTIVE_JOB_STATUSES.includes(job.status) || getFalWebhookUrl()) return;
+  try {
+    ensureFalConfigured();
+    await settleGenerationJob(
+      job,
+      await fetchGenerationOutcome(job.request_id, job.endpoint),
+    );
+  } catch (error) {
+    // Transient — the job stays in flight and the next check retries
+    console.error(`[generation] Failed to check ${job.request_id}:`, error);
+  }
+}
+
+// ─── Serializing ─────────────────────────────────────────────────────────────
+
+/** Jobs as the client sees them, with the images of finished ones */
+export async function describeGenerationJobs(jobs: GenerationJob[]) {
+  const imagesByJob = new Map<
+    string,
+    {
+      id: string;
+      imageUrl: string;
+      width: number | null;
+      height: number | null;
+      seed: string | null;
+    }[]
+  >();
+  const finished = jobs
+    .filter((job) => job.status === "completed")
+    .map((job) => job.id);
+
+  if (finished.length > 0) {
+    const rows = await getDb()
+      .selectFrom("generated_images")
+      .select([
+        "id",
+        "generation_job_id",
+        "image_url",
+        "image_width",
+        "image_height",
+        "seed",
+      ])
+      .where("generation_job_id", "in", finished)
+      .execute();
+    for (const row of rows) {
+      const images = imagesByJob.get(row.generation_job_id!) ?? [];
+      images.push({
+        id: row.id,
+        imageUrl: row.image_url,
+        width: row.image_width,
+        height: row.image_height,
+        seed: row.seed,
+      });
+      imagesByJob.set(row.generation_job_id!, images);
+    }
+  }
+
+  return jobs.map((job) => {
+    const { prompt, fullPrompt, settings, loras, source, maskUrl } =
+      JSON.parse(job.params) as GenerationRecord;
+    const images = imagesByJob.get(job.id) ?? [];
+    const seed = images[0]?.seed;
+    return {
+      id: job.id,
+      status: job.status,
+      prompt,
+      fullPrompt,
+      params: {
+        ...settings,
+        // The seed FAL used once there are images to show for it
+        seed: seed != null ? Number(seed) : (settings.seed ?? null),
+        source,
+        maskUrl,
+      },
+      loras,
+      images,
+      nsfwFiltered: job.nsfw_filtered === 1,
+      errorMessage: job.error_message,
+      createdAt: job.created_at,
+      completedAt: job.completed_at,
+    };
+  });
+}
+
+// ─── Reconciler ──────────────────────────────────────────────────────────────
+
+/**
+ * Walk in-flight generation jobs (oldest first) and settle the ones FAL
+ * has finished, for jobs nobody is watching and webhooks that never came.
+ * Jobs stuck "submitting" never got a request ID to check and are failed.
+ */
+export async function reconcileGenerationJobs(
+  options: { limit?: number; dryRun?: boolean } = {},
+): Promise<GenerationReconcileSummary> {
+  const { limit = 50, dryRun = false } = options;
+
+  ensureFalConfigured();
+  const db = getDb();
+  const jobs = await db
+    .selectFrom("generation_jobs")
+    .selectAll()
+    .where("status", "in", ACTIVE_JOB_STATUSES)
+    .orderBy("created_at", "asc")
+    .limit(limit)
+    .execute();
+  const abandoned = await db
+    .selectFrom("generation_jobs")
+    .select("id")
+    .where("status", "=", "submitting")
+    .where(
+      "created_at",
+      "<",
+      new Date(Date.now() - SUBMIT_TIMEOUT_MS).toISOString(),
+    )
+    .execute();
+
+  const summary: GenerationReconcileSummary = {
+    checked: jobs.length + abandoned.length,
+    completed: 0,
+    failed: abandoned.length,
+    pending: 0,
+    errors: 0,
+  };
+
+  for (const { id } of abandoned) {
+    if (!dryRun) {
+      await failGenerationSubmit(id, "Submission to FAL did not complete");
+    }
+    console.log(`[reconcile] generation ${id} never submitted → failed`);
+  }
+
+  // Sequential on purpose — keeps us well under FAL's queue API rate limits
+  for (const job of jobs) {
+    try {
+      const outcome = await fetchGenerationOutcome(job.request_id, job.endpoint);
+      if (!dryRun) await settleGenerationJob(job, outcome);
+      if (outcome.status === "completed") summary.completed++;
+      else if (outcome.status === "failed") summary.failed++;
+      else summary.pending++;
+      console.log(
+        `[reconcile] generation ${job.request_id} (id: ${job.id}) → ${outcome.status}`,
+      );
+    } catch (error) {
+      summary.errors++;
+      console.error(`[reconcile] Failed to check ${job.request_id}:`, error);
+    }
+  }
+
+  return summary;
+}
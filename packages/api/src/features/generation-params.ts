@@ -0,0 +1,210 @@
+import { z } from "zod";
+
+// ─── Options ─────────────────────────────────────────────────────────────────
+
+/** FAL's named output sizes, by aspect ratio */
+export const IMAGE_SIZE_PRESETS = [
+  { id: "square_hd", label: "Square HD (1:1)", width: 1024, height: 1024 },
+  { id: "square", label: "Square (1:1)", width: 512, height: 512 },
+  { id: "portrait_4_3", label: "Portrait (3:4)", width: 768, height: 1024 },
+  { id: "portrait_16_9", label: "Portrait (9:16)", width: 576, height: 1024 },
+  { id: "landscape_4_3", label: "Landscape (4:3)", width: 1024, height: 768 },
+  { id: "landscape_16_9", label: "Landscape (16:9)", width: 1024, height: 576 },
+] as const;
+
+export type ImageSizePreset = (typeof IMAGE_SIZE_PRESETS)[number]["id"];
+
+const IMAGE_SIZE_IDS = IMAGE_SIZE_PRESETS.map((preset) => preset.id) as [
+  ImageSizePreset,
+  ...ImageSizePreset[],
+];
+
+/** Bounds and defaults of each numeric setting; the defaults are the old fixed values */
+export const GENERATION_LIMITS = {
+  steps: { min: 1, max: 50, step: 1, default: 28 },
+  guidanceScale: { min: 1, max: 20, step: 0.5, default: 3.5 },
+  loraScale: { min: 0, max: 4, step: 0.05, default: 1.5 },
+  numImages: { min: 1, max: 4, step: 1, default: 4 },
+  /** How far image-to-image and inpainting may move from the source */
+  strength: { min: 0.05, max: 1, step: 0.05, default: 0.85 },
+} as const;
+
+/** Text-to-image, image-to-image, or repainting the masked part of an image */
+export const GENERATION_MODES = ["text", "image", "inpaint"] as const;
+
+export type GenerationMode = (typeof GENERATION_MODES)[number];
+
+/** Largest source image or mask accepted as an upload, decoded */
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+
+const MAX_DATA_URL_LENGTH = Math.ceil((MAX_UPLOAD_BYTES * 4) / 3) + 100;
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+/** Most LoRAs one generation can combine */
+export const MAX_LORAS = 3;
+
+/** Where the trigger words go in a prompt template */
+export const TRIGGER_PLACEHOLDER = "{trigger}";
+
+const MAX_PROMPT_LENGTH = 500;
+
+// ─── Schema ──────────────────────────────────────────────────────────────────
+
+function bounded(
+  limits: { min: number; max: number; default: number },
+  int = false,
+) {
+  const number = int ? z.number().int() : z.number();
+  return number.min(limits.min).max(limits.max).default(limits.default);
+}
+
+/** One LoRA in a composition and how strongly it is applied */
+export const loraWeightSchema = z.object({
+  loraTrainingId: z.string().min(1),
+  scale: bounded(GENERATION_LIMITS.loraScale),
+});
+
+/** `data:image/…;base64,…` as read from a canvas or file input */
+const imageDataUrlSchema = z
+  .string()
+  .max(MAX_DATA_URL_LENGTH, { message: "Image is larger than 4 MB." })
+  .regex(/^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/, {
+    message: "Expected a PNG, JPEG or WebP image.",
+  });
+
+/** Image that image-to-image and inpainting start from */
+export const generationSourceSchema = z.discriminatedUnion("kind", [
+  // An are.na block's image, e.g. one of the LoRA's training images
+  z.object({ kind: z.literal("arena"), url: z.string().url() }),
+  // An earlier generation
+  z.object({
+    kind: z.literal("generated"),
+    generatedImageId: z.string().min(1),
+  }),
+  z.object({ kind: z.literal("upload"), dataUrl: imageDataUrlSchema }),
+]);
+
+export type GenerationSource = z.infer<typeof generationSourceSchema>;
+
+/** Settings of one generate.images call, with defaults filled in */
+export const generationParamsSchema = z
+  .object({
+    /** Prompt template; `{trigger}` marks the trigger words */
+    prompt: z.string().trim().min(1).max(MAX_PROMPT_LENGTH),
+    /** LoRAs to combine; the first is the one the batch is listed under */
+    loras: z
+      .array(loraWeightSchema)
+      .min(1)
+      .max(MAX_LORAS)
+      .refine(
+        (loras) =>
+          new Set(loras.map((lora) => lora.loraTrainingId)).size ===
+          loras.length,
+        { message: "Each LoRA can only be used once." },
+      ),
+    imageSize: z.enum(IMAGE_SIZE_IDS).default("square_hd"),
+    steps: bounded(GENERATION_LIMITS.steps, true),
+    guidanceScale: bounded(GENERATION_LIMITS.guidanceScale),
+    numImages: bounded(GENERATION_LIMITS.numImages, true),
+    /** Fixed seed for a reproducible batch; random when omitted */
+    seed: z.number().int().min(0).max(MAX_SEED).optional(),
+    mode: z.enum(GENERATION_MODES).default("text"),
+    source: generationSourceSchema.optional(),
+    strength: bounded(GENERATION_LIMITS.strength),
+    /** Inpainting mask, source-sized; white is repainted, black kept */
+    mask: imageDataUrlSchema.optional(),
+  })
+  .superRefine((params, ctx) => {
+    if (params.mode !== "text" && !params.source) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["source"],
+        message: "Choose a source image.",
+      });
+    }
+    if (params.mode === "inpaint" && !params.mask) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["mask"],
+        message: "Paint the area to repaint.",
+      });
+    }
+  });
+
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+
+// ─── Prompt ──────────────────────────────────────────────────────────────────
+
+/**
+ * The prompt sent to FAL. `{trigger}` is replaced with every trigger word,
+ * comma-separated, and `{trigger1}`, `{trigger2}`… with each LoRA's own. A
+ * template with no placeholder gets the original "in the style of
+ * <trigger>" suffix.
+ */
+export function renderPrompt(
+  template: string,
+  triggerWords: readonly string[],
+): string {
+  const placeholder = /\{trigger(\d*)\}/g;
+  if (template.search(placeholder) === -1) {
+    return `${template} in the style of ${triggerWords.join(" and ")}`;
+  }
+  return template.replace(placeholder, (match, index: string) => {
+    if (!index) return triggerWords.join(", ");
+    return triggerWords[Number(index) - 1] ?? match;
+  });
+}
+
+// ─── FAL ─────────────────────────────────────────────────────────────────────
+
+const ENDPOINTS: Record<GenerationMode, string> = {
+  text: "fal-ai/flux-lora",
+  image: "fal-ai/flux-lora/image-to-image",
+  inpaint: "fal-ai/flux-lora/inpainting",
+};
+
+/**
+ * FAL endpoint and input for one batch. Image modes take the resolved
+ * source (and mask) URLs; their output follows the source's size.
+ */
+export function buildGenerationRequest(
+  params: GenerationParams,
+  prompt: string,
+  loras: { path: string; scale: number }[],
+  images: { sourceUrl: string | null; maskUrl: string | null },
+) {
+  const common = {
+    prompt,
+    loras,
+    num_inference_steps: params.steps,
+    guidance_scale: params.guidanceScale,
+    num_images: params.numImages,
+    ...(params.seed !== undefined && { seed: params.seed }),
+    enable_safety_checker: true,
+    output_format: "jpeg" as const,
+  };
+  const input =
+    params.mode === "text"
+      ? { ...common, image_size: params.imageSize }
+      : {
+          ...common,
+          image_url: images.sourceUrl,
+          strength: params.strength,
+          ...(params.mode === "inpaint" && { mask_url: images.maskUrl }),
+        };
+  return { endpoint: ENDPOINTS[params.mode], input };
+}
+
+/** Options as sent to the client for the generate form */
+export function describeGenerationOptions() {
+  return {
+    imageSizes: IMAGE_SIZE_PRESETS,
+    limits: GENERATION_LIMITS,
+    maxSeed: MAX_SEED,
+    maxLoras: MAX_LORAS,
+    maxUploadBytes: MAX_UPLOAD_BYTES,
+    maxPromptLength: MAX_PROMPT_LENGTH,
+    triggerPlaceholder: TRIGGER_PLACEHOLDER,
+  };
+}
@@ -0,0 +1,99 @@
+import { TRPCError } from "@trpc/server";
+import { fal } from "@fal-ai/client";
+import { getDb } from "../db";
+import { validateImageUrl } from "./fal";
+import { inspectImage } from "./image-preprocess";
+import { MAX_UPLOAD_BYTES, type GenerationSource } from "./generation-params";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A source image as FAL will fetch it, and what it was picked as */
+export interface ResolvedSource {
+  kind: GenerationSource["kind"];
+  imageUrl: string;
+  /** Set when the source is an earlier generation */
+  generatedImageId: string | null;
+}
+
+// ─── Uploads ─────────────────────────────────────────────────────────────────
+
+/**
+ * Check a data URL holds a single still image of an allowed size, then put
+ * it in FAL storage. Returns the storage URL, which is what gets recorded.
+ */
+export async function uploadImageDataUrl(
+  dataUrl: string,
+  label: string,
+): Promise<string> {
+  const [header, base64] = dataUrl.split(",", 2);
+  const type = header.slice("data:".length, header.indexOf(";"));
+  const data = Buffer.from(base64 ?? "", "base64");
+
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `The ${label} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB.`,
+    });
+  }
+  try {
+    await inspectImage(data);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `The ${label} can't be used: ${error instanceof Error ? error.message : "unreadable"}.`,
+    });
+  }
+
+  return fal.storage.upload(new Blob([new Uint8Array(data)], { type }));
+}
+
+// ─── Sources ─────────────────────────────────────────────────────────────────
+
+/**
+ * Turn a picked source into a URL FAL can fetch. are.na images go through
+ * the same domain and address checks as training downloads; uploads are
+ * stored in FAL storage first.
+ */
+export async function resolveGenerationSource(
+  source: GenerationSource,
+): Promise<ResolvedSource> {
+  switch (source.kind) {
+    case "arena": {
+      try {
+        await validateImageUrl(source.url);
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid image URL",
+        });
+      }
+      return { kind: "arena", imageUrl: source.url, generatedImageId: null };
+    }
+
+    case "generated": {
+      const image = await getDb()
+        .selectFrom("generated_images")
+        .select(["id", "image_url"])
+        .where("id", "=", source.generatedImageId)
+        .executeTakeFirst();
+      if (!image) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Source image not found.",
+        });
+      }
+      return {
+        kind: "generated",
+        imageUrl: image.image_url,
+        generatedImageId: image.id,
+      };
+    }
+
+    case "upload":
+      return {
+        kind: "upload",
+        imageUrl: await uploadImageDataUrl(source.dataUrl, "source image"),
+        generatedImageId: null,
+      };
+  }
+}
@@ -0,0 +1,350 @@
+import crypto from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getDb } from "../db";
+import { getImageCacheConfig } from "../env";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** A downloaded image as `downloadImage` returns it */
+export interface CachedImage {
+  filename: string;
+  data: Buffer;
+}
+
+/**
+ * Where cached bytes live — a flat key/value object store. Keys look like
+ * `blobs/<sha256>` and `urls/<sha256 of the URL>`, so an S3-style bucket
+ * maps onto it directly.
+ */
+export interface ImageCacheStore {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, data: Buffer): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Every stored object, for size accounting and eviction */
+  list(): Promise<{ key: string; size: number; storedAt: number }[]>;
+  /** Other processes write to it too, so it is listed again before evicting */
+  shared?: boolean;
+}
+
+export interface ImageCacheOptions {
+  store: ImageCacheStore;
+  /** Total bytes kept before the oldest objects are evicted; 0 disables */
+  maxBytes: number;
+  /** How long a URL is trusted to serve the same image */
+  ttlMs: number;
+}
+
+export interface ImageCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  bytes: number;
+}
+
+/** What a URL resolved to when it was downloaded */
+interface UrlEntry {
+  url: string;
+  hash: string;
+  filename: string;
+  storedAt: number;
+}
+
+interface CacheState extends ImageCacheOptions {
+  /** Stored objects by key — loaded from the store on first use */
+  objects: Map<string, { size: number; storedAt: number }> | null;
+  stats: Omit<ImageCacheStats, "bytes">;
+  /** Downloads in flight, so concurrent requests share one fetch */
+  inflight: Map<string, Promise<CachedImage>>;
+}
+
+// ─── Stores ──────────────────────────────────────────────────────────────────
+
+/** Process-local store — the default when no cache directory is set */
+export function createMemoryStore(): ImageCacheStore {
+  const objects = new Map<string, { data: Buffer; storedAt: number }>();
+  return {
+    async get(key) {
+      return objects.get(key)?.data ?? null;
+    },
+    async put(key, data) {
+      objects.set(key, { data, storedAt: Date.now() });
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+    async list() {
+      return [...objects].map(([key, { data, storedAt }]) => ({
+        key,
+        size: data.length,
+        storedAt,
+      }));
+    },
+  };
+}
+
+/** Store under a local directory, surviving restarts (dev and single hosts) */
+export function createFsStore(dir: string): ImageCacheStore {
+  const file = (key: string) => path.join(dir, key);
+  return {
+    async get(key) {
+      try {
+        return await fs.readFile(file(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(key, data) {
+      await fs.mkdir(path.dirname(file(key)), { recursive: true });
+      // Write then rename, so readers never see a partial file
+      const temp = `${file(key)}.${process.pid}.${Date.now()}.tmp`;
+      await fs.writeFile(temp, data);
+      await fs.rename(temp, file(key));
+    },
+    async delete(key) {
+      await fs.rm(file(key), { force: true });
+    },
+    async list() {
+      const objects: { key: string; size: number; storedAt: number }[] = [];
+      for (const prefix of ["blobs", "urls"]) {
+        let names: string[];
+        try {
+          names = await fs.readdir(path.join(dir, prefix));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+          throw error;
+        }
+        for (const name of names) {
+          if (name.endsWith(".tmp")) continue;
+          const stat = await fs.stat(path.join(dir, prefix, name));
+          objects.push({
+            key: `${prefix}/${name}`,
+            size: stat.size,
+            storedAt: stat.mtimeMs,
+          });
+        }
+      }
+      return objects;
+    },
+  };
+}
+
+/**
+ * Store in the app database, shared by every instance — for deploys like
+ * Vercel where the disk is per function and short-lived.
+ */
+export function createLibsqlStore(): ImageCacheStore {
+  return {
+    shared: true,
+    async get(key) {
+      const row = await getDb()
+        .selectFrom("image_cache_objects")
+        .select("data")
+        .where("key", "=", key)
+        .executeTakeFirst();
+      return row ? Buffer.from(row.data) : null;
+    },
+    async put(key, data) {
+      const object = { data, size: data.length, stored_at: Date.now() };
+      await getDb()
+        .insertInto("image_cache_objects")
+        .values({ key, ...object })
+        .onConflict((oc) => oc.column("key").doUpdateSet(object))
+        .execute();
+    },
+    async delete(key) {
+      await getDb()
+        .deleteFrom("image_cache_objects")
+        .where("key", "=", key)
+        .execute();
+    },
+    async list() {
+      const rows = await getDb()
+        .selectFrom("image_cache_objects")
+        .select(["key", "size", "stored_at"])
+        .execute();
+      return rows.map((row) => ({
+        key: row.key,
+        size: row.size,
+        storedAt: row.stored_at,
+      }));
+    },
+  };
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────────
+
+let cache: CacheState | null = null;
+
+function sha256(data: Buffer | string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+const blobKey = (hash: string) => `blobs/${hash}`;
+const urlKey = (url: string) => `urls/${sha256(url)}`;
+
+/**
+ * Replace the cache backend and limits, e.g. in tests. Counters and
+ * in-flight downloads start over.
+ */
+export function configureImageCache(options: ImageCacheOptions): void {
+  cache = {
+    ...options,
+    objects: null,
+    stats: { hits: 0, misses: 0, evictions: 0 },
+    inflight: new Map(),
+  };
+}
+
+function getCache(): CacheState {
+  if (!cache) {
+    const { store, dir, maxBytes, ttlMs } = getImageCacheConfig();
+    configureImageCache({
+      store:
+        store === "libsql"
+          ? createLibsqlStore()
+          : store === "fs" && dir
+            ? createFsStore(dir)
+            : createMemoryStore(),
+      maxBytes,
+      ttlMs,
+    });
+  }
+  return cache!;
+}
+
+export function getImageCacheStats(): ImageCacheStats {
+  const { stats, objects } = getCache();
+  let bytes = 0;
+  for (const object of objects?.values() ?? []) bytes += object.size;
+  return { ...stats, bytes };
+}
+
+async function loadObjects(state: CacheState) {
+  if (!state.objects) {
+    const listed = await state.store.list();
+    state.objects = new Map(
+      listed.map(({ key, size, storedAt }) => [key, { size, storedAt }]),
+    );
+  }
+  return state.objects;
+}
+
+async function putObject(state: CacheState, key: string, data: Buffer) {
+  await state.store.put(key, data);
+  (await loadObjects(state)).set(key, {
+    size: data.length,
+    storedAt: Date.now(),
+  });
+}
+
+async function deleteObject(state: CacheState, key: string) {
+  await state.store.delete(key);
+  state.objects?.delete(key);
+}
+
+/** Drop expired objects, then the oldest, until the cache fits */
+async function evict(state: CacheState) {
+  // Count what every instance has stored, not only this one's writes
+  if (state.store.shared) state.objects = null;
+  const objects = await loadObjects(state);
+  const expiredBefore = Date.now() - state.ttlMs;
+  let total = 0;
+  for (const object of objects.values()) total += object.size;
+
+  const oldestFirst = [...objects].sort(
+    ([, a], [, b]) => a.storedAt - b.storedAt,
+  );
+  for (const [key, object] of oldestFirst) {
+    if (total <= state.maxBytes && object.storedAt >= expiredBefore) break;
+    await deleteObject(state, key);
+    total -= object.size;
+    state.stats.evictions++;
+  }
+}
+
+async function lookup(
+  state: CacheState,
+  url: string,
+): Promise<CachedImage | null> {
+  const raw = await state.store.get(urlKey(url));
+  if (!raw) return null;
+  const entry = JSON.parse(raw.toString("utf8")) as UrlEntry;
+  if (entry.url !== url || Date.now() - entry.storedAt > state.ttlMs) {
+    return null;
+  }
+  const data = await state.store.get(blobKey(entry.hash));
+  // A blob evicted (or corrupted) under a live URL entry is a miss
+  if (!data || sha256(data) !== entry.hash) return null;
+  return { filename: entry.filename, data };
+}
+
+async function remember(state: CacheState, url: string, image: CachedImage) {
+  const hash = sha256(image.data);
+  const objects = await loadObjects(state);
+  // Content-addressed: the same bytes behind several URLs are kept once
+  const existing = objects.get(blobKey(hash));
+  if (existing) {
+    existing.storedAt = Date.now();
+  } else {
+    await putObject(state, blobKey(hash), image.data);
+  }
+  const entry: UrlEntry = {
+    url,
+    hash,
+    filename: image.filename,
+    storedAt: Date.now(),
+  };
+  await putObject(state, urlKey(url), Buffer.from(JSON.stringify(entry)));
+  await evict(state);
+}
+
+/**
+ * Serve `url` from the cache, or fetch it with `download` and keep the
+ * result. Cache failures are logged and fall back to downloading.
+ */
+export async function cachedDownload(
+  url: string,
+  download: (url: string) => Promise<CachedImage>,
+): Promise<CachedImage> {
+  const state = getCache();
+  if (state.maxBytes === 0) return download(url);
+
+  const pending = state.inflight.get(url);
+  if (pending) return pending;
+
+  const promise = (async () => {
+    try {
+      const hit = await lookup(state, url);
+      if (hit) {
+        state.stats.hits++;
+        console.log(
+          `[image-cache] hit ${url} (${state.stats.hits} hits, ${state.stats.misses} misses)`,
+        );
+        return hit;
+      }
+    } catch (error) {
+      console.error(`[image-cache] lookup failed for ${url}:`, error);
+    }
+
+    state.stats.misses++;
+    console.log(
+      `[image-cache] miss ${url} (${state.stats.hits} hits, ${state.stats.misses} misses)`,
+    );
+    const image = await download(url);
+    try {
+      await remember(state, url, image);
+    } catch (error) {
+      console.error(`[image-cache] store failed for ${url}:`, error);
+    }
+    return image;
+  })();
+
+  state.inflight.set(url, promise);
+  try {
+    return await promise;
+  } finally {
+    state.inflight.delete(url);
+  }
+}
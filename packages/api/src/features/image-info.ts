@@ -0,0 +1,91 @@
+import crypto from "node:crypto";
+
+export interface ImageInfo {
+  width: number | null;
+  height: number | null;
+  byteSize: number;
+  contentHash: string; // SHA-256 hex
+}
+
+/**
+ * Read pixel dimensions from a PNG, JPEG, GIF or WebP header without
+ * decoding the image. Returns null for formats or headers we can't parse.
+ */
+export function readImageDimensions(
+  data: Buffer,
+): { width: number; height: number } | null {
+  // PNG: signature, then the IHDR chunk
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF: "GIF8", logical screen size little-endian
+  if (data.length >= 10 && data.toString("ascii", 0, 4) === "GIF8") {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // WebP: RIFF....WEBP then a VP8 / VP8L / VP8X chunk
+  if (
+    data.length >= 30 &&
+    data.toString("ascii", 0, 4) === "RIFF" &&
+    data.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    const chunk = data.toString("ascii", 12, 16);
+    if (chunk === "VP8 ") {
+      return {
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return {
+        width: data.readUIntLE(24, 3) + 1,
+        height: data.readUIntLE(27, 3) + 1,
+      };
+    }
+    return null;
+  }
+
+  // JPEG: walk segments until a start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (
+        marker >= 0xc0 &&
+        marker <= 0xcf &&
+        marker !== 0xc4 &&
+        marker !== 0xc8 &&
+        marker !== 0xcc
+      ) {
+        return {
+          height: data.readUInt16BE(offset + 5),
+          width: data.readUInt16BE(offset + 7),
+        };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Size, content hash and (when the header is readable) dimensions of a
+ * downloaded image.
+ */
+export function getImageInfo(data: Buffer): ImageInfo {
+  const dimensions = readImageDimensions(data);
+  return {
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+    byteSize: data.length,
+    contentHash: crypto.createHash("sha256").update(data).digest("hex"),
+  };
+}
@@ -0,0 +1,189 @@
+import sharp from "sharp";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/**
+ * How an image is fitted to the trainer's resolution:
+ * - `center` — square crop around the middle
+ * - `smart` — square crop around the most salient region
+ * - `none` — keep the aspect ratio, only scale the long edge down
+ */
+export type CropMode = "center" | "smart" | "none";
+
+export type OutputFormat = "jpeg" | "png";
+
+export interface PreprocessOptions {
+  /** Target edge length in pixels — images are never upscaled */
+  resolution: number;
+  crop: CropMode;
+  format: OutputFormat;
+}
+
+export interface CropBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** What preprocessing did to one image, in original-image pixels */
+export interface PreprocessReport {
+  original: { width: number; height: number; bytes: number; format: string };
+  processed: {
+    width: number;
+    height: number;
+    bytes: number;
+    format: OutputFormat;
+  };
+  /** Region of the (EXIF-rotated) original that was kept, or null if uncropped */
+  crop: CropBox | null;
+}
+
+/** An image that cannot be used for training, with a user-facing reason */
+export class ImagePreprocessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImagePreprocessError";
+  }
+}
+
+// ─── Preprocessing ───────────────────────────────────────────────────────────
+
+/** Shortest edge accepted — smaller images train poorly */
+export const MIN_IMAGE_EDGE = 256;
+
+const JPEG_QUALITY = 92;
+
+/** Input formats accepted for training */
+const SUPPORTED_FORMATS = new Set([
+  "jpeg",
+  "png",
+  "webp",
+  "gif",
+  "avif",
+  "heif",
+  "tiff",
+]);
+
+/** Format and upright dimensions of a decodable, single-frame image */
+export interface ImageInspection {
+  width: number;
+  height: number;
+  format: string;
+}
+
+/**
+ * Read an image's header and check it can be trained on at all. Width and
+ * height are as displayed, i.e. after EXIF rotation. Throws
+ * ImagePreprocessError for corrupt, unsupported or animated files.
+ */
+export async function inspectImage(data: Buffer): Promise<ImageInspection> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(data).metadata();
+  } catch {
+    throw new ImagePreprocessError("File is corrupt or not an image");
+  }
+
+  if (!metadata.format || !SUPPORTED_FORMATS.has(metadata.format)) {
+    throw new ImagePreprocessError(
+      `Unsupported image format: ${metadata.format ?? "unknown"}`,
+    );
+  }
+  if ((metadata.pages ?? 1) > 1) {
+    throw new ImagePreprocessError("Animated images are not supported");
+  }
+  if (!metadata.width || !metadata.height) {
+    throw new ImagePreprocessError("Image has no dimensions");
+  }
+
+  // EXIF orientations 5–8 swap width and height once rotated
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  return {
+    width: rotated ? metadata.height : metadata.width,
+    height: rotated ? metadata.width : metadata.height,
+    format: metadata.format,
+  };
+}
+
+/**
+ * Decode one downloaded image and re-encode it for training: auto-rotate
+ * from EXIF, reject animated or corrupt files, fit it to the target
+ * resolution and strip all metadata (EXIF, GPS, ICC profiles, comments).
+ */
+export async function preprocessImage(
+  data: Buffer,
+  options: PreprocessOptions,
+): Promise<{ data: Buffer; report: PreprocessReport }> {
+  const { width, height, format } = await inspectImage(data);
+  if (Math.min(width, height) < MIN_IMAGE_EDGE) {
+    throw new ImagePreprocessError(
+      `Image is ${width}×${height}; the shorter edge must be at least ${MIN_IMAGE_EDGE}px`,
+    );
+  }
+
+  let pipeline = sharp(data).rotate();
+  let crop: CropBox | null = null;
+
+  if (options.crop === "none") {
+    pipeline = pipeline.resize(options.resolution, options.resolution, {
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+  } else {
+    const edge = Math.min(options.resolution, width, height);
+    pipeline = pipeline.resize(edge, edge, {
+      fit: "cover",
+      position: options.crop === "smart" ? sharp.strategy.attention : "centre",
+    });
+  }
+
+  pipeline =
+    options.format === "png"
+      ? pipeline.png({ compressionLevel: 9 })
+      : pipeline
+          .flatten({ background: "#ffffff" })
+          .jpeg({ quality: JPEG_QUALITY, mozjpeg: true });
+
+  let output: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    output = await pipeline.toBuffer({ resolveWithObject: true });
+  } catch {
+    throw new ImagePreprocessError("Image could not be decoded");
+  }
+  const { info } = output;
+
+  if (options.crop !== "none") {
+    // Scale of the cover resize, and where the square sat in the resized image
+    const scale = info.width / Math.min(width, height);
+    const offsetLeft =
+      options.crop === "smart"
+        ? Math.abs(info.cropOffsetLeft ?? 0)
+        : Math.floor((Math.round(width * scale) - info.width) / 2);
+    const offsetTop =
+      options.crop === "smart"
+        ? Math.abs(info.cropOffsetTop ?? 0)
+        : Math.floor((Math.round(height * scale) - info.height) / 2);
+    const size = Math.min(width, height);
+    crop = {
+      left: Math.min(Math.round(offsetLeft / scale), width - size),
+      top: Math.min(Math.round(offsetTop / scale), height - size),
+      width: size,
+      height: size,
+    };
+  }
+
+  return {
+    data: output.data,
+    report: {
+      original: { width, height, bytes: data.length, format },
+      processed: {
+        width: info.width,
+        height: info.height,
+        bytes: info.size,
+        format: options.format,
+      },
+      crop,
+    },
+  };
+}
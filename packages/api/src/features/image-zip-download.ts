@@ -0,0 +1,110 @@
+import { z } from "zod";
+import {
+  captionsByUrl,
+  imageCaptionsSchema,
+  imageUrlsSchema,
+  preprocessingSchema,
+  writeImageZip,
+} from "./fal";
+import { DEFAULT_TRAINER_ID, findTrainer } from "./trainers";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** Body of a "Download Images Zip" request */
+export const imageZipRequestSchema = z.object({
+  imageUrls: imageUrlsSchema,
+  triggerWord: z.string().min(1).max(50),
+  captions: imageCaptionsSchema,
+  // Preprocess to this trainer's resolution
+  trainer: z.string().default(DEFAULT_TRAINER_ID),
+  preprocessing: preprocessingSchema,
+});
+
+export type ImageZipRequest = z.infer<typeof imageZipRequestSchema>;
+
+/** The parts of an HTTP response the zip is streamed into */
+export interface ZipResponse extends NodeJS.WritableStream {
+  setHeader(name: string, value: string): unknown;
+  destroy(error?: Error): unknown;
+}
+
+// ─── Download ────────────────────────────────────────────────────────────────
+
+/** `lora-training-<trigger word>-<timestamp>.zip` */
+export function imageZipFilename(triggerWord: string, now = new Date()): string {
+  const timestamp = now.toISOString().replace(/[:.]/g, "-");
+  return `lora-training-${triggerWord}-${timestamp}.zip`;
+}
+
+/** Attachment header with an ASCII fallback and the exact UTF-8 name */
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * Framework-agnostic entry point for the zip download route: validate the
+ * request, then stream the archive into `response` as images are ready.
+ * Returns an error to send instead when nothing has been written yet, or
+ * null once the zip has been streamed. `onStart` runs just before the
+ * first byte, while headers can still be set.
+ */
+export async function sendImageZip(
+  body: unknown,
+  response: ZipResponse,
+  options: { onStart?: () => void } = {},
+): Promise<{ status: number; error: string } | null> {
+  const parsed = imageZipRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return {
+      status: 400,
+      error: parsed.error.issues[0]?.message ?? "Invalid request",
+    };
+  }
+  const input = parsed.data;
+
+  const trainer = findTrainer(input.trainer);
+  if (!trainer) {
+    return { status: 400, error: `Unknown trainer "${input.trainer}".` };
+  }
+
+  let started = false;
+  try {
+    console.log(
+      `[image-zip] Streaming zip of ${input.imageUrls.length} images...`,
+    );
+    const zip = await writeImageZip(
+      input.imageUrls,
+      {
+        captions: captionsByUrl(input.captions),
+        preprocess: { resolution: trainer.resolution, ...input.preprocessing },
+      },
+      response,
+      () => {
+        started = true;
+        response.setHeader("Content-Type", "application/zip");
+        response.setHeader(
+          "Content-Disposition",
+          contentDisposition(imageZipFilename(input.triggerWord)),
+        );
+        response.setHeader("Cache-Control", "no-store");
+        options.onStart?.();
+      },
+    );
+    console.log(
+      `[image-zip] Sent ${zip.imageCount} images (${zip.rejected.length} skipped)`,
+    );
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    if (started) {
+      // Too late for a status — cut the connection so the browser marks
+      // the download as failed rather than saving a truncated zip
+      console.error("[image-zip] Zip stream failed:", message);
+      response.destroy(error instanceof Error ? error : undefined);
+      return null;
+    }
+    console.error("[image-zip] Zip download error:", message);
+    return { status: 422, error: `Failed to create zip archive: ${message}` };
+  }
+}
@@ -1,102 +1,230 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
 import { publicProcedure, protectedProcedure, router } from "../trpc";
-import { getDb, ensureLoraTable } from "../db";
+import { sql, type Kysely } from "kysely";
+import type { Hex } from "viem";
+import { getDb, type Database } from "../db";
+import { formatAssetAmount, linkPaymentToTraining } from "./payment";
+import { getTrainingLogs } from "./training-logs";
+import { DEFAULT_TRAINER_ID, findTrainer } from "./trainers";
 import crypto from "node:crypto";
 
 function generateId(): string {
   return crypto.randomBytes(16).toString("hex");
 }
 
-/**
- * Create a pending lora_trainings record. Called internally from trainLora.
- */
-export async function createPendingLora(params: {
-  requestId: string;
+/** One image of a training set, in the order it was zipped for FAL */
+export interface TrainingImageInput {
+  url: string;
+  arenaBlockId?: number | null;
+  title?: string | null;
+  caption?: string | null;
+  width?: number | null;
+  height?: number | null;
+  byteSize?: number | null;
+  contentHash?: string | null;
+}
+
+/** What a new lora_trainings row is created from */
+export interface NewLoraParams {
   walletAddress: string;
   triggerWord: string;
   steps: number;
-  imageUrls: string[];
+  trainer?: string;
+  trainerParams?: Record<string, unknown>;
+  images: TrainingImageInput[];
   arenaChannelUrl?: string;
   arenaChannelTitle?: string;
-}): Promise<{ id: string }> {
-  await ensureLoraTable();
-  const db = getDb();
+}
+
+async function insertLora(
+  db: Kysely<Database>,
+  params: NewLoraParams,
+  row: { requestId?: string; status: "submitting" | "pending" },
+): Promise<{ id: string }> {
   const id = generateId();
+  const createdAt = new Date().toISOString();
   await db
     .insertInto("lora_trainings")
     .values({
       id,
-      request_id: params.requestId,
+      request_id: row.requestId ?? id,
       wallet_address: params.walletAddress,
       trigger_word: params.triggerWord,
       steps: params.steps,
-      image_urls: JSON.stringify(params.imageUrls),
+      trainer: params.trainer ?? DEFAULT_TRAINER_ID,
+      trainer_params: params.trainerParams
+        ? JSON.stringify(params.trainerParams)
+        : null,
       lora_weights_url: null,
+      error_message: null,
       arena_channel_url: params.arenaChannelUrl ?? null,
       arena_channel_title: params.arenaChannelTitle ?? null,
-      status: "pending",
-      created_at: new Date().toISOString(),
+      status: row.status,
+      created_at: createdAt,
     })
     .execute();
+
+  if (params.images.length > 0) {
+    await db
+      .insertInto("lora_training_images")
+      .values(
+        params.images.map((image, position) => ({
+          id: generateId(),
+          lora_training_id: id,
+          position,
+          image_url: image.url,
+          arena_block_id: image.arenaBlockId ?? null,
+          title: image.title ?? null,
+          caption: image.caption ?? null,
+          width: image.width ?? null,
+          height: image.height ?? null,
+          byte_size: image.byteSize ?? null,
+          content_hash: image.contentHash ?? null,
+          created_at: createdAt,
+        })),
+      )
+      .execute();
+  }
+
   return { id };
 }
 
-export const loraRouter = router({
-  complete: protectedProcedure
-    .input(
-      z.object({
-        requestId: z.string().min(1),
-        loraWeightsUrl: z.string().url(),
-      }),
-    )
-    .mutation(async ({ input, ctx }) => {
-      await ensureLoraTable();
-      const db = getDb();
-      const walletAddress = ctx.session.user.walletAddress;
-
-      // Verify the record exists and belongs to this wallet
-      const existing = await db
-        .selectFrom("lora_trainings")
-        .select(["id", "wallet_address", "status"])
-        .where("request_id", "=", input.requestId)
-        .executeTakeFirst();
+/**
+ * Create a pending lora_trainings record and its lora_training_images rows
+ * for a request already on the FAL queue.
+ */
+export async function createPendingLora(
+  params: NewLoraParams & { requestId: string },
+): Promise<{ id: string }> {
+  return insertLora(getDb(), params, {
+    requestId: params.requestId,
+    status: "pending",
+  });
+}
 
-      if (!existing) {
-        throw new TRPCError({
-          code: "NOT_FOUND",
-          message: "No training record found for this request ID.",
-        });
+/**
+ * Record a training before it is submitted to FAL, so the job never runs
+ * without a row to settle and refund it. The payment is linked in the same
+ * transaction. `markLoraSubmitted` fills in the request ID once FAL has it.
+ * Called internally from trainLora.
+ */
+export async function createSubmittingLora(
+  params: NewLoraParams & { paymentTxHash?: string },
+): Promise<{ id: string }> {
+  return getDb()
+    .transaction()
+    .execute(async (trx) => {
+      const lora = await insertLora(trx, params, { status: "submitting" });
+      if (params.paymentTxHash) {
+        await linkPaymentToTraining(params.paymentTxHash as Hex, lora.id, trx);
       }
+      return lora;
+    });
+}
 
-      if (existing.wallet_address.toLowerCase() !== walletAddress.toLowerCase()) {
-        throw new TRPCError({
-          code: "FORBIDDEN",
-          message: "You are not the owner of this training record.",
-        });
-      }
+/** Attach the FAL request ID to a submitted training and mark it pending */
+export async function markLoraSubmitted(
+  id: string,
+  requestId: string,
+): Promise<void> {
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({ request_id: requestId, status: "pending" })
+    .where("id", "=", id)
+    .where("status", "=", "submitting")
+    .returning("id")
+    .executeTakeFirstOrThrow();
+}
 
-      if (existing.status === "completed") {
-        // Already completed — idempotent, just return
-        return { success: true };
-      }
+/** Fail a training whose submission to FAL did not go through */
+export async function failLoraSubmit(id: string, error: string): Promise<void> {
+  await getDb()
+    .updateTable("lora_trainings")
+    .set({ status: "failed", error_message: error })
+    .where("id", "=", id)
+    .where("status", "=", "submitting")
+    .execute();
+}
 
-      await db
-        .updateTable("lora_trainings")
-        .set({
-          lora_weights_url: input.loraWeightsUrl,
-          status: "completed",
-        })
-        .where("id", "=", existing.id)
-        .execute();
+/** Position in the created_at / id ordering of lora.list */
+interface ListCursor {
+  createdAt: string;
+  id: string;
+}
 
-      return { success: true };
-    }),
+function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString(
+    "base64url",
+  );
+}
 
+function decodeListCursor(value: string): ListCursor {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(value, "base64url").toString(),
+    );
+    if (typeof createdAt === "string" && typeof id === "string") {
+      return { createdAt, id };
+    }
+  } catch {
+    // fall through
+  }
+  throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid cursor." });
+}
+
+/**
+ * Load the training images of each given LoRA, in position order.
+ */
+async function getTrainingImages(loraTrainingIds: string[]) {
+  const byLora = new Map<
+    string,
+    {
+      url: string;
+      arenaBlockId: number | null;
+      title: string | null;
+      caption: string | null;
+      width: number | null;
+      height: number | null;
+    }[]
+  >();
+  if (loraTrainingIds.length === 0) return byLora;
+
+  const rows = await getDb()
+    .selectFrom("lora_training_images")
+    .select([
+      "lora_training_id",
+      "image_url",
+      "arena_block_id",
+      "title",
+      "caption",
+      "width",
+      "height",
+    ])
+    .where("lora_training_id", "in", loraTrainingIds)
+    .orderBy("lora_training_id")
+    .orderBy("position")
+    .execute();
+
+  for (const row of rows) {
+    const images = byLora.get(row.lora_training_id) ?? [];
+    images.push({
+      url: row.image_url,
+      arenaBlockId: row.arena_block_id,
+      title: row.title,
+      caption: row.caption,
+      width: row.width,
+      height: row.height,
+    });
+    byLora.set(row.lora_training_id, images);
+  }
+  return byLora;
+}
+
+export const loraRouter = router({
   getById: publicProcedure
     .input(z.object({ id: z.string().min(1) }))
     .query(async ({ input }) => {
-      await ensureLoraTable();
       const db = getDb();
 
       const row = await db
@@ -107,7 +235,8 @@ export const loraRouter = router({
           "wallet_address",
           "trigger_word",
           "steps",
-          "image_urls",
+          "trainer",
+          "trainer_params",
           "lora_weights_url",
           "arena_channel_url",
           "arena_channel_title",
@@ -124,13 +253,21 @@ export const loraRouter = router({
         });
       }
 
+      const images = (await getTrainingImages([row.id])).get(row.id) ?? [];
+
       return {
         id: row.id,
         requestId: row.request_id,
         walletAddress: row.wallet_address,
         triggerWord: row.trigger_word,
         steps: row.steps,
-        imageUrls: JSON.parse(row.image_urls) as string[],
+        trainer: row.trainer,
+        trainerLabel: findTrainer(row.trainer)?.label ?? row.trainer,
+        trainerParams: row.trainer_params
+          ? (JSON.parse(row.trainer_params) as Record<string, unknown>)
+          : null,
+        imageUrls: images.map((image) => image.url),
+        images,
         loraWeightsUrl: row.lora_weights_url,
         arenaChannelUrl: row.arena_channel_url,
         arenaChannelTitle: row.arena_channel_title,
@@ -139,39 +276,285 @@ export const loraRouter = router({
       };
     }),
 
-  list: publicProcedure.query(async () => {
-    await ensureLoraTable();
-    const db = getDb();
-
-    const rows = await db
-      .selectFrom("lora_trainings")
-      .select([
-        "id",
-        "request_id",
-        "wallet_address",
-        "trigger_word",
-        "steps",
-        "image_urls",
-        "lora_weights_url",
-        "arena_channel_url",
-        "arena_channel_title",
-        "created_at",
-      ])
-      .where("status", "=", "completed")
-      .orderBy("created_at", "desc")
-      .execute();
+  /** The stored FAL training log of a LoRA, in order */
+  trainingLogs: publicProcedure
+    .input(z.object({ id: z.string().min(1) }))
+    .query(async ({ input }) => {
+      return getTrainingLogs(input.id);
+    }),
+
+  /**
+   * Completed LoRAs, newest first, one page at a time. Pass the previous
+   * page's `nextCursor` to continue.
+   */
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(100).default(20),
+          cursor: z.string().nullish(),
+          walletAddress: z.string().max(100).optional(),
+          arenaChannelUrl: z.string().max(500).optional(),
+          minSteps: z.number().int().min(0).optional(),
+          maxSteps: z.number().int().min(0).optional(),
+          search: z.string().trim().max(100).optional(),
+        })
+        .default({}),
+    )
+    .query(async ({ input }) => {
+      const db = getDb();
+
+      let query = db
+        .selectFrom("lora_trainings")
+        .select([
+          "id",
+          "request_id",
+          "wallet_address",
+          "trigger_word",
+          "steps",
+          "lora_weights_url",
+          "arena_channel_url",
+          "arena_channel_title",
+          "created_at",
+        ])
+        .where("status", "=", "completed");
+
+      if (input.cursor) {
+        const cursor = decodeListCursor(input.cursor);
+        query = query.where((eb) =>
+          eb.or([
+            eb("created_at", "<", cursor.createdAt),
+            eb.and([
+              eb("created_at", "=", cursor.createdAt),
+              eb("id", "<", cursor.id),
+            ]),
+          ]),
+        );
+      }
+      if (input.walletAddress) {
+        query = query.where(
+          sql<string>`lower(wallet_address)`,
+          "=",
+          input.walletAddress.toLowerCase(),
+        );
+      }
+      if (input.arenaChannelUrl) {
+        query = query.where("arena_channel_url", "=", input.arenaChannelUrl);
+      }
+      if (input.minSteps !== undefined) {
+        query = query.where("steps", ">=", input.minSteps);
+      }
+      if (input.maxSteps !== undefined) {
+        query = query.where("steps", "<=", input.maxSteps);
+      }
+      if (input.search) {
+        const pattern = `%${input.search.replace(/[\\%_]/g, "\\$&")}%`;
+        query = query.where((eb) =>
+          eb.or([
+            sql<boolean>`trigger_word LIKE ${pattern} ESCAPE '\\'`,
+            sql<boolean>`arena_channel_title LIKE ${pattern} ESCAPE '\\'`,
+          ]),
+        );
+      }
+
+      // One extra row tells us whether there is another page
+      const rows = await query
+        .orderBy("created_at", "desc")
+        .orderBy("id", "desc")
+        .limit(input.limit + 1)
+        .execute();
+
+      const page = rows.slice(0, input.limit);
+      const last = page[page.length - 1];
+      const nextCursor =
+        rows.length > input.limit && last
+          ? encodeListCursor({ createdAt: last.created_at, id: last.id })
+          : null;
+
+      const imagesByLora = await getTrainingImages(page.map((row) => row.id));
 
-    return rows.map((row) => ({
-      id: row.id,
-      requestId: row.request_id,
-      walletAddress: row.wallet_address,
-      triggerWord: row.trigger_word,
-      steps: row.steps,
-      imageUrls: JSON.parse(row.image_urls) as string[],
-      loraWeightsUrl: row.lora_weights_url,
-      arenaChannelUrl: row.arena_channel_url,
-      arenaChannelTitle: row.arena_channel_title,
-      createdAt: row.created_at,
-    }));
-  }),
+      return {
+        items: page.map((row) => ({
+          id: row.id,
+          requestId: row.request_id,
+          walletAddress: row.wallet_address,
+          triggerWord: row.trigger_word,
+          steps: row.steps,
+          imageUrls: (imagesByLora.get(row.id) ?? []).map((image) => image.url),
+          loraWeightsUrl: row.lora_weights_url,
+          arenaChannelUrl: row.arena_channel_url,
+          arenaChannelTitle: row.arena_channel_title,
+          createdAt: row.created_at,
+        })),
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Every training started by the session's wallet — pending, failed and
+   * cancelled included — with the payment and refund behind each, newest
+   * first. Pages like lora.list; pass `status: "pending"` to find in-flight
+   * jobs to reattach to.
+   */
+  mine: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().int().min(1).max(100).default(20),
+          cursor: z.string().nullish(),
+          status: z
+            .enum(["pending", "completed", "failed", "cancelled"])
+            .optional(),
+        })
+        .default({}),
+    )
+    .query(async ({ input, ctx }) => {
+      const db = getDb();
+      const walletAddress = ctx.session.user.walletAddress.toLowerCase();
+
+      let query = db
+        .selectFrom("lora_trainings")
+        .leftJoin("payments", "payments.lora_training_id", "lora_trainings.id")
+        .leftJoin("refunds", "refunds.payment_id", "payments.id")
+        .select([
+          "lora_trainings.id",
+          "lora_trainings.request_id",
+          "lora_trainings.trigger_word",
+          "lora_trainings.steps",
+          "lora_trainings.status",
+          "lora_trainings.error_message",
+          "lora_trainings.lora_weights_url",
+          "lora_trainings.arena_channel_url",
+          "lora_trainings.arena_channel_title",
+          "lora_trainings.created_at",
+          "payments.tx_hash as payment_tx_hash",
+          "payments.asset as payment_asset",
+          "payments.value_wei as payment_amount",
+          "payments.claimed_at as payment_claimed_at",
+          "payments.refund_tx_hash as payment_refund_tx_hash",
+          "payments.refunded_at as payment_refunded_at",
+          "refunds.status as refund_status",
+          "refunds.tx_hash as refund_tx_hash",
+          "refunds.last_error as refund_last_error",
+          "refunds.created_at as refund_created_at",
+        ])
+        .where(
+          sql<string>`lower(lora_trainings.wallet_address)`,
+          "=",
+          walletAddress,
+        );
+
+      if (input.status) {
+        query = query.where("lora_trainings.status", "=", input.status);
+      }
+      if (input.cursor) {
+        const cursor = decodeListCursor(input.cursor);
+        query = query.where((eb) =>
+          eb.or([
+            eb("lora_trainings.created_at", "<", cursor.createdAt),
+            eb.and([
+              eb("lora_trainings.created_at", "=", cursor.createdAt),
+              eb("lora_trainings.id", "<", cursor.id),
+            ]),
+          ]),
+        );
+      }
+
+      const rows = await query
+        .orderBy("lora_trainings.created_at", "desc")
+        .orderBy("lora_trainings.id", "desc")
+        .limit(input.limit + 1)
+        .execute();
+
+      const page = rows.slice(0, input.limit);
+      const last = page[page.length - 1];
+      const nextCursor =
+        rows.length > input.limit && last
+          ? encodeListCursor({ createdAt: last.created_at, id: last.id })
+          : null;
+
+      return {
+        items: page.map((row) => ({
+          id: row.id,
+          requestId: row.request_id,
+          triggerWord: row.trigger_word,
+          steps: row.steps,
+          status: row.status,
+          errorMessage: row.error_message,
+          loraWeightsUrl: row.lora_weights_url,
+          arenaChannelUrl: row.arena_channel_url,
+          arenaChannelTitle: row.arena_channel_title,
+          createdAt: row.created_at,
+          // Exempt (admin / QA) runs have no payment
+          payment: row.payment_tx_hash
+            ? {
+                txHash: row.payment_tx_hash,
+                asset: row.payment_asset!,
+                amount: row.payment_amount!,
+                amountLabel: formatAssetAmount(
+                  BigInt(row.payment_amount!),
+                  row.payment_asset!,
+                ),
+                claimedAt: row.payment_claimed_at,
+              }
+            : null,
+          refund:
+            row.refund_status || row.payment_refund_tx_hash
+              ? {
+                  status: row.refund_status ?? "confirmed",
+                  txHash: row.refund_tx_hash ?? row.payment_refund_tx_hash,
+                  lastError: row.refund_last_error,
+                  queuedAt: row.refund_created_at,
+                  refundedAt: row.payment_refunded_at,
+                }
+              : null,
+        })),
+        nextCursor,
+      };
+    }),
+
+  /**
+   * Completed LoRAs trained on a given image — matched by URL, and by
+   * content hash so re-uploads of the same file are found too.
+   */
+  usingImage: publicProcedure
+    .input(z.object({ imageUrl: z.string().url() }))
+    .query(async ({ input }) => {
+      const db = getDb();
+
+      const hashes = db
+        .selectFrom("lora_training_images")
+        .select("content_hash")
+        .where("image_url", "=", input.imageUrl)
+        .where("content_hash", "is not", null);
+
+      const rows = await db
+        .selectFrom("lora_trainings")
+        .innerJoin(
+          "lora_training_images",
+          "lora_training_images.lora_training_id",
+          "lora_trainings.id",
+        )
+        .select([
+          "lora_trainings.id",
+          "lora_trainings.trigger_word",
+          "lora_trainings.created_at",
+        ])
+        .where("lora_trainings.status", "=", "completed")
+        .where((eb) =>
+          eb.or([
+            eb("lora_training_images.image_url", "=", input.imageUrl),
+            eb("lora_training_images.content_hash", "in", hashes),
+          ]),
+        )
+        .groupBy("lora_trainings.id")
+        .orderBy("lora_trainings.created_at", "desc")
+        .execute();
+
+      return rows.map((row) => ({
+        id: row.id,
+        triggerWord: row.trigger_word,
+        createdAt: row.created_at,
+      }));
+    }),
 });
@@ -1,24 +1,44 @@
 import { z } from "zod";
+import { TRPCError } from "@trpc/server";
 import {
   createPublicClient,
-  createWalletClient,
   http,
   parseEther,
   formatUnits,
+  parseUnits,
+  parseEventLogs,
+  erc20Abi,
   isAddress,
   isAddressEqual,
   type Hex,
 } from "viem";
 import { base } from "viem/chains";
-import { privateKeyToAccount } from "viem/accounts";
-import { publicProcedure, protectedProcedure, router } from "../trpc";
+import type { Kysely, Selectable } from "kysely";
+import crypto from "node:crypto";
+import {
+  publicProcedure,
+  protectedProcedure,
+  rateLimit,
+  router,
+  isAdminWallet,
+} from "../trpc";
 import {
   getTrainingPriceUsd,
   getAdminWallet,
-  requirePaymentWalletKey,
   getPaymentRecipient,
   getQaWallets,
+  requireQuoteSigningSecret,
 } from "../env";
+import {
+  getDb,
+  type Database,
+  type PaymentsTable,
+  type PaymentAsset,
+} from "../db";
+
+function generateId(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
@@ -30,7 +50,15 @@ const UNISWAP_QUOTER_V2 =
 const WETH_BASE = "0x4200000000000000000000000000000000000006" as const;
 
 /** USDC on BASE (6 decimals) */
-const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
+export const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
+
+const USDC_DECIMALS = 6;
+
+/** Decimals of each accepted payment asset */
+const ASSET_DECIMALS: Record<PaymentAsset, number> = {
+  ETH: 18,
+  USDC: USDC_DECIMALS,
+};
 
 /** Fee tier: 0.05% = 500 */
 const FEE_TIER = 500;
@@ -42,10 +70,6 @@ const basePublicClient = createPublicClient({
   transport: http(),
 });
 
-// ─── In-memory replay protection ─────────────────────────────────────────────
-
-const usedTxHashes = new Set<string>();
-
 // ─── QuoterV2 ABI (minimal, only what we need) ──────────────────────────────
 
 const quoterV2Abi = [
@@ -101,7 +125,7 @@ export async function getEthPriceFromUniswap(): Promise<number> {
 
   // result[0] is amountOut in USDC (6 decimals)
   const amountOut = result[0];
-  const ethPriceUsd = Number(formatUnits(amountOut, 6));
+  const ethPriceUsd = Number(formatUnits(amountOut, USDC_DECIMALS));
 
   return ethPriceUsd;
 }
@@ -127,16 +151,148 @@ export function calculateRequiredEthWei(
 }
 
 /**
- * Verify a payment transaction on BASE.
- * Returns the transaction value if valid, throws otherwise.
+ * Calculate the required USDC amount (6 decimals) for a given USD amount.
+ */
+export function calculateRequiredUsdcAmount(targetUsd: number): bigint {
+  return parseUnits(targetUsd.toFixed(USDC_DECIMALS), USDC_DECIMALS);
+}
+
+/**
+ * Format a base-unit amount of a payment asset for messages and logs.
+ */
+export function formatAssetAmount(amount: bigint, asset: PaymentAsset): string {
+  return `${formatUnits(amount, ASSET_DECIMALS[asset])} ${asset}`;
+}
+
+// ─── Signed quotes ───────────────────────────────────────────────────────────
+
+/** How long a quote can be paid against */
+export const QUOTE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * A price quote bound to one wallet and asset. The client pays
+ * `requiredAmount` (in the asset's base units) before `expiresAt` and hands
+ * the signed quote ID back with the tx hash.
+ */
+export interface PaymentQuote {
+  walletAddress: string;
+  asset: PaymentAsset;
+  trainingPriceUsd: number;
+  ethPriceUsd: number;
+  requiredAmount: bigint;
+  expiresAt: number; // ms since epoch
+}
+
+function signQuotePayload(payload: string): string {
+  return crypto
+    .createHmac("sha256", requireQuoteSigningSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Create a signed quote ID: `<base64url JSON payload>.<base64url HMAC>`.
+ */
+export function createPaymentQuote(
+  quote: Omit<PaymentQuote, "expiresAt">,
+  now = Date.now(),
+): { quoteId: string; expiresAt: number } {
+  const expiresAt = now + QUOTE_TTL_MS;
+  const payload = Buffer.from(
+    JSON.stringify({
+      w: quote.walletAddress.toLowerCase(),
+      a: quote.asset,
+      p: quote.trainingPriceUsd,
+      e: quote.ethPriceUsd,
+      r: quote.requiredAmount.toString(),
+      x: expiresAt,
+      n: crypto.randomBytes(8).toString("hex"),
+    }),
+  ).toString("base64url");
+
+  return { quoteId: `${payload}.${signQuotePayload(payload)}`, expiresAt };
+}
+
+/**
+ * Check a quote's signature and that it was issued to `walletAddress`.
+ * Expiry is enforced against the payment's block time in `verifyPaymentTx`,
+ * not here — a tx mined just before expiry is still valid.
+ */
+export function verifyPaymentQuote(
+  quoteId: string,
+  walletAddress: string,
+): PaymentQuote {
+  const [payload, signature] = quoteId.split(".");
+  if (!payload || !signature) {
+    throw new Error("Malformed payment quote");
+  }
+
+  const expected = Buffer.from(signQuotePayload(payload));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    throw new Error("Invalid payment quote signature");
+  }
+
+  const data = JSON.parse(Buffer.from(payload, "base64url").toString()) as {
+    w: string;
+    a: PaymentAsset;
+    p: number;
+    e: number;
+    r: string;
+    x: number;
+  };
+
+  if (
+    !isAddress(walletAddress) ||
+    !isAddress(data.w) ||
+    !isAddressEqual(walletAddress, data.w)
+  ) {
+    throw new Error("Payment quote was issued to a different wallet");
+  }
+
+  return {
+    walletAddress: data.w,
+    asset: data.a,
+    trainingPriceUsd: data.p,
+    ethPriceUsd: data.e,
+    requiredAmount: BigInt(data.r),
+    expiresAt: data.x,
+  };
+}
+
+// ─── Payment ledger ──────────────────────────────────────────────────────────
+
+export type PaymentRecord = Selectable<PaymentsTable>;
+
+export async function getPaymentByTxHash(
+  txHash: string,
+): Promise<PaymentRecord | undefined> {
+  return getDb()
+    .selectFrom("payments")
+    .selectAll()
+    .where("tx_hash", "=", txHash.toLowerCase())
+    .executeTakeFirst();
+}
+
+/**
+ * Verify a payment transaction on BASE against a quote and record it in the
+ * payments ledger. The payment must come from the quoted wallet, pay at least
+ * the quoted amount of the quoted asset, and be mined before the quote expired.
+ *
+ * Verifying the same unclaimed hash twice is safe; throws if the payment has
+ * already been claimed by a training run.
  */
 export async function verifyPaymentTx(
   txHash: Hex,
-  expectedMinValueWei: bigint,
+  quote: PaymentQuote,
 ): Promise<{ value: bigint; from: string }> {
-  // Check replay protection
   const hashLower = txHash.toLowerCase();
-  if (usedTxHashes.has(hashLower)) {
+
+  const existing = await getPaymentByTxHash(hashLower);
+  if (existing?.claimed_at) {
     throw new Error("This transaction has already been used for a training run");
   }
 
@@ -151,54 +307,131 @@ export async function verifyPaymentTx(
     throw new Error("Transaction failed on-chain");
   }
 
-  // Verify recipient
   const paymentRecipient = getPaymentRecipient();
-  if (tx.to?.toLowerCase() !== paymentRecipient.toLowerCase()) {
-    throw new Error(
-      `Transaction recipient mismatch. Expected ${paymentRecipient}, got ${tx.to}`,
+  let value: bigint;
+
+  if (quote.asset === "USDC") {
+    // Sum USDC Transfer logs from the quoted wallet to the recipient. Reading
+    // logs rather than calldata also covers transfers routed via contracts.
+    const transfers = parseEventLogs({
+      abi: erc20Abi,
+      eventName: "Transfer",
+      logs: receipt.logs,
+    }).filter(
+      (log) =>
+        isAddressEqual(log.address, USDC_BASE) &&
+        isAddressEqual(log.args.from, quote.walletAddress as Hex) &&
+        isAddressEqual(log.args.to, paymentRecipient as Hex),
     );
+    if (transfers.length === 0) {
+      throw new Error(
+        `No USDC transfer from ${quote.walletAddress} to ${paymentRecipient} in this transaction`,
+      );
+    }
+    value = transfers.reduce((sum, log) => sum + log.args.value, 0n);
+  } else {
+    // Verify sender — only the quoted wallet can pay for its own training
+    if (!isAddressEqual(tx.from, quote.walletAddress as Hex)) {
+      throw new Error(
+        `Transaction sender mismatch. Expected ${quote.walletAddress}, got ${tx.from}`,
+      );
+    }
+
+    // Verify recipient
+    if (tx.to?.toLowerCase() !== paymentRecipient.toLowerCase()) {
+      throw new Error(
+        `Transaction recipient mismatch. Expected ${paymentRecipient}, got ${tx.to}`,
+      );
+    }
+    value = tx.value;
   }
 
-  // Verify minimum value (allow 5% slippage buffer)
-  const minAcceptable = (expectedMinValueWei * 95n) / 100n;
-  if (tx.value < minAcceptable) {
+  // Verify value against the quote — the price is locked, so no slippage buffer
+  if (value < quote.requiredAmount) {
     throw new Error(
-      `Insufficient payment. Expected at least ${formatUnits(minAcceptable, 18)} ETH, got ${formatUnits(tx.value, 18)} ETH`,
+      `Insufficient payment. Expected at least ${formatAssetAmount(quote.requiredAmount, quote.asset)}, got ${formatAssetAmount(value, quote.asset)}`,
     );
   }
 
-  // Mark as used
-  usedTxHashes.add(hashLower);
+  // Verify the payment landed while the quote was valid
+  const block = await basePublicClient.getBlock({
+    blockNumber: receipt.blockNumber,
+  });
+  if (Number(block.timestamp) * 1000 > quote.expiresAt) {
+    throw new Error("Payment was made after the price quote expired");
+  }
 
-  return { value: tx.value, from: tx.from };
+  // Record in the ledger — the unique tx_hash makes concurrent verifications
+  // of the same hash collapse into a single row
+  await getDb()
+    .insertInto("payments")
+    .values({
+      id: generateId(),
+      tx_hash: hashLower,
+      payer_address: quote.walletAddress,
+      asset: quote.asset,
+      value_wei: value.toString(),
+      eth_price_usd: quote.ethPriceUsd,
+      lora_training_id: null,
+      refund_tx_hash: null,
+      claimed_at: null,
+      refunded_at: null,
+      created_at: new Date().toISOString(),
+    })
+    .onConflict((oc) => oc.column("tx_hash").doNothing())
+    .execute();
+
+  return { value, from: quote.walletAddress };
 }
 
 /**
- * Send a refund transaction on BASE from the payment wallet to the user.
+ * Atomically mark a verified payment as spent. Exactly one caller can claim
+ * a given transaction; every other caller gets a replay error.
  */
-export async function sendRefund(
-  toAddress: string,
-  amountWei: bigint,
-): Promise<Hex> {
-  const privateKey = requirePaymentWalletKey();
-  const account = privateKeyToAccount(privateKey as Hex);
-
-  const walletClient = createWalletClient({
-    account,
-    chain: base,
-    transport: http(),
-  });
-
-  const txHash = await walletClient.sendTransaction({
-    to: toAddress as Hex,
-    value: amountWei,
-  });
+export async function claimPayment(txHash: Hex): Promise<void> {
+  const result = await getDb()
+    .updateTable("payments")
+    .set({ claimed_at: new Date().toISOString() })
+    .where("tx_hash", "=", txHash.toLowerCase())
+    .where("claimed_at", "is", null)
+    .executeTakeFirst();
+
+  if (Number(result.numUpdatedRows) === 0) {
+    throw new Error("This transaction has already been used for a training run");
+  }
+}
 
-  console.log(
-    `Refund sent: ${txHash} (${formatUnits(amountWei, 18)} ETH to ${toAddress})`,
-  );
+/**
+ * Link a claimed payment to the lora_trainings row it paid for. Pass the
+ * transaction that creates the row, so neither exists without the other.
+ */
+export async function linkPaymentToTraining(
+  txHash: Hex,
+  loraTrainingId: string,
+  db: Kysely<Database> = getDb(),
+): Promise<void> {
+  const result = await db
+    .updateTable("payments")
+    .set({ lora_training_id: loraTrainingId })
+    .where("tx_hash", "=", txHash.toLowerCase())
+    .where("claimed_at", "is not", null)
+    .executeTakeFirst();
+
+  if (Number(result.numUpdatedRows) === 0) {
+    throw new Error(`No claimed payment ${txHash} to link`);
+  }
+}
 
-  return txHash;
+/**
+ * List ledger entries, newest first.
+ */
+export async function listPayments(limit: number): Promise<PaymentRecord[]> {
+  return getDb()
+    .selectFrom("payments")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(limit)
+    .execute();
 }
 
 /**
@@ -208,10 +441,7 @@ export function isPaymentExempt(walletAddress: string): boolean {
   if (!walletAddress || !isAddress(walletAddress)) return false;
 
   // Check admin wallet
-  const adminWallet = getAdminWallet();
-  if (adminWallet && isAddress(adminWallet)) {
-    if (isAddressEqual(walletAddress, adminWallet)) return true;
-  }
+  if (isAdminWallet(walletAddress)) return true;
 
   // Check QA wallets
   const qaWallets = getQaWallets();
@@ -225,47 +455,78 @@ export function isPaymentExempt(walletAddress: string): boolean {
 export const paymentRouter = router({
   /**
    * Get current ETH price and required payment amount.
-   * Public so the frontend can display pricing before auth.
+   * Public so the frontend can display pricing before auth; signed-in
+   * wallets also get a signed quote to pay against.
    */
-  getEthPrice: publicProcedure.query(async () => {
-    const trainingPriceUsd = getTrainingPriceUsd();
-    const ethPriceUsd = await getEthPriceFromUniswap();
-    const requiredEthWei = calculateRequiredEthWei(
-      ethPriceUsd,
-      trainingPriceUsd,
-    );
+  getEthPrice: publicProcedure
+    .use(rateLimit("payment.getEthPrice"))
+    .query(async ({ ctx }) => {
+      const trainingPriceUsd = getTrainingPriceUsd();
+      const ethPriceUsd = await getEthPriceFromUniswap();
+      const requiredEthWei = calculateRequiredEthWei(
+        ethPriceUsd,
+        trainingPriceUsd,
+      );
 
-    return {
-      trainingPriceUsd,
-      ethPriceUsd,
-      requiredEthWei: requiredEthWei.toString(), // bigint → string for JSON
-      paymentRecipient: getPaymentRecipient(),
-      adminWallet: getAdminWallet() ?? null,
-      qaWallets: getQaWallets(),
-    };
-  }),
+      const requiredUsdcAmount = calculateRequiredUsdcAmount(trainingPriceUsd);
+
+      // One quote per asset so the client can pay with either
+      const walletAddress = ctx.session?.user.walletAddress;
+      const quote = (asset: PaymentAsset, requiredAmount: bigint) =>
+        createPaymentQuote({
+          walletAddress: walletAddress!,
+          asset,
+          trainingPriceUsd,
+          ethPriceUsd,
+          requiredAmount,
+        });
+      const quotes =
+        walletAddress && isAddress(walletAddress)
+          ? {
+              ETH: quote("ETH", requiredEthWei),
+              USDC: quote("USDC", requiredUsdcAmount),
+            }
+          : null;
+
+      return {
+        trainingPriceUsd,
+        ethPriceUsd,
+        requiredEthWei: requiredEthWei.toString(), // bigint → string for JSON
+        requiredUsdcAmount: requiredUsdcAmount.toString(),
+        usdcAddress: USDC_BASE,
+        quotes,
+        paymentRecipient: getPaymentRecipient(),
+        adminWallet: getAdminWallet() ?? null,
+        qaWallets: getQaWallets(),
+      };
+    }),
 
   /**
-   * Verify a payment transaction on-chain.
+   * Verify a payment transaction on-chain and record it in the ledger.
+   * The payment stays unclaimed until a training run spends it.
    */
   verifyPayment: protectedProcedure
     .input(
       z.object({
         txHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/),
+        quoteId: z.string().min(1).max(1000),
       }),
     )
-    .mutation(async ({ input }) => {
-      const trainingPriceUsd = getTrainingPriceUsd();
-      const ethPriceUsd = await getEthPriceFromUniswap();
-      const requiredEthWei = calculateRequiredEthWei(
-        ethPriceUsd,
-        trainingPriceUsd,
-      );
-
-      const result = await verifyPaymentTx(
-        input.txHash as Hex,
-        requiredEthWei,
-      );
+    .mutation(async ({ input, ctx }) => {
+      let quote: PaymentQuote;
+      try {
+        quote = verifyPaymentQuote(
+          input.quoteId,
+          ctx.session.user.walletAddress,
+        );
+      } catch (error) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: error instanceof Error ? error.message : "Invalid quote",
+        });
+      }
+
+      const result = await verifyPaymentTx(input.txHash as Hex, quote);
 
       return {
         verified: true,
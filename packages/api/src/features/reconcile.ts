@@ -0,0 +1,280 @@
+import { fal, ApiError } from "@fal-ai/client";
+import { getDb } from "../db";
+import { ensureFalConfigured, extractLoraWeightsUrl } from "./fal";
+import { failLoraSubmit } from "./lora";
+import { enqueueRefundForTraining } from "./refunds";
+import { DEFAULT_TRAINER_ID, trainerEndpoint } from "./trainers";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type TrainingOutcome =
+  | { status: "pending" }
+  | { status: "completed"; loraWeightsUrl: string }
+  | { status: "failed"; error: string }
+  /** FAL has no record of the request — left pending for a person to check */
+  | { status: "unknown"; error: string };
+
+export interface ReconcileResult {
+  id: string;
+  requestId: string;
+  status: TrainingOutcome["status"];
+  error?: string;
+}
+
+export interface ReconcileSummary {
+  checked: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  unknown: number;
+  errors: number;
+  refundsQueued: number;
+  results: ReconcileResult[];
+}
+
+/** Time a training may stay "submitting" before the reconciler fails it */
+export const SUBMIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** A FAL error's detail message, or the error's own */
+export function errorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    const detail =
+      error.body && typeof error.body === "object" && "detail" in error.body
+        ? (error.body as { detail: unknown }).detail
+        : null;
+    return typeof detail === "string" ? detail : error.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+/**
+ * A 404 can mean a wrong endpoint or a FAL hiccup as well as a request that
+ * never existed, so it settles nothing on its own.
+ */
+function isNotFound(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 404;
+}
+
+/**
+ * Ask FAL where a training request currently stands, on the queue of the
+ * trainer it was submitted to. Every error FAL reports is a failure; a row
+ * its owner cancelled is already `cancelled` and is not looked up.
+ *
+ * Throws on transient failures (network, 5xx) so the caller can leave the
+ * row untouched and retry on the next pass.
+ */
+export async function fetchTrainingOutcome(
+  requestId: string,
+  trainer: string = DEFAULT_TRAINER_ID,
+): Promise<TrainingOutcome> {
+  const endpoint = trainerEndpoint(trainer);
+  let status;
+  try {
+    status = await fal.queue.status(endpoint, {
+      requestId,
+      logs: false,
+    });
+  } catch (error) {
+    if (isNotFound(error)) {
+      return { status: "unknown", error: "Request not found on FAL" };
+    }
+    throw error;
+  }
+
+  if (status.status !== "COMPLETED") {
+    return { status: "pending" };
+  }
+
+  try {
+    const result = await fal.queue.result(endpoint, { requestId });
+    const loraWeightsUrl = extractLoraWeightsUrl(
+      result.data as Record<string, unknown>,
+    );
+    if (!loraWeightsUrl) {
+      return {
+        status: "failed",
+        error: "Training finished without a LoRA weights file",
+      };
+    }
+    return { status: "completed", loraWeightsUrl };
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status >= 500) {
+      throw error;
+    }
+    if (isNotFound(error)) {
+      return { status: "unknown", error: "Result not found on FAL" };
+    }
+    return { status: "failed", error: errorMessage(error) };
+  }
+}
+
+/**
+ * Write a terminal outcome to a lora_trainings row. Only pending rows are
+ * updated so a row the webhook, the watcher or a cancel already settled is
+ * never overwritten.
+ */
+export async function applyTrainingOutcome(
+  id: string,
+  outcome: TrainingOutcome,
+): Promise<boolean> {
+  if (outcome.status === "pending" || outcome.status === "unknown") {
+    return false;
+  }
+
+  const db = getDb();
+
+  const result = await db
+    .updateTable("lora_trainings")
+    .set(
+      outcome.status === "completed"
+        ? {
+            status: "completed",
+            lora_weights_url: outcome.loraWeightsUrl,
+            error_message: null,
+          }
+        : { status: outcome.status, error_message: outcome.error },
+    )
+    .where("id", "=", id)
+    .where("status", "=", "pending")
+    .executeTakeFirst();
+
+  return Number(result.numUpdatedRows) > 0;
+}
+
+/**
+ * Persist a terminal outcome and, when a paid run failed on FAL, queue its
+ * refund. Shared by the reconciler and the FAL webhook so both apply the
+ * same policy. Weights are copied to our storage later, by the rehost
+ * backfill.
+ */
+export async function settleTraining(
+  id: string,
+  outcome: TrainingOutcome,
+): Promise<{ applied: boolean; refundQueued: boolean }> {
+  if (outcome.status === "unknown") {
+    console.warn(`[reconcile] ${id}: ${outcome.error} — left pending for review`);
+  }
+  const applied = await applyTrainingOutcome(id, outcome);
+  let refundQueued = false;
+
+  // A paid run that failed on FAL after submission gets its money back
+  if (applied && outcome.status === "failed") {
+    try {
+      const refund = await enqueueRefundForTraining(
+        id,
+        `Training failed on FAL: ${outcome.error}`,
+      );
+      refundQueued = !!refund;
+    } catch (refundError) {
+      console.error(`[reconcile] Failed to queue refund for ${id}:`, refundError);
+    }
+  }
+
+  return { applied, refundQueued };
+}
+
+// ─── Reconciler ──────────────────────────────────────────────────────────────
+
+/**
+ * Walk pending lora_trainings rows (oldest first), check each one against
+ * the FAL queue and persist any terminal state. Trainings stuck submitting
+ * — the process died before FAL answered — are failed and refunded.
+ */
+export async function reconcilePendingTrainings(
+  options: { limit?: number; dryRun?: boolean } = {},
+): Promise<ReconcileSummary> {
+  const { limit = 50, dryRun = false } = options;
+
+  ensureFalConfigured();
+  const db = getDb();
+
+  const rows = await db
+    .selectFrom("lora_trainings")
+    .select(["id", "request_id", "trainer"])
+    .where("status", "=", "pending")
+    .orderBy("created_at", "asc")
+    .limit(limit)
+    .execute();
+
+  const abandoned = await db
+    .selectFrom("lora_trainings")
+    .select(["id", "request_id"])
+    .where("status", "=", "submitting")
+    .where(
+      "created_at",
+      "<",
+      new Date(Date.now() - SUBMIT_TIMEOUT_MS).toISOString(),
+    )
+    .execute();
+
+  const summary: ReconcileSummary = {
+    checked: rows.length + abandoned.length,
+    completed: 0,
+    failed: abandoned.length,
+    pending: 0,
+    unknown: 0,
+    errors: 0,
+    refundsQueued: 0,
+    results: [],
+  };
+
+  for (const row of abandoned) {
+    const error = "Submission to FAL did not complete";
+    if (!dryRun) {
+      await failLoraSubmit(row.id, error);
+      try {
+        const refund = await enqueueRefundForTraining(
+          row.id,
+          `Training submission failed: ${error}`,
+        );
+        if (refund) summary.refundsQueued++;
+      } catch (refundError) {
+        console.error(
+          `[reconcile] Failed to queue refund for ${row.id}:`,
+          refundError,
+        );
+      }
+    }
+    summary.results.push({
+      id: row.id,
+      requestId: row.request_id,
+      status: "failed",
+      error,
+    });
+    console.log(`[reconcile] training ${row.id} never submitted → failed`);
+  }
+
+  // Sequential on purpose — keeps us well under FAL's queue API rate limits
+  for (const row of rows) {
+    try {
+      const outcome = await fetchTrainingOutcome(row.request_id, row.trainer);
+      if (!dryRun) {
+        const { refundQueued } = await settleTraining(row.id, outcome);
+        if (refundQueued) summary.refundsQueued++;
+      }
+      summary[outcome.status]++;
+      summary.results.push({
+        id: row.id,
+        requestId: row.request_id,
+        status: outcome.status,
+        ...("error" in outcome && { error: outcome.error }),
+      });
+      console.log(
+        `[reconcile] ${row.request_id} (id: ${row.id}) → ${outcome.status}`,
+      );
+    } catch (error) {
+      summary.errors++;
+      summary.results.push({
+        id: row.id,
+        requestId: row.request_id,
+        status: "pending",
+        error: errorMessage(error),
+      });
+      console.error(`[reconcile] Failed to check ${row.request_id}:`, error);
+    }
+  }
+
+  return summary;
+}
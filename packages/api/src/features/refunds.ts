@@ -0,0 +1,523 @@
+import {
+  createPublicClient,
+  http,
+  encodeFunctionData,
+  erc20Abi,
+  keccak256,
+  TransactionReceiptNotFoundError,
+  type Hex,
+  type TransactionReceipt,
+} from "viem";
+import { base } from "viem/chains";
+import { privateKeyToAccount } from "viem/accounts";
+import type { Selectable } from "kysely";
+import crypto from "node:crypto";
+import { requirePaymentWalletKey } from "../env";
+import {
+  getDb,
+  type RefundsTable,
+  type RefundStatus,
+} from "../db";
+import { USDC_BASE, formatAssetAmount, getPaymentByTxHash } from "./payment";
+
+function generateId(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+// ─── Constants ───────────────────────────────────────────────────────────────
+
+/** Give up on a refund after this many failed attempts to sign/broadcast */
+export const MAX_REFUND_ATTEMPTS = 5;
+
+/** Rebroadcast with bumped fees if a refund has not mined after this long */
+export const REFUND_STUCK_AFTER_MS = 3 * 60 * 1000;
+
+/** Replacement fee bump in percent — nodes require at least 10% */
+const GAS_BUMP_PERCENT = 25n;
+
+/** Gas for a plain ETH transfer */
+const ETH_TRANSFER_GAS = 21_000n;
+
+// ─── Viem clients ────────────────────────────────────────────────────────────
+
+const basePublicClient = createPublicClient({
+  chain: base,
+  transport: http(),
+});
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type RefundRecord = Selectable<RefundsTable>;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    // viem errors carry a multi-line message; the short one is enough here
+    return "shortMessage" in error && typeof error.shortMessage === "string"
+      ? error.shortMessage
+      : error.message;
+  }
+  return "Unknown error";
+}
+
+function bumpFee(fee: bigint): bigint {
+  return (fee * (100n + GAS_BUMP_PERCENT)) / 100n;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function parseTxHashes(refund: RefundRecord): Hex[] {
+  return JSON.parse(refund.tx_hashes) as Hex[];
+}
+
+/**
+ * A transaction's receipt, or null while it has not mined. Any other RPC
+ * failure is thrown — reading it as "not mined" could fail a refund that
+ * was actually paid, and a re-drive would then pay it twice.
+ */
+async function findReceipt(hash: Hex): Promise<TransactionReceipt | null> {
+  try {
+    return await basePublicClient.getTransactionReceipt({ hash });
+  } catch (error) {
+    if (error instanceof TransactionReceiptNotFoundError) return null;
+    throw error;
+  }
+}
+
+/** The first of a refund's transactions that mined successfully, if any */
+async function findMinedHash(refund: RefundRecord): Promise<Hex | null> {
+  for (const hash of parseTxHashes(refund)) {
+    const receipt = await findReceipt(hash);
+    if (receipt?.status === "success") return hash;
+  }
+  return null;
+}
+
+function getPaymentAccount() {
+  return privateKeyToAccount(requirePaymentWalletKey() as Hex);
+}
+
+/**
+ * All refunds are signed by the one payment wallet, so nonce allocation and
+ * broadcasting are serialised through this chain within the process.
+ */
+let walletLock: Promise<unknown> = Promise.resolve();
+
+function withWalletLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = walletLock.then(fn, fn);
+  walletLock = run.catch(() => {});
+  return run;
+}
+
+async function updateRefund(
+  id: string,
+  values: Partial<Omit<RefundsTable, "id" | "created_at">>,
+): Promise<RefundRecord> {
+  return getDb()
+    .updateTable("refunds")
+    .set({ ...values, updated_at: new Date().toISOString() })
+    .where("id", "=", id)
+    .returningAll()
+    .executeTakeFirstOrThrow();
+}
+
+/**
+ * Pick the next nonce for the payment wallet: whichever is higher of the
+ * chain's pending count and one past any nonce already reserved by an
+ * in-flight refund (which may not have reached the mempool yet).
+ */
+async function allocateNonce(address: Hex): Promise<number> {
+  const [pendingCount, reserved] = await Promise.all([
+    basePublicClient.getTransactionCount({ address, blockTag: "pending" }),
+    getDb()
+      .selectFrom("refunds")
+      .select((eb) => eb.fn.max("nonce").as("nonce"))
+      .where("status", "=", "sent")
+      .executeTakeFirst(),
+  ]);
+  const nextReserved = reserved?.nonce != null ? Number(reserved.nonce) + 1 : 0;
+  return Math.max(pendingCount, nextReserved);
+}
+
+/**
+ * Sign a refund transaction at the given nonce and fees. Signing locally
+ * gives us the hash before broadcasting, so it can be persisted first.
+ */
+async function signRefundTx(
+  refund: RefundRecord,
+  nonce: number,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+): Promise<{ hash: Hex; serialized: Hex }> {
+  const account = getPaymentAccount();
+  const amount = BigInt(refund.amount);
+  const recipient = refund.recipient_address as Hex;
+
+  const call =
+    refund.asset === "USDC"
+      ? {
+          to: USDC_BASE as Hex,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [recipient, amount],
+          }),
+        }
+      : { to: recipient, value: amount, data: undefined };
+
+  const gas =
+    refund.asset === "USDC"
+      ? await basePublicClient.estimateGas({ account: account.address, ...call })
+      : ETH_TRANSFER_GAS;
+
+  const serialized = await account.signTransaction({
+    chainId: base.id,
+    type: "eip1559",
+    nonce,
+    gas,
+    ...fees,
+    ...call,
+  });
+
+  return { hash: keccak256(serialized), serialized };
+}
+
+/**
+ * Sign and broadcast a refund, persisting the nonce and hash before the
+ * broadcast so a crash mid-send can never lead to a second, differently
+ * nonced refund for the same payment.
+ */
+async function broadcastRefund(
+  refund: RefundRecord,
+  nonce: number,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+): Promise<RefundRecord> {
+  const { hash, serialized } = await signRefundTx(refund, nonce, fees);
+
+  let updated = await updateRefund(refund.id, {
+    status: "sent",
+    nonce,
+    tx_hash: hash,
+    tx_hashes: JSON.stringify([...parseTxHashes(refund), hash]),
+    max_fee_per_gas: fees.maxFeePerGas.toString(),
+    max_priority_fee_per_gas: fees.maxPriorityFeePerGas.toString(),
+    attempts: refund.attempts + 1,
+    last_error: null,
+    sent_at: new Date().toISOString(),
+  });
+
+  try {
+    await basePublicClient.sendRawTransaction({
+      serializedTransaction: serialized,
+    });
+    console.log(
+      `[refunds] Broadcast ${hash} (nonce ${nonce}): ${formatAssetAmount(BigInt(refund.amount), refund.asset)} to ${refund.recipient_address}`,
+    );
+  } catch (error) {
+    // The tx is signed and recorded; the stuck check will rebroadcast it
+    console.error(`[refunds] Broadcast of ${hash} failed:`, error);
+    updated = await updateRefund(refund.id, { last_error: errorMessage(error) });
+  }
+
+  return updated;
+}
+
+async function markConfirmed(
+  refund: RefundRecord,
+  txHash: Hex,
+): Promise<RefundRecord> {
+  const now = new Date().toISOString();
+  await getDb()
+    .updateTable("payments")
+    .set({ refund_tx_hash: txHash, refunded_at: now })
+    .where("id", "=", refund.payment_id)
+    .execute();
+  console.log(`[refunds] Refund ${refund.id} confirmed: ${txHash}`);
+  return updateRefund(refund.id, {
+    status: "confirmed",
+    tx_hash: txHash,
+    last_error: null,
+    confirmed_at: now,
+  });
+}
+
+// ─── State machine ───────────────────────────────────────────────────────────
+
+/** queued → sent: reserve a nonce and send the first transaction. */
+async function sendQueuedRefund(refund: RefundRecord): Promise<RefundRecord> {
+  try {
+    const account = getPaymentAccount();
+    const [nonce, fees] = await Promise.all([
+      allocateNonce(account.address),
+      basePublicClient.estimateFeesPerGas(),
+    ]);
+    return await broadcastRefund(refund, nonce, fees);
+  } catch (error) {
+    const attempts = refund.attempts + 1;
+    const status: RefundStatus =
+      attempts >= MAX_REFUND_ATTEMPTS ? "failed" : "queued";
+    console.error(
+      `[refunds] Refund ${refund.id} attempt ${attempts} failed (${status}):`,
+      error,
+    );
+    return updateRefund(refund.id, {
+      status,
+      attempts,
+      last_error: errorMessage(error),
+    });
+  }
+}
+
+/**
+ * sent → confirmed | failed, or rebroadcast at the same nonce with bumped
+ * fees once it has been stuck for too long. Every hash sent for the nonce is
+ * checked since any one of the replacements may be the one that mined. An
+ * RPC failure while checking throws and leaves the refund "sent".
+ */
+async function checkSentRefund(refund: RefundRecord): Promise<RefundRecord> {
+  for (const hash of parseTxHashes(refund)) {
+    const receipt = await findReceipt(hash);
+    if (!receipt) continue;
+
+    if (receipt.status === "success") {
+      return markConfirmed(refund, hash);
+    }
+    return updateRefund(refund.id, {
+      status: "failed",
+      last_error: `Refund transaction ${hash} reverted`,
+    });
+  }
+
+  const nonce = refund.nonce!;
+  const account = getPaymentAccount();
+  const minedCount = await basePublicClient.getTransactionCount({
+    address: account.address,
+    blockTag: "latest",
+  });
+  if (minedCount > nonce) {
+    // Something else used the nonce, so none of our hashes can mine any more
+    return updateRefund(refund.id, {
+      status: "failed",
+      last_error: `Nonce ${nonce} was used by another transaction`,
+    });
+  }
+
+  const sentAt = refund.sent_at ? new Date(refund.sent_at).getTime() : 0;
+  if (Date.now() - sentAt < REFUND_STUCK_AFTER_MS) return refund;
+
+  if (refund.attempts >= MAX_REFUND_ATTEMPTS) {
+    // Keep watching the existing transactions but stop bumping
+    return updateRefund(refund.id, {
+      last_error: `Not mined after ${refund.attempts} attempts — re-drive to bump fees again`,
+    });
+  }
+
+  try {
+    const estimate = await basePublicClient.estimateFeesPerGas();
+    const fees = {
+      maxFeePerGas: maxBigInt(
+        estimate.maxFeePerGas,
+        bumpFee(BigInt(refund.max_fee_per_gas ?? 0)),
+      ),
+      maxPriorityFeePerGas: maxBigInt(
+        estimate.maxPriorityFeePerGas,
+        bumpFee(BigInt(refund.max_priority_fee_per_gas ?? 0)),
+      ),
+    };
+    console.log(
+      `[refunds] Refund ${refund.id} stuck at nonce ${nonce}, bumping fees`,
+    );
+    return await broadcastRefund(refund, nonce, fees);
+  } catch (error) {
+    console.error(`[refunds] Fee bump for ${refund.id} failed:`, error);
+    return updateRefund(refund.id, { last_error: errorMessage(error) });
+  }
+}
+
+// ─── Queue ───────────────────────────────────────────────────────────────────
+
+export async function getRefund(id: string): Promise<RefundRecord | undefined> {
+  return getDb()
+    .selectFrom("refunds")
+    .selectAll()
+    .where("id", "=", id)
+    .executeTakeFirst();
+}
+
+/**
+ * Queue a refund of a ledger payment back to its payer, in the asset it was
+ * paid in. Idempotent — a payment only ever gets one refund row, and the
+ * existing one is returned if it was already queued.
+ */
+export async function enqueueRefund(
+  paymentTxHash: string,
+  reason: string,
+): Promise<RefundRecord> {
+  const payment = await getPaymentByTxHash(paymentTxHash);
+  if (!payment) {
+    throw new Error(`No ledger entry for payment ${paymentTxHash}`);
+  }
+  if (payment.refund_tx_hash) {
+    throw new Error(
+      `Payment ${paymentTxHash} was already refunded (tx: ${payment.refund_tx_hash})`,
+    );
+  }
+
+  const now = new Date().toISOString();
+  await getDb()
+    .insertInto("refunds")
+    .values({
+      id: generateId(),
+      payment_id: payment.id,
+      recipient_address: payment.payer_address,
+      asset: payment.asset,
+      amount: payment.value_wei,
+      reason,
+      status: "queued",
+      nonce: null,
+      tx_hash: null,
+      tx_hashes: "[]",
+      max_fee_per_gas: null,
+      max_priority_fee_per_gas: null,
+      attempts: 0,
+      last_error: null,
+      sent_at: null,
+      confirmed_at: null,
+      created_at: now,
+      updated_at: now,
+    })
+    .onConflict((oc) => oc.column("payment_id").doNothing())
+    .execute();
+
+  const refund = await getDb()
+    .selectFrom("refunds")
+    .selectAll()
+    .where("payment_id", "=", payment.id)
+    .executeTakeFirstOrThrow();
+
+  console.log(`[refunds] Refund ${refund.id} queued for ${paymentTxHash}: ${reason}`);
+  return refund;
+}
+
+/**
+ * Queue a refund for whatever payment funded a training run. Returns null
+ * when the run was not paid for (admin / QA wallets).
+ */
+export async function enqueueRefundForTraining(
+  loraTrainingId: string,
+  reason: string,
+): Promise<RefundRecord | null> {
+  const payment = await getDb()
+    .selectFrom("payments")
+    .select("tx_hash")
+    .where("lora_training_id", "=", loraTrainingId)
+    .where("claimed_at", "is not", null)
+    .executeTakeFirst();
+  if (!payment) return null;
+  return enqueueRefund(payment.tx_hash, reason);
+}
+
+/**
+ * Advance a single refund one step through its state machine. Confirmed and
+ * failed refunds are returned unchanged.
+ */
+export async function processRefund(id: string): Promise<RefundRecord> {
+  return withWalletLock(async () => {
+    const refund = await getRefund(id);
+    if (!refund) throw new Error(`Refund ${id} not found`);
+
+    switch (refund.status) {
+      case "queued":
+        return sendQueuedRefund(refund);
+      case "sent":
+        return checkSentRefund(refund);
+      default:
+        return refund;
+    }
+  });
+}
+
+/**
+ * Drive every open (queued or sent) refund, oldest first.
+ */
+export async function processRefunds(
+  options: { limit?: number } = {},
+): Promise<Record<RefundStatus, number>> {
+  const { limit = 50 } = options;
+
+  const open = await getDb()
+    .selectFrom("refunds")
+    .select("id")
+    .where("status", "in", ["queued", "sent"])
+    .orderBy("created_at", "asc")
+    .limit(limit)
+    .execute();
+
+  const counts: Record<RefundStatus, number> = {
+    queued: 0,
+    sent: 0,
+    confirmed: 0,
+    failed: 0,
+  };
+  for (const { id } of open) {
+    try {
+      const refund = await processRefund(id);
+      counts[refund.status]++;
+    } catch (error) {
+      console.error(`[refunds] Failed to process refund ${id}:`, error);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Admin re-drive. A failed refund goes back to the queue with a fresh nonce
+ * unless one of its earlier transactions turns out to have mined; a sent one
+ * is bumped immediately. Confirmed refunds cannot be re-driven.
+ */
+export async function redriveRefund(id: string): Promise<RefundRecord> {
+  const refund = await getRefund(id);
+  if (!refund) throw new Error(`Refund ${id} not found`);
+
+  if (refund.status === "confirmed") {
+    throw new Error(`Refund ${id} is already confirmed`);
+  }
+  if (refund.status === "failed") {
+    // Never pay twice: one of the old transactions may have mined after all
+    const minedHash = await findMinedHash(refund);
+    if (minedHash) return markConfirmed(refund, minedHash);
+
+    await updateRefund(id, {
+      status: "queued",
+      nonce: null,
+      tx_hash: null,
+      tx_hashes: "[]",
+      attempts: 0,
+    });
+  } else if (refund.status === "sent") {
+    await updateRefund(id, { attempts: 0, sent_at: null });
+  }
+
+  return processRefund(id);
+}
+
+/**
+ * List refunds, newest first, optionally filtered by status.
+ */
+export async function listRefunds(options: {
+  limit: number;
+  status?: RefundStatus;
+}): Promise<RefundRecord[]> {
+  let query = getDb()
+    .selectFrom("refunds")
+    .selectAll()
+    .orderBy("created_at", "desc")
+    .limit(options.limit);
+  if (options.status) {
+    query = query.where("status", "=", options.status);
+  }
+  return query.execute();
+}
@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { publicProcedure, router } from "../trpc";
-import { getDb, ensureLoraTable, ensureGeneratedImagesTable } from "../db";
+import { getDb } from "../db";
 
 /** Fisher-Yates shuffle (in-place) */
 function shuffle<T>(arr: T[]): T[] {
@@ -23,8 +23,6 @@ export const slideshowRouter = router({
         .default({}),
     )
     .query(async ({ input }) => {
-      await ensureLoraTable();
-      await ensureGeneratedImagesTable();
       const db = getDb();
 
       // 1. Random generated images
@@ -37,24 +35,22 @@ export const slideshowRouter = router({
 
       const genUrls = genRows.map((r) => r.image_url);
 
-      // 2. Random training rows (each has a JSON array of URLs)
+      // 2. Random training images from completed LoRAs
       const trainingRows = await db
-        .selectFrom("lora_trainings")
-        .select(["image_urls"])
-        .where("status", "=", "completed")
+        .selectFrom("lora_training_images")
+        .innerJoin(
+          "lora_trainings",
+          "lora_trainings.id",
+          "lora_training_images.lora_training_id",
+        )
+        .select("lora_training_images.image_url")
+        .where("lora_trainings.status", "=", "completed")
+        .groupBy("lora_training_images.image_url")
         .orderBy(db.fn("RANDOM", []))
-        .limit(5)
+        .limit(input.count)
         .execute();
 
-      const trainingUrls: string[] = [];
-      for (const row of trainingRows) {
-        try {
-          const urls = JSON.parse(row.image_urls) as string[];
-          trainingUrls.push(...urls);
-        } catch {
-          // skip malformed rows
-        }
-      }
+      const trainingUrls = trainingRows.map((r) => r.image_url);
 
       // 3. Combine, deduplicate, shuffle, take `count`
       const allUrls = [...new Set([...genUrls, ...trainingUrls])];
@@ -0,0 +1,191 @@
+import { z } from "zod";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** How the settings panel should render one extra trainer parameter */
+export interface TrainerField {
+  key: string;
+  label: string;
+  description: string;
+  kind: "boolean" | "number";
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface TrainerDefinition<
+  Params extends z.AnyZodObject = z.AnyZodObject,
+> {
+  id: string;
+  label: string;
+  description: string;
+  /** FAL queue endpoint the training is submitted to */
+  endpoint: string;
+  steps: { min: number; max: number; step: number; default: number };
+  /** Edge length training images are preprocessed to */
+  resolution: number;
+  /** Extra parameters beyond trigger word and steps, with their defaults */
+  params: Params;
+  fields: TrainerField[];
+  /** Build the FAL request input from our settings */
+  buildInput(input: {
+    imagesDataUrl: string;
+    triggerWord: string;
+    steps: number;
+    params: z.infer<Params>;
+  }): Record<string, unknown>;
+}
+
+function defineTrainer<Params extends z.AnyZodObject>(
+  trainer: TrainerDefinition<Params>,
+): TrainerDefinition {
+  return trainer as unknown as TrainerDefinition;
+}
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+const fastTrainer = defineTrainer({
+  id: "flux-lora-fast",
+  label: "Fast",
+  description:
+    "Quick FLUX LoRA for a subject or a style. Good default for most are.na channels.",
+  endpoint: "fal-ai/flux-lora-fast-training",
+  steps: { min: 100, max: 2000, step: 100, default: 1000 },
+  resolution: 1024,
+  params: z.object({
+    isStyle: z.boolean().default(false),
+    createMasks: z.boolean().default(true),
+  }),
+  fields: [
+    {
+      key: "isStyle",
+      label: "Style training",
+      description:
+        "Train a look rather than a subject. Turns off auto-captioning and masks; the trigger word is used as every caption.",
+      kind: "boolean",
+    },
+    {
+      key: "createMasks",
+      label: "Subject masks",
+      description:
+        "Weight the training loss with segmentation masks (face masks for people).",
+      kind: "boolean",
+    },
+  ],
+  buildInput: ({ imagesDataUrl, triggerWord, steps, params }) => ({
+    images_data_url: imagesDataUrl,
+    trigger_word: triggerWord,
+    steps,
+    is_style: params.isStyle,
+    create_masks: params.isStyle ? false : params.createMasks,
+  }),
+});
+
+const portraitTrainer = defineTrainer({
+  id: "flux-lora-portrait",
+  label: "Portrait",
+  description:
+    "Slower FLUX LoRA tuned for faces and people. Works best with 10+ photos of the same person.",
+  endpoint: "fal-ai/flux-lora-portrait-trainer",
+  steps: { min: 1000, max: 4000, step: 100, default: 2500 },
+  resolution: 1024,
+  params: z.object({
+    learningRate: z.number().min(0.00001).max(0.001).default(0.00009),
+    multiresolution: z.boolean().default(true),
+    subjectCrop: z.boolean().default(true),
+    createMasks: z.boolean().default(false),
+  }),
+  fields: [
+    {
+      key: "learningRate",
+      label: "Learning rate",
+      description: "Higher learns faster but can overfit.",
+      kind: "number",
+      min: 0.00001,
+      max: 0.001,
+      step: 0.00001,
+    },
+    {
+      key: "multiresolution",
+      label: "Multi-resolution",
+      description: "Train at several resolutions instead of one.",
+      kind: "boolean",
+    },
+    {
+      key: "subjectCrop",
+      label: "Crop to subject",
+      description: "Detect the person in each image and crop to them.",
+      kind: "boolean",
+    },
+    {
+      key: "createMasks",
+      label: "Subject masks",
+      description: "Weight the training loss with masks of the subject.",
+      kind: "boolean",
+    },
+  ],
+  buildInput: ({ imagesDataUrl, triggerWord, steps, params }) => ({
+    images_data_url: imagesDataUrl,
+    trigger_phrase: triggerWord,
+    steps,
+    learning_rate: params.learningRate,
+    multiresolution_training: params.multiresolution,
+    subject_crop: params.subjectCrop,
+    create_masks: params.createMasks,
+  }),
+});
+
+export const TRAINERS: readonly TrainerDefinition[] = [
+  fastTrainer,
+  portraitTrainer,
+];
+
+/** Trainer of every row created before trainers were selectable */
+export const DEFAULT_TRAINER_ID = fastTrainer.id;
+
+export function findTrainer(id: string): TrainerDefinition | undefined {
+  return TRAINERS.find((trainer) => trainer.id === id);
+}
+
+export function getTrainer(id: string): TrainerDefinition {
+  const trainer = findTrainer(id);
+  if (!trainer) throw new Error(`Unknown trainer "${id}"`);
+  return trainer;
+}
+
+/** FAL queue endpoint for a stored trainer ID */
+export function trainerEndpoint(id: string): string {
+  return getTrainer(id).endpoint;
+}
+
+/**
+ * Validate steps and extra parameters against a trainer, filling in its
+ * defaults. Throws a ZodError describing the first invalid setting.
+ */
+export function resolveTrainerSettings(
+  trainer: TrainerDefinition,
+  settings: { steps?: number; params?: Record<string, unknown> },
+): { steps: number; params: Record<string, unknown> } {
+  const steps = z
+    .number()
+    .int()
+    .min(trainer.steps.min)
+    .max(trainer.steps.max)
+    .default(trainer.steps.default)
+    .parse(settings.steps);
+  const params = trainer.params.strict().parse(settings.params ?? {});
+  return { steps, params };
+}
+
+/** Registry as sent to the client — everything but the zod schema and builder */
+export function describeTrainers() {
+  return TRAINERS.map((trainer) => ({
+    id: trainer.id,
+    label: trainer.label,
+    description: trainer.description,
+    steps: trainer.steps,
+    resolution: trainer.resolution,
+    fields: trainer.fields,
+    defaults: trainer.params.parse({}) as Record<string, number | boolean>,
+  }));
+}
@@ -0,0 +1,103 @@
+import crypto from "node:crypto";
+import { getDb } from "../db";
+
+function generateId(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
+
+/** One log line as FAL reports it */
+export interface TrainingLogLine {
+  message: string;
+  level?: string | null;
+  timestamp?: string | null;
+}
+
+/** Rows per INSERT — keeps each statement well under SQLite's variable limit */
+const INSERT_CHUNK_SIZE = 500;
+
+/**
+ * Store the full log of a training, replacing whatever was stored before.
+ * FAL returns the whole log on every status call, so the latest copy wins.
+ */
+export async function replaceTrainingLogs(
+  loraTrainingId: string,
+  logs: TrainingLogLine[],
+): Promise<void> {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+
+  await db
+    .deleteFrom("lora_training_logs")
+    .where("lora_training_id", "=", loraTrainingId)
+    .execute();
+
+  for (let start = 0; start < logs.length; start += INSERT_CHUNK_SIZE) {
+    await db
+      .insertInto("lora_training_logs")
+      .values(
+        logs.slice(start, start + INSERT_CHUNK_SIZE).map((line, i) => ({
+          id: generateId(),
+          lora_training_id: loraTrainingId,
+          position: start + i,
+          level: line.level ?? null,
+          message: line.message,
+          logged_at: line.timestamp ?? null,
+          created_at: createdAt,
+        })),
+      )
+      .execute();
+  }
+}
+
+/**
+ * Store log lines starting at line `from`. Lines that are already stored
+ * are left alone, so overlapping appends are harmless.
+ */
+export async function appendTrainingLogs(
+  loraTrainingId: string,
+  from: number,
+  lines: TrainingLogLine[],
+): Promise<void> {
+  const db = getDb();
+  const createdAt = new Date().toISOString();
+
+  for (let start = 0; start < lines.length; start += INSERT_CHUNK_SIZE) {
+    await db
+      .insertInto("lora_training_logs")
+      .values(
+        lines.slice(start, start + INSERT_CHUNK_SIZE).map((line, i) => ({
+          id: generateId(),
+          lora_training_id: loraTrainingId,
+          position: from + start + i,
+          level: line.level ?? null,
+          message: line.message,
+          logged_at: line.timestamp ?? null,
+          created_at: createdAt,
+        })),
+      )
+      .onConflict((oc) =>
+        oc.columns(["lora_training_id", "position"]).doNothing(),
+      )
+      .execute();
+  }
+}
+
+/**
+ * Stored log of a training, in order.
+ */
+export async function getTrainingLogs(
+  loraTrainingId: string,
+): Promise<{ message: string; level: string | null; timestamp: string | null }[]> {
+  const rows = await getDb()
+    .selectFrom("lora_training_logs")
+    .select(["message", "level", "logged_at"])
+    .where("lora_training_id", "=", loraTrainingId)
+    .orderBy("position")
+    .execute();
+
+  return rows.map((row) => ({
+    message: row.message,
+    level: row.level,
+    timestamp: row.logged_at,
+  }));
+}
@@ -0,0 +1,249 @@
+import { fal } from "@fal-ai/client";
+import { getDb, type LoraTrainingStatus } from "../db";
+import { getFalWebhookUrl } from "../env";
+import { ensureFalConfigured } from "./fal";
+import { fetchTrainingOutcome, settleTraining } from "./reconcile";
+import {
+  appendTrainingLogs,
+  getTrainingLogs,
+  type TrainingLogLine,
+} from "./training-logs";
+import { trainerEndpoint } from "./trainers";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type FalQueueStatus = "IN_QUEUE" | "IN_PROGRESS" | "COMPLETED";
+
+export type TrainingEvent =
+  | { type: "status"; status: FalQueueStatus; queuePosition: number | null }
+  /** Log lines starting at line `from` — replaces anything from there on */
+  | { type: "logs"; from: number; lines: TrainingLogLine[] }
+  | {
+      type: "settled";
+      status: LoraTrainingStatus;
+      loraWeightsUrl: string | null;
+      errorMessage: string | null;
+    };
+
+/** A training as the watcher needs it: its FAL request and where it ran */
+export interface TrainingRef {
+  requestId: string;
+  loraTrainingId: string;
+  trainer: string;
+}
+
+/** One FAL request being polled on behalf of every subscriber to it */
+interface Watcher {
+  requestId: string;
+  loraTrainingId: string;
+  trainer: string;
+  status: FalQueueStatus | null;
+  queuePosition: number | null;
+  logs: TrainingLogLine[];
+  listeners: Set<(event: TrainingEvent) => void>;
+  timer: ReturnType<typeof setTimeout> | null;
+  ready: Promise<void>;
+}
+
+// ─── Watchers ────────────────────────────────────────────────────────────────
+
+export const WATCH_INTERVAL_MS = 2000;
+
+/**
+ * With a webhook configured FAL reports the outcome itself, so the queue
+ * is only polled for status and log lines, and much less often.
+ */
+export const WEBHOOK_WATCH_INTERVAL_MS = 15_000;
+
+const watchers = new Map<string, Watcher>();
+
+function emit(watcher: Watcher, event: TrainingEvent) {
+  for (const listener of watcher.listeners) listener(event);
+}
+
+function stopWatcher(watcher: Watcher) {
+  if (watcher.timer) clearTimeout(watcher.timer);
+  watcher.timer = null;
+  if (watchers.get(watcher.requestId) === watcher) {
+    watchers.delete(watcher.requestId);
+  }
+}
+
+async function loadSettled(
+  loraTrainingId: string,
+): Promise<Extract<TrainingEvent, { type: "settled" }> | null> {
+  const row = await getDb()
+    .selectFrom("lora_trainings")
+    .select(["status", "lora_weights_url", "error_message"])
+    .where("id", "=", loraTrainingId)
+    .executeTakeFirst();
+  if (!row || row.status === "pending" || row.status === "submitting") {
+    return null;
+  }
+  return {
+    type: "settled",
+    status: row.status,
+    loraWeightsUrl: row.lora_weights_url,
+    errorMessage: row.error_message,
+  };
+}
+
+/**
+ * One poll of the FAL queue: emit what changed, persist new log lines and,
+ * without a webhook, settle the row once FAL is done with the request.
+ */
+async function poll(watcher: Watcher): Promise<boolean> {
+  await watcher.ready;
+  const status = await fal.queue.status(trainerEndpoint(watcher.trainer), {
+    requestId: watcher.requestId,
+    logs: true,
+  });
+
+  const queuePosition =
+    status.status === "IN_QUEUE" ? status.queue_position : null;
+  if (
+    status.status !== watcher.status ||
+    queuePosition !== watcher.queuePosition
+  ) {
+    watcher.status = status.status;
+    watcher.queuePosition = queuePosition;
+    emit(watcher, { type: "status", status: status.status, queuePosition });
+  }
+
+  const logs = "logs" in status && Array.isArray(status.logs) ? status.logs : [];
+  if (logs.length > watcher.logs.length) {
+    const from = watcher.logs.length;
+    const lines = logs.slice(from).map((log) => ({
+      message: log.message,
+      level: log.level,
+      timestamp: log.timestamp,
+    }));
+    watcher.logs.push(...lines);
+    emit(watcher, { type: "logs", from, lines });
+    await appendTrainingLogs(watcher.loraTrainingId, from, lines);
+  }
+
+  // The webhook may already have settled the row
+  let settled = await loadSettled(watcher.loraTrainingId);
+  if (!settled && status.status === "COMPLETED" && !getFalWebhookUrl()) {
+    await settleTraining(
+      watcher.loraTrainingId,
+      await fetchTrainingOutcome(watcher.requestId, watcher.trainer),
+    );
+    settled = await loadSettled(watcher.loraTrainingId);
+  }
+  if (settled) {
+    emit(watcher, settled);
+    return true;
+  }
+  return false;
+}
+
+function schedule(watcher: Watcher) {
+  watcher.timer = setTimeout(async () => {
+    if (watcher.listeners.size === 0) return stopWatcher(watcher);
+    try {
+      if (await poll(watcher)) return stopWatcher(watcher);
+    } catch (error) {
+      // Transient — keep the subscribers and try again next tick
+      console.error(`[watcher] Poll failed for ${watcher.requestId}:`, error);
+    }
+    if (watcher.timer) schedule(watcher);
+  }, getFalWebhookUrl() ? WEBHOOK_WATCH_INTERVAL_MS : WATCH_INTERVAL_MS);
+}
+
+function getWatcher(params: TrainingRef): Watcher {
+  const { requestId, loraTrainingId } = params;
+  const existing = watchers.get(requestId);
+  if (existing) return existing;
+
+  ensureFalConfigured();
+
+  const watcher: Watcher = {
+    requestId,
+    loraTrainingId,
+    trainer: params.trainer,
+    status: null,
+    queuePosition: null,
+    logs: [],
+    listeners: new Set(),
+    timer: null,
+    ready: Promise.resolve(),
+  };
+  // Pick up lines persisted by an earlier watcher or the webhook
+  watcher.ready = getTrainingLogs(loraTrainingId).then((logs) => {
+    watcher.logs = logs;
+  });
+  watchers.set(requestId, watcher);
+  schedule(watcher);
+  return watcher;
+}
+
+/** Number of requests currently being polled — for tests and diagnostics */
+export function activeWatcherCount(): number {
+  return watchers.size;
+}
+
+// ─── Subscribing ─────────────────────────────────────────────────────────────
+
+/**
+ * Stream a training's progress: a snapshot of what is known so far, then
+ * status changes, new log lines and finally the settled row. Every
+ * subscriber to the same request shares one FAL poll.
+ */
+export async function* watchTraining(
+  params: TrainingRef,
+  signal?: AbortSignal,
+): AsyncGenerator<TrainingEvent> {
+  const settled = await loadSettled(params.loraTrainingId);
+  if (settled) {
+    yield {
+      type: "logs",
+      from: 0,
+      lines: await getTrainingLogs(params.loraTrainingId),
+    };
+    yield settled;
+    return;
+  }
+
+  const watcher = getWatcher(params);
+  const queue: TrainingEvent[] = [];
+  let wake: (() => void) | null = null;
+  const listener = (event: TrainingEvent) => {
+    queue.push(event);
+    wake?.();
+  };
+  const onAbort = () => wake?.();
+  watcher.listeners.add(listener);
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    await watcher.ready;
+    if (watcher.status) {
+      yield {
+        type: "status",
+        status: watcher.status,
+        queuePosition: watcher.queuePosition,
+      };
+    }
+    yield { type: "logs", from: 0, lines: [...watcher.logs] };
+
+    while (!signal?.aborted) {
+      if (queue.length === 0) {
+        await new Promise<void>((resolve) => {
+          wake = resolve;
+        });
+        wake = null;
+      }
+      while (queue.length > 0) {
+        const event = queue.shift()!;
+        yield event;
+        if (event.type === "settled") return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+    watcher.listeners.delete(listener);
+    if (watcher.listeners.size === 0) stopWatcher(watcher);
+  }
+}
@@ -5,6 +5,7 @@ import { paymentRouter } from "./features/payment";
 import { loraRouter } from "./features/lora";
 import { generateRouter } from "./features/generate";
 import { slideshowRouter } from "./features/slideshow";
+import { adminRouter } from "./features/admin";
 
 export const appRouter = router({
   fal: falRouter,
@@ -13,7 +14,16 @@ export const appRouter = router({
   lora: loraRouter,
   generate: generateRouter,
   slideshow: slideshowRouter,
+  admin: adminRouter,
 });
 
 export type AppRouter = typeof appRouter;
 export type { Context } from "./trpc";
+export { receiveFalWebhook } from "./features/fal-webhook";
+export { readLocalAsset } from "./features/asset-storage";
+export { sendImageZip } from "./features/image-zip-download";
+export {
+  checkRateLimit,
+  RateLimitError,
+  resolveClientIp,
+} from "./rate-limit";
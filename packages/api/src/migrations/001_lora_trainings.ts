@@ -0,0 +1,42 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * lora_trainings as originally created by `ensureLoraTable`. `ifNotExists`
+ * lets databases bootstrapped by that function adopt this migration.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("lora_trainings")
+    .ifNotExists()
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("request_id", "text", (col) => col.unique().notNull())
+    .addColumn("wallet_address", "text", (col) => col.notNull())
+    .addColumn("trigger_word", "text", (col) => col.notNull())
+    .addColumn("steps", "integer", (col) => col.notNull())
+    .addColumn("image_urls", "text", (col) => col.notNull())
+    .addColumn("lora_weights_url", "text")
+    .addColumn("arena_channel_url", "text")
+    .addColumn("arena_channel_title", "text")
+    .addColumn("status", "text", (col) =>
+      col.notNull().defaultTo(sql`'pending'`),
+    )
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_lora_trainings_created_at")
+    .ifNotExists()
+    .on("lora_trainings")
+    .column("created_at")
+    .execute();
+  await db.schema
+    .createIndex("idx_lora_trainings_status")
+    .ifNotExists()
+    .on("lora_trainings")
+    .column("status")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("lora_trainings").execute();
+}
@@ -0,0 +1,43 @@
+import type { Kysely } from "kysely";
+
+/**
+ * generated_images as originally created by `ensureGeneratedImagesTable`.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("generated_images")
+    .ifNotExists()
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("lora_training_id", "text", (col) => col.notNull())
+    .addColumn("wallet_address", "text", (col) => col.notNull())
+    .addColumn("prompt", "text", (col) => col.notNull())
+    .addColumn("image_url", "text", (col) => col.notNull())
+    .addColumn("image_width", "integer")
+    .addColumn("image_height", "integer")
+    .addColumn("seed", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_gen_images_lora")
+    .ifNotExists()
+    .on("generated_images")
+    .column("lora_training_id")
+    .execute();
+  await db.schema
+    .createIndex("idx_gen_images_wallet")
+    .ifNotExists()
+    .on("generated_images")
+    .column("wallet_address")
+    .execute();
+  await db.schema
+    .createIndex("idx_gen_images_created")
+    .ifNotExists()
+    .on("generated_images")
+    .column("created_at")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("generated_images").execute();
+}
@@ -0,0 +1,23 @@
+import type { Kysely } from "kysely";
+
+/**
+ * Record why a training failed or was cancelled.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  // Databases bootstrapped by the old ensureLoraTable may already have it
+  const tables = await db.introspection.getTables();
+  const loraTrainings = tables.find((t) => t.name === "lora_trainings");
+  if (loraTrainings?.columns.some((c) => c.name === "error_message")) return;
+
+  await db.schema
+    .alterTable("lora_trainings")
+    .addColumn("error_message", "text")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_trainings")
+    .dropColumn("error_message")
+    .execute();
+}
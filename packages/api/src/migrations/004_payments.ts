@@ -0,0 +1,40 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * Payments ledger — one row per on-chain payment, claimed by at most one
+ * training run.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("payments")
+    .ifNotExists()
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("tx_hash", "text", (col) => col.unique().notNull())
+    .addColumn("payer_address", "text", (col) => col.notNull())
+    .addColumn("asset", "text", (col) => col.notNull().defaultTo(sql`'ETH'`))
+    .addColumn("value_wei", "text", (col) => col.notNull())
+    .addColumn("eth_price_usd", "real", (col) => col.notNull())
+    .addColumn("lora_training_id", "text")
+    .addColumn("refund_tx_hash", "text", (col) => col.unique())
+    .addColumn("claimed_at", "text")
+    .addColumn("refunded_at", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_payments_payer")
+    .ifNotExists()
+    .on("payments")
+    .column("payer_address")
+    .execute();
+  await db.schema
+    .createIndex("idx_payments_lora")
+    .ifNotExists()
+    .on("payments")
+    .column("lora_training_id")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("payments").execute();
+}
@@ -0,0 +1,43 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * Refund queue — at most one refund per payment, driven through
+ * queued → sent → confirmed | failed.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("refunds")
+    .ifNotExists()
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("payment_id", "text", (col) => col.unique().notNull())
+    .addColumn("recipient_address", "text", (col) => col.notNull())
+    .addColumn("asset", "text", (col) => col.notNull())
+    .addColumn("amount", "text", (col) => col.notNull())
+    .addColumn("reason", "text", (col) => col.notNull())
+    .addColumn("status", "text", (col) =>
+      col.notNull().defaultTo(sql`'queued'`),
+    )
+    .addColumn("nonce", "integer")
+    .addColumn("tx_hash", "text")
+    .addColumn("tx_hashes", "text", (col) => col.notNull().defaultTo(sql`'[]'`))
+    .addColumn("max_fee_per_gas", "text")
+    .addColumn("max_priority_fee_per_gas", "text")
+    .addColumn("attempts", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("last_error", "text")
+    .addColumn("sent_at", "text")
+    .addColumn("confirmed_at", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("updated_at", "text", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_refunds_status")
+    .ifNotExists()
+    .on("refunds")
+    .column("status")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("refunds").execute();
+}
@@ -0,0 +1,66 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * Move training image URLs out of the JSON-encoded
+ * `lora_trainings.image_urls` column into one row per image.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("lora_training_images")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("lora_training_id", "text", (col) => col.notNull())
+    .addColumn("position", "integer", (col) => col.notNull())
+    .addColumn("image_url", "text", (col) => col.notNull())
+    .addColumn("arena_block_id", "integer")
+    .addColumn("title", "text")
+    .addColumn("width", "integer")
+    .addColumn("height", "integer")
+    .addColumn("byte_size", "integer")
+    .addColumn("content_hash", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addUniqueConstraint("uq_lora_training_images_position", [
+      "lora_training_id",
+      "position",
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex("idx_lora_training_images_url")
+    .on("lora_training_images")
+    .column("image_url")
+    .execute();
+  await db.schema
+    .createIndex("idx_lora_training_images_hash")
+    .on("lora_training_images")
+    .column("content_hash")
+    .execute();
+
+  // Backfill — rows whose JSON does not parse have no recoverable images
+  await sql`
+    INSERT INTO lora_training_images (id, lora_training_id, position, image_url, created_at)
+    SELECT lower(hex(randomblob(16))), t.id, j.key, j.value, t.created_at
+    FROM lora_trainings t, json_each(t.image_urls) j
+    WHERE json_valid(t.image_urls) AND j.type = 'text'
+  `.execute(db);
+
+  await db.schema.alterTable("lora_trainings").dropColumn("image_urls").execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_trainings")
+    .addColumn("image_urls", "text", (col) => col.notNull().defaultTo("[]"))
+    .execute();
+
+  await sql`
+    UPDATE lora_trainings SET image_urls = (
+      SELECT coalesce(json_group_array(image_url), '[]') FROM (
+        SELECT image_url FROM lora_training_images
+        WHERE lora_training_id = lora_trainings.id
+        ORDER BY position
+      )
+    )
+  `.execute(db);
+
+  await db.schema.dropTable("lora_training_images").execute();
+}
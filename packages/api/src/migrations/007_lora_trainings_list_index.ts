@@ -0,0 +1,17 @@
+import type { Kysely } from "kysely";
+
+/**
+ * Cover lora.list's `status = 'completed' ORDER BY created_at, id` keyset
+ * pagination with a single index.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createIndex("idx_lora_trainings_status_created_id")
+    .on("lora_trainings")
+    .columns(["status", "created_at", "id"])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex("idx_lora_trainings_status_created_id").execute();
+}
@@ -0,0 +1,26 @@
+import type { Kysely } from "kysely";
+
+/**
+ * FAL training logs, one row per line, kept after the request leaves the
+ * FAL queue.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("lora_training_logs")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("lora_training_id", "text", (col) => col.notNull())
+    .addColumn("position", "integer", (col) => col.notNull())
+    .addColumn("level", "text")
+    .addColumn("message", "text", (col) => col.notNull())
+    .addColumn("logged_at", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addUniqueConstraint("uq_lora_training_logs_position", [
+      "lora_training_id",
+      "position",
+    ])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("lora_training_logs").execute();
+}
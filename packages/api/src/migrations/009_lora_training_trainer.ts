@@ -0,0 +1,26 @@
+import type { Kysely } from "kysely";
+
+/**
+ * Record which trainer a LoRA was trained with and its extra parameters.
+ * Every earlier row used FAL's fast FLUX LoRA trainer.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_trainings")
+    .addColumn("trainer", "text", (col) =>
+      col.notNull().defaultTo("flux-lora-fast"),
+    )
+    .execute();
+  await db.schema
+    .alterTable("lora_trainings")
+    .addColumn("trainer_params", "text")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_trainings")
+    .dropColumn("trainer_params")
+    .execute();
+  await db.schema.alterTable("lora_trainings").dropColumn("trainer").execute();
+}
@@ -0,0 +1,18 @@
+import type { Kysely } from "kysely";
+
+/**
+ * The caption each training image was zipped with, if any.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_training_images")
+    .addColumn("caption", "text")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("lora_training_images")
+    .dropColumn("caption")
+    .execute();
+}
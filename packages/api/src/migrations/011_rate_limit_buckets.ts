@@ -0,0 +1,25 @@
+import type { Kysely } from "kysely";
+
+/**
+ * Token buckets for the libsql rate-limit store, one row per
+ * rule and requester (wallet or IP).
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("rate_limit_buckets")
+    .addColumn("key", "text", (col) => col.primaryKey())
+    .addColumn("tokens", "real", (col) => col.notNull())
+    .addColumn("updated_at", "integer", (col) => col.notNull())
+    .addColumn("expires_at", "integer", (col) => col.notNull())
+    .execute();
+
+  await db.schema
+    .createIndex("idx_rate_limit_buckets_expires_at")
+    .on("rate_limit_buckets")
+    .column("expires_at")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("rate_limit_buckets").execute();
+}
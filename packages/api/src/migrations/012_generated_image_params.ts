@@ -0,0 +1,43 @@
+import { sql, type Kysely } from "kysely";
+
+const COLUMNS = [
+  ["full_prompt", "text"],
+  ["image_size", "text"],
+  ["num_inference_steps", "integer"],
+  ["guidance_scale", "real"],
+  ["lora_scale", "real"],
+  ["num_images", "integer"],
+] as const;
+
+/**
+ * The settings each image was generated with, so a batch can be
+ * reproduced. Earlier images all used the same fixed settings, which are
+ * filled in for them.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  for (const [name, type] of COLUMNS) {
+    await db.schema
+      .alterTable("generated_images")
+      .addColumn(name, type)
+      .execute();
+  }
+
+  await sql`
+    UPDATE generated_images SET
+      full_prompt = prompt || ' in the style of ' || (
+        SELECT trigger_word FROM lora_trainings
+        WHERE lora_trainings.id = generated_images.lora_training_id
+      ),
+      image_size = 'square_hd',
+      num_inference_steps = 28,
+      guidance_scale = 3.5,
+      lora_scale = 1.5,
+      num_images = 4
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  for (const [name] of COLUMNS) {
+    await db.schema.alterTable("generated_images").dropColumn(name).execute();
+  }
+}
@@ -0,0 +1,36 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * The LoRAs each image was generated with, in order, so a mix shows up on
+ * the page of every LoRA in it. Earlier images used only their own LoRA.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("generated_image_loras")
+    .addColumn("generated_image_id", "text", (col) => col.notNull())
+    .addColumn("position", "integer", (col) => col.notNull())
+    .addColumn("lora_training_id", "text", (col) => col.notNull())
+    .addColumn("scale", "real", (col) => col.notNull())
+    .addPrimaryKeyConstraint("pk_generated_image_loras", [
+      "generated_image_id",
+      "position",
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex("idx_generated_image_loras_lora")
+    .on("generated_image_loras")
+    .column("lora_training_id")
+    .execute();
+
+  await sql`
+    INSERT INTO generated_image_loras
+      (generated_image_id, position, lora_training_id, scale)
+    SELECT id, 0, lora_training_id, coalesce(lora_scale, 1.5)
+    FROM generated_images
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("generated_image_loras").execute();
+}
@@ -0,0 +1,40 @@
+import type { Kysely } from "kysely";
+
+const COLUMNS = [
+  ["source_kind", "text"],
+  ["source_image_url", "text"],
+  ["source_generated_image_id", "text"],
+  ["mask_url", "text"],
+  ["strength", "real"],
+] as const;
+
+/**
+ * Image-to-image and inpainting: the mode each image was generated in and
+ * the source (and mask) it started from. Earlier images are all
+ * text-to-image.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable("generated_images")
+    .addColumn("mode", "text", (col) => col.notNull().defaultTo("text"))
+    .execute();
+  for (const [name, type] of COLUMNS) {
+    await db.schema
+      .alterTable("generated_images")
+      .addColumn(name, type)
+      .execute();
+  }
+
+  await db.schema
+    .createIndex("idx_gen_images_source")
+    .on("generated_images")
+    .column("source_generated_image_id")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex("idx_gen_images_source").execute();
+  for (const [name] of [...COLUMNS, ["mode"]]) {
+    await db.schema.alterTable("generated_images").dropColumn(name).execute();
+  }
+}
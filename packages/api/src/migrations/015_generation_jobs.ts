@@ -0,0 +1,58 @@
+import { sql, type Kysely } from "kysely";
+
+/**
+ * Generations run on the FAL queue like trainings. A job is driven through
+ * queued → running → completed | failed, and the images it produced point
+ * back at it.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("generation_jobs")
+    .addColumn("id", "text", (col) => col.primaryKey())
+    .addColumn("request_id", "text", (col) => col.unique().notNull())
+    .addColumn("wallet_address", "text", (col) => col.notNull())
+    .addColumn("lora_training_id", "text", (col) => col.notNull())
+    .addColumn("endpoint", "text", (col) => col.notNull())
+    .addColumn("status", "text", (col) =>
+      col.notNull().defaultTo(sql`'queued'`),
+    )
+    .addColumn("params", "text", (col) => col.notNull())
+    .addColumn("num_images", "integer", (col) => col.notNull())
+    .addColumn("nsfw_filtered", "integer", (col) => col.notNull().defaultTo(0))
+    .addColumn("error_message", "text")
+    .addColumn("created_at", "text", (col) => col.notNull())
+    .addColumn("completed_at", "text")
+    .execute();
+
+  await db.schema
+    .createIndex("idx_generation_jobs_wallet")
+    .on("generation_jobs")
+    .columns(["wallet_address", "created_at"])
+    .execute();
+
+  await db.schema
+    .createIndex("idx_generation_jobs_status")
+    .on("generation_jobs")
+    .column("status")
+    .execute();
+
+  await db.schema
+    .alterTable("generated_images")
+    .addColumn("generation_job_id", "text")
+    .execute();
+
+  await db.schema
+    .createIndex("idx_gen_images_job")
+    .on("generated_images")
+    .column("generation_job_id")
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropIndex("idx_gen_images_job").execute();
+  await db.schema
+    .alterTable("generated_images")
+    .dropColumn("generation_job_id")
+    .execute();
+  await db.schema.dropTable("generation_jobs").execute();
+}
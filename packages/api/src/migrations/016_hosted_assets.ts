@@ -0,0 +1,44 @@
+import type { Kysely } from "kysely";
+
+const IMAGE_COLUMNS = [
+  ["original_image_url", "text"],
+  ["byte_size", "integer"],
+  ["content_hash", "text"],
+  ["hosted_at", "text"],
+] as const;
+
+const WEIGHTS_COLUMNS = [
+  ["lora_weights_original_url", "text"],
+  ["lora_weights_byte_size", "integer"],
+  ["lora_weights_content_hash", "text"],
+  ["lora_weights_hosted_at", "text"],
+] as const;
+
+/**
+ * Re-hosted assets. Once a generated image or LoRA weights file is copied
+ * to our storage, its URL column points at the copy and the FAL URL moves
+ * to the `original` column, next to the copy's size and SHA-256.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  for (const [name, type] of IMAGE_COLUMNS) {
+    await db.schema
+      .alterTable("generated_images")
+      .addColumn(name, type)
+      .execute();
+  }
+  for (const [name, type] of WEIGHTS_COLUMNS) {
+    await db.schema
+      .alterTable("lora_trainings")
+      .addColumn(name, type)
+      .execute();
+  }
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  for (const [name] of IMAGE_COLUMNS) {
+    await db.schema.alterTable("generated_images").dropColumn(name).execute();
+  }
+  for (const [name] of WEIGHTS_COLUMNS) {
+    await db.schema.alterTable("lora_trainings").dropColumn(name).execute();
+  }
+}
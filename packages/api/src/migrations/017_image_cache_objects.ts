@@ -0,0 +1,19 @@
+import type { Kysely } from "kysely";
+
+/**
+ * Objects of the libsql image cache store — downloaded images by content
+ * hash and the URL entries pointing at them.
+ */
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable("image_cache_objects")
+    .addColumn("key", "text", (col) => col.primaryKey())
+    .addColumn("data", "blob", (col) => col.notNull())
+    .addColumn("size", "integer", (col) => col.notNull())
+    .addColumn("stored_at", "integer", (col) => col.notNull())
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable("image_cache_objects").execute();
+}
@@ -0,0 +1,45 @@
+import type { Migration } from "kysely";
+import * as m001 from "./001_lora_trainings";
+import * as m002 from "./002_generated_images";
+import * as m003 from "./003_lora_training_errors";
+import * as m004 from "./004_payments";
+import * as m005 from "./005_refunds";
+import * as m006 from "./006_lora_training_images";
+import * as m007 from "./007_lora_trainings_list_index";
+import * as m008 from "./008_lora_training_logs";
+import * as m009 from "./009_lora_training_trainer";
+import * as m010 from "./010_lora_training_image_captions";
+import * as m011 from "./011_rate_limit_buckets";
+import * as m012 from "./012_generated_image_params";
+import * as m013 from "./013_generated_image_loras";
+import * as m014 from "./014_generated_image_sources";
+import * as m015 from "./015_generation_jobs";
+import * as m016 from "./016_hosted_assets";
+import * as m017 from "./017_image_cache_objects";
+
+/**
+ * Every schema migration, keyed by name. Names sort in the order they run;
+ * never rename or edit one that has shipped — add a new one instead.
+ *
+ * Imported statically (rather than read from disk by FileMigrationProvider)
+ * so the set is the same under tsx, vitest and the Next.js bundle.
+ */
+export const migrations: Record<string, Migration> = {
+  "001_lora_trainings": m001,
+  "002_generated_images": m002,
+  "003_lora_training_errors": m003,
+  "004_payments": m004,
+  "005_refunds": m005,
+  "006_lora_training_images": m006,
+  "007_lora_trainings_list_index": m007,
+  "008_lora_training_logs": m008,
+  "009_lora_training_trainer": m009,
+  "010_lora_training_image_captions": m010,
+  "011_rate_limit_buckets": m011,
+  "012_generated_image_params": m012,
+  "013_generated_image_loras": m013,
+  "014_generated_image_sources": m014,
+  "015_generation_jobs": m015,
+  "016_hosted_assets": m016,
+  "017_image_cache_objects": m017,
+};
@@ -0,0 +1,330 @@
+import { sql } from "kysely";
+import { getDb } from "./db";
+import {
+  getRateLimitStoreKind,
+  getTrustedProxyCount,
+  isVercel,
+} from "./env";
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** `limit` requests per `windowMs`, refilled continuously (token bucket) */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/** Limits for one procedure or route, per signed-in wallet and per IP */
+export interface RateLimitRules {
+  wallet?: RateLimitRule;
+  ip?: RateLimitRule;
+}
+
+/** Who is making a request — either part may be unknown */
+export interface Requester {
+  walletAddress?: string | null;
+  ip?: string | null;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number };
+
+export interface RateLimitStore {
+  /**
+   * Take one token from the bucket at `key`. When it is empty, returns how
+   * long until a token is available instead.
+   */
+  consume(
+    key: string,
+    rule: RateLimitRule,
+    now: number,
+  ): Promise<RateLimitResult>;
+  /** Whether `consume` would take a token right now, without taking it */
+  peek(
+    key: string,
+    rule: RateLimitRule,
+    now: number,
+  ): Promise<RateLimitResult>;
+}
+
+/** A request over its limit; `retryAfterMs` until it may try again */
+export class RateLimitError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(readonly retryAfterMs: number) {
+    const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super(
+      `Too many requests. Try again in ${seconds} second${seconds === 1 ? "" : "s"}.`,
+    );
+    this.name = "RateLimitError";
+    this.retryAfterSeconds = seconds;
+  }
+}
+
+// ─── Limits ──────────────────────────────────────────────────────────────────
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/** Every rate limit in the app, by procedure or route name */
+export const RATE_LIMITS = {
+  // Each call pages through the are.na API
+  "arena.getChannelImages": {
+    wallet: { limit: 30, windowMs: MINUTE },
+    ip: { limit: 30, windowMs: MINUTE },
+  },
+  // Each call is an RPC to BASE for the Uniswap quote
+  "payment.getEthPrice": {
+    wallet: { limit: 20, windowMs: MINUTE },
+    ip: { limit: 20, windowMs: MINUTE },
+  },
+  // Download up to 20 images each
+  "fal.analyzeDataset": {
+    wallet: { limit: 10, windowMs: 10 * MINUTE },
+    ip: { limit: 20, windowMs: 10 * MINUTE },
+  },
+  imageZip: {
+    wallet: { limit: 10, windowMs: 10 * MINUTE },
+    ip: { limit: 20, windowMs: 10 * MINUTE },
+  },
+  "fal.trainLora": {
+    wallet: { limit: 10, windowMs: HOUR },
+    ip: { limit: 20, windowMs: HOUR },
+  },
+  // Bursts only — the daily batch quota is enforced by the procedure
+  "generate.images": {
+    wallet: { limit: 5, windowMs: MINUTE },
+  },
+  // Sign-in nonces, SIWE verification and session checks
+  auth: {
+    ip: { limit: 60, windowMs: MINUTE },
+  },
+} as const satisfies Record<string, RateLimitRules>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+// ─── Stores ──────────────────────────────────────────────────────────────────
+
+/** Past this many buckets the memory store sweeps out full ones */
+const MEMORY_SWEEP_SIZE = 10_000;
+
+/** Per-process buckets — fine for dev and single-instance deploys */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<
+    string,
+    { tokens: number; updatedAt: number; expiresAt: number }
+  >();
+
+  function available(key: string, rule: RateLimitRule, now: number) {
+    const bucket = buckets.get(key);
+    return bucket
+      ? Math.min(
+          rule.limit,
+          bucket.tokens +
+            Math.max(0, now - bucket.updatedAt) * (rule.limit / rule.windowMs),
+        )
+      : rule.limit;
+  }
+
+  return {
+    async consume(key, rule, now) {
+      const rate = rule.limit / rule.windowMs;
+      const tokens = available(key, rule, now);
+
+      if (buckets.size > MEMORY_SWEEP_SIZE) {
+        // Expired buckets are full again and carry no state
+        for (const [other, { expiresAt }] of buckets) {
+          if (expiresAt < now) buckets.delete(other);
+        }
+      }
+
+      if (tokens < 1) {
+        return { allowed: false, retryAfterMs: (1 - tokens) / rate };
+      }
+      buckets.set(key, {
+        tokens: tokens - 1,
+        updatedAt: now,
+        expiresAt: now + rule.windowMs,
+      });
+      return { allowed: true };
+    },
+
+    async peek(key, rule, now) {
+      const tokens = available(key, rule, now);
+      return tokens < 1
+        ? {
+            allowed: false,
+            retryAfterMs: (1 - tokens) / (rule.limit / rule.windowMs),
+          }
+        : { allowed: true };
+    },
+  };
+}
+
+/**
+ * Buckets in the app database, shared by every instance. Refill and take
+ * happen in one upsert, so concurrent requests can't both spend the last
+ * token.
+ */
+export function createLibsqlRateLimitStore(): RateLimitStore {
+  return {
+    async consume(key, rule, now) {
+      const db = getDb();
+      const rate = rule.limit / rule.windowMs;
+      const expiresAt = now + rule.windowMs;
+      const refilled = sql<number>`min(${rule.limit}, tokens + max(0, ${now} - updated_at) * ${rate})`;
+
+      const taken = await sql<{ tokens: number }>`
+        INSERT INTO rate_limit_buckets (key, tokens, updated_at, expires_at)
+        VALUES (${key}, ${rule.limit - 1}, ${now}, ${expiresAt})
+        ON CONFLICT (key) DO UPDATE SET
+          tokens = ${refilled} - 1,
+          updated_at = ${now},
+          expires_at = ${expiresAt}
+        WHERE ${refilled} >= 1
+        RETURNING tokens
+      `.execute(db);
+
+      // Expired buckets are full again; clear them out now and then
+      if (Math.random() < 0.01) {
+        await db
+          .deleteFrom("rate_limit_buckets")
+          .where("expires_at", "<", now)
+          .execute();
+      }
+
+      if (taken.rows.length > 0) return { allowed: true };
+
+      const tokens = (await availableTokens(key, rule, now)) ?? 0;
+      return { allowed: false, retryAfterMs: Math.max(0, 1 - tokens) / rate };
+    },
+
+    async peek(key, rule, now) {
+      const tokens = (await availableTokens(key, rule, now)) ?? rule.limit;
+      return tokens < 1
+        ? {
+            allowed: false,
+            retryAfterMs: (1 - tokens) / (rule.limit / rule.windowMs),
+          }
+        : { allowed: true };
+    },
+  };
+}
+
+/** Tokens in a stored bucket after refilling, or null if there is none */
+async function availableTokens(
+  key: string,
+  rule: RateLimitRule,
+  now: number,
+): Promise<number | null> {
+  const bucket = await getDb()
+    .selectFrom("rate_limit_buckets")
+    .select(["tokens", "updated_at"])
+    .where("key", "=", key)
+    .executeTakeFirst();
+  if (!bucket) return null;
+  return Math.min(
+    rule.limit,
+    bucket.tokens +
+      Math.max(0, now - bucket.updated_at) * (rule.limit / rule.windowMs),
+  );
+}
+
+let store: RateLimitStore | null = null;
+
+/** Swap the bucket store, e.g. in tests */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+function getStore(): RateLimitStore {
+  if (!store) {
+    store =
+      getRateLimitStoreKind() === "libsql"
+        ? createLibsqlRateLimitStore()
+        : createMemoryRateLimitStore();
+  }
+  return store;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+let untrustedProxyWarned = false;
+
+/**
+ * Behind Vercel's proxy the socket peer is always the proxy, so with no
+ * trusted proxies every client would share one IP bucket. Said once per
+ * process, on the first lookup.
+ */
+function warnIfProxyUntrusted(proxies: number): void {
+  if (untrustedProxyWarned || proxies > 0 || !isVercel()) return;
+  untrustedProxyWarned = true;
+  console.warn(
+    "[rate-limit] Running on Vercel with TRUSTED_PROXY_COUNT unset — " +
+      "every client shares the proxy's IP limit. Set TRUSTED_PROXY_COUNT=1.",
+  );
+}
+
+/**
+ * The client's IP for rate limiting. Each trusted proxy appends the address
+ * it received the request from to x-forwarded-for, so the client is the
+ * entry the outermost one added — counting from the right, as entries to
+ * its left are whatever the client sent. Without trusted proxies it is the
+ * socket peer.
+ */
+export function resolveClientIp(request: {
+  forwardedFor?: string | string[] | null;
+  remoteAddress?: string | null;
+}): string | null {
+  const proxies = getTrustedProxyCount();
+  warnIfProxyUntrusted(proxies);
+  const entries = [request.forwardedFor ?? []]
+    .flat()
+    .flatMap((header) => header.split(","))
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (proxies > 0 && entries.length > 0) {
+    return entries[Math.max(0, entries.length - proxies)];
+  }
+  return request.remoteAddress ?? null;
+}
+
+/**
+ * Spend one request of `name`'s limits for the requester's wallet and IP.
+ * Throws RateLimitError if either bucket is empty — checked before taking
+ * from any, so a request the IP limit refuses costs the wallet nothing. A
+ * requester with neither (e.g. a server-side caller) is not limited.
+ */
+export async function checkRateLimit(
+  name: RateLimitName,
+  requester: Requester,
+  now = Date.now(),
+): Promise<void> {
+  const rules: RateLimitRules = RATE_LIMITS[name];
+  const buckets: [string, RateLimitRule][] = [];
+  if (rules.wallet && requester.walletAddress) {
+    buckets.push([
+      `${name}:wallet:${requester.walletAddress.toLowerCase()}`,
+      rules.wallet,
+    ]);
+  }
+  if (rules.ip && requester.ip) {
+    buckets.push([`${name}:ip:${requester.ip}`, rules.ip]);
+  }
+
+  const limited = (key: string, retryAfterMs: number) => {
+    console.log(`[rate-limit] ${key} limited for ${Math.ceil(retryAfterMs)}ms`);
+    return new RateLimitError(retryAfterMs);
+  };
+
+  for (const [key, rule] of buckets) {
+    const result = await getStore().peek(key, rule, now);
+    if (!result.allowed) throw limited(key, result.retryAfterMs);
+  }
+  // A concurrent request can still take the last token in between
+  for (const [key, rule] of buckets) {
+    const result = await getStore().consume(key, rule, now);
+    if (!result.allowed) throw limited(key, result.retryAfterMs);
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Send a signed, FAL-shaped training webhook to a local app — for testing
+ * the webhook route end to end without a public URL.
+ *
+ * Usage (from packages/api):
+ *   pnpm fake-webhook keygen
+ *   pnpm fake-webhook send <requestId> [--error <message>]
+ *     [--weights-url <url>] [--url http://localhost:3000/api/fal/webhook]
+ *
+ * `keygen` prints a key pair: put FAL_WEBHOOK_TRUSTED_KEYS in the app's env
+ * and FAKE_FAL_WEBHOOK_PRIVATE_KEY in this shell's env.
+ */
+import crypto from "node:crypto";
+
+const DEFAULT_URL = "http://localhost:3000/api/fal/webhook";
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(name);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function keygen() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+  const x = publicKey.export({ format: "jwk" }).x;
+  const pkcs8 = privateKey.export({ format: "der", type: "pkcs8" });
+  console.log(`FAL_WEBHOOK_TRUSTED_KEYS=${x}`);
+  console.log(`FAKE_FAL_WEBHOOK_PRIVATE_KEY=${pkcs8.toString("base64")}`);
+}
+
+async function send(argv: string[]) {
+  const requestId = argv[0];
+  if (!requestId || requestId.startsWith("--")) {
+    throw new Error("Usage: fake-webhook send <requestId> [--error <message>]");
+  }
+  const encodedKey = process.env.FAKE_FAL_WEBHOOK_PRIVATE_KEY;
+  if (!encodedKey) {
+    throw new Error(
+      "FAKE_FAL_WEBHOOK_PRIVATE_KEY is not set. Run `pnpm fake-webhook keygen` first.",
+    );
+  }
+  const privateKey = crypto.createPrivateKey({
+    key: Buffer.from(encodedKey, "base64"),
+    format: "der",
+    type: "pkcs8",
+  });
+
+  const error = option(argv, "--error");
+  const weightsUrl =
+    option(argv, "--weights-url") ??
+    "https://v3.fal.media/files/fake/pytorch_lora_weights.safetensors";
+  const body = JSON.stringify(
+    error
+      ? { request_id: requestId, status: "ERROR", error, payload: null }
+      : {
+          request_id: requestId,
+          status: "OK",
+          payload: {
+            diffusers_lora_file: { url: weightsUrl },
+            config_file: { url: "https://v3.fal.media/files/fake/config.json" },
+          },
+        },
+  );
+
+  const userId = "fake-user";
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const bodyHash = crypto.createHash("sha256").update(body).digest("hex");
+  const signature = crypto.sign(
+    null,
+    Buffer.from([requestId, userId, timestamp, bodyHash].join("\n")),
+    privateKey,
+  );
+
+  const url = option(argv, "--url") ?? DEFAULT_URL;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      "x-fal-webhook-request-id": requestId,
+      "x-fal-webhook-user-id": userId,
+      "x-fal-webhook-timestamp": timestamp,
+      "x-fal-webhook-signature": signature.toString("hex"),
+    },
+    body,
+  });
+  console.log(`${response.status} ${await response.text()}`);
+  if (!response.ok) process.exitCode = 1;
+}
+
+const [command, ...rest] = process.argv.slice(2);
+if (command === "keygen") {
+  keygen();
+} else if (command === "send") {
+  await send(rest);
+} else {
+  console.error("Usage: fake-webhook <keygen | send <requestId> [options]>");
+  process.exitCode = 1;
+}
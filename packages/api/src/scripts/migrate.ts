@@ -0,0 +1,57 @@
+/**
+ * Run schema migrations against TURSO_DATABASE_URL.
+ *
+ * Usage (from packages/api):
+ *   pnpm migrate            # apply every pending migration (same as `latest`)
+ *   pnpm migrate up         # apply the next pending migration
+ *   pnpm migrate down       # revert the most recent migration
+ *   pnpm migrate status     # list migrations and whether they have run
+ */
+import type { MigrationResultSet } from "kysely";
+import { getDb, getMigrator } from "../db";
+
+const command = process.argv[2] ?? "latest";
+const migrator = getMigrator();
+
+function report({ error, results = [] }: MigrationResultSet): void {
+  for (const result of results) {
+    const verb = result.direction === "Up" ? "applied" : "reverted";
+    if (result.status === "Success") {
+      console.log(`✓ ${verb} ${result.migrationName}`);
+    } else if (result.status === "Error") {
+      console.error(`✗ failed to ${result.direction.toLowerCase()} ${result.migrationName}`);
+    }
+  }
+  if (results.length === 0 && !error) {
+    console.log("Nothing to do");
+  }
+  if (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  }
+}
+
+switch (command) {
+  case "latest":
+    report(await migrator.migrateToLatest());
+    break;
+  case "up":
+    report(await migrator.migrateUp());
+    break;
+  case "down":
+    report(await migrator.migrateDown());
+    break;
+  case "status":
+    for (const migration of await migrator.getMigrations()) {
+      const state = migration.executedAt
+        ? `applied ${migration.executedAt.toISOString()}`
+        : "pending";
+      console.log(`${migration.name.padEnd(32)} ${state}`);
+    }
+    break;
+  default:
+    console.error(`Unknown command "${command}". Use latest, up, down or status.`);
+    process.exitCode = 1;
+}
+
+await getDb().destroy();
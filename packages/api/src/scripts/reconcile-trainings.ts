@@ -0,0 +1,69 @@
+/**
+ * Reconcile pending lora_trainings rows and in-flight generation jobs
+ * against the FAL queue, then drive the refund queue (including refunds
+ * queued by this run). With STORAGE_BACKEND set it also copies settled
+ * LoRA weights and generated images that are still on FAL's CDN.
+ *
+ * Usage (from packages/api):
+ *   pnpm reconcile [--limit 50] [--dry-run]
+ *
+ * Point TURSO_DATABASE_URL at a local file (e.g. `file:local.db`) to run
+ * against a local libsql database.
+ */
+import {
+  backfillGeneratedImages,
+  backfillLoraWeights,
+  getAssetStore,
+} from "../features/asset-storage";
+import { reconcilePendingTrainings } from "../features/reconcile";
+import { reconcileGenerationJobs } from "../features/generation-jobs";
+import { processRefunds } from "../features/refunds";
+
+function parseArgs(argv: string[]): { limit?: number; dryRun: boolean } {
+  const limitIndex = argv.indexOf("--limit");
+  const limit = limitIndex >= 0 ? Number(argv[limitIndex + 1]) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error("--limit must be a positive integer");
+  }
+  return { limit, dryRun: argv.includes("--dry-run") };
+}
+
+const options = parseArgs(process.argv.slice(2));
+const summary = await reconcilePendingTrainings(options);
+
+console.log(
+  `${options.dryRun ? "[dry run] " : ""}Checked ${summary.checked}: ` +
+    `${summary.completed} completed, ${summary.failed} failed, ` +
+    `${summary.pending} still pending, ${summary.unknown} unknown to FAL, ` +
+    `${summary.errors} errors, ${summary.refundsQueued} refunds queued`,
+);
+
+const generations = await reconcileGenerationJobs(options);
+
+console.log(
+  `${options.dryRun ? "[dry run] " : ""}Checked ${generations.checked} generations: ` +
+    `${generations.completed} completed, ${generations.failed} failed, ` +
+    `${generations.pending} still in flight, ${generations.errors} errors`,
+);
+
+if (!options.dryRun) {
+  const refunds = await processRefunds();
+  console.log(
+    `Refunds: ${refunds.queued} queued, ${refunds.sent} sent, ` +
+      `${refunds.confirmed} confirmed, ${refunds.failed} failed`,
+  );
+}
+
+if (!options.dryRun && getAssetStore()) {
+  // Settling never downloads; whatever is still on FAL is copied here, a
+  // batch per run like the reconciler's
+  const limit = options.limit ?? 50;
+  const loras = await backfillLoraWeights({ limit });
+  const images = await backfillGeneratedImages({ limit });
+  console.log(
+    `Hosted ${loras.hosted} LoRA weights and ${images.hosted} images, ` +
+      `${loras.failed + images.failed} failed`,
+  );
+}
+
+process.exit(summary.errors + generations.errors > 0 ? 1 : 0);
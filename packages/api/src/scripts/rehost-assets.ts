@@ -0,0 +1,47 @@
+/**
+ * Copy generated images and LoRA weights that still point at FAL's CDN to
+ * our own storage (STORAGE_BACKEND), recording the original URL, size and
+ * checksum. Rows that fail are logged and left for the next run.
+ *
+ * Usage (from packages/api):
+ *   pnpm rehost [--limit 100] [--dry-run]
+ *
+ * Point TURSO_DATABASE_URL at a local file (e.g. `file:local.db`) to run
+ * against a local libsql database.
+ */
+import {
+  backfillGeneratedImages,
+  backfillLoraWeights,
+  getAssetStore,
+  type BackfillSummary,
+} from "../features/asset-storage";
+
+function parseArgs(argv: string[]): { limit?: number; dryRun: boolean } {
+  const limitIndex = argv.indexOf("--limit");
+  const limit = limitIndex >= 0 ? Number(argv[limitIndex + 1]) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error("--limit must be a positive integer");
+  }
+  return { limit, dryRun: argv.includes("--dry-run") };
+}
+
+const options = parseArgs(process.argv.slice(2));
+
+function describe(label: string, summary: BackfillSummary): string {
+  return options.dryRun
+    ? `[dry run] ${label}: ${summary.checked} to host`
+    : `${label}: ${summary.checked} checked, ${summary.hosted} hosted, ` +
+        `${summary.failed} failed`;
+}
+
+if (!getAssetStore()) {
+  console.error("STORAGE_BACKEND is not set — nothing to host assets on.");
+  process.exit(1);
+}
+
+const loras = await backfillLoraWeights(options);
+console.log(describe("LoRA weights", loras));
+const images = await backfillGeneratedImages(options);
+console.log(describe("Generated images", images));
+
+process.exit(loras.failed + images.failed > 0 ? 1 : 0);
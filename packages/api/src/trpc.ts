@@ -1,10 +1,36 @@
 import { initTRPC, TRPCError } from '@trpc/server';
+import { isAddress, isAddressEqual } from 'viem';
+import { getAdminWallet } from './env';
+import { checkRateLimit, RateLimitError, type RateLimitName } from './rate-limit';
 
 export type Context = {
   session: { user: { id: string; walletAddress: string } } | null;
+  /** Client IP, when the HTTP adapter knows it */
+  ip?: string | null;
 };
 
-const t = initTRPC.context<Context>().create();
+const t = initTRPC.context<Context>().create({
+  // Rate-limited errors tell the client how long to wait
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        retryAfterSeconds:
+          error.cause instanceof RateLimitError
+            ? error.cause.retryAfterSeconds
+            : null,
+      },
+    };
+  },
+  sse: {
+    // Keep idle streams alive through proxies, and end each one before
+    // serverless function limits do — the client reconnects on its own
+    ping: { enabled: true, intervalMs: 15_000 },
+    maxDurationMs: 4 * 60 * 1000,
+    client: { reconnectAfterInactivityMs: 30_000 },
+  },
+});
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
@@ -17,3 +43,49 @@ const enforceAuth = t.middleware(({ ctx, next }) => {
 });
 
 export const protectedProcedure = t.procedure.use(enforceAuth);
+
+/**
+ * Check whether a wallet address is the configured admin wallet.
+ */
+export function isAdminWallet(walletAddress: string): boolean {
+  const adminWallet = getAdminWallet();
+  if (!adminWallet || !isAddress(adminWallet)) return false;
+  if (!walletAddress || !isAddress(walletAddress)) return false;
+  return isAddressEqual(walletAddress, adminWallet);
+}
+
+const enforceAdmin = t.middleware(({ ctx, next }) => {
+  if (!ctx.session?.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED' });
+  }
+  if (!isAdminWallet(ctx.session.user.walletAddress)) {
+    throw new TRPCError({ code: 'FORBIDDEN' });
+  }
+  return next({ ctx: { session: ctx.session } });
+});
+
+export const adminProcedure = t.procedure.use(enforceAdmin);
+
+/**
+ * Token-bucket limit per wallet and per IP, configured by name in
+ * RATE_LIMITS. Over the limit, fails with TOO_MANY_REQUESTS and
+ * `data.retryAfterSeconds`.
+ */
+export function rateLimit(name: RateLimitName) {
+  return t.middleware(async ({ ctx, next }) => {
+    try {
+      await checkRateLimit(name, {
+        walletAddress: ctx.session?.user.walletAddress,
+        ip: ctx.ip,
+      });
+    } catch (error) {
+      if (!(error instanceof RateLimitError)) throw error;
+      throw new TRPCError({
+        code: 'TOO_MANY_REQUESTS',
+        message: error.message,
+        cause: error,
+      });
+    }
+    return next();
+  });
+}
@@ -2,6 +2,7 @@ declare module 'are.na' {
   interface ArenaBlock {
     id: number;
     title: string;
+    description?: string | null;
     class: string;
     image?: {
       thumb: { url: string };